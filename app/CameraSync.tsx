@@ -0,0 +1,57 @@
+"use client";
+
+import React from "react";
+import * as THREE from "three";
+import { useThree } from "@react-three/fiber";
+import { CameraState } from "./map/ProjectFile";
+
+type Props = {
+	camera: CameraState | null;
+	onChange: (camera: CameraState) => void;
+};
+
+type Controls = THREE.EventDispatcher<any> & { target: THREE.Vector3; update: () => void };
+
+const round = (v: number) => Math.round(v * 1000) / 1000;
+
+/**
+ * CameraSync
+ *
+ * Sincroniza la vista 3D con el estado del proyecto: al soltar la cámara (evento "end" de OrbitControls)
+ * publica { position, target, fov } con onChange; cuando `camera` cambia desde fuera (proyecto abierto o
+ * recuperado) coloca la cámara y el punto mirado. Requiere <OrbitControls makeDefault />.
+ */
+export default function CameraSync({ camera, onChange }: Props) {
+	const cam = useThree(s => s.camera) as THREE.PerspectiveCamera;
+	const controls = useThree(s => s.controls) as unknown as Controls | null;
+	const onChangeRef = React.useRef(onChange);
+	onChangeRef.current = onChange;
+
+	React.useEffect(() => {
+		if (!controls) return;
+		const handler = () => onChangeRef.current({
+			position: cam.position.toArray().map(round),
+			target: controls.target.toArray().map(round),
+			fov: cam.fov
+		});
+		controls.addEventListener("end", handler);
+		return () => controls.removeEventListener("end", handler);
+	}, [cam, controls]);
+
+	React.useEffect(() => {
+		if (!camera || !controls) return;
+		const [px, py, pz] = camera.position;
+		const [tx, ty, tz] = camera.target;
+		// la propia vista ya está ahí (el cambio vino de onChange)
+		if (cam.position.distanceTo(new THREE.Vector3(px, py, pz)) < 1e-2 && controls.target.distanceTo(new THREE.Vector3(tx, ty, tz)) < 1e-2) return;
+		cam.position.set(px, py, pz);
+		controls.target.set(tx, ty, tz);
+		if (camera.fov && camera.fov !== cam.fov) {
+			cam.fov = camera.fov;
+			cam.updateProjectionMatrix();
+		}
+		controls.update();
+	}, [camera, cam, controls]);
+
+	return null;
+}
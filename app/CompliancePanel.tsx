@@ -0,0 +1,163 @@
+"use client";
+
+import React from "react";
+import { HeatmapResult, Params } from "./types";
+import {
+	classifyCompliance, COMPLIANCE_CLASSES, COMPLIANCE_COLORS, ComplianceZone, DEFAULT_MARGIN,
+	polygonZone, ZONE_COLORS, ZONE_LABELS, ZONE_PRESETS, ZoneType
+} from "./acoustics/Compliance";
+import { INDICATOR_LABELS, INDICATOR_PERIOD, Period, PERIOD_LABELS, PERIODS } from "./acoustics/TimePeriods";
+
+// zona en curso de dibujo sobre el suelo (vértices [x,z] añadidos con clic en ZoneDrawer)
+export type ZoneDraft = { type: ZoneType; points: number[][] };
+
+type Props = {
+	params: Params;
+	setParams: React.Dispatch<React.SetStateAction<Params>>;
+	heatmap?: HeatmapResult;
+	draft: ZoneDraft | null;
+	setDraft: (draft: ZoneDraft | null) => void;
+};
+
+const ZONE_TYPES = Object.keys(ZONE_PRESETS) as ZoneType[];
+
+// m² con separador de miles y sin decimales
+const fmtArea = (v: number) => Math.round(v).toLocaleString("es-ES");
+
+/**
+ * CompliancePanel
+ *
+ * Modo cumplimiento (params.mapMode === "compliance"): zonas acústicas con sus límites por periodo y, para
+ * cada una, los m² que cumplen, quedan a menos del margen del límite o lo superan (classifyCompliance sobre
+ * el mapa calculado). "Dibujar zona" activa el dibujo sobre el suelo (ZoneDrawer): cada clic añade un
+ * vértice y "Terminar" crea la zona con los límites de referencia de su tipo (editables en la tabla).
+ */
+export default function CompliancePanel({ params, setParams, heatmap, draft, setDraft }: Props) {
+	const compliance = params.compliance ?? {};
+	const zones: ComplianceZone[] = compliance.zones ?? [];
+	const period = compliance.period ?? "day";
+	const margin = compliance.margin ?? DEFAULT_MARGIN;
+	const indicator = params.indicator ?? "steady";
+	const [newType, setNewType] = React.useState<ZoneType>("residential");
+
+	const setCompliance = (patch: Partial<NonNullable<Params["compliance"]>>) => setParams(p => ({ ...p, compliance: { ...(p.compliance ?? {}), ...patch } }));
+	const setZones = (fn: (zs: ComplianceZone[]) => ComplianceZone[]) => setParams(p => ({ ...p, compliance: { ...(p.compliance ?? {}), zones: fn(p.compliance?.zones ?? []) } }));
+	const updateZone = (idx: number, patch: Partial<ComplianceZone>) => setZones(zs => zs.map((z, i) => i === idx ? { ...z, ...patch } : z));
+
+	const finishDraft = () => {
+		if (!draft || draft.points.length < 3) return;
+		setZones(zs => [...zs, polygonZone(draft.type, draft.points, `${ZONE_LABELS[draft.type]} ${zs.length + 1}`)]);
+		setDraft(null);
+	};
+
+	const summary = React.useMemo(() => heatmap?.x?.length ? classifyCompliance(heatmap, params.compliance).zones : [], [heatmap, params.compliance]);
+
+	const cell: React.CSSProperties = { padding: "2px 4px", fontSize: 11 };
+	const button: React.CSSProperties = { padding: "4px 8px", borderRadius: 4, background: "#444", color: "#fff", border: "none", cursor: "pointer", fontSize: 11 };
+
+	return (
+		<div style={{ position: "absolute", right: 12, bottom: 12, background: "rgba(0,0,0,0.75)", padding: 12, borderRadius: 8, color: "#fff", fontFamily: "sans-serif", zIndex: 1100, width: 380, maxHeight: "45vh", overflowY: "auto" }}>
+			<div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", marginBottom: 8 }}>
+				<div style={{ fontSize: 13, fontWeight: 700 }}>Cumplimiento de límites</div>
+				<div style={{ display: "flex", alignItems: "center", gap: 6, fontSize: 11 }}>
+					<select value={period} onChange={(e) => setCompliance({ period: e.target.value as Period })} style={{ padding: "1px 2px", borderRadius: 3 }}>
+						{PERIODS.map(p => <option key={p} value={p}>{PERIOD_LABELS[p]}</option>)}
+					</select>
+					<label title="Franja bajo el límite que se marca como cerca del límite">margen</label>
+					<input type="number" value={margin} min={0} max={20} step={0.5}
+						onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCompliance({ margin: Math.max(0, Number(e.target.value || 0)) })}
+						style={{ width: 40, padding: "1px 2px", borderRadius: 3 }} /> dB
+				</div>
+			</div>
+
+			<div style={{ display: "flex", gap: 8, marginBottom: 8, fontSize: 10 }}>
+				{COMPLIANCE_CLASSES.map((label, k) => (
+					<span key={label} style={{ display: "flex", alignItems: "center", gap: 3 }}>
+						<span style={{ width: 10, height: 10, borderRadius: 2, background: COMPLIANCE_COLORS[k], display: "inline-block" }} />{label}
+					</span>
+				))}
+			</div>
+
+			<table style={{ width: "100%", borderCollapse: "collapse" }}>
+				<thead>
+					<tr style={{ textAlign: "left", borderBottom: "1px solid #666" }}>
+						<th style={cell}>Zona</th><th style={cell}>Tipo</th>
+						{PERIODS.map(p => <th key={p} style={{ ...cell, fontWeight: p === period ? 700 : 400 }}>{PERIOD_LABELS[p][0]}</th>)}
+						<th style={cell} />
+					</tr>
+				</thead>
+				<tbody>
+					{zones.map((zone, idx) => {
+						const s = summary[idx];
+						const total = s ? s.area[0] + s.area[1] + s.area[2] : 0;
+						return (
+							<React.Fragment key={idx}>
+								<tr>
+									<td style={cell}>
+										<input type="text" value={zone.name ?? ""} placeholder={`Zona ${idx + 1}`}
+											onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateZone(idx, { name: e.target.value })}
+											style={{ width: 90, padding: "1px 2px", borderRadius: 3, borderLeft: `4px solid ${ZONE_COLORS[zone.type]}` }} />
+									</td>
+									<td style={cell}>
+										<select value={zone.type} title="Cambiar el tipo aplica sus límites de referencia"
+											onChange={(e) => { const type = e.target.value as ZoneType; updateZone(idx, { type, limits: { ...ZONE_PRESETS[type] } }); }}
+											style={{ padding: "1px 2px", borderRadius: 3 }}>
+											{ZONE_TYPES.map(t => <option key={t} value={t}>{ZONE_LABELS[t]}</option>)}
+										</select>
+									</td>
+									{PERIODS.map(p => (
+										<td key={p} style={cell}>
+											<input type="number" value={zone.limits[p]} step={1}
+												onChange={(e: React.ChangeEvent<HTMLInputElement>) => { const v = Number(e.target.value || 0); updateZone(idx, { limits: { ...zone.limits, [p]: v } }); }}
+												style={{ width: 38, padding: "1px 2px", borderRadius: 3 }} />
+										</td>
+									))}
+									<td style={cell}>
+										<button onClick={() => setZones(zs => zs.filter((_, i) => i !== idx))}
+											style={{ padding: "0 6px", borderRadius: 4, background: "#444", color: "#fff", border: "none", cursor: "pointer" }}>×</button>
+									</td>
+								</tr>
+								<tr style={{ color: "#ccc" }}>
+									<td style={{ ...cell, paddingLeft: 12 }} colSpan={6}>
+										{s && total > 0
+											? COMPLIANCE_CLASSES.map((label, k) => (
+												<span key={label} style={{ marginRight: 8 }} title={label}>
+													<span style={{ color: COMPLIANCE_COLORS[k] }}>■</span> {fmtArea(s.area[k])} m² ({Math.round(100 * s.area[k] / total)} %)
+												</span>
+											))
+											: "Sin celdas calculadas dentro de la zona"}
+										{s && Number.isFinite(s.maxLp) && <span title={`Límite ${s.limit} dB`}> · máx. {s.maxLp.toFixed(1)} dB</span>}
+									</td>
+								</tr>
+							</React.Fragment>
+						);
+					})}
+				</tbody>
+			</table>
+			{!zones.length && <div style={{ fontSize: 11, color: "#aaa", marginTop: 6 }}>Sin zonas: dibuja una sobre el suelo</div>}
+
+			<div style={{ display: "flex", alignItems: "center", gap: 6, marginTop: 8 }}>
+				{draft ? (
+					<>
+						<div style={{ flex: 1, fontSize: 11 }}>Clic en el suelo para añadir vértices ({draft.points.length})</div>
+						<button onClick={finishDraft} disabled={draft.points.length < 3} style={{ ...button, background: "#2e7d32", opacity: draft.points.length < 3 ? 0.5 : 1 }}>Terminar</button>
+						<button onClick={() => setDraft(null)} style={button}>Cancelar</button>
+					</>
+				) : (
+					<>
+						<select value={newType} onChange={(e) => setNewType(e.target.value as ZoneType)} style={{ flex: 1, padding: "2px 4px", borderRadius: 4 }}>
+							{ZONE_TYPES.map(t => <option key={t} value={t}>{ZONE_LABELS[t]} ({ZONE_PRESETS[t].day}/{ZONE_PRESETS[t].evening}/{ZONE_PRESETS[t].night} dB)</option>)}
+						</select>
+						<button onClick={() => setDraft({ type: newType, points: [] })} style={{ ...button, background: "#2e7d32" }}>Dibujar zona</button>
+					</>
+				)}
+			</div>
+			{!!zones.length && indicator !== "steady" && INDICATOR_PERIOD[indicator] !== period && (
+				<div style={{ fontSize: 10, color: "#ffcc80", marginTop: 6 }}>El mapa muestra {INDICATOR_LABELS[indicator]}: los límites de {PERIOD_LABELS[period].toLowerCase()} se comparan con otro indicador</div>
+			)}
+			{!!zones.length && params.mapMode !== "compliance" && (
+				<div style={{ fontSize: 10, color: "#ffcc80", marginTop: 6 }}>El mapa no está en modo cumplimiento: los colores siguen mostrando el nivel</div>
+			)}
+		</div>
+	);
+}
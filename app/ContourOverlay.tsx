@@ -0,0 +1,40 @@
+"use client";
+
+import React from "react";
+import { Html, Line } from "@react-three/drei";
+import { ContourLine } from "./map/Contours";
+
+type Props = {
+	contours: ContourLine[];
+	y?: number; // altura sobre el plano del mapa (m)
+};
+
+// color por nivel: tonos fríos para niveles bajos, cálidos para los altos
+const levelColor = (level: number) => {
+	const t = Math.max(0, Math.min(1, (level - 35) / 35));
+	return `hsl(${Math.round(200 - 200 * t)}, 90%, 85%)`;
+};
+
+/**
+ * ContourOverlay
+ *
+ * Isolíneas del mapa (useContours) dibujadas como líneas 3D sobre el plano del heatmap, con el nivel
+ * rotulado (HTML) a mitad de cada línea. Los límites normativos (55/60/65 dB...) se leen como líneas,
+ * no como transición de color de la textura.
+ */
+export default function ContourOverlay({ contours, y = 0.08 }: Props) {
+	return (
+		<group>
+			{contours.map((c, idx) => (
+				<group key={`${c.level}-${idx}`}>
+					<Line points={c.points.map(([x, z]) => [x, y, z] as [number, number, number])} color={levelColor(c.level)} lineWidth={1.5} />
+					<Html position={[c.label[0], y, c.label[1]]} center zIndexRange={[900, 0]} style={{ pointerEvents: "none" }}>
+						<div style={{ fontSize: 10, fontFamily: "sans-serif", color: "#fff", background: "rgba(0,0,0,0.6)", padding: "0 3px", borderRadius: 3, whiteSpace: "nowrap" }}>
+							{c.level} dB
+						</div>
+					</Html>
+				</group>
+			))}
+		</group>
+	);
+}
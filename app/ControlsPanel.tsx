@@ -1,28 +1,53 @@
 import React from "react";
-import { getBuildingConfig, defaultParams } from "./config";
-import { Building, Params, LwSide } from "./types";
+import { defaultParams, getDefaultScene } from "./config";
+import { Params, LwSide, Scene, SceneBuilding, HeatmapResult } from "./types";
+import { GroundRegion, rectangleRegion } from "./acoustics/GroundRegions";
+import { createSceneBuilding, nextBuildingId, syncLwBySegment, updateBuilding } from "./geometry/scene";
+import { presetFootprint } from "./geometry/footprint";
+import { GeoOrigin, footprintsToScene, heatmapToGeoJSON, importFootprints, sceneToGeoJSON } from "./map/GeoJSON";
+import { downloadText, readFileText } from "./lib/download";
+import { facadeColor } from "./map/Contributions";
+import { exportHeatmapChart } from "./map/HeatmapChart";
+import { formatIssues } from "./lib/schema";
+import { readSourceLevels } from "./schemas";
+import RoomEditor from "./RoomEditor";
+import FacadeEditor from "./FacadeEditor";
+import SourcePanel, { SourceDraft } from "./SourcePanel";
+import { roomLwBySegment, roomSegments } from "./acoustics/RoomModel";
+import { INDICATOR_LABELS, indicatorLw, NoiseIndicator, Period, PERIOD_HOURS, PERIOD_LABELS, PERIODS, periodLw } from "./acoustics/TimePeriods";
 
 type Props = {
-  building: Building;
-  setBuilding: React.Dispatch<React.SetStateAction<Building>>;
+  building: SceneBuilding;
+  setBuilding: React.Dispatch<React.SetStateAction<SceneBuilding>>;
   params: Params;
   setParams: React.Dispatch<React.SetStateAction<Params>>;
   setRefreshKey: (fn: (k: number) => number) => void;
   setConfig?: (c: any) => void;
+  scene: Scene;
+  setScene: React.Dispatch<React.SetStateAction<Scene>>;
+  selectedId?: string;
+  setSelectedId: (id: string) => void;
+  editMode?: boolean;
+  setEditMode?: (v: boolean) => void;
+  heatmap?: HeatmapResult;
+  sourceDraft: SourceDraft | null;
+  setSourceDraft: (draft: SourceDraft | null) => void;
 };
 
-export default function ControlsPanel({ building, setBuilding, params, setParams, setRefreshKey }: Props) {
+const SHAPE_TYPES = ["S", "L", "U", "T", "HEX", "CROSS"] as const;
+const INDICATORS = Object.keys(INDICATOR_LABELS) as NoiseIndicator[];
+// color de cada hora en el horario de funcionamiento según su periodo
+const PERIOD_COLORS: Record<Period, string> = { day: "#ffb74d", evening: "#ba68c8", night: "#5c6bc0" };
+const hourPeriod = (h: number) => PERIODS.find(p => PERIOD_HOURS[p].includes(h)) ?? "day";
+
+export default function ControlsPanel({ building, setBuilding, params, setParams, setRefreshKey, scene, setScene, selectedId, setSelectedId, editMode, setEditMode, heatmap, sourceDraft, setSourceDraft }: Props) {
 	// number of segments (rectangle -> 4)
 	const segCount = Array.isArray(building?.LwBySegment) ? building.LwBySegment.length : 0;
 
-	// Input mode: 'Lw' (default) or 'Lp' (if Lp, UI shows/edits Lp values but we store Lw)
+	// Input mode: 'Lw' (default, Lw por lado con sliders) or 'Lp' (salas con Lp interior -> Lw_out por lado, RoomEditor)
 	const inputMode = params?.inputMode ?? "Lw";
-
-	// constants for conversion Lp <-> Lw (approximate, reference distance = 1 m)
-	const FOUR_PI_CONST = 10 * Math.log10(4 * Math.PI);
-	const dbPerMeter = params?.dbPerMeter ?? 0.5;
-	const lpToLw = (lp: number) => lp + FOUR_PI_CONST + dbPerMeter * 1.0;
-	const lwToLp = (lw: number) => lw - (FOUR_PI_CONST + dbPerMeter * 1.0);
+	// en modo Lp los lados con sala toman el Lw del modelo interior; los demás siguen con su slider
+	const roomSides = new Set(inputMode === "Lp" ? roomSegments(building) : []);
 
 	// helper getters with safe fallbacks
 	const overlay = params?.colorOverlay ?? (defaultParams as any).colorOverlay;
@@ -36,54 +61,322 @@ export default function ControlsPanel({ building, setBuilding, params, setParams
 	const redWeight = params?.redWeight ?? 1.0;
 	const yellowWeight = params?.yellowWeight ?? 0.9;
 
+	// suelo (ISO 9613-2): G por defecto + zonas rectangulares
+	const ground = params?.ground ?? (defaultParams as any).ground;
+	const defaultG = ground?.defaultG ?? 0;
+	const groundRegions: GroundRegion[] = ground?.regions ?? [];
+	const [newRegion, setNewRegion] = React.useState({ x: 20, z: 0, width: 20, depth: 20, G: 1 });
+	const setGroundRegions = (fn: (regions: GroundRegion[]) => GroundRegion[]) => {
+		setParams(p => ({ ...p, ground: { ...(p.ground ?? {}), regions: fn(p.ground?.regions ?? []) } }));
+		setRefreshKey(k => k + 1);
+	};
+
+	// escena: alta/baja de edificios y colocación del seleccionado
+	const [newBuilding, setNewBuilding] = React.useState({ width: 16, depth: 12, shape: "S" as string });
+	const setSelectedField = (patch: Partial<Pick<SceneBuilding, "height" | "rotation" | "position">>) => {
+		if (!selectedId) return;
+		setScene(sc => updateBuilding(sc, selectedId, b => ({ ...b, ...patch })));
+		setRefreshKey(k => k + 1);
+	};
+	const addBuilding = () => {
+		const id = nextBuildingId(scene);
+		// colocar el nuevo edificio a la derecha del más alejado en x para no solapar
+		const maxX = Math.max(0, ...scene.buildings.map(b => (b.position?.x ?? 0) + Math.max(...b.footprint.map(p => Math.abs(p[0])))));
+		const nb = createSceneBuilding(id, { position: { x: maxX + 8 + newBuilding.width / 2, z: 0 }, footprint: presetFootprint(newBuilding.shape, newBuilding.width, newBuilding.depth) });
+		setScene(sc => ({ ...sc, buildings: [...sc.buildings, nb] }));
+		setSelectedId(id);
+		setRefreshKey(k => k + 1);
+	};
+	// sustituir la huella del seleccionado por una forma predefinida (LwBySegment se ajusta al nuevo número de lados)
+	const applyShapeToSelected = () => {
+		if (!selectedId) return;
+		setScene(sc => updateBuilding(sc, selectedId, b => {
+			const footprint = presetFootprint(newBuilding.shape, newBuilding.width, newBuilding.depth);
+			// las salas conservan los lados que siguen existiendo; α y composición de fachada se descartan
+			const rooms = b.rooms?.map(r => ({ ...r, segments: r.segments.filter(key => Number(key.replace("segment-", "")) < footprint.length) }));
+			return syncLwBySegment({ ...b, footprint, absorption: undefined, facades: undefined, rooms });
+		}));
+		setRefreshKey(k => k + 1);
+	};
+	const removeSelected = () => {
+		if (!selectedId || scene.buildings.length <= 1) return;
+		const rest = scene.buildings.filter(b => b.id !== selectedId);
+		setScene(sc => ({ ...sc, buildings: sc.buildings.filter(b => b.id !== selectedId) }));
+		setSelectedId(rest[0].id);
+		setRefreshKey(k => k + 1);
+	};
+
+	// reflexiones de primer orden: α por defecto global y α por fachada del edificio seleccionado
+	const reflections = params?.reflections ?? (defaultParams as any).reflections;
+	const defaultAlpha = reflections?.defaultAbsorption ?? 0.1;
+	const setReflections = (patch: Partial<NonNullable<Params["reflections"]>>) => {
+		setParams(p => ({ ...p, reflections: { ...(p.reflections ?? reflections), ...patch } }));
+		setRefreshKey(k => k + 1);
+	};
+
+	// periodos día / tarde / noche: Lw por periodo u horario por hora de cada fachada del seleccionado
+	const indicator = params?.indicator ?? "steady";
+	const [showPeriods, setShowPeriods] = React.useState(false);
+	const setSide = (idx: number, fn: (side: LwSide) => LwSide) => setBuilding(b => {
+		const updated = [...(b.LwBySegment ?? [])];
+		updated[idx] = fn(updated[idx] ?? { value: 0 });
+		return { ...b, LwBySegment: updated };
+	});
+	const setPeriodLw = (idx: number, period: Period, text: string) => setSide(idx, side => {
+		const periods = { ...(side.periods ?? {}) };
+		if (text === "" || !Number.isFinite(Number(text))) delete periods[period];
+		else periods[period] = Number(text);
+		const { periods: _, ...rest } = side;
+		return Object.keys(periods).length ? { ...rest, periods } : rest;
+	});
+	const toggleHour = (idx: number, h: number) => setSide(idx, side => {
+		const schedule = Array.isArray(side.schedule) ? [...side.schedule] : new Array(24).fill(1);
+		schedule[h] = schedule[h] > 0 ? 0 : 1;
+		const { schedule: _, ...rest } = side;
+		return schedule.every(v => v === 1) ? rest : { ...rest, schedule };
+	});
+
+	// isófonas: niveles editables como lista "55, 60, 65"
+	const contours = params?.contours ?? (defaultParams as any).contours;
+	const [levelsText, setLevelsText] = React.useState<string>((contours?.levels ?? []).join(", "));
+	const levelsKey = (contours?.levels ?? []).join(", ");
+	React.useEffect(() => { setLevelsText(levelsKey); }, [levelsKey]);
+	const commitLevels = () => {
+		const levels = levelsText.split(/[,;\s]+/).filter(t => t !== "").map(Number).filter(Number.isFinite);
+		setParams(p => ({ ...p, contours: { ...(p.contours ?? contours), levels } }));
+		setLevelsText(levels.join(", "));
+	};
+
+	// GeoJSON (QGIS): origen EPSG:3857 opcional; vacío = metros locales
+	const [geo, setGeo] = React.useState({ x: "", y: "", lat: "", step: 5 });
+	const [geoWarnings, setGeoWarnings] = React.useState<string[]>([]);
+	// errores / avisos de validación de data/sourceLevels.json (botón "Cargar JSON"): se refieren a los niveles
+	// recién cargados, así que se borran cuando LwBySegment cambia por otra vía (deshacer, sliders, otro edificio)
+	const [levelsIssues, setLevelsIssues] = React.useState<string[]>([]);
+	const levelsLoadedRef = React.useRef(false);
+	React.useEffect(() => {
+		if (levelsLoadedRef.current) levelsLoadedRef.current = false;
+		else setLevelsIssues([]);
+	}, [building.LwBySegment]);
+	const geoOrigin: GeoOrigin | undefined = geo.x !== "" && geo.y !== ""
+		? { x: Number(geo.x), y: Number(geo.y), ...(geo.lat !== "" ? { lat: Number(geo.lat) } : {}) }
+		: undefined;
+	const importGeoJSON = async (file?: File) => {
+		if (!file) return;
+		try {
+			const { footprints, warnings } = importFootprints(JSON.parse(await readFileText(file)), { origin: geoOrigin });
+			setGeoWarnings(footprints.length ? warnings : [...warnings, "No se importó ninguna huella"]);
+			if (!footprints.length) return;
+			// los receptores y las fuentes se conservan; los edificios se sustituyen por los importados
+			const sc = footprintsToScene(footprints);
+			setScene(prev => ({ ...sc, receivers: prev.receivers, ...(prev.sources ? { sources: prev.sources } : {}) }));
+			setSelectedId(sc.buildings[0].id);
+			setRefreshKey(k => k + 1);
+		} catch (e) {
+			setGeoWarnings([`GeoJSON no válido: ${(e as Error).message}`]);
+		}
+	};
+
 	return (
-		<div style={{ position: "absolute", left: 12, top: 12, background: "rgba(0,0,0,0.75)", padding: 12, borderRadius: 8, color: "#fff", fontFamily: "sans-serif", zIndex: 1100, width: 360 }}>
+		<div style={{ position: "absolute", left: 12, top: 12, background: "rgba(0,0,0,0.75)", padding: 12, borderRadius: 8, color: "#fff", fontFamily: "sans-serif", zIndex: 1100, width: 360, maxHeight: "calc(100vh - 24px)", overflowY: "auto" }}>
 			<div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", marginBottom: 8 }}>
 				<div style={{ fontSize: 13, fontWeight: 700 }}>
-					Ajustes — Rectángulo ({segCount} lados)
+					Ajustes — {building?.name ?? "Edificio"} ({segCount} lados)
 				</div>
 				<div style={{ display: "flex", gap: 8, alignItems: "center" }}>
 					<label style={{ fontSize: 12, marginRight: 6 }}>Input mode</label>
 					<select value={inputMode} onChange={(e) => { const mode = e.target.value as "Lw" | "Lp"; setParams(p => ({ ...p, inputMode: mode })); }} style={{ padding: "4px 6px", borderRadius: 4 }}>
 						<option value="Lw">Lw (dB)</option>
-						<option value="Lp">Lp (dB)</option>
+						<option value="Lp">Lp interior (salas)</option>
 					</select>
 				</div>
 			</div>
 
-			{building.LwBySegment && Array.isArray(building.LwBySegment) && building.LwBySegment.map((entry: LwSide, idx: number) => {
-				// displayedValue: if editing in Lp mode, show computed Lp; else show Lw
+			{/* --- Escena (edificios) --- */}
+			<div style={{ display: "flex", flexWrap: "wrap", gap: 4, marginBottom: 6 }}>
+				{scene.buildings.map(b => (
+					<button key={b.id} onClick={() => setSelectedId(b.id)}
+						style={{ padding: "2px 8px", borderRadius: 4, border: "none", cursor: "pointer", color: "#fff", background: b.id === selectedId ? "#007acc" : "#444", fontSize: 11 }}>
+						{b.name ?? b.id}
+					</button>
+				))}
+			</div>
+
+			<div style={{ display: "flex", alignItems: "center", gap: 4, marginBottom: 6, fontSize: 11 }}>
+				{([["x", building?.position?.x ?? 0], ["z", building?.position?.z ?? 0], ["rot (°)", building?.rotation ?? 0], ["altura", building?.height ?? 0]] as [string, number][]).map(([key, value]) => (
+					<label key={key} style={{ display: "flex", flexDirection: "column", fontSize: 10 }}>
+						{key}
+						<input type="number" value={value} step={key === "rot (°)" ? 5 : 1}
+							onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+								const v = Number(e.target.value || 0);
+								if (key === "x") setSelectedField({ position: { x: v, z: building?.position?.z ?? 0 } });
+								else if (key === "z") setSelectedField({ position: { x: building?.position?.x ?? 0, z: v } });
+								else if (key === "rot (°)") setSelectedField({ rotation: v });
+								else setSelectedField({ height: Math.max(0.5, v) });
+							}}
+							style={{ width: 56, padding: "2px 4px", borderRadius: 4 }} />
+					</label>
+				))}
+				<button onClick={removeSelected} disabled={scene.buildings.length <= 1}
+					style={{ alignSelf: "flex-end", padding: "4px 8px", borderRadius: 4, background: "#444", color: "#fff", border: "none", cursor: "pointer" }}>Quitar</button>
+			</div>
+
+			<div style={{ display: "flex", alignItems: "center", gap: 4, marginBottom: 10, fontSize: 11 }}>
+				<select value={newBuilding.shape} onChange={(e) => { const shape = e.target.value; setNewBuilding(r => ({ ...r, shape })); }} style={{ padding: "2px 4px", borderRadius: 4 }}>
+					{SHAPE_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+				</select>
+				{(["width", "depth"] as const).map(key => (
+					<input key={key} type="number" title={key} value={newBuilding[key]} step={1}
+						onChange={(e: React.ChangeEvent<HTMLInputElement>) => { const v = Number(e.target.value || 0); setNewBuilding(r => ({ ...r, [key]: Math.max(1, v) })); }}
+						style={{ width: 40, padding: "2px 4px", borderRadius: 4 }} />
+				))}
+				<button onClick={addBuilding}
+					style={{ padding: "4px 8px", borderRadius: 4, background: "#2e7d32", color: "#fff", border: "none", cursor: "pointer" }}>Añadir</button>
+				<button onClick={applyShapeToSelected}
+					style={{ padding: "4px 8px", borderRadius: 4, background: "#444", color: "#fff", border: "none", cursor: "pointer" }}>Aplicar forma</button>
+			</div>
+
+			{setEditMode && (
+				<div style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 10, fontSize: 11 }}>
+					<button onClick={() => setEditMode(!editMode)}
+						style={{ padding: "4px 8px", borderRadius: 4, background: editMode ? "#ff8f00" : "#444", color: "#fff", border: "none", cursor: "pointer" }}>
+						{editMode ? "Terminar edición" : "Editar huella"}
+					</button>
+					{editMode && <span>arrastrar vértice · clic en ■ inserta · Mayús+clic borra</span>}
+				</div>
+			)}
+
+			{/* --- GeoJSON (importar huellas / exportar isófonas) --- */}
+			<div style={{ display: "flex", alignItems: "center", gap: 4, marginBottom: 4, fontSize: 11 }}>
+				{(["x", "y", "lat"] as const).map(key => (
+					<input key={key} type="number" placeholder={key === "lat" ? "lat (°)" : `origen ${key} (3857)`} value={geo[key]}
+						onChange={(e: React.ChangeEvent<HTMLInputElement>) => { const v = e.target.value; setGeo(g => ({ ...g, [key]: v })); }}
+						style={{ width: key === "lat" ? 56 : 96, padding: "2px 4px", borderRadius: 4 }} />
+				))}
+				<input type="number" title="paso entre isófonas (dB)" value={geo.step} min={1} step={1}
+					onChange={(e: React.ChangeEvent<HTMLInputElement>) => { const v = Number(e.target.value || 0); setGeo(g => ({ ...g, step: Math.max(1, v) })); }}
+					style={{ width: 36, padding: "2px 4px", borderRadius: 4 }} />
+			</div>
+			<div style={{ display: "flex", alignItems: "center", gap: 4, marginBottom: geoWarnings.length ? 4 : 10, fontSize: 11 }}>
+				<label style={{ padding: "4px 8px", borderRadius: 4, background: "#444", cursor: "pointer" }}>
+					Importar GeoJSON
+					<input type="file" accept=".geojson,.json,application/geo+json" style={{ display: "none" }}
+						onChange={(e: React.ChangeEvent<HTMLInputElement>) => { importGeoJSON(e.target.files?.[0]); e.target.value = ""; }} />
+				</label>
+				<button onClick={() => downloadText("huellas.geojson", JSON.stringify(sceneToGeoJSON(scene, { origin: geoOrigin })), "application/geo+json")}
+					style={{ padding: "4px 8px", borderRadius: 4, background: "#444", color: "#fff", border: "none", cursor: "pointer" }}>Exportar huellas</button>
+				<button disabled={!heatmap?.x?.length} onClick={() => heatmap && downloadText("isofonas.geojson", JSON.stringify(heatmapToGeoJSON(heatmap, { origin: geoOrigin, step: geo.step })), "application/geo+json")}
+					style={{ padding: "4px 8px", borderRadius: 4, background: "#444", color: "#fff", border: "none", cursor: "pointer" }}>Exportar isófonas</button>
+			</div>
+			{geoWarnings.length > 0 && (
+				<div style={{ fontSize: 10, color: "#ffcc80", marginBottom: 10 }}>
+					{geoWarnings.map((w, i) => <div key={i}>{w}</div>)}
+				</div>
+			)}
+
+			{inputMode === "Lp" && <RoomEditor building={building} setBuilding={setBuilding} />}
+
+			{Array.isArray(building.LwBySegment) && building.LwBySegment.map((entry: LwSide, idx: number) => {
+				if (roomSides.has(`segment-${idx}`)) return null;
 				const storedLw = Number(entry?.value ?? 0);
-				const displayedValue = inputMode === "Lp" ? Number(lwToLp(storedLw).toFixed(1)) : storedLw;
-				const minVal = inputMode === "Lp" ? -20 : 0;
-				const maxVal = inputMode === "Lp" ? 120 : 120;
 				return (
 				<div key={idx} style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 8 }}>
 					<label style={{ width: 48, fontSize: 12 }}>Seg {idx}</label>
 					<input
 						type="range"
-						min={minVal}
-						max={maxVal}
-						step={inputMode === "Lp" ? 0.1 : 1}
-						value={displayedValue}
+						min={0}
+						max={120}
+						step={1}
+						value={storedLw}
 						onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
-							const v = Number(e.target.value || 0);
-							// convert to stored Lw if necessary
-							const newLw = inputMode === "Lp" ? lpToLw(v) : v;
+							const newLw = Number(e.target.value || 0);
 							setBuilding(b => {
 								const updated = [...(b.LwBySegment ?? [])];
-								updated[idx] = { value: Number(newLw) };
+								// el espectro deja de corresponder al nuevo Lw; periodos y horario se conservan
+								const { spectrum, ...rest } = updated[idx] ?? { value: 0 };
+								updated[idx] = { ...rest, value: Number(newLw) };
 								return { ...b, LwBySegment: updated };
 							});
 						}}
 						style={{ flex: 1 }}
 					/>
 					<div style={{ width: 64, textAlign: "right", fontSize: 12 }}>
-						{displayedValue}{' '}{inputMode === "Lp" ? 'Lp' : 'Lw'}
+						{storedLw} Lw
 					</div>
 				</div>
 			)})}
 
+			<FacadeEditor building={building} setBuilding={setBuilding} rooms={inputMode === "Lp"} />
+
+			<SourcePanel scene={scene} setScene={setScene} draft={sourceDraft} setDraft={setSourceDraft} />
+
+			{/* --- Modo de mapa: nivel / fachada dominante / cumplimiento --- */}
+			<div style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 6 }}>
+				<label style={{ width: 140, fontSize: 12 }}>Modo de mapa</label>
+				<select value={params?.mapMode ?? "level"} onChange={(e) => { const mapMode = e.target.value as NonNullable<Params["mapMode"]>; setParams(p => ({ ...p, mapMode })); }} style={{ flex: 1, padding: "2px 4px", borderRadius: 4 }}>
+					<option value="level">Nivel (dB)</option>
+					<option value="dominant">Fachada dominante</option>
+					<option value="compliance">Cumplimiento de límites</option>
+				</select>
+			</div>
+			<div style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 6 }}>
+				<label style={{ width: 140, fontSize: 12 }}>Indicador</label>
+				<select value={indicator} onChange={(e) => { const next = e.target.value as NoiseIndicator; setParams(p => ({ ...p, indicator: next })); }} style={{ flex: 1, padding: "2px 4px", borderRadius: 4 }}>
+					{INDICATORS.map(k => <option key={k} value={k}>{INDICATOR_LABELS[k]}</option>)}
+				</select>
+				<button onClick={() => setShowPeriods(v => !v)}
+					style={{ padding: "4px 8px", borderRadius: 4, background: showPeriods ? "#007acc" : "#444", color: "#fff", border: "none", cursor: "pointer" }}>Periodos</button>
+			</div>
+			{showPeriods && (
+				<div style={{ marginBottom: 8, fontSize: 11 }}>
+					<div style={{ fontSize: 10, color: "#aaa", marginBottom: 4 }}>
+						Lw por periodo (vacío: Lw constante con el horario) · clic en una hora para pararla / activarla
+					</div>
+					{(inputMode === "Lp" ? roomLwBySegment(building) : (building.LwBySegment ?? [])).map((side: LwSide, idx: number) => (
+						<div key={idx} style={{ marginBottom: 6 }}>
+							<div style={{ display: "flex", alignItems: "center", gap: 4 }}>
+								<label style={{ width: 48 }}>Seg {idx}</label>
+								{PERIODS.map(p => (
+									<input key={p} type="number" step={1} disabled={roomSides.has(`segment-${idx}`)}
+										title={roomSides.has(`segment-${idx}`) ? "La sala fija el Lw (el horario sí se aplica)" : `Lw ${PERIOD_LABELS[p].toLowerCase()} (dB)`}
+										value={side?.periods?.[p] ?? ""} placeholder={`${PERIOD_LABELS[p][0]} ${Number.isFinite(periodLw(side, p)) ? periodLw(side, p).toFixed(0) : "—"}`}
+										onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPeriodLw(idx, p, e.target.value)}
+										style={{ width: 52, padding: "1px 2px", borderRadius: 3 }} />
+								))}
+								<span style={{ flex: 1, textAlign: "right" }} title="Lw equivalente de la fachada para Lden">Lden {Number.isFinite(indicatorLw(side, "Lden")) ? indicatorLw(side, "Lden").toFixed(1) : "—"}</span>
+							</div>
+							<div style={{ display: "flex", gap: 1, marginTop: 2, marginLeft: 52 }}>
+								{Array.from({ length: 24 }, (_, h) => {
+									const on = !Array.isArray(side?.schedule) || Number(side.schedule[h]) > 0;
+									return (
+										<div key={h} onClick={() => toggleHour(idx, h)} title={`${h}:00–${h + 1}:00 (${PERIOD_LABELS[hourPeriod(h)].toLowerCase()})`}
+											style={{ width: 9, height: 10, cursor: "pointer", borderRadius: 1, background: on ? PERIOD_COLORS[hourPeriod(h)] : "#333" }} />
+									);
+								})}
+							</div>
+						</div>
+					))}
+				</div>
+			)}
+			<div style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 6 }}>
+				<label style={{ width: 140, fontSize: 12 }}>Render</label>
+				<select value={params?.renderMode ?? "data"} onChange={(e) => { const renderMode = e.target.value as "data" | "plotly"; setParams(p => ({ ...p, renderMode })); }} style={{ flex: 1, padding: "2px 4px", borderRadius: 4 }}>
+					<option value="data">Textura directa</option>
+					<option value="plotly">Plotly (PNG)</option>
+				</select>
+				<button disabled={!heatmap?.x?.length} onClick={() => heatmap && exportHeatmapChart(heatmap, params, { LwBySegment: scene.buildings.flatMap(b => b.LwBySegment) }).catch(e => console.error("Plotly error", e))}
+					style={{ padding: "4px 8px", borderRadius: 4, background: "#444", color: "#fff", border: "none", cursor: "pointer" }}>Gráfico 2D</button>
+			</div>
+			{params?.mapMode === "dominant" && heatmap?.contributions && (
+				<div style={{ display: "flex", flexWrap: "wrap", gap: 6, marginBottom: 6, fontSize: 10 }}>
+					{heatmap.contributions.labels.map((label, k) => (
+						<span key={heatmap.contributions!.keys[k]} style={{ display: "flex", alignItems: "center", gap: 3 }}>
+							<span style={{ width: 10, height: 10, borderRadius: 2, background: facadeColor(k), display: "inline-block" }} />{label}
+						</span>
+					))}
+				</div>
+			)}
+
 			{/* --- Halo & weights --- */}
 			<div style={{ height: 8 }} />
 			<div style={{ fontSize: 13, marginBottom: 6, fontWeight: 700 }}>Halo / Pesos</div>
@@ -150,37 +443,111 @@ export default function ControlsPanel({ building, setBuilding, params, setParams
 				<div style={{ width: 44, textAlign: "right", fontSize: 11 }}>{currentBlueThresh}</div>
 			</div>
 
+			{/* --- Isófonas (marching squares) --- */}
+			<div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", marginBottom: 6 }}>
+				<div style={{ fontSize: 13, fontWeight: 700 }}>Isófonas (dB)</div>
+				<label style={{ fontSize: 11 }}>
+					<input type="checkbox" checked={contours?.enabled !== false} onChange={(e) => { const enabled = e.target.checked; setParams(p => ({ ...p, contours: { ...(p.contours ?? contours), enabled } })); }} /> visibles
+				</label>
+			</div>
+
+			<div style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 10 }}>
+				<label style={{ width: 140, fontSize: 12 }}>Niveles</label>
+				<input type="text" value={levelsText} placeholder="55, 60, 65"
+					onChange={(e: React.ChangeEvent<HTMLInputElement>) => setLevelsText(e.target.value)}
+					onBlur={commitLevels} onKeyDown={(e) => { if (e.key === "Enter") commitLevels(); }}
+					style={{ flex: 1, padding: "2px 4px", borderRadius: 4 }} />
+			</div>
+
+			{/* --- Suelo (ISO 9613-2) --- */}
+			<div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", marginBottom: 6 }}>
+				<div style={{ fontSize: 13, fontWeight: 700 }}>Suelo (G, ISO 9613-2)</div>
+				<label style={{ fontSize: 11 }} title="Sin activar se usa A_geo = 8 + 20·log10(r) (suelo reflectante)">
+					<input type="checkbox" checked={ground?.enabled === true} onChange={(e) => { const enabled = e.target.checked; setParams(p => ({ ...p, ground: { ...(p.ground ?? ground), enabled } })); setRefreshKey(k => k + 1); }} /> activo
+				</label>
+			</div>
+
+			<div style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 6 }}>
+				<label style={{ width: 140, fontSize: 12 }}>G por defecto</label>
+				<input type="range" min={0} max={1} step={0.05} value={defaultG}
+					onChange={(e: React.ChangeEvent<HTMLInputElement>) => { const v = Number(e.target.value || 0); setParams(p => ({ ...p, ground: { ...(p.ground ?? {}), defaultG: v } })); setRefreshKey(k => k + 1); }} style={{ flex: 1 }} />
+				<div style={{ width: 44, textAlign: "right", fontSize: 11 }}>{defaultG.toFixed(2)}</div>
+			</div>
+
+			{groundRegions.map((region, idx) => (
+				<div key={idx} style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 6 }}>
+					<label style={{ width: 140, fontSize: 12 }}>{region.name ?? `Zona ${idx}`}</label>
+					<input type="range" min={0} max={1} step={0.05} value={region.G}
+						onChange={(e: React.ChangeEvent<HTMLInputElement>) => { const v = Number(e.target.value || 0); setGroundRegions(rs => rs.map((r, i) => i === idx ? { ...r, G: v } : r)); }} style={{ flex: 1 }} />
+					<div style={{ width: 28, textAlign: "right", fontSize: 11 }}>{region.G.toFixed(2)}</div>
+					<button onClick={() => setGroundRegions(rs => rs.filter((_, i) => i !== idx))} style={{ padding: "2px 6px", borderRadius: 4, background: "#444", color: "#fff", border: "none", cursor: "pointer" }}>×</button>
+				</div>
+			))}
+
+			<div style={{ display: "flex", alignItems: "center", gap: 4, marginBottom: 10, fontSize: 11 }}>
+				{(["x", "z", "width", "depth", "G"] as const).map(key => (
+					<input key={key} type="number" title={key} value={newRegion[key]} step={key === "G" ? 0.1 : 1}
+						onChange={(e: React.ChangeEvent<HTMLInputElement>) => { const v = Number(e.target.value || 0); setNewRegion(r => ({ ...r, [key]: v })); }}
+						style={{ width: 48, padding: "2px 4px", borderRadius: 4 }} />
+				))}
+				<button onClick={() => setGroundRegions(rs => [...rs, rectangleRegion(`Zona ${rs.length}`, newRegion.x, newRegion.z, newRegion.width, newRegion.depth, newRegion.G)])}
+					style={{ padding: "4px 8px", borderRadius: 4, background: "#2e7d32", color: "#fff", border: "none", cursor: "pointer" }}>Añadir zona</button>
+			</div>
+
+			{/* --- Reflexiones (fuentes imagen) --- */}
+			<div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", marginBottom: 6 }}>
+				<div style={{ fontSize: 13, fontWeight: 700 }}>Reflexiones en fachadas</div>
+				<label style={{ fontSize: 11 }}>
+					<input type="checkbox" checked={reflections?.enabled !== false} onChange={(e) => setReflections({ enabled: e.target.checked })} /> activas
+				</label>
+			</div>
+
+			<div style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 6 }}>
+				<label style={{ width: 140, fontSize: 12 }}>α por defecto</label>
+				<input type="range" min={0} max={0.95} step={0.05} value={defaultAlpha}
+					onChange={(e: React.ChangeEvent<HTMLInputElement>) => setReflections({ defaultAbsorption: Number(e.target.value || 0) })} style={{ flex: 1 }} />
+				<div style={{ width: 44, textAlign: "right", fontSize: 11 }}>{defaultAlpha.toFixed(2)}</div>
+			</div>
+
+			{Array.from({ length: segCount }, (_, idx) => {
+				const key = `segment-${idx}`;
+				const alpha = Number(building?.absorption?.[key] ?? reflections?.absorption?.[key] ?? defaultAlpha);
+				return (
+					<div key={key} style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 6 }}>
+						<label style={{ width: 140, fontSize: 12 }}>α Seg {idx}</label>
+						<input type="range" min={0} max={0.95} step={0.05} value={alpha}
+							onChange={(e: React.ChangeEvent<HTMLInputElement>) => { const v = Number(e.target.value || 0); setBuilding(b => ({ ...b, absorption: { ...(b.absorption ?? {}), [key]: v } })); setRefreshKey(k => k + 1); }} style={{ flex: 1 }} />
+						<div style={{ width: 44, textAlign: "right", fontSize: 11 }}>{alpha.toFixed(2)}</div>
+					</div>
+				);
+			})}
+
 			{/* spacer then existing action buttons */}
 
 
 			<div style={{ display: "flex", gap: 8, marginTop: 6 }}>
 				<button onClick={() => setRefreshKey(k => k + 1)} style={{ padding: "6px 10px", borderRadius: 6, background: "#007acc", color: "#fff", border: "none", cursor: "pointer" }}>Recalcular</button>
-				<button onClick={() => { setBuilding(getBuildingConfig("L")); setParams(defaultParams); setRefreshKey(k => k + 1); }} style={{ padding: "6px 8px", borderRadius: 6, background: "#444", color: "#fff", border: "none", cursor: "pointer" }}>Reset</button>
+				<button onClick={() => { const sc = getDefaultScene("L"); setScene(sc); setSelectedId(sc.buildings[0].id); setParams(defaultParams); setRefreshKey(k => k + 1); }} style={{ padding: "6px 8px", borderRadius: 6, background: "#444", color: "#fff", border: "none", cursor: "pointer" }}>Reset</button>
 				<button onClick={async () => {
 					try {
 						const res = await fetch("/data/sourceLevels.json");
 						if (!res.ok) return;
-						const j = await res.json();
-						if (Array.isArray(j?.segments)) {
-							// determine mode and convert LP->Lw if necessary
-							const mode = (j.mode || "Lw").toString().toLowerCase();
-							const FOUR_PI_CONST = 10 * Math.log10(4 * Math.PI);
-							const dbPerMeterLocal = params?.dbPerMeter ?? 0.5;
-							const segs = j.segments.map((s: any) => {
-								const v = Number(s?.value ?? 0);
-								if (mode === "lp") {
-									const lw = v + FOUR_PI_CONST + dbPerMeterLocal * 1.0;
-									return { value: Number(lw) };
-								}
-								return { value: Number(v) };
-							});
-							while (segs.length < 4) segs.push({ value: 0 });
-							setBuilding(b => ({ ...b, LwBySegment: segs.slice(0, 4) }));
-							setRefreshKey(k => k + 1);
-						}
+						const { levels, errors, warnings } = readSourceLevels(await res.json(), building);
+						setLevelsIssues([...errors, ...warnings].map(i => formatIssues([i])));
+						if (!levels) return;
+						const segs = [...levels];
+						while (segs.length < segCount) segs.push({ value: 0 });
+						levelsLoadedRef.current = true;
+						setBuilding(b => ({ ...b, LwBySegment: segs.slice(0, segCount) }));
+						setRefreshKey(k => k + 1);
 					} catch(e) { console.warn(e); }
 				}} style={{ padding: "6px 10px", borderRadius: 6, background: "#d9534f", color: "#fff", border: "none", cursor: "pointer" }}>Cargar JSON</button>
 			</div>
+			{levelsIssues.length > 0 && (
+				<div style={{ fontSize: 10, color: "#ffcc80", marginTop: 6 }}>
+					{levelsIssues.map((w, i) => <div key={i}>{w}</div>)}
+				</div>
+			)}
 		</div>
 	);
 }
@@ -0,0 +1,127 @@
+"use client";
+
+import React from "react";
+import { SceneBuilding } from "./types";
+import {
+	DEFAULT_WALL_R, FacadeBuildUp, facadeElements, FacadeOpening, OPENING_COLORS, OPENING_PRESETS, openingArea, OpeningType
+} from "./acoustics/FacadeUtils";
+import { facadeEmission, roomBySegment, segmentArea } from "./acoustics/RoomModel";
+import ISOModel from "./lib/ISOModel";
+
+type Props = {
+	building: SceneBuilding;
+	setBuilding: React.Dispatch<React.SetStateAction<SceneBuilding>>;
+	rooms?: boolean; // inputMode "Lp": columna de sala y Lw del modelo interior
+};
+
+const OPENING_TYPES = Object.keys(OPENING_PRESETS) as OpeningType[];
+const fmt = (v: number, digits = 1) => Number.isFinite(v) ? v.toFixed(digits) : "—";
+
+/**
+ * FacadeEditor
+ *
+ * Composición de las fachadas del edificio seleccionado (SceneBuilding.facades): R del muro y elementos
+ * (ventanas, puertas, rejillas) con posición a lo largo del lado, ancho, alto, antepecho y R. Cada lado
+ * muestra su área, el Re' compuesto (computeFacadeRePrime) y su Lw; al desplegarlo se editan sus elementos,
+ * que se dibujan sobre el edificio (FacadeOpenings) y emiten desde su posición en el cálculo. El Lw es el
+ * radiado por el lado: en modo Lw el Re' es informativo (solo el modelo interior lo resta).
+ */
+export default function FacadeEditor({ building, setBuilding, rooms = false }: Props) {
+	const segCount = Array.isArray(building.LwBySegment) ? building.LwBySegment.length : 0;
+	const owner = roomBySegment(building.rooms);
+	const [openSeg, setOpenSeg] = React.useState<number | null>(null);
+
+	const setFacade = (key: string, fn: (f: FacadeBuildUp) => FacadeBuildUp) => setBuilding(b => ({ ...b, facades: { ...(b.facades ?? {}), [key]: fn(b.facades?.[key] ?? {}) } }));
+	const setOpenings = (key: string, fn: (os: FacadeOpening[]) => FacadeOpening[]) => setFacade(key, f => ({ ...f, openings: fn(f.openings ?? []) }));
+	// el área sigue al tamaño cuando el elemento tiene ancho y alto
+	const updateOpening = (key: string, k: number, patch: Partial<FacadeOpening>) => setOpenings(key, os => os.map((o, j) => {
+		if (j !== k) return o;
+		const next = { ...o, ...patch };
+		return { ...next, area: openingArea({ ...next, area: Number(next.width) > 0 && Number(next.height) > 0 ? 0 : next.area }) };
+	}));
+	const addOpening = (key: string, i: number, type: OpeningType) => {
+		const { width, height, sill, R } = OPENING_PRESETS[type];
+		const length = segmentArea(building, i) / Math.max(1e-6, Number(building.height ?? 0));
+		const along = Math.round(length / 2 * 10) / 10;
+		setOpenings(key, os => [...os, { type, along, width, height, sill, R, area: width * height }]);
+	};
+
+	const cell: React.CSSProperties = { padding: "2px 4px", fontSize: 11 };
+	const numInput = (value: number | undefined, onChange: (v: number) => void, opts: { width?: number; step?: number; title?: string } = {}) => (
+		<input type="number" value={value ?? ""} step={opts.step ?? 1} title={opts.title}
+			onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange(Math.max(0, Number(e.target.value || 0)))}
+			style={{ width: opts.width ?? 44, padding: "1px 2px", borderRadius: 3 }} />
+	);
+	const smallButton: React.CSSProperties = { padding: "0 6px", borderRadius: 4, background: "#444", color: "#fff", border: "none", cursor: "pointer", fontSize: 11 };
+
+	return (
+		<div style={{ marginBottom: 8 }}>
+			<div style={{ fontSize: 12, fontWeight: 700, marginBottom: 4 }}>Fachadas (muro y elementos)</div>
+			<table style={{ width: "100%", borderCollapse: "collapse" }}>
+				<thead>
+					<tr style={{ textAlign: "left", borderBottom: "1px solid #666" }}>
+						<th style={cell}>Lado</th>{rooms && <th style={cell}>Sala</th>}<th style={cell}>R muro</th>
+						<th style={{ ...cell, textAlign: "right" }}>S (m²)</th><th style={{ ...cell, textAlign: "right" }}>{"Re'"}</th><th style={{ ...cell, textAlign: "right" }}>Lw</th>
+					</tr>
+				</thead>
+				<tbody>
+					{Array.from({ length: segCount }, (_, i) => {
+						const key = `segment-${i}`;
+						const facade = building.facades?.[key];
+						const S = segmentArea(building, i);
+						const length = S / Math.max(1e-6, Number(building.height ?? 0));
+						const e = rooms ? facadeEmission(building, i, owner[key]) : null;
+						const RePrime = S > 0 ? ISOModel.computeFacadeRePrime(facadeElements(facade, S)) : NaN;
+						const openings = facade?.openings ?? [];
+						return (
+							<React.Fragment key={key}>
+								<tr onClick={() => setOpenSeg(openSeg === i ? null : i)} style={{ cursor: "pointer", background: openSeg === i ? "rgba(255,255,255,0.08)" : undefined }}>
+									<td style={cell}>{i}{openings.length ? ` (${openings.length})` : ""}</td>
+									{rooms && <td style={cell}>{owner[key]?.name ?? owner[key]?.id ?? "—"}</td>}
+									<td style={cell} onClick={(ev) => ev.stopPropagation()}>
+										{numInput(facade?.wallR ?? DEFAULT_WALL_R, v => setFacade(key, f => ({ ...f, wallR: v })), { width: 36, title: "R del muro (dB)" })}
+									</td>
+									<td style={{ ...cell, textAlign: "right" }}>{fmt(S, 0)}</td>
+									<td style={{ ...cell, textAlign: "right" }}>{fmt(RePrime)}</td>
+									<td style={{ ...cell, textAlign: "right", fontWeight: 700 }} title={e ? `Lw_room ${fmt(e.Lw_room)} dB` : rooms ? "Lw constante (sin sala)" : undefined}>
+										{e ? fmt(e.Lw) : <span style={{ color: rooms ? "#aaa" : undefined }}>{fmt(Number(building.LwBySegment?.[i]?.value))}</span>}
+									</td>
+								</tr>
+								{openSeg === i && (
+									<tr>
+										<td style={{ ...cell, paddingLeft: 12 }} colSpan={rooms ? 6 : 5}>
+											{openings.map((o, k) => (
+												<div key={k} style={{ borderLeft: `3px solid ${OPENING_COLORS[o.type]}`, paddingLeft: 4, marginBottom: 4 }}>
+													<div style={{ display: "flex", alignItems: "center", gap: 4, marginBottom: 2 }}>
+														<select value={o.type} onChange={(ev) => updateOpening(key, k, { type: ev.target.value as OpeningType })}
+															style={{ padding: "1px 2px", borderRadius: 3 }}>
+															{OPENING_TYPES.map(t => <option key={t} value={t}>{OPENING_PRESETS[t].label}</option>)}
+														</select>
+														R {numInput(o.R, v => updateOpening(key, k, { R: v }), { width: 36, title: "R (dB)" })} dB
+														<span style={{ color: "#aaa", flex: 1 }}>{fmt(openingArea(o), 2)} m²</span>
+														<button onClick={() => setOpenings(key, os => os.filter((_, j) => j !== k))} style={smallButton}>×</button>
+													</div>
+													<div style={{ display: "flex", alignItems: "center", gap: 4 }}>
+														x {numInput(o.along, v => updateOpening(key, k, { along: Math.min(length, v) }), { width: 40, step: 0.1, title: `Posición del centro a lo largo del lado (m, 0–${fmt(length)})` })}
+														an {numInput(o.width, v => updateOpening(key, k, { width: v }), { width: 36, step: 0.1, title: "Ancho (m)" })}
+														al {numInput(o.height, v => updateOpening(key, k, { height: v }), { width: 36, step: 0.1, title: "Alto (m)" })}
+														z {numInput(o.sill, v => updateOpening(key, k, { sill: v }), { width: 36, step: 0.1, title: "Altura del borde inferior (m)" })}
+													</div>
+												</div>
+											))}
+											<div style={{ display: "flex", gap: 4 }}>
+												{OPENING_TYPES.map(t => (
+													<button key={t} onClick={() => addOpening(key, i, t)} style={smallButton}>+ {OPENING_PRESETS[t].label}</button>
+												))}
+											</div>
+										</td>
+									</tr>
+								)}
+							</React.Fragment>
+						);
+					})}
+				</tbody>
+			</table>
+		</div>
+	);
+}
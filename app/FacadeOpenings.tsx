@@ -0,0 +1,66 @@
+"use client";
+
+import React, { useMemo } from "react";
+import { SceneBuilding } from "./types";
+import { worldFootprint } from "./geometry/scene";
+import { OPENING_COLORS, openingArea, OpeningType, outwardNormal } from "./acoustics/FacadeUtils";
+
+type Props = {
+	buildings: SceneBuilding[];
+	offset?: number; // separación (m) del rectángulo respecto a la fachada para que no se mezcle con ella
+};
+
+type Rect = { key: string; type: OpeningType; position: [number, number, number]; rotationY: number; width: number; height: number };
+
+/**
+ * FacadeOpenings
+ *
+ * Elementos de fachada (SceneBuilding.facades) dibujados como rectángulos sobre la cara exterior de cada
+ * lado, con el color de su tipo: centro a `along` metros del primer vértice del lado y a sill + alto/2 de
+ * altura. Los elementos sin posición emiten repartidos en todo el lado y no se dibujan.
+ */
+export default function FacadeOpenings({ buildings, offset = 0.03 }: Props) {
+	const rects = useMemo(() => {
+		const out: Rect[] = [];
+		for (const b of buildings) {
+			const world = worldFootprint(b);
+			Object.entries(b.facades ?? {}).forEach(([segment, facade]) => {
+				const i = Number(segment.replace("segment-", ""));
+				const a = world[i], c = world[(i + 1) % world.length];
+				if (!a || !c) return;
+				const len = Math.hypot(c[0] - a[0], c[1] - a[1]);
+				if (!(len > 0)) return;
+				const ux = (c[0] - a[0]) / len, uz = (c[1] - a[1]) / len;
+				const { nx, nz } = outwardNormal(a, c, world);
+				(facade.openings ?? []).forEach((o, k) => {
+					const along = Number(o.along);
+					if (!Number.isFinite(along)) return;
+					const side = Math.sqrt(openingArea(o));
+					const width = Number(o.width) > 0 ? Number(o.width) : side;
+					const height = Number(o.height) > 0 ? Number(o.height) : side;
+					if (!(width > 0) || !(height > 0)) return;
+					out.push({
+						key: `${b.id}/${segment}/${k}`,
+						type: o.type,
+						position: [a[0] + ux * along + nx * offset, Math.max(0, Number(o.sill) || 0) + height / 2, a[1] + uz * along + nz * offset],
+						rotationY: Math.atan2(nx, nz),
+						width,
+						height
+					});
+				});
+			});
+		}
+		return out;
+	}, [buildings, offset]);
+
+	return (
+		<group>
+			{rects.map(r => (
+				<mesh key={r.key} position={r.position} rotation={[0, r.rotationY, 0]} renderOrder={1001}>
+					<planeGeometry args={[r.width, r.height]} />
+					<meshBasicMaterial color={OPENING_COLORS[r.type]} />
+				</mesh>
+			))}
+		</group>
+	);
+}
@@ -0,0 +1,107 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { ThreeEvent, useThree } from "@react-three/fiber";
+import { Line } from "@react-three/drei";
+import * as THREE from "three";
+import { SceneBuilding } from "./types";
+import { worldFootprint, worldToLocal } from "./geometry/scene";
+import { editFootprint, FootprintEdit } from "./geometry/footprint";
+
+type Props = {
+	building: SceneBuilding;
+	onEdit: (edit: FootprintEdit) => void;
+	snap?: number; // rejilla de ajuste (m); 0 = sin ajuste
+};
+
+const GROUND = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0);
+const HANDLE_Y = 0.3;
+
+/**
+ * FootprintEditor
+ *
+ * Editor de vértices de la huella del edificio seleccionado, sobre el plano del suelo (dentro del Canvas):
+ *  - arrastrar un vértice (esfera) lo mueve; la edición se confirma al soltar,
+ *  - clic en el punto medio de un lado (cubo) inserta un vértice,
+ *  - clic derecho o Mayús+clic en un vértice lo elimina (mínimo 3 vértices).
+ * Durante el arrastre se dibuja el contorno provisional (rojo si el polígono deja de ser simple)
+ * y se desactivan los OrbitControls por defecto.
+ */
+export default function FootprintEditor({ building, onEdit, snap = 0.5 }: Props) {
+	const controls = useThree(s => s.controls) as unknown as { enabled: boolean } | null;
+	const [drag, setDrag] = useState<{ index: number; point: number[] } | null>(null);
+
+	const world = useMemo(() => worldFootprint(building), [building]);
+
+	// huella provisional (local) durante el arrastre y su validez
+	const draft = useMemo(() => drag ? editFootprint(building.footprint, { type: "move", index: drag.index, point: drag.point }) : null, [building, drag]);
+	const outline = useMemo(() => {
+		if (!drag) return world;
+		const preview = { ...building, footprint: building.footprint.map((p, i) => i === drag.index ? drag.point : p) };
+		return worldFootprint(preview);
+	}, [building, drag, world]);
+
+	const groundPoint = (e: ThreeEvent<PointerEvent>) => {
+		const hit = e.ray.intersectPlane(GROUND, new THREE.Vector3());
+		if (!hit) return null;
+		const local = worldToLocal(building, hit.x, hit.z);
+		return snap > 0 ? local.map(v => Math.round(v / snap) * snap) : local;
+	};
+
+	const endDrag = () => {
+		if (drag && draft) onEdit({ type: "move", index: drag.index, point: drag.point });
+		setDrag(null);
+		if (controls) controls.enabled = true;
+	};
+
+	return (
+		<group>
+			<Line points={[...outline, outline[0]].map(([x, z]) => [x, HANDLE_Y, z] as [number, number, number])}
+				color={drag && !draft ? "#e53935" : "#ffd54f"} lineWidth={2} depthTest={false} />
+
+			{outline.map(([x, z], idx) => (
+				<mesh key={`v-${idx}`} position={[x, HANDLE_Y, z]} renderOrder={2000}
+					onPointerDown={(e) => {
+						e.stopPropagation();
+						if (e.shiftKey || e.button === 2) {
+							onEdit({ type: "delete", index: idx });
+							return;
+						}
+						(e.target as unknown as Element).setPointerCapture?.(e.pointerId);
+						if (controls) controls.enabled = false;
+						setDrag({ index: idx, point: building.footprint[idx] });
+					}}
+					onPointerMove={(e) => {
+						if (!drag || drag.index !== idx) return;
+						e.stopPropagation();
+						const p = groundPoint(e);
+						if (p) setDrag({ index: idx, point: p });
+					}}
+					onPointerUp={(e) => {
+						e.stopPropagation();
+						(e.target as unknown as Element).releasePointerCapture?.(e.pointerId);
+						endDrag();
+					}}
+					onContextMenu={(e) => e.nativeEvent.preventDefault()}>
+					<sphereGeometry args={[0.6, 16, 12]} />
+					<meshBasicMaterial color={drag?.index === idx ? "#ff7043" : "#ffd54f"} depthTest={false} />
+				</mesh>
+			))}
+
+			{!drag && world.map((p, idx) => {
+				const q = world[(idx + 1) % world.length];
+				const mid = [(p[0] + q[0]) / 2, (p[1] + q[1]) / 2];
+				return (
+					<mesh key={`m-${idx}`} position={[mid[0], HANDLE_Y, mid[1]]} renderOrder={2000}
+						onPointerDown={(e) => {
+							e.stopPropagation();
+							onEdit({ type: "insert", edge: idx, point: worldToLocal(building, mid[0], mid[1]) });
+						}}>
+						<boxGeometry args={[0.6, 0.6, 0.6]} />
+						<meshBasicMaterial color="#4fc3f7" depthTest={false} />
+					</mesh>
+				);
+			})}
+		</group>
+	);
+}
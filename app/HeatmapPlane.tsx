@@ -0,0 +1,67 @@
+"use client";
+
+import React, { useState } from "react";
+import { ThreeEvent } from "@react-three/fiber";
+import { Html } from "@react-three/drei";
+import * as THREE from "three";
+import { HeatmapResult } from "./types";
+import { cellContributions, facadeColor } from "./map/Contributions";
+
+type Props = {
+	heatmap: HeatmapResult;
+	texture: THREE.Texture | null;
+	areaSize: number;
+};
+
+// índice del valor más cercano en una grilla regular
+const nearestIndex = (axis: number[], v: number) => {
+	if (axis.length < 2) return 0;
+	const k = Math.round((v - axis[0]) / (axis[1] - axis[0]));
+	return Math.max(0, Math.min(axis.length - 1, k));
+};
+
+/**
+ * HeatmapPlane
+ *
+ * Plano del mapa (textura de usePlotlyTexture) con información al pasar el puntero: nivel de la celda,
+ * fachada dominante y margen en dB (heatmap.hover) y las fachadas que más aportan (heatmap.contributions).
+ * El estado del puntero vive aquí para no re-renderizar la página en cada movimiento.
+ */
+export default function HeatmapPlane({ heatmap, texture, areaSize }: Props) {
+	const [cell, setCell] = useState<{ i: number; j: number } | null>(null);
+
+	const onMove = (e: ThreeEvent<PointerEvent>) => {
+		if (!heatmap?.x?.length) return;
+		const i = nearestIndex(heatmap.x, e.point.x);
+		const j = nearestIndex(heatmap.y, e.point.z);
+		if (!cell || cell.i !== i || cell.j !== j) setCell({ i, j });
+	};
+
+	const lines = cell ? (heatmap.hover?.[cell.j]?.[cell.i] ?? "").split("<br>").filter(Boolean) : [];
+	const top = cell && heatmap.contributions && Number.isFinite(heatmap.z[cell.j]?.[cell.i])
+		? cellContributions(heatmap.contributions, cell.j, cell.i).slice(0, 3)
+		: [];
+
+	return (
+		<group>
+			<mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, 0, 0]} onPointerMove={onMove} onPointerOut={() => setCell(null)}>
+				<planeGeometry args={[areaSize, areaSize, 1, 1]} />
+				{texture ? <meshBasicMaterial map={texture} toneMapped={false} transparent={true} opacity={0.98} /> : <meshStandardMaterial color={0x222222} />}
+			</mesh>
+
+			{cell && lines.length > 0 && (
+				<Html position={[heatmap.x[cell.i], 0.1, heatmap.y[cell.j]]} zIndexRange={[1000, 0]} style={{ pointerEvents: "none" }}>
+					<div style={{ transform: "translate(12px, 12px)", fontSize: 11, fontFamily: "sans-serif", color: "#fff", background: "rgba(0,0,0,0.8)", padding: "4px 6px", borderRadius: 4, whiteSpace: "nowrap" }}>
+						{lines.map((l, k) => <div key={k}>{l}</div>)}
+						{top.map(c => (
+							<div key={c.key} style={{ display: "flex", alignItems: "center", gap: 4, color: "#ddd" }}>
+								<span style={{ width: 8, height: 8, borderRadius: 2, background: facadeColor(c.index), display: "inline-block" }} />
+								{c.label}: {c.Lp.toFixed(1)} dB ({Math.round(c.share * 100)} %)
+							</div>
+						))}
+					</div>
+				</Html>
+			)}
+		</group>
+	);
+}
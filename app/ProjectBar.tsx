@@ -0,0 +1,84 @@
+"use client";
+
+import React from "react";
+import { PROJECT_EXTENSION } from "./map/ProjectFile";
+import useProject from "./hooks/useProject";
+
+type Props = {
+	project: ReturnType<typeof useProject>;
+	history: { undo: () => void; redo: () => void; canUndo: boolean; canRedo: boolean };
+	issues?: string[];
+};
+
+// Ctrl+Z dentro de un campo de texto deshace el texto (comportamiento del navegador), no el proyecto
+const isTextField = (el: Element | null) => !!el && (el instanceof HTMLTextAreaElement || (el as HTMLElement).isContentEditable ||
+	(el instanceof HTMLInputElement && !["range", "checkbox", "radio", "button", "color", "file"].includes(el.type)));
+
+const button: React.CSSProperties = { padding: "4px 8px", borderRadius: 4, background: "#444", color: "#fff", border: "none", cursor: "pointer", fontSize: 11 };
+
+/**
+ * ProjectBar
+ *
+ * Barra superior del proyecto: nombre (• si hay cambios sin guardar), Abrir / Guardar / Guardar como
+ * (.amap.json), Compartir (enlace con el mapa en la URL) y aviso de recuperación del autoguardado de una
+ * sesión anterior; Deshacer / Rehacer del historial de cambios (useHistory). `issues`: avisos del estado
+ * actual (p. ej. parámetros no válidos), visibles mientras duren.
+ * Atajos: Ctrl+S guarda, Ctrl+Mayús+S guarda como, Ctrl+Z deshace, Ctrl+Mayús+Z (o Ctrl+Y) rehace.
+ */
+export default function ProjectBar({ project, history, issues = [] }: Props) {
+	const { name, dirty, save, saveAs, open, share, recovery, recover, discardRecovery, messages } = project;
+	const fileRef = React.useRef<HTMLInputElement>(null);
+
+	React.useEffect(() => {
+		const onKey = (e: KeyboardEvent) => {
+			if (!(e.ctrlKey || e.metaKey)) return;
+			const key = e.key.toLowerCase();
+			if (key === "s") {
+				e.preventDefault();
+				(e.shiftKey ? saveAs : save)();
+			} else if ((key === "z" || key === "y") && !isTextField(document.activeElement)) {
+				e.preventDefault();
+				(key === "y" || e.shiftKey ? history.redo : history.undo)();
+			}
+		};
+		window.addEventListener("keydown", onKey);
+		return () => window.removeEventListener("keydown", onKey);
+	}, [save, saveAs, history.undo, history.redo]);
+
+	return (
+		<div style={{ position: "absolute", left: "50%", top: 12, transform: "translateX(-50%)", background: "rgba(0,0,0,0.75)", padding: "6px 10px", borderRadius: 8, color: "#fff", fontFamily: "sans-serif", zIndex: 1100, maxWidth: 420 }}>
+			<div style={{ display: "flex", alignItems: "center", gap: 6 }}>
+				<div style={{ fontSize: 12, fontWeight: 700, marginRight: 4, whiteSpace: "nowrap", overflow: "hidden", textOverflow: "ellipsis", maxWidth: 160 }} title={name}>
+					{name}{dirty ? " •" : ""}
+				</div>
+				<button onClick={history.undo} disabled={!history.canUndo} style={{ ...button, opacity: history.canUndo ? 1 : 0.4 }} title="Deshacer (Ctrl+Z)">↶</button>
+				<button onClick={history.redo} disabled={!history.canRedo} style={{ ...button, opacity: history.canRedo ? 1 : 0.4 }} title="Rehacer (Ctrl+Mayús+Z)">↷</button>
+				<button onClick={() => fileRef.current?.click()} style={button}>Abrir</button>
+				<button onClick={() => save()} style={button} title="Ctrl+S">Guardar</button>
+				<button onClick={() => saveAs()} style={button} title="Ctrl+Mayús+S">Guardar como</button>
+				<button onClick={() => share()} style={button} title="Copia un enlace que reproduce este mapa">Compartir</button>
+				<input ref={fileRef} type="file" accept={`${PROJECT_EXTENSION},.json,application/json`} style={{ display: "none" }}
+					onChange={(e: React.ChangeEvent<HTMLInputElement>) => { open(e.target.files?.[0]); e.target.value = ""; }} />
+			</div>
+			{recovery && (
+				<div style={{ display: "flex", alignItems: "center", gap: 6, marginTop: 6, fontSize: 11, color: "#ffcc80" }}>
+					<span style={{ flex: 1 }}>
+						Cambios sin guardar de «{recovery.name || "proyecto"}»{recovery.savedAt ? ` (${new Date(recovery.savedAt).toLocaleString()})` : ""}
+					</span>
+					<button onClick={recover} style={{ ...button, background: "#2e7d32" }}>Recuperar</button>
+					<button onClick={discardRecovery} style={button}>Descartar</button>
+				</div>
+			)}
+			{messages.length > 0 && (
+				<div style={{ fontSize: 10, color: "#ffcc80", marginTop: 6, whiteSpace: "pre-wrap" }}>
+					{messages.map((m, i) => <div key={i}>{m}</div>)}
+				</div>
+			)}
+			{issues.length > 0 && (
+				<div style={{ fontSize: 10, color: "#ff8a80", marginTop: 6, whiteSpace: "pre-wrap" }}>
+					{issues.map((m, i) => <div key={i}>{m}</div>)}
+				</div>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import React from "react";
+import { Html, Line } from "@react-three/drei";
+import { ReceiverResult } from "./map/Receivers";
+
+type Props = {
+	results: ReceiverResult[];
+};
+
+/**
+ * ReceiverMarkers
+ *
+ * Receptores en la vista 3D: mástil desde el suelo hasta la altura del receptor, esfera en el punto
+ * de cálculo y rótulo con nombre y nivel.
+ */
+export default function ReceiverMarkers({ results }: Props) {
+	return (
+		<group>
+			{results.map(({ receiver: r, Lp, inside }) => (
+				<group key={r.id}>
+					<Line points={[[r.x, 0, r.z], [r.x, r.height, r.z]]} color="#ffffff" lineWidth={1} />
+					<mesh position={[r.x, r.height, r.z]}>
+						<sphereGeometry args={[0.5, 16, 12]} />
+						<meshBasicMaterial color={inside ? "#e53935" : "#ffffff"} />
+					</mesh>
+					<Html position={[r.x, r.height + 1, r.z]} center zIndexRange={[900, 0]} style={{ pointerEvents: "none" }}>
+						<div style={{ fontSize: 11, fontFamily: "sans-serif", color: "#fff", background: "rgba(0,0,0,0.7)", padding: "1px 4px", borderRadius: 3, whiteSpace: "nowrap" }}>
+							{r.name}: {Number.isFinite(Lp) ? `${Lp.toFixed(1)} dB` : "—"}
+						</div>
+					</Html>
+				</group>
+			))}
+		</group>
+	);
+}
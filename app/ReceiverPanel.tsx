@@ -0,0 +1,114 @@
+"use client";
+
+import React from "react";
+import { Receiver, Scene } from "./types";
+import { ReceiverResult, receiversToCSV } from "./map/Receivers";
+import { downloadText } from "./lib/download";
+
+type Props = {
+	scene: Scene;
+	setScene: React.Dispatch<React.SetStateAction<Scene>>;
+	results: ReceiverResult[];
+};
+
+const fmt = (v: number) => Number.isFinite(v) ? v.toFixed(1) : "—";
+
+// siguiente identificador libre "r<n>"
+const nextReceiverId = (receivers: Receiver[]) => {
+	let n = receivers.length + 1;
+	while (receivers.some(r => r.id === `r${n}`)) n++;
+	return `r${n}`;
+};
+
+/**
+ * ReceiverPanel
+ *
+ * Tabla lateral de receptores: nombre, posición (x, z), altura y nivel calculado (computeReceiverLevels).
+ * Los campos se editan en la propia tabla; al pulsar una fila se despliega el aporte de cada fachada
+ * (directo / reflejado) y, si hay niveles por periodo, Lday / Levening / Lnight / Lden. "CSV" descarga la
+ * tabla completa con el desglose.
+ */
+export default function ReceiverPanel({ scene, setScene, results }: Props) {
+	const receivers = scene.receivers ?? [];
+	const [open, setOpen] = React.useState<string | null>(null);
+
+	const setReceivers = (fn: (rs: Receiver[]) => Receiver[]) => setScene(sc => ({ ...sc, receivers: fn(sc.receivers ?? []) }));
+	const updateReceiver = (id: string, patch: Partial<Receiver>) => setReceivers(rs => rs.map(r => r.id === id ? { ...r, ...patch } : r));
+	const addReceiver = () => setReceivers(rs => {
+		const id = nextReceiverId(rs);
+		return [...rs, { id, name: `Receptor ${id.slice(1)}`, x: 0, z: 30, height: 4 }];
+	});
+
+	const cell: React.CSSProperties = { padding: "2px 4px", fontSize: 11 };
+	const numInput = (r: Receiver, key: "x" | "z" | "height") => (
+		<input type="number" value={r[key]} step={key === "height" ? 0.5 : 1}
+			onClick={(e) => e.stopPropagation()}
+			onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+				const v = Number(e.target.value || 0);
+				updateReceiver(r.id, { [key]: key === "height" ? Math.max(0, v) : v });
+			}}
+			style={{ width: 44, padding: "1px 2px", borderRadius: 3 }} />
+	);
+
+	return (
+		<div style={{ position: "absolute", right: 12, top: 12, background: "rgba(0,0,0,0.75)", padding: 12, borderRadius: 8, color: "#fff", fontFamily: "sans-serif", zIndex: 1100, width: 340, maxHeight: "calc(100vh - 24px)", overflowY: "auto" }}>
+			<div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", marginBottom: 8 }}>
+				<div style={{ fontSize: 13, fontWeight: 700 }}>Receptores</div>
+				<div style={{ display: "flex", gap: 6 }}>
+					<button onClick={addReceiver}
+						style={{ padding: "4px 8px", borderRadius: 4, background: "#2e7d32", color: "#fff", border: "none", cursor: "pointer", fontSize: 11 }}>Añadir</button>
+					<button onClick={() => downloadText("receptores.csv", receiversToCSV(results), "text/csv")} disabled={!results.length}
+						style={{ padding: "4px 8px", borderRadius: 4, background: "#444", color: "#fff", border: "none", cursor: "pointer", fontSize: 11 }}>CSV</button>
+				</div>
+			</div>
+
+			<table style={{ width: "100%", borderCollapse: "collapse" }}>
+				<thead>
+					<tr style={{ textAlign: "left", borderBottom: "1px solid #666" }}>
+						<th style={cell}>Nombre</th><th style={cell}>x</th><th style={cell}>z</th><th style={cell}>h</th>
+						<th style={{ ...cell, textAlign: "right" }}>Lp (dB)</th><th style={cell} />
+					</tr>
+				</thead>
+				<tbody>
+					{receivers.map(r => {
+						const res = results.find(x => x.receiver.id === r.id);
+						return (
+							<React.Fragment key={r.id}>
+								<tr onClick={() => setOpen(open === r.id ? null : r.id)} style={{ cursor: "pointer", background: open === r.id ? "rgba(255,255,255,0.08)" : undefined }}>
+									<td style={cell}>
+										<input type="text" value={r.name} onClick={(e) => e.stopPropagation()}
+											onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateReceiver(r.id, { name: e.target.value })}
+											style={{ width: 90, padding: "1px 2px", borderRadius: 3 }} />
+									</td>
+									<td style={cell}>{numInput(r, "x")}</td>
+									<td style={cell}>{numInput(r, "z")}</td>
+									<td style={cell}>{numInput(r, "height")}</td>
+									<td style={{ ...cell, textAlign: "right", fontWeight: 700 }} title={res?.inside ? `Dentro de ${res.inside}` : undefined}>{res?.inside ? "dentro" : fmt(res?.Lp ?? NaN)}</td>
+									<td style={cell}>
+										<button onClick={(e) => { e.stopPropagation(); setReceivers(rs => rs.filter(x => x.id !== r.id)); }}
+											style={{ padding: "0 6px", borderRadius: 4, background: "#444", color: "#fff", border: "none", cursor: "pointer" }}>×</button>
+									</td>
+								</tr>
+								{open === r.id && res?.indicators && (
+									<tr style={{ color: "#ccc" }}>
+										<td style={{ ...cell, paddingLeft: 12 }} colSpan={6}>
+											Lday {fmt(res.indicators.Lday)} · Levening {fmt(res.indicators.Levening)} · Lnight {fmt(res.indicators.Lnight)} · <b>Lden {fmt(res.indicators.Lden)}</b>
+										</td>
+									</tr>
+								)}
+								{open === r.id && res && res.facades.map(f => (
+									<tr key={`${f.buildingId}/${f.segment}`} style={{ color: "#ccc" }}>
+										<td style={{ ...cell, paddingLeft: 12 }} colSpan={3}>{f.buildingName} · {f.segment}</td>
+										<td style={{ ...cell, textAlign: "right" }} colSpan={2} title={`directo ${fmt(f.direct)} dB · reflejado ${fmt(f.reflected)} dB`}>{fmt(f.Lp)}</td>
+										<td style={cell} />
+									</tr>
+								))}
+							</React.Fragment>
+						);
+					})}
+				</tbody>
+			</table>
+			{!receivers.length && <div style={{ fontSize: 11, color: "#aaa", marginTop: 6 }}>Sin receptores</div>}
+		</div>
+	);
+}
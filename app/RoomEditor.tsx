@@ -0,0 +1,107 @@
+"use client";
+
+import React from "react";
+import { SceneBuilding } from "./types";
+import { Room, roomAbsorption, roomBySegment } from "./acoustics/RoomModel";
+
+type Props = {
+	building: SceneBuilding;
+	setBuilding: React.Dispatch<React.SetStateAction<SceneBuilding>>;
+};
+
+const fmt = (v: number, digits = 1) => Number.isFinite(v) ? v.toFixed(digits) : "—";
+
+// siguiente identificador libre "s<n>"
+const nextRoomId = (rooms: Room[]) => {
+	let n = rooms.length + 1;
+	while (rooms.some(r => r.id === `s${n}`)) n++;
+	return `s${n}`;
+};
+
+/**
+ * RoomEditor
+ *
+ * Salas del edificio seleccionado (inputMode "Lp", app/acoustics/RoomModel.ts): Lp interior, absorción
+ * equivalente A (o volumen + RT60 con Sabine) y lados a los que dan. La composición de cada lado y el
+ * Lw_out resultante se editan en FacadeEditor; los lados sin sala emiten su Lw de LwBySegment.
+ */
+export default function RoomEditor({ building, setBuilding }: Props) {
+	const rooms: Room[] = building.rooms ?? [];
+	const segCount = Array.isArray(building.LwBySegment) ? building.LwBySegment.length : 0;
+
+	const setRooms = (fn: (rs: Room[]) => Room[]) => setBuilding(b => ({ ...b, rooms: fn(b.rooms ?? []) }));
+	const updateRoom = (id: string, patch: Partial<Room>) => setRooms(rs => rs.map(r => r.id === id ? { ...r, ...patch } : r));
+	const addRoom = () => setRooms(rs => {
+		const taken = roomBySegment(rs);
+		const free = Array.from({ length: segCount }, (_, i) => `segment-${i}`).filter(key => !taken[key]);
+		const id = nextRoomId(rs);
+		return [...rs, { id, name: `Sala ${id.slice(1)}`, Lp_in: 80, absorption: 50, segments: free }];
+	});
+	// un lado pertenece a una sola sala: al marcarlo se quita de las demás
+	const toggleSegment = (id: string, key: string) => setRooms(rs => rs.map(r => {
+		const has = r.segments.includes(key);
+		if (r.id === id) return { ...r, segments: has ? r.segments.filter(k => k !== key) : [...r.segments, key] };
+		return has ? { ...r, segments: r.segments.filter(k => k !== key) } : r;
+	}));
+	const setSabine = (room: Room, sabine: boolean) => {
+		const A = roomAbsorption(room);
+		updateRoom(room.id, sabine
+			? { absorption: undefined, volume: room.volume ?? 150, rt60: room.rt60 ?? 0.8 }
+			: { absorption: Number.isFinite(A) ? Math.round(A * 10) / 10 : 50, volume: undefined, rt60: undefined });
+	};
+
+	const numInput = (value: number | undefined, onChange: (v: number) => void, opts: { width?: number; step?: number; title?: string } = {}) => (
+		<input type="number" value={value ?? ""} step={opts.step ?? 1} title={opts.title}
+			onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange(Math.max(0, Number(e.target.value || 0)))}
+			style={{ width: opts.width ?? 44, padding: "1px 2px", borderRadius: 3 }} />
+	);
+	const smallButton: React.CSSProperties = { padding: "0 6px", borderRadius: 4, background: "#444", color: "#fff", border: "none", cursor: "pointer", fontSize: 11 };
+
+	return (
+		<div style={{ marginBottom: 8 }}>
+			<div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", marginBottom: 4 }}>
+				<div style={{ fontSize: 12, fontWeight: 700 }}>Salas (Lp interior)</div>
+				<button onClick={addRoom}
+					style={{ padding: "2px 8px", borderRadius: 4, background: "#2e7d32", color: "#fff", border: "none", cursor: "pointer", fontSize: 11 }}>Añadir sala</button>
+			</div>
+
+			{rooms.map(room => {
+				const sabine = !(Number(room.absorption) > 0);
+				return (
+					<div key={room.id} style={{ borderLeft: "2px solid #666", paddingLeft: 6, marginBottom: 6, fontSize: 11 }}>
+						<div style={{ display: "flex", alignItems: "center", gap: 4, marginBottom: 2 }}>
+							<input type="text" value={room.name ?? ""} placeholder={room.id}
+								onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateRoom(room.id, { name: e.target.value })}
+								style={{ width: 80, padding: "1px 2px", borderRadius: 3 }} />
+							<label>Lp</label>
+							{numInput(room.Lp_in, v => updateRoom(room.id, { Lp_in: v }), { title: "Lp interior (dB)" })}
+							<select value={sabine ? "sabine" : "A"} onChange={(e) => setSabine(room, e.target.value === "sabine")} style={{ padding: "1px 2px", borderRadius: 3 }}>
+								<option value="A">A (m²)</option>
+								<option value="sabine">V + RT60</option>
+							</select>
+							{sabine ? (
+								<>
+									{numInput(room.volume, v => updateRoom(room.id, { volume: v }), { width: 44, title: "Volumen (m³)" })}
+									{numInput(room.rt60, v => updateRoom(room.id, { rt60: v }), { width: 36, step: 0.1, title: "RT60 (s)" })}
+								</>
+							) : numInput(room.absorption, v => updateRoom(room.id, { absorption: v }), { title: "Área de absorción equivalente (m²)" })}
+							<button onClick={() => setRooms(rs => rs.filter(r => r.id !== room.id))} style={smallButton}>×</button>
+						</div>
+						<div style={{ display: "flex", flexWrap: "wrap", alignItems: "center", gap: 2 }}>
+							<span style={{ color: "#aaa", marginRight: 4 }}>A = {fmt(roomAbsorption(room))} m² · lados</span>
+							{Array.from({ length: segCount }, (_, i) => {
+								const key = `segment-${i}`;
+								const on = room.segments.includes(key);
+								return (
+									<button key={key} onClick={() => toggleSegment(room.id, key)} title={key}
+										style={{ padding: "0 5px", borderRadius: 3, border: "none", cursor: "pointer", fontSize: 10, color: "#fff", background: on ? "#007acc" : "#444" }}>{i}</button>
+								);
+							})}
+						</div>
+					</div>
+				);
+			})}
+			{!rooms.length && <div style={{ fontSize: 10, color: "#ffcc80", marginBottom: 4 }}>Sin salas: todos los lados emiten su Lw constante</div>}
+		</div>
+	);
+}
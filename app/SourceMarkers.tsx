@@ -0,0 +1,73 @@
+"use client";
+
+import React, { useMemo } from "react";
+import * as THREE from "three";
+import { Html, Line } from "@react-three/drei";
+import { SOURCE_COLORS, StandaloneSource } from "./acoustics/StandaloneSources";
+
+type Props = {
+	sources: StandaloneSource[];
+};
+
+// longitud (m) de la flecha de directividad de las fuentes puntuales
+const ARROW_LENGTH = 3;
+
+/**
+ * SourceMarkers
+ *
+ * Fuentes independientes en la vista 3D, a su altura de emisión y con el color de su tipo: las puntuales
+ * como caja sobre un mástil (con flecha hacia su dirección principal si son direccionales), las lineales
+ * como polilínea y las superficiales como contorno con relleno translúcido.
+ */
+export default function SourceMarkers({ sources }: Props) {
+	// relleno de las superficiales: la forma se define en (x, -z) y se tumba sobre el plano XZ
+	const shapes = useMemo(() => new Map(sources.filter(s => s.type === "area" && s.points.length >= 3).map(s =>
+		[s.id, new THREE.Shape(s.points.map(([x, z]) => new THREE.Vector2(x, -z)))]
+	)), [sources]);
+
+	return (
+		<group>
+			{sources.map(s => {
+				const color = SOURCE_COLORS[s.type];
+				const h = Math.max(0.05, Number(s.height) || 0);
+				const pts = s.points.map(([x, z]) => [x, h, z] as [number, number, number]);
+				if (!pts.length) return null;
+
+				if (s.type === "point") {
+					const [x, , z] = pts[0];
+					const dir = Number(s.directivity) * Math.PI / 180;
+					return (
+						<group key={s.id}>
+							<Line points={[[x, 0, z], [x, h, z]]} color={color} lineWidth={1} />
+							<mesh position={[x, h, z]}>
+								<boxGeometry args={[0.8, 0.8, 0.8]} />
+								<meshBasicMaterial color={color} />
+							</mesh>
+							{Number.isFinite(dir) && (
+								<Line points={[[x, h, z], [x + Math.cos(dir) * ARROW_LENGTH, h, z + Math.sin(dir) * ARROW_LENGTH]]} color={color} lineWidth={3} />
+							)}
+							<Html position={[x, h + 1, z]} center zIndexRange={[900, 0]} style={{ pointerEvents: "none" }}>
+								<div style={{ fontSize: 11, fontFamily: "sans-serif", color: "#fff", background: "rgba(0,0,0,0.7)", padding: "1px 4px", borderRadius: 3, whiteSpace: "nowrap" }}>
+									{s.name || s.id}
+								</div>
+							</Html>
+						</group>
+					);
+				}
+
+				const shape = shapes.get(s.id);
+				return (
+					<group key={s.id}>
+						{pts.length >= 2 && <Line points={s.type === "area" ? [...pts, pts[0]] : pts} color={color} lineWidth={3} />}
+						{shape && (
+							<mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, h, 0]}>
+								<shapeGeometry args={[shape]} />
+								<meshBasicMaterial color={color} transparent opacity={0.25} side={THREE.DoubleSide} depthWrite={false} />
+							</mesh>
+						)}
+					</group>
+				);
+			})}
+		</group>
+	);
+}
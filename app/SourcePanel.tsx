@@ -0,0 +1,129 @@
+"use client";
+
+import React from "react";
+import { Scene } from "./types";
+import { createSource, SOURCE_COLORS, SOURCE_PRESETS, SOURCE_TYPES, SourceType, sourcePower, StandaloneSource } from "./acoustics/StandaloneSources";
+
+// fuente en colocación sobre el suelo (vértices [x,z] añadidos con clic en ZoneDrawer)
+export type SourceDraft = { type: SourceType; points: number[][] };
+
+type Props = {
+	scene: Scene;
+	setScene: React.Dispatch<React.SetStateAction<Scene>>;
+	draft: SourceDraft | null;
+	setDraft: (draft: SourceDraft | null) => void;
+};
+
+const fmt = (v: number, digits = 1) => Number.isFinite(v) ? v.toFixed(digits) : "—";
+
+/**
+ * SourcePanel
+ *
+ * Fuentes independientes de la escena (scene.sources, app/acoustics/StandaloneSources.ts): equipos puntuales
+ * con altura y directividad, fuentes lineales (Lw/m) y superficiales (Lw/m²). "Colocar" activa el dibujo
+ * sobre el suelo: la puntual se crea con el primer clic; la lineal y la superficial con "Terminar" cuando
+ * tienen vértices suficientes. La tabla edita nivel, altura, directividad y posición de cada fuente.
+ */
+export default function SourcePanel({ scene, setScene, draft, setDraft }: Props) {
+	const sources: StandaloneSource[] = scene.sources ?? [];
+	const [newType, setNewType] = React.useState<SourceType>("point");
+
+	const setSources = (fn: (ss: StandaloneSource[]) => StandaloneSource[]) => setScene(sc => ({ ...sc, sources: fn(sc.sources ?? []) }));
+	const updateSource = (id: string, patch: Partial<StandaloneSource>) => setSources(ss => ss.map(s => s.id === id ? { ...s, ...patch } : s));
+	const movePoint = (source: StandaloneSource, axis: number, v: number) => {
+		const [x, z] = source.points[0] ?? [0, 0];
+		updateSource(source.id, { points: [axis === 0 ? [v, z] : [x, v]] });
+	};
+	const canFinish = !!draft && draft.points.length >= SOURCE_PRESETS[draft.type].minPoints;
+	const finishDraft = () => {
+		if (!draft || !canFinish) return;
+		setSources(ss => [...ss, createSource(draft.type, draft.points, ss)]);
+		setDraft(null);
+	};
+
+	const cell: React.CSSProperties = { padding: "2px 4px", fontSize: 11 };
+	const numInput = (value: number | undefined, onChange: (v: number) => void, opts: { width?: number; step?: number; title?: string; min?: number } = {}) => (
+		<input type="number" value={value ?? ""} step={opts.step ?? 1} title={opts.title}
+			onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange(Math.max(opts.min ?? -Infinity, Number(e.target.value || 0)))}
+			style={{ width: opts.width ?? 40, padding: "1px 2px", borderRadius: 3 }} />
+	);
+	const button: React.CSSProperties = { padding: "4px 8px", borderRadius: 4, background: "#444", color: "#fff", border: "none", cursor: "pointer", fontSize: 11 };
+
+	return (
+		<div style={{ marginBottom: 8 }}>
+			<div style={{ fontSize: 12, fontWeight: 700, marginBottom: 4 }}>Fuentes (equipos, viales, superficies)</div>
+			{!!sources.length && (
+				<table style={{ width: "100%", borderCollapse: "collapse" }}>
+					<thead>
+						<tr style={{ textAlign: "left", borderBottom: "1px solid #666" }}>
+							<th style={cell}>Fuente</th><th style={cell}>Lw</th><th style={cell}>h</th><th style={cell}>Dir.</th>
+							<th style={{ ...cell, textAlign: "right" }}>Total</th><th style={cell} />
+						</tr>
+					</thead>
+					<tbody>
+						{sources.map(s => {
+							const preset = SOURCE_PRESETS[s.type];
+							return (
+								<React.Fragment key={s.id}>
+									<tr>
+										<td style={cell}>
+											<input type="text" value={s.name ?? ""} placeholder={s.id} title={preset.label}
+												onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateSource(s.id, { name: e.target.value })}
+												style={{ width: 84, padding: "1px 2px", borderRadius: 3, borderLeft: `4px solid ${SOURCE_COLORS[s.type]}` }} />
+										</td>
+										<td style={{ ...cell, whiteSpace: "nowrap" }}>
+											{numInput(s.Lw?.value, v => updateSource(s.id, { Lw: { ...s.Lw, value: v } }), { title: `Lw (${preset.unit})` })} <span style={{ color: "#aaa" }}>{preset.unit}</span>
+										</td>
+										<td style={cell}>{numInput(s.height, v => updateSource(s.id, { height: v }), { width: 36, step: 0.5, min: 0, title: "Altura de emisión (m)" })}</td>
+										<td style={cell}>
+											{s.type === "point" && (
+												<input type="number" value={s.directivity ?? ""} step={15} placeholder="omni"
+													title="Dirección principal (°, 0 = +x, 90 = +z); vacío = omnidireccional"
+													onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateSource(s.id, { directivity: e.target.value === "" ? undefined : Number(e.target.value) })}
+													style={{ width: 40, padding: "1px 2px", borderRadius: 3 }} />
+											)}
+										</td>
+										<td style={{ ...cell, textAlign: "right" }} title="Lw total de la fuente (dB)">{fmt(sourcePower(s))}</td>
+										<td style={cell}>
+											<button onClick={() => setSources(ss => ss.filter(f => f.id !== s.id))}
+												style={{ padding: "0 6px", borderRadius: 4, background: "#444", color: "#fff", border: "none", cursor: "pointer" }}>×</button>
+										</td>
+									</tr>
+									{s.type === "point" && (
+										<tr style={{ color: "#ccc" }}>
+											<td style={{ ...cell, paddingLeft: 12 }} colSpan={6}>
+												x {numInput(s.points[0]?.[0], v => movePoint(s, 0, v), { width: 48, step: 0.5 })}
+												{" "}z {numInput(s.points[0]?.[1], v => movePoint(s, 1, v), { width: 48, step: 0.5 })}
+											</td>
+										</tr>
+									)}
+								</React.Fragment>
+							);
+						})}
+					</tbody>
+				</table>
+			)}
+
+			<div style={{ display: "flex", alignItems: "center", gap: 6, marginTop: 4 }}>
+				{draft ? (
+					<>
+						<div style={{ flex: 1, fontSize: 11 }}>
+							{draft.type === "point" ? "Clic en el suelo para colocar la fuente" : `Clic en el suelo para añadir vértices (${draft.points.length})`}
+						</div>
+						{draft.type !== "point" && (
+							<button onClick={finishDraft} disabled={!canFinish} style={{ ...button, background: "#2e7d32", opacity: canFinish ? 1 : 0.5 }}>Terminar</button>
+						)}
+						<button onClick={() => setDraft(null)} style={button}>Cancelar</button>
+					</>
+				) : (
+					<>
+						<select value={newType} onChange={(e) => setNewType(e.target.value as SourceType)} style={{ flex: 1, padding: "2px 4px", borderRadius: 4 }}>
+							{SOURCE_TYPES.map(t => <option key={t} value={t}>{SOURCE_PRESETS[t].label} ({SOURCE_PRESETS[t].Lw} {SOURCE_PRESETS[t].unit})</option>)}
+						</select>
+						<button onClick={() => setDraft({ type: newType, points: [] })} style={{ ...button, background: "#2e7d32" }}>Colocar</button>
+					</>
+				)}
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,55 @@
+"use client";
+
+import React, { useState } from "react";
+import { ThreeEvent } from "@react-three/fiber";
+import { Line } from "@react-three/drei";
+
+type Props = {
+	color: string;
+	closed?: boolean; // false: polilínea abierta (fuentes lineales)
+	points: number[][];
+	onAddPoint: (point: number[]) => void;
+	areaSize?: number;
+	snap?: number; // rejilla de ajuste (m); 0 = sin ajuste
+};
+
+const DRAW_Y = 0.1;
+// píxeles de arrastre a partir de los que un clic se considera giro de cámara y no vértice
+const CLICK_TOLERANCE_PX = 4;
+
+/**
+ * ZoneDrawer
+ *
+ * Dibujo de una zona acústica o de una fuente sobre el suelo (dentro del Canvas): un plano invisible recoge
+ * los clics, cada clic añade un vértice [x,z] y el contorno provisional llega hasta el puntero (y se cierra
+ * salvo con closed = false). Arrastrar sigue girando
+ * la cámara (los clics con desplazamiento no añaden vértices). Terminar / cancelar se hace desde el panel.
+ */
+export default function ZoneDrawer({ color, closed = true, points, onAddPoint, areaSize = 200, snap = 0.5 }: Props) {
+	const [hover, setHover] = useState<number[] | null>(null);
+	const toGround = (e: ThreeEvent<MouseEvent>) => [e.point.x, e.point.z].map(v => snap > 0 ? Math.round(v / snap) * snap : v);
+
+	const outline = hover ? [...points, hover] : points;
+
+	return (
+		<group>
+			<mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, DRAW_Y, 0]}
+				onClick={(e) => { if (e.delta > CLICK_TOLERANCE_PX) return; e.stopPropagation(); onAddPoint(toGround(e)); }}
+				onPointerMove={(e) => setHover(toGround(e))}
+				onPointerOut={() => setHover(null)}>
+				<planeGeometry args={[areaSize * 2, areaSize * 2]} />
+				<meshBasicMaterial transparent opacity={0} depthWrite={false} />
+			</mesh>
+			{outline.length >= 2 && (
+				<Line points={(closed ? [...outline, outline[0]] : outline).map(([x, z]) => [x, DRAW_Y, z] as [number, number, number])}
+					color={color} lineWidth={2} dashed dashSize={1} gapSize={0.5} depthTest={false} />
+			)}
+			{points.map(([x, z], idx) => (
+				<mesh key={idx} position={[x, DRAW_Y, z]}>
+					<sphereGeometry args={[0.4, 12, 12]} />
+					<meshBasicMaterial color={color} depthTest={false} />
+				</mesh>
+			))}
+		</group>
+	);
+}
@@ -0,0 +1,49 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import AcousticCalculator from "./AcousticCalculator";
+import WaveEmitter from "./WaveEmitter";
+import { sumBandsA } from "../lib/ISOModel";
+
+// caja de 16 × 12 m: lado 0 a 80 dB y el resto a 70 dB
+const poly = [[-8, -6], [8, -6], [8, 6], [-8, 6]];
+const main = poly.map((p, i) => ({ name: `segment-${i}`, p1: p, p2: poly[(i + 1) % poly.length] }));
+const Lw: Record<string, number> = { "segment-0": 80, "segment-1": 70, "segment-2": 70, "segment-3": 70 };
+
+describe("AcousticCalculator.compute con fuentes", () => {
+	beforeAll(() => { vi.spyOn(console, "log").mockImplementation(() => {}); });
+	afterAll(() => { vi.restoreAllMocks(); });
+
+	const res = AcousticCalculator.compute({
+		areaSize: 80,
+		resolution: 40,
+		footprint: 16,
+		buildingHeight: 10,
+		outSegments: main.map(seg => seg.name),
+		poly,
+		main,
+		sources: WaveEmitter.generateSources(poly, main, 1, 0.05, Lw),
+		Lw
+	});
+
+	it("z es la suma energética ponderada A de las bandas, celda a celda", () => {
+		expect(res.bands).toHaveLength(8);
+		let cells = 0;
+		res.z.forEach((row, j) => row.forEach((v, i) => {
+			const levels = res.bands.map(b => b.z[j][i] ?? NaN);
+			if (v === null) {
+				expect(levels.every(L => !Number.isFinite(L))).toBe(true);
+				return;
+			}
+			expect(v).toBeCloseTo(sumBandsA(levels), 9);
+			cells++;
+		}));
+		expect(cells).toBeGreaterThan(0);
+	});
+
+	it("min/max salen del mismo LAeq y el interior queda a null", () => {
+		const values = res.z.flat().filter((v): v is number => v !== null);
+		expect(res.min).toBe(Math.min(...values));
+		expect(res.max).toBe(Math.max(...values));
+		// celda (x, y) ≈ (−1, −1) dentro de la caja
+		expect(res.z[19][19]).toBeNull();
+	});
+});
@@ -2,10 +2,13 @@ import WaveEmitter, { Source } from "./WaveEmitter";
 import Attenuation, { AttenuationOptions } from "./Attenuation";
 import GaussianSmoother from "./GaussianSmoother";
 import { applyColorAttenuation } from "./ColorMap";
-import ISOModel from "../lib/ISOModel";
-import { buildAllFacades } from "./FacadeUtils";
+import ISOModel, { DEFAULT_DF_OUT, DEFAULT_DF_ROOM, Meteo, OCTAVE_BANDS, OctaveSpectrum, spectrumFromBroadband } from "../lib/ISOModel";
+import { buildAllFacades, FacadeBuildUp } from "./FacadeUtils";
 import { defaultParams } from "../config";
 import { generateSegmentBandEnergy, pointInPolygon } from "./GradientFactory";
+import { activeGround, GroundConfig } from "./GroundRegions";
+import BuildingScreen from "./BuildingScreen";
+import ImageSources, { ReflectionOptions } from "./ImageSources";
 
 // Función auxiliar para atenuar los extremos de un segmento (taper en los bordes)
 // pos: posición a lo largo del segmento (metros), segLen: longitud total del segmento (metros)
@@ -31,7 +34,13 @@ type ComputeCfg = {
   poly?: number[][]; // perímetro en planta (array de [x,z])
   main?: { name: string; p1: number[]; p2: number[] }[]; // segmentos/fachadas
   Lw: Record<string, number>; // niveles Lw por segmento
+  LwSpectrum?: Record<string, OctaveSpectrum>; // Lw por bandas de octava por segmento (opcional)
+  buildingHeight?: number;
+  facades?: Record<string, FacadeBuildUp>; // composición de cada fachada (muro y elementos) para Re'
+  outSegments?: string[]; // segmentos cuyo Lw ya es Lw_out (Re' restado antes, p. ej. modelo de sala): Re' = 0
+  measureH?: number; // altura del receptor (m) para A_gr
   sources?: Source[];
+  obstacles?: { poly: number[][]; height: number }[]; // otros edificios de la escena: apantallan y se excluyen del mapa
   params?: {
     preSmoothSize?: number;
     preSmoothSigma?: number;
@@ -43,11 +52,15 @@ type ComputeCfg = {
     cellSize?: number;       // tamaño de celda en metros (preferible)
     sourceSpacing?: number;  // separación entre emisores en perímetro (m)
     // Opciones relacionadas a ISO (sobrescribir si es necesario)
-    Df_room?: number;
-    Df_out?: number;
+    Df_room?: number;        // por defecto DEFAULT_DF_ROOM (6 dB), igual que el motor de escena
+    Df_out?: number;         // por defecto DEFAULT_DF_OUT (0 dB)
     Rmap?: Record<string, number>; // parámetros R por segmento si están disponibles
     Lp_in_map?: Record<string, number>; // Lp_in por sala para calcular Lw_room si se dispone
     invertNormals?: boolean;
+    meteo?: Meteo; // temperatura/humedad/presión para la absorción atmosférica por banda
+    ground?: GroundConfig; // zonas de suelo (G) para A_gr según ISO 9613-2
+    sourceHeight?: number; // altura de emisión de las fachadas (m); por defecto mitad de buildingHeight
+    reflections?: ReflectionOptions & { enabled?: boolean }; // fuentes imagen en las fachadas (requiere `main`)
   };
 };
 
@@ -61,9 +74,10 @@ type ComputeCfg = {
  *  - niveles por fachada (`Lw`) y parámetros opcionales en `params`.
  *
  * Resultado:
- *  - { x: number[], y: number[], z: (number|null)[][], min: number, max: number, poly: number[][] }
+ *  - { x: number[], y: number[], z: (number|null)[][], min: number, max: number, poly: number[][], bands }
  *    x,y: ejes de la grilla (metros), z: matriz de niveles en dB (null = celda ausente para Plotly),
- *    min/max: extremos útiles para normalizar la paleta.
+ *    min/max: extremos útiles para normalizar la paleta,
+ *    bands: Lp por banda de octava [{ freq, z }] (vacío si no se suministran `sources`).
  *
  * Notas de diseño y unidades:
  *  - Distancias en metros; niveles en dB. Internamente se suman energías lineales (10^(dB/10)).
@@ -71,8 +85,13 @@ type ComputeCfg = {
  *
  * Flujo principal (compute):
  *  1) Construcción de la grilla (xs, ys).
- *  2) Extracción de elementos de fachada (buildAllFacades) y cálculo de pérdidas Re' (ISOModel).
- *  3) Cálculo base Lp_out por celda con ISOModel (usando Lw_room y Re').
+ *  2) Extracción de elementos de fachada (buildAllFacades) y cálculo de pérdidas Re' (ISOModel), global y por banda.
+ *  3) Cálculo base por celda: con `sources`, motor por bandas de octava (63 Hz – 8 kHz) con Re', A_atm
+ *     A_gr (zonas de suelo de params.ground) y A_bar (apantallamiento del propio edificio, BuildingScreen)
+ *     por banda, reflexiones de primer orden (ImageSources, params.reflections), ponderación A y suma a LAeq;
+ *     `obstacles` (otros edificios) añade pantallas y excluye sus huellas;
+ *     con `sources` el resultado termina aquí: z es el LAeq (suma energética ponderada A de `bands`).
+ *     Sin `sources`, Lp_out global desde la fachada más cercana, y siguen los pasos visuales 4-7.
  *  4) Suavizados pre/final con GaussianSmoother (si se configuran).
  *  5) Generación de overlay por fachada (bandas: blue/green/yellow/red) mediante generateSegmentBandEnergy.
  *  6) Combinación lineal de energía base + energía por fachadas; conversión a dB.
@@ -81,7 +100,8 @@ type ComputeCfg = {
  * Recomendaciones:
  *  - Para visualización interactiva usar cellSize ~ 0.5..1.0 m y sourceSpacing 0.1..0.5 m.
  *  - Si se necesita mayor fidelidad reducir cellSize y sourceSpacing (a costa de CPU).
- *  - El modelo es aproximado; no sustituye cálculos normativos por bandas de octava/tercio.
+ *  - El overlay por fachadas (pasos 5-7) es heurístico y solo se aplica sin `sources`; para informes
+ *    usar el cálculo con `sources`, cuyo z es el LAeq de `bands`.
  */
 export default class AcousticCalculator {
   /**
@@ -119,13 +139,18 @@ export default class AcousticCalculator {
 
     const main = cfg.main ?? [];
     // Construye el mapa de elementos de fachada (se usan para calcular Re' y áreas)
-    const facadeMap = buildAllFacades(main as any, (cfg as any).buildingHeight ?? 10, cfg.params?.Rmap);
+    const facadeMap = buildAllFacades(main as any, cfg.buildingHeight ?? 10, cfg.params?.Rmap, cfg.facades);
 
-    // Precalcula Re' (pérdida de fachada) por segmento mediante ISOModel
+    // Precalcula Re' (pérdida de fachada) por segmento mediante ISOModel (global y por banda de octava);
+    // 0 en outSegments, cuyo Lw ya lo descuenta
     const RePrimeMap: Record<string, number> = {};
+    const RePrimeBandsMap: Record<string, OctaveSpectrum> = {};
+    const outSegments = new Set(cfg.outSegments ?? []);
     for (const seg of main as any) {
       const elems = facadeMap[seg.name] || [];
-      RePrimeMap[seg.name] = ISOModel.computeFacadeRePrime(elems);
+      const net = outSegments.has(seg.name);
+      RePrimeMap[seg.name] = net ? 0 : ISOModel.computeFacadeRePrime(elems);
+      RePrimeBandsMap[seg.name] = net ? OCTAVE_BANDS.map(() => 0) : ISOModel.computeFacadeRePrimeBands(elems);
     }
 
     // Cálculo del centróide del perímetro (usado como heurística fallback para orientar normales)
@@ -135,60 +160,117 @@ export default class AcousticCalculator {
       centroidX /= cfg.poly.length; centroidY /= cfg.poly.length;
     }
 
+    // otros edificios (escena multi-edificio): pantallas adicionales y celdas excluidas
+    const obstacles = (cfg.obstacles ?? []).filter(o => o.poly && o.poly.length >= 3);
+    const insideObstacle = (x: number, z: number) => obstacles.some(o => pointInPolygon(x, z, o.poly));
+
     // Cálculo base Lp_out por celda (simplificación ISO)
     const output: number[][] = Array.from({ length: res }, () => new Array(res).fill(NaN));
-    for (let j = 0; j < res; j++) {
-      for (let i = 0; i < res; i++) {
-        const px = xs[i], pz = ys[j];
-        // Si el punto está dentro del perímetro, lo marcamos como NaN (no válido / interior)
-        if (cfg.poly && cfg.poly.length >= 3) {
-          let inside = false;
-          for (let a = 0, b = cfg.poly.length - 1; a < cfg.poly.length; b = a++) {
-            const xi = cfg.poly[a][0], zi = cfg.poly[a][1];
-            const xj = cfg.poly[b][0], zj = cfg.poly[b][1];
-            const intersect = ((zi > pz) !== (zj > pz)) && (px < (xj - xi) * (pz - zi) / ((zj - zi) || 1e-12) + xi);
-            if (intersect) inside = !inside;
+    const bandGrids: number[][][] = [];
+    if (cfg.sources && cfg.sources.length) {
+      // Motor por bandas de octava: cada fuente aporta Lw por banda. Si no trae LwBands, la potencia
+      // de su segmento (LwSpectrum o Lw global) se reparte entre las muestras de ese segmento.
+      const samplesPerSegment: Record<string, number> = {};
+      for (const s of cfg.sources) if (s.segment) samplesPerSegment[s.segment] = (samplesPerSegment[s.segment] ?? 0) + 1;
+      const bandSources = cfg.sources.map(s => {
+        if (s.LwBands) return s;
+        if (!s.segment) return { ...s, LwBands: spectrumFromBroadband(s.Lw) };
+        const lwSeg = Number.isFinite(Number(cfg.Lw?.[s.segment])) ? Number(cfg.Lw[s.segment]) : s.Lw;
+        const spectrum = cfg.LwSpectrum?.[s.segment] ?? spectrumFromBroadband(lwSeg);
+        return { ...s, LwBands: spectrum.map(v => v - 10 * Math.log10(samplesPerSegment[s.segment!])) };
+      });
+      // reflexiones de primer orden: las imágenes heredan el espectro ya repartido de cada muestra
+      const reflections = cfg.params?.reflections;
+      if (reflections && reflections.enabled !== false && cfg.main?.length) {
+        bandSources.push(...ImageSources.generateImageSources(bandSources, cfg.main, cfg.poly ?? [], reflections));
+      }
+      const outsideMask = Array.from({ length: res }, (_, j) => xs.map(x =>
+        !(cfg.poly && cfg.poly.length >= 3 && pointInPolygon(x, ys[j], cfg.poly)) && !insideObstacle(x, ys[j])));
+      const screens = [
+        ...(cfg.poly && cfg.poly.length >= 3 ? [new BuildingScreen(cfg.poly, cfg.buildingHeight ?? 10)] : []),
+        ...obstacles.map(o => new BuildingScreen(o.poly, o.height))
+      ];
+      const { bands, LAeq } = ISOModel.computeGridBandsFromSources(bandSources, xs, ys, {
+        RePrimeBandsMap,
+        Lw_isRoom: true,
+        Df_room: cfg.params?.Df_room ?? DEFAULT_DF_ROOM,
+        Df_out: cfg.params?.Df_out ?? DEFAULT_DF_OUT,
+        meteo: cfg.params?.meteo,
+        ground: activeGround(cfg.params?.ground),
+        sourceHeight: cfg.params?.sourceHeight ?? (cfg.buildingHeight ?? 10) / 2,
+        receiverHeight: cfg.measureH ?? 2,
+        screens: screens.length ? screens : undefined,
+        mask: outsideMask
+      });
+      for (let j = 0; j < res; j++) for (let i = 0; i < res; i++) {
+        output[j][i] = outsideMask[j][i] && Number.isFinite(LAeq[j][i]) ? LAeq[j][i] : NaN;
+      }
+      // z es el LAeq de las bandas, sin suavizados ni overlay: 10·log10(Σ 10^((Lp_k + A_k)/10)) celda a celda
+      let min = Infinity, max = -Infinity;
+      for (const row of output) for (const v of row) if (Number.isFinite(v)) { min = Math.min(min, v); max = Math.max(max, v); }
+      return {
+        x: xs,
+        y: ys,
+        z: output.map(row => row.map(v => Number.isFinite(v) ? v : null)),
+        min: Number.isFinite(min) ? min : 0,
+        max: Number.isFinite(max) ? max : 0,
+        poly: cfg.poly ?? [],
+        bands: bands.map((grid, k) => ({ freq: OCTAVE_BANDS[k] as number, z: grid.map(row => row.map(v => Number.isFinite(v) ? v : null)) }))
+      };
+    } else {
+      for (let j = 0; j < res; j++) {
+        for (let i = 0; i < res; i++) {
+          const px = xs[i], pz = ys[j];
+          // Si el punto está dentro del perímetro, lo marcamos como NaN (no válido / interior)
+          if (cfg.poly && cfg.poly.length >= 3) {
+            let inside = false;
+            for (let a = 0, b = cfg.poly.length - 1; a < cfg.poly.length; b = a++) {
+              const xi = cfg.poly[a][0], zi = cfg.poly[a][1];
+              const xj = cfg.poly[b][0], zj = cfg.poly[b][1];
+              const intersect = ((zi > pz) !== (zj > pz)) && (px < (xj - xi) * (pz - zi) / ((zj - zi) || 1e-12) + xi);
+              if (intersect) inside = !inside;
+            }
+            if (inside) { output[j][i] = NaN; continue; }
           }
-          if (inside) { output[j][i] = NaN; continue; }
-        }
 
-        // Buscar el segmento más cercano mediante distancia perpendicular
-        let bestSeg: any = null, bestDist = Infinity;
-        for (const seg of main as any) {
-          const ax = seg.p1[0], az = seg.p1[1];
-          const bx = seg.p2[0], bz = seg.p2[1];
-          const vx = bx - ax, vz = bz - az;
-          const wx = px - ax, wz = pz - az;
-          const len2 = vx * vx + vz * vz;
-          const t = len2 > 0 ? Math.max(0, Math.min(1, (wx * vx + wz * vz) / len2)) : 0;
-          const cx = ax + vx * t, cz = az + vz * t;
-          const d = Math.hypot(px - cx, pz - cz);
-          if (d < bestDist) { bestDist = d; bestSeg = { seg, cx, cz, t }; }
-        }
-        if (!bestSeg) { output[j][i] = NaN; continue; }
+          // Buscar el segmento más cercano mediante distancia perpendicular
+          let bestSeg: any = null, bestDist = Infinity;
+          for (const seg of main as any) {
+            const ax = seg.p1[0], az = seg.p1[1];
+            const bx = seg.p2[0], bz = seg.p2[1];
+            const vx = bx - ax, vz = bz - az;
+            const wx = px - ax, wz = pz - az;
+            const len2 = vx * vx + vz * vz;
+            const t = len2 > 0 ? Math.max(0, Math.min(1, (wx * vx + wz * vz) / len2)) : 0;
+            const cx = ax + vx * t, cz = az + vz * t;
+            const d = Math.hypot(px - cx, pz - cz);
+            if (d < bestDist) { bestDist = d; bestSeg = { seg, cx, cz, t }; }
+          }
+          if (!bestSeg) { output[j][i] = NaN; continue; }
 
-        // Determinar Lw_room: preferencia por cfg.Lw; si no existe usar Lp_in_map para calcular Lw; si no, fallback
-        const segName = bestSeg.seg.name;
-        let Lw_room = Number(cfg.Lw?.[segName] ?? NaN);
-        if (!Number.isFinite(Lw_room) && cfg.params?.Lp_in_map && Number.isFinite(cfg.params.Lp_in_map[segName])) {
-          Lw_room = ISOModel.computeLwRoomFromLpIn(cfg.params.Lp_in_map[segName], (facadeMap[segName]?.reduce((s, e) => s + e.area, 0) || 1));
-        }
-        if (!Number.isFinite(Lw_room)) {
-          Lw_room = 60; // valor nominal por defecto si no hay datos
-        }
+          // Determinar Lw_room: preferencia por cfg.Lw; si no existe usar Lp_in_map para calcular Lw; si no, fallback
+          const segName = bestSeg.seg.name;
+          let Lw_room = Number(cfg.Lw?.[segName] ?? NaN);
+          if (!Number.isFinite(Lw_room) && cfg.params?.Lp_in_map && Number.isFinite(cfg.params.Lp_in_map[segName])) {
+            Lw_room = ISOModel.computeLwRoomFromLpIn(cfg.params.Lp_in_map[segName], (facadeMap[segName]?.reduce((s, e) => s + e.area, 0) || 1));
+          }
+          if (!Number.isFinite(Lw_room)) {
+            Lw_room = 60; // valor nominal por defecto si no hay datos
+          }
 
-        const RePrime = RePrimeMap[segName] ?? 30;
-        const Df_room = cfg.params?.Df_room ?? 1;
-        const Df_out = cfg.params?.Df_out ?? 1;
-        const lpOut = ISOModel.computeLpOutAtPoint({
-          Lw_room,
-          RePrime,
-          Df_room,
-          Df_out,
-          distanceM: Math.max(0.01, bestDist),
-          atmospheric: 0
-        });
-        output[j][i] = lpOut;
+          const RePrime = RePrimeMap[segName] ?? 30;
+          const Df_room = cfg.params?.Df_room ?? DEFAULT_DF_ROOM;
+          const Df_out = cfg.params?.Df_out ?? DEFAULT_DF_OUT;
+          const lpOut = ISOModel.computeLpOutAtPoint({
+            Lw_room,
+            RePrime,
+            Df_room,
+            Df_out,
+            distanceM: Math.max(0.01, bestDist),
+            atmospheric: 0
+          });
+          output[j][i] = lpOut;
+        }
       }
     }
 
@@ -468,8 +550,13 @@ export default class AcousticCalculator {
     const finalMaxAfter = flatFinalAfterCap.length ? Math.max(...flatFinalAfterCap) : finalMax;
 
     // Convertir valores no finitos (NaN) a null para que Plotly los trate como transparentes
-    const zForPlot = finalSmooth.map(row => row.map(v => Number.isFinite(v) ? v : null));
-    return { x: xs, y: ys, z: zForPlot, min: finalMinAfter, max: finalMaxAfter, poly: cfg.poly ?? [] };
+    const zForPlot = finalSmooth.map((row, j) => row.map((v, i) => Number.isFinite(v) && !insideObstacle(xs[i], ys[j]) ? v : null));
+    // Niveles por banda de octava (sin suavizado ni overlay) para informes por banda
+    const bands = bandGrids.map((grid, k) => ({
+      freq: OCTAVE_BANDS[k] as number,
+      z: grid.map(row => row.map(v => Number.isFinite(v) ? v : null))
+    }));
+    return { x: xs, y: ys, z: zForPlot, min: finalMinAfter, max: finalMaxAfter, poly: cfg.poly ?? [], bands };
   }
 }
 
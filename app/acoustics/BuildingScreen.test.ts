@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import BuildingScreen from "./BuildingScreen";
+import { aBarrier, barrierDz } from "../lib/ISOModel";
+
+// planta cuadrada de 10 × 10 m centrada en el origen, 10 m de altura
+const square = new BuildingScreen([[-5, -5], [5, -5], [5, 5], [-5, 5]], 10);
+
+describe("barrierDz (ISO 9613-2, ec. 14)", () => {
+	it("arista simple: D_z = 10·log10(3 + 20·z/λ)", () => {
+		// 1 kHz, λ = 0.34 m, z = 1 m -> 10·log10(3 + 58.82) = 17.91 dB
+		expect(barrierDz(1, 1000)).toBeCloseTo(17.91, 2);
+		expect(barrierDz(0, 1000)).toBeCloseTo(10 * Math.log10(3), 10);
+		expect(barrierDz(100, 1000)).toBe(20);
+	});
+
+	it("doble arista: C3 = (1 + (5λ/e)²) / (1/3 + (5λ/e)²), límite 25 dB", () => {
+		const r = Math.pow(5 * 0.34 / 10, 2);
+		const C3 = (1 + r) / (1 / 3 + r);
+		expect(barrierDz(0.5, 1000, 10)).toBeCloseTo(10 * Math.log10(3 + (20 / 0.34) * C3 * 0.5), 10);
+		expect(barrierDz(100, 1000, 10)).toBe(25);
+	});
+});
+
+describe("BuildingScreen", () => {
+	it("findDiffractionPaths reutiliza su resultado y coincide con diffractionPaths", () => {
+		const a = square.findDiffractionPaths(-20, 0, 1, 20, 0, 2);
+		expect(a).toEqual(square.diffractionPaths(-20, 0, 1, 20, 0, 2));
+		expect(a!.lateral).toHaveLength(2);
+		// otro trayecto: mismo objeto, valores nuevos; la copia de diffractionPaths no cambia
+		const copy = square.diffractionPaths(-20, 0, 1, 20, 0, 2);
+		const b = square.findDiffractionPaths(-20, -3, 1, 20, 3, 2);
+		expect(b).toBe(a);
+		expect(b).toEqual(square.diffractionPaths(-20, -3, 1, 20, 3, 2));
+		expect(copy).not.toEqual(b);
+		expect(square.findDiffractionPaths(-20, 6, 1, 20, 6, 2)).toBeNull();
+	});
+
+	it("isBlocked: solo los trayectos que atraviesan la huella", () => {
+		expect(square.isBlocked(-20, 0, 20, 0)).toBe(true);
+		expect(square.isBlocked(-20, 6, 20, 6)).toBe(false);
+		expect(square.isBlocked(-20, 0, -6, 0)).toBe(false);
+	});
+
+	it("diffractionPaths: cubierta y rodeos laterales", () => {
+		const p = square.diffractionPaths(-20, 0, 1, 20, 0, 1)!;
+		expect(p.direct).toBeCloseTo(40, 10);
+		// cubierta: 15 m hasta la fachada, 9 m de subida, 10 m de cubierta
+		const dss = Math.hypot(15, 9);
+		expect(p.top.e).toBeCloseTo(10, 10);
+		expect(p.top.dss).toBeCloseTo(dss, 10);
+		expect(p.top.z).toBeCloseTo(2 * dss + 10 - 40, 10);
+		// laterales: S -> (-5, ±5) -> (5, ±5) -> R
+		expect(p.lateral).toHaveLength(2);
+		for (const lat of p.lateral) {
+			expect(lat.z).toBeCloseTo(2 * Math.hypot(15, 5) + 10 - 40, 10);
+			expect(lat.e).toBeCloseTo(10, 10);
+		}
+	});
+
+	it("sin bloqueo si la visual pasa por encima de la cubierta", () => {
+		expect(square.diffractionPaths(-20, 0, 12, 20, 0, 12)).toBeNull();
+	});
+
+	it("aBarrier suma en energía cubierta y laterales", () => {
+		const p = square.diffractionPaths(-20, 0, 1, 20, 0, 1)!;
+		const A = aBarrier(p);
+		const Kmet = Math.exp(-(1 / 2000) * Math.sqrt(p.top.dss * p.top.dsr * p.direct / (2 * p.top.z)));
+		const E = Math.pow(10, -barrierDz(p.top.z, 1000, 10, Kmet) / 10) + 2 * Math.pow(10, -barrierDz(p.lateral[0].z, 1000, 10) / 10);
+		expect(A[4]).toBeCloseTo(-10 * Math.log10(E), 10);
+		// más atenuación en agudos
+		expect(A[7]).toBeGreaterThan(A[1]);
+	});
+});
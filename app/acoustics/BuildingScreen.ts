@@ -0,0 +1,222 @@
+import { pointInPolygon } from "./GradientFactory";
+
+/**
+ * ScreenPaths: trayectos de difracción alrededor de un edificio para un par fuente-receptor bloqueado
+ *  - top: difracción sobre la cubierta (doble arista). z = diferencia de recorrido (m),
+ *         e = distancia entre aristas (ancho atravesado), dss/dsr = distancias fuente->1ª arista y 2ª arista->receptor.
+ *  - lateral: rodeo por las esquinas de la planta a cada lado (izquierda/derecha), z y e análogos.
+ *  - direct: distancia directa 3D fuente-receptor (m).
+ */
+export type ScreenPaths = {
+	direct: number;
+	top: { z: number; e: number; dss: number; dsr: number };
+	lateral: { z: number; e: number }[];
+};
+
+const EPS = 1e-9;
+
+/**
+ * BuildingScreen
+ *
+ * Apantallamiento de un edificio (huella en planta + altura) sobre trayectos fuente-receptor.
+ *  - isBlocked: test de visibilidad en planta contra la huella (polígono simple, cóncavo o convexo).
+ *  - diffractionPaths: si el trayecto está bloqueado, recorridos por encima de la cubierta (buildingHeight)
+ *    y alrededor de las esquinas (grafo de visibilidad entre vértices, un camino por cada lado de la recta SR).
+ *
+ * La visibilidad vértice-vértice se precalcula en el constructor; la del último receptor se cachea,
+ * ya que los bucles de grilla recorren todas las fuentes para un mismo receptor. Los cálculos por trayecto
+ * trabajan sobre búferes reservados en el constructor (findDiffractionPaths no crea objetos).
+ */
+export default class BuildingScreen {
+	readonly poly: number[][];
+	readonly height: number;
+	private visVV: boolean[][];
+	// búferes de trabajo (tamaño = vértices de la huella)
+	private ts: Float64Array;
+	private visS: Uint8Array;
+	private visR: Uint8Array;
+	private lastRx = NaN;
+	private lastRz = NaN;
+	private allowed: Uint8Array;
+	private dist: Float64Array;
+	private first: Int32Array;
+	private done: Uint8Array;
+	private sideLength = 0;
+	private sideE = 0;
+	// resultado reutilizado de findDiffractionPaths: lateral apunta a la lista con 0, 1 o 2 rodeos
+	private shared: ScreenPaths = { direct: 0, top: { z: 0, e: 0, dss: 0, dsr: 0 }, lateral: [] };
+	private lateralLists: ScreenPaths["lateral"][];
+
+	constructor(poly: number[][], height: number) {
+		this.poly = (poly ?? []).map(p => [p[0], p[1]]);
+		this.height = Math.max(0, Number(height) || 0);
+		const n = this.poly.length;
+		this.ts = new Float64Array(Math.max(1, n));
+		this.visS = new Uint8Array(n);
+		this.visR = new Uint8Array(n);
+		this.allowed = new Uint8Array(n);
+		this.dist = new Float64Array(n);
+		this.first = new Int32Array(n);
+		this.done = new Uint8Array(n);
+		const slots = [{ z: 0, e: 0 }, { z: 0, e: 0 }];
+		this.lateralLists = [[], [slots[0]], slots];
+		this.visVV = Array.from({ length: n }, () => new Array(n).fill(false));
+		for (let a = 0; a < n; a++) {
+			for (let b = a + 1; b < n; b++) {
+				// aristas consecutivas siempre visibles; el resto según el test de segmento libre
+				const adjacent = b === a + 1 || (a === 0 && b === n - 1);
+				const vis = adjacent || this.isClear(this.poly[a][0], this.poly[a][1], this.poly[b][0], this.poly[b][1]);
+				this.visVV[a][b] = this.visVV[b][a] = vis;
+			}
+		}
+	}
+
+	// intersecciones propias del segmento (ax,az)-(bx,bz) con los bordes de la huella: deja los parámetros
+	// t en (0,1) en this.ts y devuelve cuántos hay
+	private crossings(ax: number, az: number, bx: number, bz: number) {
+		let count = 0;
+		const poly = this.poly;
+		const dx = bx - ax, dz = bz - az;
+		for (let i = 0, j = poly.length - 1; i < poly.length; j = i++) {
+			const ex = poly[i][0] - poly[j][0], ez = poly[i][1] - poly[j][1];
+			const denom = dx * ez - dz * ex;
+			if (Math.abs(denom) < EPS) continue;
+			const wx = poly[j][0] - ax, wz = poly[j][1] - az;
+			const t = (wx * ez - wz * ex) / denom;
+			const u = (wx * dz - wz * dx) / denom;
+			if (t > 1e-7 && t < 1 - 1e-7 && u > 1e-7 && u < 1 - 1e-7) this.ts[count++] = t;
+		}
+		return count;
+	}
+
+	// segmento libre: no corta bordes y su punto medio no cae dentro de la huella
+	private isClear(ax: number, az: number, bx: number, bz: number) {
+		if (this.crossings(ax, az, bx, bz)) return false;
+		return !pointInPolygon((ax + bx) / 2, (az + bz) / 2, this.poly);
+	}
+
+	private visibleVertices(x: number, z: number, out: Uint8Array) {
+		for (let v = 0; v < this.poly.length; v++) out[v] = this.isClear(x, z, this.poly[v][0], this.poly[v][1]) ? 1 : 0;
+		return out;
+	}
+
+	private receiverVisibility(x: number, z: number) {
+		if (this.lastRx !== x || this.lastRz !== z) {
+			this.visibleVertices(x, z, this.visR);
+			this.lastRx = x;
+			this.lastRz = z;
+		}
+		return this.visR;
+	}
+
+	/**
+	 * isBlocked
+	 * true si la línea de visión en planta entre ambos puntos atraviesa la huella.
+	 */
+	isBlocked(ax: number, az: number, bx: number, bz: number) {
+		if (this.poly.length < 3) return false;
+		return !this.isClear(ax, az, bx, bz);
+	}
+
+	/**
+	 * diffractionPaths
+	 * Devuelve los recorridos de difracción para el par (fuente, receptor) o null si hay visión directa
+	 * (en planta o por encima de la cubierta).
+	 */
+	diffractionPaths(sx: number, sz: number, hs: number, rx: number, rz: number, hr: number): ScreenPaths | null {
+		const paths = this.findDiffractionPaths(sx, sz, hs, rx, rz, hr);
+		if (!paths) return null;
+		return { direct: paths.direct, top: { ...paths.top }, lateral: paths.lateral.map(l => ({ ...l })) };
+	}
+
+	/**
+	 * findDiffractionPaths
+	 * Igual que diffractionPaths, pero devuelve un objeto interno que se reutiliza (válido hasta la siguiente
+	 * llamada): es la versión de los bucles de grilla.
+	 */
+	findDiffractionPaths(sx: number, sz: number, hs: number, rx: number, rz: number, hr: number): ScreenPaths | null {
+		if (!this.isBlocked(sx, sz, rx, rz)) return null;
+		const dp = Math.hypot(rx - sx, rz - sz);
+		const direct = Math.hypot(dp, hs - hr);
+
+		// --- cubierta: tramo de la recta SR sobre la huella (primera entrada .. última salida) ---
+		const count = this.crossings(sx, sz, rx, rz);
+		let t1 = 0.5, t2 = 0.5;
+		if (count) {
+			t1 = Infinity;
+			t2 = -Infinity;
+			for (let k = 0; k < count; k++) {
+				if (this.ts[k] < t1) t1 = this.ts[k];
+				if (this.ts[k] > t2) t2 = this.ts[k];
+			}
+		}
+		const H = this.height;
+		const sightAtT1 = hs + (hr - hs) * t1, sightAtT2 = hs + (hr - hs) * t2;
+		if (sightAtT1 >= H && sightAtT2 >= H) return null; // la visual pasa por encima del edificio
+		const a = t1 * dp, b = (1 - t2) * dp, e = (t2 - t1) * dp;
+		const dss = Math.hypot(a, H - hs), dsr = Math.hypot(b, H - hr);
+		const out = this.shared;
+		out.direct = direct;
+		out.top.z = Math.max(0, dss + e + dsr - direct);
+		out.top.e = e;
+		out.top.dss = dss;
+		out.top.dsr = dsr;
+
+		// --- laterales: camino más corto por los vértices a cada lado de la recta SR ---
+		const visS = this.visibleVertices(sx, sz, this.visS);
+		const visR = this.receiverVisibility(rx, rz);
+		const slots = this.lateralLists[2];
+		let lateral = 0;
+		for (let side = 1; side >= -1; side -= 2) {
+			if (!this.shortestSidePath(sx, sz, rx, rz, side, visS, visR)) continue;
+			slots[lateral].z = Math.max(0, Math.hypot(this.sideLength, hs - hr) - direct);
+			slots[lateral].e = this.sideE;
+			lateral++;
+		}
+		out.lateral = this.lateralLists[lateral];
+		return out;
+	}
+
+	// Dijkstra sobre {S, vértices del lado indicado, R}; deja la longitud y la distancia entre 1ª y última
+	// esquina en sideLength / sideE (false si no hay camino por ese lado)
+	private shortestSidePath(sx: number, sz: number, rx: number, rz: number, side: number, visS: Uint8Array, visR: Uint8Array) {
+		const poly = this.poly;
+		const n = poly.length;
+		const dx = rx - sx, dz = rz - sz;
+		const { allowed, dist, first, done } = this;
+		for (let v = 0; v < n; v++) {
+			allowed[v] = side * (dx * (poly[v][1] - sz) - dz * (poly[v][0] - sx)) > EPS ? 1 : 0;
+			dist[v] = Infinity;
+			first[v] = -1; // primer vértice del camino hasta cada nodo
+			done[v] = 0;
+		}
+		for (let v = 0; v < n; v++) {
+			if (allowed[v] && visS[v]) { dist[v] = Math.hypot(poly[v][0] - sx, poly[v][1] - sz); first[v] = v; }
+		}
+		for (;;) {
+			let u = -1;
+			for (let v = 0; v < n; v++) if (!done[v] && dist[v] < Infinity && (u < 0 || dist[v] < dist[u])) u = v;
+			if (u < 0) break;
+			done[u] = 1;
+			for (let v = 0; v < n; v++) {
+				if (done[v] || !allowed[v] || !this.visVV[u][v]) continue;
+				const d = dist[u] + Math.hypot(poly[v][0] - poly[u][0], poly[v][1] - poly[u][1]);
+				if (d < dist[v]) { dist[v] = d; first[v] = first[u]; }
+			}
+		}
+
+		let found = false;
+		for (let v = 0; v < n; v++) {
+			if (!allowed[v] || !visR[v] || dist[v] === Infinity) continue;
+			const length = dist[v] + Math.hypot(rx - poly[v][0], rz - poly[v][1]);
+			if (!found || length < this.sideLength) {
+				const f = poly[first[v]];
+				const toFirst = Math.hypot(f[0] - sx, f[1] - sz);
+				this.sideLength = length;
+				this.sideE = Math.max(0, dist[v] - toFirst);
+				found = true;
+			}
+		}
+		return found;
+	}
+}
@@ -1,6 +1,9 @@
 import ISOModel, { SourceSimple } from "../lib/ISOModel";
-import { getPerpAlong } from "./FacadeUtils";
+import { EmissionPatch, getPerpAlong } from "./FacadeUtils";
 import WaveEmitter from "./WaveEmitter";
+import { GroundConfig } from "./GroundRegions";
+import BuildingScreen from "./BuildingScreen";
+import ImageSources, { ReflectionOptions } from "./ImageSources";
 
 /**
  * getColorscale
@@ -505,6 +508,26 @@ export function generateRedGradient(
 	return out;
 }
 
+/**
+ * FacadeHeatmapOptions: opciones de generateRedHeatmapFromFacade / generateRedHeatmapBySegment
+ */
+export type FacadeHeatmapOptions = {
+	sampleSpacing?: number;
+	outwardOffset?: number;
+	redMaxDist?: number;
+	yellowMaxDist?: number;
+	dbPerMeter?: number;
+	redWeight?: number;
+	yellowWeight?: number;
+	applyYellowBlur?: number; // blur radius in cells
+	ground?: GroundConfig;    // zonas de suelo (A_gr ISO 9613-2)
+	sourceHeight?: number;    // m
+	receiverHeight?: number;  // m
+	screens?: BuildingScreen[]; // edificios que apantallan (A_bar)
+	reflections?: ReflectionOptions; // si se indica, añade fuentes imagen (reflexión en las demás fachadas)
+	patches?: Record<string, EmissionPatch[]>; // reparto de cada fachada entre muro y elementos (emissionPatches)
+};
+
 /**
  * generateRedHeatmapFromFacade(...)
  *
@@ -517,18 +540,75 @@ export function generateRedHeatmapFromFacade(
 	segments: { name?: string; p1: number[]; p2: number[] }[],
 	perimeter: number[][],
 	lwMap?: Record<string, number>,
-	options?: {
-		sampleSpacing?: number;
-		outwardOffset?: number;
-		redMaxDist?: number;
-		yellowMaxDist?: number;
-		dbPerMeter?: number;
-		redWeight?: number;
-		yellowWeight?: number;
-		applyYellowBlur?: number; // blur radius in cells
-	}
+	options?: FacadeHeatmapOptions
 ) {
-	const w = gridX.length, h = gridY.length;
+	return facadeHeatmap(gridX, gridY, segments, perimeter, lwMap, options, false).z;
+}
+
+/**
+ * generateRedHeatmapBySegment(...)
+ *
+ * Igual que generateRedHeatmapFromFacade y además la energía lineal de cada fachada por celda
+ * (bySegment["segment-i"][fila][columna]). Máscara, desenfoque del halo y pesos rojo/amarillo son
+ * lineales en energía, así que la suma de bySegment reproduce 10^(z/10) en cada celda.
+ */
+export function generateRedHeatmapBySegment(
+	gridX: number[],
+	gridY: number[],
+	segments: { name?: string; p1: number[]; p2: number[] }[],
+	perimeter: number[][],
+	lwMap?: Record<string, number>,
+	options?: FacadeHeatmapOptions
+) {
+	return facadeHeatmap(gridX, gridY, segments, perimeter, lwMap, options, true) as { z: number[][]; bySegment: Record<string, number[][]> };
+}
+
+function facadeHeatmap(
+	gridX: number[],
+	gridY: number[],
+	segments: { name?: string; p1: number[]; p2: number[] }[],
+	perimeter: number[][],
+	lwMap: Record<string, number> | undefined,
+	options: FacadeHeatmapOptions | undefined,
+	withSegments: boolean
+): { z: number[][]; bySegment?: Record<string, number[][]> } {
+	const layers = computeFacadeRowLayers(gridX, gridY, 0, gridY.length, segments, perimeter, lwMap, options, withSegments);
+	return finishFacadeHeatmap(layers, gridX.length, options);
+}
+
+/**
+ * FacadeRowLayers: capas lineales (energía) de un bloque de filas del mapa de una fachada/edificio
+ * - red / yellow: energía ya enmascarada (huella, fachada enfrente, alcance perpendicular), sin blur
+ * - redSeg / yellowSeg: lo mismo por fachada (solo si se piden contribuciones)
+ * Las filas son independientes hasta el blur del halo, así que se pueden calcular por bloques (workers)
+ * y unirse con mergeFacadeRowLayers antes de finishFacadeHeatmap.
+ */
+export type FacadeRowLayers = {
+	red: number[][];
+	yellow: number[][];
+	redSeg?: Record<string, number[][]>;
+	yellowSeg?: Record<string, number[][]>;
+};
+
+/**
+ * computeFacadeRowLayers(...)
+ *
+ * Primera fase de generateRedHeatmapFromFacade para las filas [j0, j1) de la grilla: fuentes de fachada
+ * (+ imágenes), niveles rojo/amarillo por celda y máscara. Devuelve solo esas filas.
+ */
+export function computeFacadeRowLayers(
+	gridX: number[],
+	gridY: number[],
+	j0: number,
+	j1: number,
+	segments: { name?: string; p1: number[]; p2: number[] }[],
+	perimeter: number[][],
+	lwMap: Record<string, number> | undefined,
+	options: FacadeHeatmapOptions | undefined,
+	withSegments: boolean
+): FacadeRowLayers {
+	const rowsY = gridY.slice(j0, j1);
+	const w = gridX.length, h = rowsY.length;
 	// redMaxDist: alcance corto típico para la banda roja; mantener pequeño por defecto
 	const redMaxDist = options?.redMaxDist ?? 2.0;
 	// Aumentar yellowMaxDist para producir un halo amarillo más amplio por defecto.
@@ -538,12 +618,6 @@ export function generateRedHeatmapFromFacade(
 	const sampleSpacing = options?.sampleSpacing ?? 0.25;
 	const outwardOffset = options?.outwardOffset ?? 0.02;
 	const dbPerMeter = options?.dbPerMeter ?? 0.5;
-	// Hacer la contribución amarilla más visible y suave por defecto:
-	const redWeight = options?.redWeight ?? 1.0;
-	const yellowWeight = options?.yellowWeight ?? 1.0;
-	// applyYellowBlur controla el suavizado espacial (en celdas) del mapa amarillo.
-	// Aumentar el valor por defecto para crear un halo más ancho y suave.
-	const applyYellowBlur = options?.applyYellowBlur ?? 12;
 
 	// prepare segments/sources (unchanged)
 	const segmentsWithNames = segments.map((seg, i) => ({
@@ -551,12 +625,20 @@ export function generateRedHeatmapFromFacade(
 		p1: seg.p1,
 		p2: seg.p2
 	}));
-	const sources = WaveEmitter.generateSources(perimeter, segmentsWithNames, sampleSpacing, outwardOffset, lwMap)
-		.map(s => ({ x: s.x, z: s.z, Lw: s.Lw, nx: s.nx, nz: s.nz })) as SourceSimple[];
+	const direct = WaveEmitter.generateSources(perimeter, segmentsWithNames, sampleSpacing, outwardOffset, lwMap, undefined, options?.patches);
+	const images = options?.reflections ? ImageSources.generateImageSources(direct, segmentsWithNames, perimeter, options.reflections) : [];
+	const sources = [...direct, ...images]
+		.map(s => ({ x: s.x, z: s.z, Lw: s.Lw, nx: s.nx, nz: s.nz, segment: s.segment, reflector: s.reflector, height: s.height })) as SourceSimple[];
 
 	// compute red/yellow raw dB maps (unchanged)
-	const redDb = ISOModel.computeGridLpFromSources(sources, gridX, gridY, { maxDist: redMaxDist, dbPerMeter, directivityCut: 1.0, Lw_isRoom: true });
-	const yellowDb = ISOModel.computeGridLpFromSources(sources, gridX, gridY, { maxDist: yellowMaxDist, dbPerMeter, directivityCut: 0.8, Lw_isRoom: true });
+	const path = { ground: options?.ground, sourceHeight: options?.sourceHeight, receiverHeight: options?.receiverHeight, screens: options?.screens };
+	const redOpts = { maxDist: redMaxDist, dbPerMeter, directivityCut: 1.0, Lw_isRoom: true, ...path };
+	const yellowOpts = { maxDist: yellowMaxDist, dbPerMeter, directivityCut: 0.8, Lw_isRoom: true, ...path };
+	const redSeg = withSegments ? ISOModel.computeGridEnergyBySegment(sources, gridX, rowsY, redOpts) : null;
+	const yellowSeg = withSegments ? ISOModel.computeGridEnergyBySegment(sources, gridX, rowsY, yellowOpts) : null;
+	const toDb = (e: number[][]) => e.map(row => row.map(v => v > 0 ? 10 * Math.log10(v) : -Infinity));
+	const redDb = redSeg ? toDb(redSeg.energy) : ISOModel.computeGridLpFromSources(sources, gridX, rowsY, redOpts);
+	const yellowDb = yellowSeg ? toDb(yellowSeg.energy) : ISOModel.computeGridLpFromSources(sources, gridX, rowsY, yellowOpts);
 
 	// helper: robust cell-inside test (use cell corners to avoid aliasing on edges)
 	const cellHalfX = (gridX.length > 1) ? Math.abs(gridX[1] - gridX[0]) * 0.5 : 0.5;
@@ -585,12 +667,15 @@ export function generateRedHeatmapFromFacade(
 	}
 
 	// Build linear maps but enforce perimeter mask and perpendicular caps
-	let redLinear: number[][] = Array.from({ length: h }, () => new Array(w).fill(0));
-	let yellowLinear: number[][] = Array.from({ length: h }, () => new Array(w).fill(0));
+	const redLinear: number[][] = Array.from({ length: h }, () => new Array(w).fill(0));
+	const yellowLinear: number[][] = Array.from({ length: h }, () => new Array(w).fill(0));
+	// celdas que conservan energía tras la máscara (para repartir por fachada con el mismo criterio)
+	const redMask: boolean[][] = Array.from({ length: h }, () => new Array(w).fill(false));
+	const yellowMask: boolean[][] = Array.from({ length: h }, () => new Array(w).fill(false));
 
 	for (let j = 0; j < h; j++) {
 		for (let i = 0; i < w; i++) {
-			const px = gridX[i], pz = gridY[j];
+			const px = gridX[i], pz = rowsY[j];
 
 			// skip cells whose area intersects the perimeter
 			if (isCellInsidePoly(px, pz, cellHalfX, cellHalfY, perimeter)) {
@@ -619,8 +704,63 @@ export function generateRedHeatmapFromFacade(
 
 			redLinear[j][i] = (bestPerp <= redMaxDist && rv > -Infinity) ? Math.pow(10, rv / 10) : 0;
 			yellowLinear[j][i] = (bestPerp <= yellowMaxDist && yv > -Infinity) ? Math.pow(10, yv / 10) : 0;
+			redMask[j][i] = redLinear[j][i] > 0;
+			yellowMask[j][i] = yellowLinear[j][i] > 0;
+		}
+	}
+
+	if (!redSeg || !yellowSeg) return { red: redLinear, yellow: yellowLinear };
+
+	// por fachada: misma máscara (celdas con energía total nula)
+	const masked = (grid: number[][] | undefined, mask: boolean[][]) =>
+		Array.from({ length: h }, (_, j) => Array.from({ length: w }, (_, i) => (mask[j][i] ? grid?.[j][i] ?? 0 : 0)));
+	const names = new Set([...Object.keys(redSeg.bySegment), ...Object.keys(yellowSeg.bySegment)]);
+	const redByName: Record<string, number[][]> = {};
+	const yellowByName: Record<string, number[][]> = {};
+	for (const name of names) {
+		redByName[name] = masked(redSeg.bySegment[name], redMask);
+		yellowByName[name] = masked(yellowSeg.bySegment[name], yellowMask);
+	}
+	return { red: redLinear, yellow: yellowLinear, redSeg: redByName, yellowSeg: yellowByName };
+}
+
+/**
+ * mergeFacadeRowLayers
+ * Une bloques de filas ({ j0, layers }) en capas de h filas; las filas que falten quedan a 0 (sin energía).
+ */
+export function mergeFacadeRowLayers(parts: { j0: number; layers: FacadeRowLayers }[], h: number, w: number): FacadeRowLayers {
+	const empty = () => Array.from({ length: h }, () => new Array(w).fill(0));
+	const out: FacadeRowLayers = { red: empty(), yellow: empty() };
+	for (const { j0, layers } of parts) {
+		layers.red.forEach((row, k) => { out.red[j0 + k] = row; });
+		layers.yellow.forEach((row, k) => { out.yellow[j0 + k] = row; });
+		for (const [key, field] of [["redSeg", layers.redSeg], ["yellowSeg", layers.yellowSeg]] as const) {
+			if (!field) continue;
+			const target = (out[key] ??= {});
+			for (const name of Object.keys(field)) {
+				const grid = (target[name] ??= empty());
+				field[name].forEach((row, k) => { grid[j0 + k] = row; });
+			}
 		}
 	}
+	return out;
+}
+
+/**
+ * finishFacadeHeatmap
+ * Segunda fase: blur del halo amarillo y mezcla lineal rojo/amarillo con pesos (y lo mismo por fachada).
+ */
+export function finishFacadeHeatmap(layers: FacadeRowLayers, w: number, options?: FacadeHeatmapOptions): { z: number[][]; bySegment?: Record<string, number[][]> } {
+	const h = layers.red.length;
+	// Hacer la contribución amarilla más visible y suave por defecto:
+	const redWeight = options?.redWeight ?? 1.0;
+	const yellowWeight = options?.yellowWeight ?? 1.0;
+	// applyYellowBlur controla el suavizado espacial (en celdas) del mapa amarillo.
+	// Aumentar el valor por defecto para crear un halo más ancho y suave.
+	const applyYellowBlur = options?.applyYellowBlur ?? 12;
+
+	const redLinear = layers.red;
+	let yellowLinear = layers.yellow;
 
 	// optional: blur yellow linear map to make halo smooth
 	if (applyYellowBlur && applyYellowBlur > 0) {
@@ -639,5 +779,16 @@ export function generateRedHeatmapFromFacade(
 		}
 	}
 
-	return out;
+	if (!layers.redSeg || !layers.yellowSeg) return { z: out };
+
+	// por fachada: mismo blur y mismos pesos
+	const bySegment: Record<string, number[][]> = {};
+	for (const name of new Set([...Object.keys(layers.redSeg), ...Object.keys(layers.yellowSeg)])) {
+		const red = layers.redSeg[name];
+		let yellow = layers.yellowSeg[name] ?? Array.from({ length: h }, () => new Array(w).fill(0));
+		if (applyYellowBlur && applyYellowBlur > 0) yellow = gaussianBlurMatrix(yellow, applyYellowBlur);
+		bySegment[name] = Array.from({ length: h }, (_, j) => Array.from({ length: w }, (_, i) =>
+			redWeight * (red?.[j][i] ?? 0) + yellowWeight * yellow[j][i]));
+	}
+	return { z: out, bySegment };
 }
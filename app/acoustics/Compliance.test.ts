@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { classifyCompliance, classifyLevel, DEFAULT_MARGIN, polygonZone, ZONE_PRESETS } from "./Compliance";
+import type { HeatmapResult } from "../types";
+
+describe("classifyLevel", () => {
+	it("límites exactos: en el límite cerca, en límite − margen cumple, por encima supera", () => {
+		expect(classifyLevel(65, 65)).toBe(1);
+		expect(classifyLevel(65 - DEFAULT_MARGIN, 65)).toBe(0);
+		expect(classifyLevel(65 - DEFAULT_MARGIN + 0.01, 65)).toBe(1);
+		expect(classifyLevel(65.01, 65)).toBe(2);
+		expect(classifyLevel(60, 65, 0)).toBe(0);
+		expect(classifyLevel(65, 65, 0)).toBe(0);
+	});
+
+	it("sin nivel o sin límite: -1", () => {
+		expect(classifyLevel(NaN, 65)).toBe(-1);
+		expect(classifyLevel(60, NaN)).toBe(-1);
+	});
+});
+
+describe("ZONE_PRESETS / polygonZone", () => {
+	it("objetivos de calidad del RD 1367/2007 (tabla A) por tipo de área", () => {
+		expect(ZONE_PRESETS.residential).toEqual({ day: 65, evening: 65, night: 55 });
+		expect(ZONE_PRESETS.commercial).toEqual({ day: 70, evening: 70, night: 65 });
+		expect(ZONE_PRESETS.industrial).toEqual({ day: 75, evening: 75, night: 65 });
+	});
+
+	it("la zona copia los límites (editarla no cambia el preset)", () => {
+		const zone = polygonZone("residential", [[0, 0], [1, 0], [1, 1]], "Barrio");
+		zone.limits.night = 50;
+		expect(ZONE_PRESETS.residential.night).toBe(55);
+		expect(zone.name).toBe("Barrio");
+	});
+});
+
+describe("classifyCompliance", () => {
+	// grilla 4 × 2 con celdas de 2 m × 1 m (2 m²); niveles por columna 50, 62.5, 66, sin dato
+	const heatmap: HeatmapResult = {
+		x: [0, 2, 4, 6],
+		y: [0, 1],
+		z: [[50, 62.5, 66, NaN], [50, 62.5, 66, NaN]],
+		min: 50,
+		max: 66
+	};
+	const all = [[-1, -1], [7, -1], [7, 2], [-1, 2]];
+	const left = [[-1, -1], [3, -1], [3, 2], [-1, 2]];
+
+	it("clases por celda, m² por clase y celdas sin dato", () => {
+		const { classes, zoneOf, zones } = classifyCompliance(heatmap, { zones: [polygonZone("residential", all)] });
+		expect(classes[0]).toEqual([0, 1, 2, -1]);
+		expect(zoneOf[1]).toEqual([0, 0, 0, 0]);
+		expect(zones[0]).toEqual({ zone: 0, name: "Residencial 1", type: "residential", limit: 65, area: [4, 4, 4], noData: 4, maxLp: 66 });
+	});
+
+	it("el periodo elige el límite: de noche 55 dB y 62.5 ya supera", () => {
+		const { classes, zones } = classifyCompliance(heatmap, { period: "night", zones: [polygonZone("residential", all)] });
+		expect(zones[0].limit).toBe(55);
+		expect(classes[0]).toEqual([0, 2, 2, -1]);
+		expect(zones[0].area).toEqual([4, 0, 8]);
+	});
+
+	it("el margen ensancha la franja cerca del límite", () => {
+		const { classes } = classifyCompliance(heatmap, { margin: 20, zones: [polygonZone("residential", all)] });
+		expect(classes[0]).toEqual([1, 1, 2, -1]);
+	});
+
+	it("zonas solapadas: prevalece la última; fuera de zonas -1", () => {
+		const { classes, zoneOf, zones } = classifyCompliance(heatmap, { zones: [polygonZone("residential", all), polygonZone("industrial", left, "Polígono")] });
+		expect(zoneOf[0]).toEqual([1, 1, 0, 0]);
+		expect(classes[0]).toEqual([0, 0, 2, -1]);
+		expect(zones[1]).toMatchObject({ name: "Polígono", limit: 75, area: [8, 0, 0], noData: 0, maxLp: 62.5 });
+		expect(zones[0].area).toEqual([0, 0, 4]);
+		const outside = classifyCompliance(heatmap, { zones: [polygonZone("commercial", left)] });
+		expect(outside.classes[0]).toEqual([0, 0, -1, -1]);
+		expect(outside.zoneOf[0]).toEqual([0, 0, -1, -1]);
+	});
+});
@@ -0,0 +1,120 @@
+import { pointInPolygon } from "./GradientFactory";
+import { Period } from "./TimePeriods";
+import { HeatmapResult } from "../types";
+
+/**
+ * Comprobación de límites normativos por zonas (modo de mapa "compliance"):
+ * a diferencia de buildThresholdColorscale (umbrales visuales libres), las clases salen de los límites
+ * de cada zona acústica para el periodo elegido.
+ */
+
+export type ZoneType = "residential" | "commercial" | "industrial";
+export type PeriodLimits = Record<Period, number>;
+
+/**
+ * ComplianceZone: zona acústica del planeamiento
+ * - polygon: contorno en planta ([x,z], metros); limits: límite (dB) por periodo
+ */
+export type ComplianceZone = { name?: string; type: ZoneType; polygon: number[][]; limits: PeriodLimits };
+
+/**
+ * ComplianceConfig (params.compliance)
+ * - period: periodo evaluado; margin: anchura (dB) de la franja "cerca del límite"
+ * - zones: si varias se solapan prevalece la última de la lista (igual que las zonas de suelo)
+ */
+export type ComplianceConfig = { period?: Period; margin?: number; zones?: ComplianceZone[] };
+
+// límites de referencia por tipo de área (RD 1367/2007, tabla A, objetivos de calidad: Ld / Le / Ln)
+export const ZONE_PRESETS: Record<ZoneType, PeriodLimits> = {
+	residential: { day: 65, evening: 65, night: 55 },
+	commercial: { day: 70, evening: 70, night: 65 },
+	industrial: { day: 75, evening: 75, night: 65 }
+};
+
+export const ZONE_LABELS: Record<ZoneType, string> = { residential: "Residencial", commercial: "Terciario", industrial: "Industrial" };
+export const ZONE_COLORS: Record<ZoneType, string> = { residential: "#ab47bc", commercial: "#29b6f6", industrial: "#8d6e63" };
+
+// clases: 0 cumple, 1 a menos de `margin` dB del límite, 2 lo supera (-1: celda sin zona o sin dato)
+export const COMPLIANCE_CLASSES = ["Cumple", "Cerca del límite", "Supera"] as const;
+export const COMPLIANCE_COLORS = ["#43a047", "#fdd835", "#e53935"];
+export const DEFAULT_MARGIN = 3;
+
+/**
+ * classifyLevel
+ * Lp <= límite − margen: cumple; límite − margen < Lp <= límite: cerca; Lp > límite: supera.
+ */
+export function classifyLevel(Lp: number, limit: number, margin = DEFAULT_MARGIN): number {
+	if (!Number.isFinite(Lp) || !Number.isFinite(limit)) return -1;
+	if (Lp > limit) return 2;
+	return Lp > limit - margin ? 1 : 0;
+}
+
+/**
+ * ZoneCompliance: resumen de una zona
+ * - area: m² de cada clase (mismo orden que COMPLIANCE_CLASSES); noData: m² sin nivel (huellas, fuera de alcance)
+ * - maxLp: nivel máximo dentro de la zona; limit: límite aplicado en el periodo evaluado
+ */
+export type ZoneCompliance = { zone: number; name: string; type: ZoneType; limit: number; area: [number, number, number]; noData: number; maxLp: number };
+
+/**
+ * classifyCompliance
+ * Clase de cada celda del mapa según la zona que contiene su centro y el límite del periodo, y m² por
+ * clase y zona (área de celda = dx·dy).
+ * Resultado: { classes: número de clase por celda (-1 fuera de zonas o sin dato), zoneOf: índice de zona
+ * por celda (-1 fuera), zones: ZoneCompliance[] en el orden de config.zones }.
+ */
+export function classifyCompliance(heatmap: HeatmapResult, config: ComplianceConfig | undefined) {
+	const zones = config?.zones ?? [];
+	const period = config?.period ?? "day";
+	const margin = config?.margin ?? DEFAULT_MARGIN;
+	const { x, y, z } = heatmap;
+	const dx = x.length > 1 ? Math.abs(x[1] - x[0]) : 1;
+	const dy = y.length > 1 ? Math.abs(y[1] - y[0]) : 1;
+	const cellArea = dx * dy;
+
+	const summary: ZoneCompliance[] = zones.map((zone, k) => ({
+		zone: k,
+		name: zone.name ?? `${ZONE_LABELS[zone.type] ?? zone.type} ${k + 1}`,
+		type: zone.type,
+		limit: Number(zone.limits?.[period]),
+		area: [0, 0, 0],
+		noData: 0,
+		maxLp: -Infinity
+	}));
+	const classes: number[][] = [];
+	const zoneOf: number[][] = [];
+	for (let j = 0; j < y.length; j++) {
+		const rowC: number[] = new Array(x.length).fill(-1);
+		const rowZ: number[] = new Array(x.length).fill(-1);
+		for (let i = 0; i < x.length; i++) {
+			let k = -1;
+			for (let q = zones.length - 1; q >= 0; q--) {
+				if (pointInPolygon(x[i], y[j], zones[q].polygon)) { k = q; break; }
+			}
+			if (k < 0) continue;
+			rowZ[i] = k;
+			const Lp = z[j]?.[i];
+			const cls = classifyLevel(Lp, summary[k].limit, margin);
+			if (cls < 0) {
+				summary[k].noData += cellArea;
+				continue;
+			}
+			rowC[i] = cls;
+			summary[k].area[cls] += cellArea;
+			if (Lp > summary[k].maxLp) summary[k].maxLp = Lp;
+		}
+		classes.push(rowC);
+		zoneOf.push(rowZ);
+	}
+	return { classes, zoneOf, zones: summary };
+}
+
+/**
+ * polygonZone
+ * Zona del tipo indicado con los límites de referencia (ZONE_PRESETS) — usado al terminar de dibujarla.
+ */
+export function polygonZone(type: ZoneType, polygon: number[][], name?: string): ComplianceZone {
+	return { ...(name ? { name } : {}), type, polygon, limits: { ...ZONE_PRESETS[type] } };
+}
+
+export default { ZONE_PRESETS, classifyLevel, classifyCompliance, polygonZone };
@@ -1,33 +1,124 @@
 import { FacadeElement } from "../lib/ISOModel";
+import { pointInPolygon } from "./GradientFactory";
 
 
 export type Segment = { name: string; p1: [number, number]; p2: [number, number] };
 
+export type OpeningType = "window" | "door" | "vent";
+
+/**
+ * FacadeOpening: elemento de una fachada (ventana, puerta, rejilla) con su área (m²) y aislamiento R (dB)
+ * - along: posición del centro a lo largo del lado (m desde su primer vértice, segment-i va de footprint[i]
+ *   a footprint[i+1]); sin posición el elemento emite repartido en todo el lado
+ * - width / height: tamaño (m); si se indican, area = width · height
+ * - sill: altura del borde inferior sobre el suelo (m)
+ */
+export type FacadeOpening = { type: OpeningType; name?: string; area: number; R: number; along?: number; width?: number; height?: number; sill?: number };
+
+/**
+ * FacadeBuildUp: composición de un lado (SceneBuilding.facades["segment-i"])
+ * - wallR: R del muro ciego (su área es la del lado menos la de los huecos)
+ */
+export type FacadeBuildUp = { wallR?: number; openings?: FacadeOpening[] };
+
+export const DEFAULT_WALL_R = 30; // default R = 30 dB
+export const OPENING_PRESETS: Record<OpeningType, { label: string; width: number; height: number; sill: number; R: number }> = {
+	window: { label: "Ventana", width: 1.6, height: 1.25, sill: 1, R: 30 },
+	door: { label: "Puerta", width: 1, height: 2.1, sill: 0, R: 25 },
+	vent: { label: "Rejilla", width: 1, height: 0.5, sill: 2.5, R: 5 }
+};
+export const OPENING_COLORS: Record<OpeningType, string> = { window: "#4fc3f7", door: "#a1887f", vent: "#ff7043" };
+
+/**
+ * openingArea
+ * Área (m²) de un elemento: width · height si tiene tamaño, si no su area.
+ */
+export function openingArea(o: FacadeOpening) {
+	const w = Number(o.width), h = Number(o.height);
+	return w > 0 && h > 0 ? w * h : Math.max(0, Number(o.area) || 0);
+}
+
+// elementos con área y factor de recorte (si los huecos no caben en el lado se reducen en proporción)
+function fittedOpenings(buildUp: FacadeBuildUp | undefined, area: number) {
+	const openings = (buildUp?.openings ?? []).map(o => ({ opening: o, area: openingArea(o) })).filter(o => o.area > 0);
+	const openArea = openings.reduce((acc, o) => acc + o.area, 0);
+	const scale = openArea > area && openArea > 0 ? area / openArea : 1;
+	return { openings: openings.map(o => ({ ...o, area: o.area * scale })), wall: Math.max(0, area - openArea * scale) };
+}
+
+/**
+ * facadeElements
+ * Elementos (área, R) de una fachada de área `area`: muro ciego (resto del área) y huecos.
+ * Los huecos que no caben se recortan al área del lado.
+ */
+export function facadeElements(buildUp: FacadeBuildUp | undefined, area: number, wallR = DEFAULT_WALL_R): FacadeElement[] {
+	const { openings, wall } = fittedOpenings(buildUp, area);
+	return [
+		...(wall > 0 ? [{ area: wall, R: Number(buildUp?.wallR ?? wallR) }] : []),
+		...openings.map(o => ({ area: o.area, R: Number(o.opening.R) }))
+	];
+}
+
 /**
  * buildFacadeElementsForSegment
  * - calcula elementos de fachada a partir de un segmento y la altura del edificio.
- * - Rmap permite pasar un R específico por segmento.
+ * - Rmap permite pasar un R específico de muro por segmento; buildUp añade los huecos del lado
+ *   (SceneBuilding.facades) y su wallR tiene prioridad sobre Rmap.
  */
-export function buildFacadeElementsForSegment(seg: Segment, buildingHeight: number, Rmap?: Record<string, number>): FacadeElement[] {
+export function buildFacadeElementsForSegment(seg: Segment, buildingHeight: number, Rmap?: Record<string, number>, buildUp?: FacadeBuildUp): FacadeElement[] {
 	const ax = seg.p1[0], az = seg.p1[1];
 	const bx = seg.p2[0], bz = seg.p2[1];
 	const segLen = Math.hypot(bx - ax, bz - az);
 	const height = Math.max(0.1, buildingHeight || 3);
 	const area = Math.max(0.0001, segLen * height);
-	const Rval = (Rmap && typeof Rmap[seg.name] === "number") ? Rmap[seg.name] : 30; // default R = 30 dB
-	return [{ area, R: Rval }];
+	const Rval = (Rmap && typeof Rmap[seg.name] === "number") ? Rmap[seg.name] : DEFAULT_WALL_R;
+	return facadeElements(buildUp, area, Rval);
 }
 
 /**
  * buildAllFacades
  * - devuelve un mapa segmentName -> FacadeElement[]
  */
-export function buildAllFacades(segments: Segment[], buildingHeight: number, Rmap?: Record<string, number>) {
+export function buildAllFacades(segments: Segment[], buildingHeight: number, Rmap?: Record<string, number>, facades?: Record<string, FacadeBuildUp>) {
 	const out: Record<string, FacadeElement[]> = {};
-	for (const s of segments) out[s.name] = buildFacadeElementsForSegment(s, buildingHeight, Rmap);
+	for (const s of segments) out[s.name] = buildFacadeElementsForSegment(s, buildingHeight, Rmap, facades?.[s.name]);
 	return out;
 }
 
+/**
+ * EmissionPatch: tramo [from, to] de un lado (m desde su primer vértice) que emite `fraction` de la potencia
+ * transmitida por la fachada; height: altura de emisión (m) del elemento (sin ella, la común del edificio)
+ */
+export type EmissionPatch = { from: number; to: number; fraction: number; height?: number };
+
+/**
+ * emissionPatches
+ * Reparto de la potencia de un lado de longitud `length` y altura `height` entre el muro y sus elementos:
+ * cada uno transmite en proporción a Sj·10^(-Rj/10) (el mismo peso que en computeFacadeRePrime), así una
+ * ventana abierta concentra casi toda la emisión del lado en su posición. El muro emite a lo largo de todo
+ * el lado; los elementos sin posición, también. undefined si el lado no tiene elementos.
+ */
+export function emissionPatches(buildUp: FacadeBuildUp | undefined, length: number, height: number): EmissionPatch[] | undefined {
+	if (!(length > 0) || !(height > 0)) return undefined;
+	const { openings, wall } = fittedOpenings(buildUp, length * height);
+	if (!openings.length) return undefined;
+	const tau = (area: number, R: number) => area * Math.pow(10, -(Number.isFinite(R) ? R : DEFAULT_WALL_R) / 10);
+	const weights = openings.map(o => tau(o.area, Number(o.opening.R)));
+	const wallWeight = tau(wall, Number(buildUp?.wallR ?? DEFAULT_WALL_R));
+	const total = weights.reduce((acc, w) => acc + w, wallWeight);
+	if (!(total > 0)) return undefined;
+	const patches: EmissionPatch[] = wallWeight > 0 ? [{ from: 0, to: length, fraction: wallWeight / total }] : [];
+	openings.forEach(({ opening: o }, k) => {
+		const along = Number(o.along);
+		if (!Number.isFinite(along)) { patches.push({ from: 0, to: length, fraction: weights[k] / total }); return; }
+		const half = Math.max(0, Number(o.width) || 0) / 2;
+		const from = Math.max(0, Math.min(length, along - half)), to = Math.max(from, Math.min(length, along + half));
+		const h = Math.max(0, Number(o.height) || 0);
+		patches.push({ from, to, fraction: weights[k] / total, height: Math.min(height, Math.max(0, Number(o.sill) || 0) + h / 2) });
+	});
+	return patches;
+}
+
 /**
 	 * helper: compute perp signed (positive outside) and along distance and normalized t
 	 */
@@ -47,4 +138,18 @@ export function getPerpAlong(px: number, pz: number, a: number[], b: number[]) {
 	return { perp, along: clamped, t: clamped / segLen, segLen, tx, tz, nx, nz };
 }
 
-export default { buildFacadeElementsForSegment, buildAllFacades, getPerpAlong };
+/**
+ * outwardNormal
+ * Normal unitaria exterior de un segmento del perímetro: se prueba un punto desplazado desde el punto
+ * medio contra el polígono (válido en plantas cóncavas, donde el test por centroide falla).
+ */
+export function outwardNormal(p1: number[], p2: number[], poly: number[][]) {
+	const len = Math.hypot(p2[0] - p1[0], p2[1] - p1[1]) || 1;
+	let nx = -(p2[1] - p1[1]) / len, nz = (p2[0] - p1[0]) / len;
+	const mx = (p1[0] + p2[0]) / 2, mz = (p1[1] + p2[1]) / 2;
+	const probe = Math.min(0.05, len * 0.01);
+	if (poly && poly.length >= 3 && pointInPolygon(mx + nx * probe, mz + nz * probe, poly)) { nx = -nx; nz = -nz; }
+	return { nx, nz };
+}
+
+export default { openingArea, facadeElements, buildFacadeElementsForSegment, buildAllFacades, emissionPatches, getPerpAlong, outwardNormal };
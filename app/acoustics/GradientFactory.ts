@@ -1,4 +1,4 @@
-import ISOModel from "../lib/ISOModel";
+import ISOModel, { DEFAULT_DF_OUT, DEFAULT_DF_ROOM } from "../lib/ISOModel";
 
 
 
@@ -187,8 +187,8 @@ export function generateSegmentBandEnergy(
 					const lp = ISOModel.computeLpOutAtPoint({
 						Lw_room: LwPerSampleDbRed,
 						RePrime,
-						Df_room: 6,
-						Df_out: 0,
+						Df_room: DEFAULT_DF_ROOM,
+						Df_out: DEFAULT_DF_OUT,
 						distanceM: distancePerp,
 						atmospheric: 0
 					});
@@ -247,7 +247,7 @@ export function generateSegmentBandEnergy(
 					const dot = (vrx * nx + vrz * nz) / rnorm;
 					if (dot <= dotThreshold) continue;
 				}
-				const lp = ISOModel.computeLpOutAtPoint({ Lw_room: LwPerSampleDb, RePrime, Df_room: 6, Df_out: 0, distanceM: Math.max(0.01, rnorm), atmospheric: 0 });
+				const lp = ISOModel.computeLpOutAtPoint({ Lw_room: LwPerSampleDb, RePrime, Df_room: DEFAULT_DF_ROOM, Df_out: DEFAULT_DF_OUT, distanceM: Math.max(0.01, rnorm), atmospheric: 0 });
 				if (!Number.isFinite(lp)) continue;
 				const spread = colorSpread[band] ?? 2.0;
 				const bandMax = (propagation.bandMaxDist && propagation.bandMaxDist[band]) ?? (band === "yellow" ? 6 : (band === "green" ? 12 : 18));
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { activeGround, groundFactorAlong, groundFactorAt, pathGroundFactors, rectangleRegion } from "./GroundRegions";
+import { aDiv, aGeo, aGround, computeLpFromSource } from "../lib/ISOModel";
+
+const grass = rectangleRegion("césped", 10, 0, 20, 20, 1); // x 0..20, z -10..10
+
+describe("GroundRegions", () => {
+	it("activeGround: el suelo solo entra en el cálculo si está activado", () => {
+		expect(activeGround(undefined)).toBeUndefined();
+		expect(activeGround({ defaultG: 1 })).toBeUndefined();
+		expect(activeGround({ enabled: false, defaultG: 1 })).toBeUndefined();
+		expect(activeGround({ enabled: true, defaultG: 1 })).toEqual({ enabled: true, defaultG: 1 });
+	});
+
+	it("groundFactorAt / groundFactorAlong ponderan por longitud sobre cada zona", () => {
+		const ground = { defaultG: 0, regions: [grass] };
+		expect(groundFactorAt(5, 0, ground)).toBe(1);
+		expect(groundFactorAt(-5, 0, ground)).toBe(0);
+		// tramo x -20..20: la mitad sobre césped
+		expect(groundFactorAlong(-20, 0, 20, 0, ground)).toBeCloseTo(0.5, 10);
+		expect(groundFactorAlong(-20, 0, 0, 0, ground)).toBeCloseTo(0, 10);
+	});
+
+	it("pathGroundFactors divide el trayecto en 30·hs, intermedia y 30·hr", () => {
+		// hs = hr = 0.5 -> regiones de 15 m; fuente en x = -40 (G 0), receptor en x = 15 (G 1)
+		const G = pathGroundFactors(-40, 0, 0.5, 15, 0, 0.5, { defaultG: 0, regions: [grass] });
+		expect(G.dp).toBeCloseTo(55, 10);
+		expect(G.Gs).toBeCloseTo(0, 10);
+		expect(G.Gr).toBeCloseTo(1, 10);
+		// intermedia x -25..0: todo G 0
+		expect(G.Gm).toBeCloseTo(0, 10);
+	});
+});
+
+describe("aGround (ISO 9613-2, tabla 3)", () => {
+	it("suelo duro y q = 0: A_s = A_r = -1.5 dB en todas las bandas", () => {
+		aGround(50, 2, 2, { Gs: 0, Gm: 0, Gr: 0 }).forEach(v => expect(v).toBeCloseTo(-3, 10));
+	});
+
+	it("suelo duro lejos: A_m = -3q con q = 1 - 30·(hs + hr)/dp", () => {
+		const q = 1 - 30 * 4 / 600;
+		aGround(600, 2, 2, { Gs: 0, Gm: 0, Gr: 0 }).forEach(v => expect(v).toBeCloseTo(-3 - 3 * q, 10));
+		// luego A_div + A_gr queda por debajo de la aproximación hemisférica
+		expect(aDiv(600) + aGround(600, 2, 2, { Gs: 0, Gm: 0, Gr: 0 })[3]).toBeCloseTo(aGeo(600) - 3 * q, 10);
+	});
+
+	it("suelo poroso: 63 Hz fijo en -1.5 por extremo y A_s / A_r nulos en 2–8 kHz", () => {
+		const A = aGround(200, 1, 4, { Gs: 1, Gm: 1, Gr: 1 });
+		const q = 1 - 30 * 5 / 200;
+		expect(A[0]).toBeCloseTo(-3 - 3 * q, 10);
+		expect(A[5]).toBeCloseTo(0, 10);
+		expect(A[7]).toBeCloseTo(0, 10);
+		// 500 Hz, h = 1 m: c'(1) = 1.5 + 14·e^-0.46·(1 - e^-4); h = 4 m: c'(4) = 1.5 + 14·e^-7.36·(1 - e^-4)
+		const fd = 1 - Math.exp(-4);
+		const expected = (-1.5 + 1.5 + 14 * Math.exp(-0.46) * fd) + (-1.5 + 1.5 + 14 * Math.exp(-7.36) * fd);
+		expect(A[3]).toBeCloseTo(expected, 10);
+	});
+
+	it("sin activar el suelo computeLpFromSource usa 8 + 20·log10(r)", () => {
+		const src = { x: 0, z: 0, Lw: 100 };
+		const opts = { Lw_isRoom: false, Df_room: 0, dbPerMeter: 0 };
+		const off = computeLpFromSource(src, 100, 0, { ...opts, ground: activeGround({ enabled: false, defaultG: 1 }) });
+		expect(off.Lp_db).toBeCloseTo(computeLpFromSource(src, 100, 0, opts).Lp_db, 10);
+		expect(off.Lp_db).toBeCloseTo(100 - aGeo(100) - 0, 1);
+	});
+});
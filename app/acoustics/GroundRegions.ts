@@ -0,0 +1,137 @@
+import { pointInPolygon } from "./GradientFactory";
+
+/**
+ * GroundRegion: zona del emplazamiento con factor de suelo G (ISO 9613-2)
+ * - polygon: contorno en planta ([x,z], metros)
+ * - G: 0 = suelo duro (asfalto, hormigón, agua) .. 1 = suelo poroso (césped, tierra cultivada)
+ */
+export type GroundRegion = { name?: string; polygon: number[][]; G: number };
+
+/**
+ * GroundConfig: G por defecto para el área no cubierta por zonas + lista de zonas.
+ * Si varias zonas se solapan prevalece la última de la lista.
+ * - enabled: params.ground solo entra en el cálculo con enabled = true (activeGround); sin él los mapas
+ *   usan la aproximación hemisférica 8 + 20·log10(r) de siempre
+ */
+export type GroundConfig = { enabled?: boolean; defaultG?: number; regions?: GroundRegion[] };
+
+const clampG = (G: number) => Math.max(0, Math.min(1, Number.isFinite(G) ? G : 0));
+
+/**
+ * activeGround
+ * Configuración de suelo que reciben los motores (PathOptions.ground): la de params solo si está activada.
+ */
+export function activeGround(ground?: GroundConfig) {
+	return ground?.enabled === true ? ground : undefined;
+}
+
+const NO_REGIONS: GroundRegion[] = [];
+
+/**
+ * groundFactorAt
+ * Devuelve G en el punto (x,z): última zona que lo contiene o defaultG.
+ */
+export function groundFactorAt(x: number, z: number, ground?: GroundConfig) {
+	const regions = ground?.regions ?? NO_REGIONS;
+	for (let r = regions.length - 1; r >= 0; r--) {
+		if (pointInPolygon(x, z, regions[r].polygon)) return clampG(regions[r].G);
+	}
+	return clampG(ground?.defaultG ?? 0);
+}
+
+// parámetros de corte de groundFactorAlong (se reutiliza; crece si hace falta)
+let cuts = new Float64Array(32);
+
+/**
+ * groundFactorAlong
+ * G medio a lo largo del tramo (x1,z1)-(x2,z2): fracción de longitud sobre cada zona.
+ * Se cortan los bordes de todas las zonas con el tramo y se evalúa cada intervalo en su punto medio.
+ */
+export function groundFactorAlong(x1: number, z1: number, x2: number, z2: number, ground?: GroundConfig) {
+	const regions = ground?.regions ?? NO_REGIONS;
+	if (!regions.length) return clampG(ground?.defaultG ?? 0);
+	const dx = x2 - x1, dz = z2 - z1;
+	if (Math.hypot(dx, dz) < 1e-9) return groundFactorAt(x1, z1, ground);
+
+	// parámetros t (0..1) donde el tramo cruza algún borde de zona, insertados en orden
+	cuts[0] = 0;
+	cuts[1] = 1;
+	let count = 2;
+	for (let r = 0; r < regions.length; r++) {
+		const poly = regions[r].polygon;
+		if (!poly || poly.length < 3) continue;
+		for (let a = 0, b = poly.length - 1; a < poly.length; b = a++) {
+			const ex = poly[a][0] - poly[b][0], ez = poly[a][1] - poly[b][1];
+			const denom = dx * ez - dz * ex;
+			if (Math.abs(denom) < 1e-12) continue;
+			const wx = poly[b][0] - x1, wz = poly[b][1] - z1;
+			const t = (wx * ez - wz * ex) / denom;
+			const u = (wx * dz - wz * dx) / denom;
+			if (!(t > 0 && t < 1 && u >= 0 && u <= 1)) continue;
+			if (count === cuts.length) {
+				const grown = new Float64Array(cuts.length * 2);
+				grown.set(cuts);
+				cuts = grown;
+			}
+			let k = count++;
+			for (; k > 0 && cuts[k - 1] > t; k--) cuts[k] = cuts[k - 1];
+			cuts[k] = t;
+		}
+	}
+
+	let acc = 0;
+	for (let k = 0; k < count - 1; k++) {
+		const span = cuts[k + 1] - cuts[k];
+		if (span <= 0) continue;
+		const tm = (cuts[k] + cuts[k + 1]) / 2;
+		acc += span * groundFactorAt(x1 + dx * tm, z1 + dz * tm, ground);
+	}
+	return acc;
+}
+
+/**
+ * pathGroundFactors
+ * Divide el trayecto fuente-receptor en las tres regiones de ISO 9613-2 (7.3.1):
+ *  - región de fuente: 30·hs desde la fuente (como máximo dp),
+ *  - región de receptor: 30·hr desde el receptor (como máximo dp),
+ *  - región intermedia: el resto (solo si dp > 30·(hs+hr)).
+ * Devuelve G medio por región (Gs, Gm, Gr) y la distancia en planta dp.
+ */
+export function pathGroundFactors(sx: number, sz: number, hs: number, rx: number, rz: number, hr: number, ground?: GroundConfig) {
+	const G = pathGroundFactorsInto(new Float64Array(3), sx, sz, hs, rx, rz, hr, ground);
+	return { Gs: G[0], Gm: G[1], Gr: G[2], dp: Math.hypot(rx - sx, rz - sz) };
+}
+
+/**
+ * pathGroundFactorsInto
+ * Versión posicional de pathGroundFactors para los bucles de grilla: escribe [Gs, Gm, Gr] en `out`.
+ */
+export function pathGroundFactorsInto(out: Float64Array, sx: number, sz: number, hs: number, rx: number, rz: number, hr: number, ground?: GroundConfig) {
+	const dp = Math.hypot(rx - sx, rz - sz);
+	if (dp < 1e-9) {
+		out[0] = out[1] = out[2] = groundFactorAt(sx, sz, ground);
+		return out;
+	}
+	const ux = (rx - sx) / dp, uz = (rz - sz) / dp;
+	const lenS = Math.min(dp, 30 * Math.max(0, hs));
+	const lenR = Math.min(dp, 30 * Math.max(0, hr));
+	const Gs = lenS > 0 ? groundFactorAlong(sx, sz, sx + ux * lenS, sz + uz * lenS, ground) : groundFactorAt(sx, sz, ground);
+	const Gr = lenR > 0 ? groundFactorAlong(rx - ux * lenR, rz - uz * lenR, rx, rz, ground) : groundFactorAt(rx, rz, ground);
+	out[0] = Gs;
+	out[1] = dp > lenS + lenR
+		? groundFactorAlong(sx + ux * lenS, sz + uz * lenS, rx - ux * lenR, rz - uz * lenR, ground)
+		: (Gs + Gr) / 2;
+	out[2] = Gr;
+	return out;
+}
+
+/**
+ * rectangleRegion
+ * Atajo para crear una zona rectangular (centro, ancho en x, fondo en z) — usado por la UI.
+ */
+export function rectangleRegion(name: string, cx: number, cz: number, width: number, depth: number, G: number): GroundRegion {
+	const hx = Math.max(0.01, width) / 2, hz = Math.max(0.01, depth) / 2;
+	return { name, G: clampG(G), polygon: [[cx - hx, cz - hz], [cx + hx, cz - hz], [cx + hx, cz + hz], [cx - hx, cz + hz]] };
+}
+
+export default { activeGround, groundFactorAt, groundFactorAlong, pathGroundFactors, pathGroundFactorsInto, rectangleRegion };
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import ImageSources from "./ImageSources";
+import { computeLpFromSource, reflectionPoint } from "../lib/ISOModel";
+
+// planta en L: el rincón interior lo forman segment-2 (z = 10) y segment-3 (x = 10)
+const L = [[0, 0], [20, 0], [20, 10], [10, 10], [10, 20], [0, 20]];
+const segments = L.map((p1, i) => ({ name: `segment-${i}`, p1, p2: L[(i + 1) % L.length] }));
+const source = { x: 10, z: 15, nx: 1, nz: 0, Lw: 80, segment: "segment-3" };
+
+describe("ImageSources", () => {
+	it("mirrorPoint refleja respecto a la recta de la fachada", () => {
+		const m = ImageSources.mirrorPoint(10, 15, [20, 10], 0, 1);
+		expect(m).toEqual({ x: 10, z: 5, d: 5 });
+	});
+
+	it("una fuente del rincón se refleja solo en la fachada que tiene delante, con la pérdida de α", () => {
+		const images = ImageSources.generateImageSources([source], segments, L, { defaultAbsorption: 0.2 });
+		expect(images).toHaveLength(1);
+		const [img] = images;
+		expect(img.reflector?.segment).toBe("segment-2");
+		expect(img.x).toBeCloseTo(10, 10);
+		expect(img.z).toBeCloseTo(5, 10);
+		expect(img.Lw).toBeCloseTo(80 + 10 * Math.log10(0.8), 10);
+		expect(img.segment).toBe("segment-3");
+	});
+
+	it("en un edificio convexo no hay imágenes", () => {
+		const sq = [[0, 0], [10, 0], [10, 10], [0, 10]];
+		const segs = sq.map((p1, i) => ({ name: `segment-${i}`, p1, p2: sq[(i + 1) % sq.length] }));
+		expect(ImageSources.generateImageSources([{ x: 10, z: 5, nx: 1, nz: 0, Lw: 80, segment: "segment-1" }], segs, sq)).toEqual([]);
+	});
+
+	it("reflectionPoint y recorrido reflejado", () => {
+		const [img] = ImageSources.generateImageSources([source], segments, L);
+		// receptor (20, 15): el tramo imagen-receptor corta z = 10 en x = 15
+		const P = reflectionPoint(img, 20, 15)!;
+		expect(P.x).toBeCloseTo(15, 10);
+		expect(P.z).toBeCloseTo(10, 10);
+		const res = computeLpFromSource(img, 20, 15, { Lw_isRoom: false, Df_room: 0, dbPerMeter: 0, directivityCut: 1 });
+		expect(res.distanceM).toBeCloseTo(Math.hypot(10, 10), 10);
+		// fuera del segmento reflector la imagen no aporta
+		expect(reflectionPoint(img, 40, 15)).toBeNull();
+		expect(computeLpFromSource(img, 40, 15).energyLinear).toBe(0);
+	});
+});
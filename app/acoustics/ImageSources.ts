@@ -0,0 +1,81 @@
+import { outwardNormal } from "./FacadeUtils";
+import type { Source } from "./WaveEmitter";
+
+/**
+ * Reflector: fachada sobre la que se refleja una fuente imagen (extremos en planta, [x,z]).
+ */
+export type Reflector = { segment: string; p1: number[]; p2: number[] };
+
+/**
+ * ReflectionOptions
+ * - absorption: coeficiente de absorción α (0..1) por nombre de segmento ({ "segment-0": 0.1, ... })
+ * - defaultAbsorption: α para las fachadas sin valor propio (por defecto 0.1, fachada de obra con ventanas)
+ */
+export type ReflectionOptions = { absorption?: Record<string, number>; defaultAbsorption?: number };
+
+const clampAlpha = (a: number) => Math.max(0, Math.min(0.99, Number.isFinite(a) ? a : 0));
+
+/**
+ * ImageSources
+ *
+ * Reflexiones de primer orden en las fachadas del propio edificio mediante fuentes imagen:
+ *  - cada Source de WaveEmitter se refleja en los demás segmentos de fachada frente a los que se encuentra,
+ *  - la imagen conserva el espectro de la fuente restando 10·log10(1/(1-α)) de la fachada reflectora,
+ *  - la imagen lleva `reflector` para que ISOModel solo la tenga en cuenta cuando el punto de reflexión
+ *    especular cae dentro del segmento (y ambos tramos tienen visión directa si hay `screens`).
+ *
+ * En edificios convexos no hay ninguna fachada frente a otra, por lo que no se generan imágenes;
+ * en L o U las fachadas del rincón interior se reflejan mutuamente.
+ */
+export default class ImageSources {
+	/**
+	 * mirrorPoint
+	 * Simétrico de (x,z) respecto a la recta que pasa por p con normal unitaria (nx,nz).
+	 */
+	static mirrorPoint(x: number, z: number, p: number[], nx: number, nz: number) {
+		const d = (x - p[0]) * nx + (z - p[1]) * nz;
+		return { x: x - 2 * d * nx, z: z - 2 * d * nz, d };
+	}
+
+	/**
+	 * generateImageSources
+	 * Devuelve las fuentes imagen de primer orden (no incluye las fuentes originales).
+	 */
+	static generateImageSources(
+		sources: Source[],
+		segments: { name: string; p1: number[]; p2: number[] }[],
+		poly: number[][],
+		options?: ReflectionOptions
+	): Source[] {
+		if (!sources?.length || !segments?.length) return [];
+		const defaultAlpha = options?.defaultAbsorption ?? 0.1;
+		const reflectors = segments.map(seg => ({ seg, ...outwardNormal(seg.p1, seg.p2, poly) }));
+
+		const images: Source[] = [];
+		for (const s of sources) {
+			for (const { seg, nx, nz } of reflectors) {
+				if (seg.name === s.segment) continue;
+				const m = this.mirrorPoint(s.x, s.z, seg.p1, nx, nz);
+				if (m.d <= 1e-6) continue; // la fuente está detrás de la fachada (o sobre su recta)
+				// el reflector debe quedar delante de la fachada emisora (al menos uno de sus extremos)
+				if (Math.max((seg.p1[0] - s.x) * s.nx + (seg.p1[1] - s.z) * s.nz, (seg.p2[0] - s.x) * s.nx + (seg.p2[1] - s.z) * s.nz) <= 1e-6) continue;
+				const alpha = clampAlpha(options?.absorption?.[seg.name] ?? defaultAlpha);
+				const loss = 10 * Math.log10(1 - alpha);
+				// la normal también se refleja para mantener la directividad de la fachada emisora
+				const dn = s.nx * nx + s.nz * nz;
+				images.push({
+					x: m.x,
+					z: m.z,
+					nx: s.nx - 2 * dn * nx,
+					nz: s.nz - 2 * dn * nz,
+					Lw: s.Lw + loss,
+					segment: s.segment,
+					...(s.LwBands ? { LwBands: s.LwBands.map(v => v + loss) } : {}),
+					...(s.height !== undefined ? { height: s.height } : {}),
+					reflector: { segment: seg.name, p1: [seg.p1[0], seg.p1[1]], p2: [seg.p2[0], seg.p2[1]] }
+				});
+			}
+		}
+		return images;
+	}
+}
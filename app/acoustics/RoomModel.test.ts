@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { facadeEmission, roomAbsorption, roomLwBySegment, roomSegments, sabineAbsorption, segmentArea } from "./RoomModel";
+import { indicatorLw } from "./TimePeriods";
+import type { SceneBuilding } from "../types";
+
+// cuadrado de 10 m y 8 m de alto: cada lado S = 80 m²; muro ciego de R = 40 dB -> Re' = 40
+const building: SceneBuilding = {
+	id: "b",
+	position: { x: 0, z: 0 },
+	rotation: 0,
+	footprint: [[-5, -5], [5, -5], [5, 5], [-5, 5]],
+	height: 8,
+	LwBySegment: [
+		{ value: 70, spectrum: [60, 62, 64, 66, 64, 62, 60, 58], periods: { day: 88, night: 60 }, schedule: Array.from({ length: 24 }, (_, h) => (h >= 7 && h < 13 ? 1 : 0)) },
+		{ value: 65, periods: { night: 50 } },
+		{ value: 60 },
+		{ value: 55 }
+	],
+	facades: { "segment-0": { wallR: 40 }, "segment-1": { wallR: 40 } },
+	rooms: [{ id: "s1", Lp_in: 80, absorption: 50, segments: ["segment-0"] }, { id: "s2", Lp_in: 90, volume: 200, segments: ["segment-2"] }]
+};
+
+describe("absorción y área", () => {
+	it("Sabine A = 0.161·V / T; absorption explícita por delante", () => {
+		expect(sabineAbsorption(200, 0.8)).toBeCloseTo(40.25, 10);
+		expect(sabineAbsorption(200, undefined)).toBeNaN();
+		expect(roomAbsorption({ id: "r", Lp_in: 80, absorption: 30, volume: 200, rt60: 0.8, segments: [] })).toBe(30);
+		expect(roomAbsorption({ id: "r", Lp_in: 80, volume: 200, rt60: 0.8, segments: [] })).toBeCloseTo(40.25, 10);
+	});
+
+	it("segmentArea: longitud del lado · altura", () => {
+		expect(segmentArea(building, 0)).toBe(80);
+		expect(segmentArea(building, 3)).toBe(80);
+		expect(segmentArea(building, 4)).toBe(0);
+	});
+});
+
+describe("facadeEmission / roomSegments", () => {
+	it("Lw_out = Lp_in + 10·log10(A) + 10·log10(S / A) − Re' = Lp_in + 10·log10(S) − Re'", () => {
+		const e = facadeEmission(building, 0)!;
+		expect(e.RePrime).toBeCloseTo(40, 10);
+		expect(e.Lw_room).toBeCloseTo(80 + 10 * Math.log10(50), 10);
+		expect(e.Lw).toBeCloseTo(80 + 10 * Math.log10(80) - 40, 10);
+	});
+
+	it("sin sala o sin A válida (s2 no tiene RT60) no hay emisión del modelo interior", () => {
+		expect(facadeEmission(building, 1)).toBeNull();
+		expect(facadeEmission(building, 2)).toBeNull();
+		expect(roomSegments(building)).toEqual(["segment-0"]);
+	});
+});
+
+describe("roomLwBySegment", () => {
+	it("lado con sala: Lw del modelo, espectro desplazado, horario conservado y sin Lw por periodo", () => {
+		const [room, ...rest] = roomLwBySegment(building);
+		const Lw = 80 + 10 * Math.log10(80) - 40;
+		expect(room.value).toBeCloseTo(Lw, 10);
+		expect(room.spectrum![3] - room.spectrum![0]).toBeCloseTo(6, 10);
+		expect(room.spectrum![0]).toBeCloseTo(Lw - 10, 10);
+		expect(room.schedule).toBe(building.LwBySegment![0].schedule);
+		expect(room.periods).toBeUndefined();
+		// Lday sale de la sala con el horario (6 de 12 horas de día en marcha: −3.01 dB), no de periods.day = 88
+		expect(indicatorLw(room, "Lday")).toBeCloseTo(Lw + 10 * Math.log10(0.5), 10);
+		// los lados sin sala no cambian
+		expect(rest).toEqual(building.LwBySegment!.slice(1));
+	});
+});
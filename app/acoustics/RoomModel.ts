@@ -0,0 +1,104 @@
+import ISOModel from "../lib/ISOModel";
+import { facadeElements } from "./FacadeUtils";
+import type { LwSide, SceneBuilding } from "../types";
+
+/**
+ * Modelo de fuente interior (inputMode "Lp"): el ruido nace en salas del edificio y sale por sus fachadas.
+ * Para cada lado (segment-i) con una sala detrás:
+ *   Lw_room = computeLwRoomFromLpIn(Lp_in, A)            (A: área de absorción equivalente de la sala)
+ *   Re'     = computeFacadeRePrime(muro + huecos)         (composición de la fachada, áreas y R)
+ *   Lw_out  = Lw_room + 10·log10(S / A) − Re'             (S: área del lado = longitud · altura)
+ * La propagación resta después Df_room (DEFAULT_DF_ROOM, 6 dB), así que el nivel radiado equivale a Lp_in − 6 + 10·log10(S) − Re'.
+ */
+
+/**
+ * Room: sala emisora (SceneBuilding.rooms)
+ * - Lp_in: nivel de presión interior (dB); absorption: área de absorción equivalente A (m²) o, si no se
+ *   indica, volume (m³) y rt60 (s) con Sabine A = 0.161·V / T
+ * - segments: lados ("segment-i") a los que da la sala; si un lado aparece en varias salas vale la última
+ */
+export type Room = { id: string; name?: string; Lp_in: number; absorption?: number; volume?: number; rt60?: number; segments: string[] };
+
+/**
+ * sabineAbsorption
+ * A = 0.161·V / T (m²) a partir del volumen (m³) y el tiempo de reverberación (s); NaN si faltan datos.
+ */
+export function sabineAbsorption(volume?: number, rt60?: number) {
+	const V = Number(volume), T = Number(rt60);
+	return V > 0 && T > 0 ? 0.161 * V / T : NaN;
+}
+
+/**
+ * roomAbsorption
+ * Área de absorción equivalente de la sala: absorption si está indicada, si no Sabine con volume + rt60.
+ */
+export function roomAbsorption(room: Room) {
+	return Number(room.absorption) > 0 ? Number(room.absorption) : sabineAbsorption(room.volume, room.rt60);
+}
+
+/**
+ * segmentArea
+ * Área (m²) del lado i de la huella: longitud del lado · altura del edificio.
+ */
+export function segmentArea(building: SceneBuilding, index: number) {
+	const fp = building.footprint ?? [];
+	const a = fp[index], b = fp[(index + 1) % fp.length];
+	if (!a || !b) return 0;
+	return Math.hypot(b[0] - a[0], b[1] - a[1]) * Number(building.height ?? 0);
+}
+
+// sala de cada lado ("segment-i" -> sala); la última sala que lo incluye prevalece
+export function roomBySegment(rooms: Room[] | undefined) {
+	const out: Record<string, Room> = {};
+	for (const room of rooms ?? []) for (const key of room.segments ?? []) out[key] = room;
+	return out;
+}
+
+/**
+ * FacadeEmission: desglose del Lw de un lado con sala (para la UI y la depuración)
+ */
+export type FacadeEmission = { segment: string; room: Room; A: number; S: number; RePrime: number; Lw_room: number; Lw: number };
+
+/**
+ * facadeEmission
+ * Lw_out del lado i según su sala y la composición de su fachada; null si no tiene sala o la sala no
+ * tiene A (ni volumen + RT60) válida.
+ */
+export function facadeEmission(building: SceneBuilding, index: number, room = roomBySegment(building.rooms)[`segment-${index}`]): FacadeEmission | null {
+	if (!room) return null;
+	const A = roomAbsorption(room);
+	const S = segmentArea(building, index);
+	if (!(A > 0) || !(S > 0) || !Number.isFinite(room.Lp_in)) return null;
+	const segment = `segment-${index}`;
+	const RePrime = ISOModel.computeFacadeRePrime(facadeElements(building.facades?.[segment], S));
+	const Lw_room = ISOModel.computeLwRoomFromLpIn(room.Lp_in, A);
+	return { segment, room, A, S, RePrime, Lw_room, Lw: Lw_room + 10 * Math.log10(S / A) - RePrime };
+}
+
+/**
+ * roomSegments
+ * Lados ("segment-i") cuyo Lw sale del modelo interior (facadeEmission válida): su Lw ya es Lw_out, con Re' restado.
+ */
+export function roomSegments(building: SceneBuilding): string[] {
+	const rooms = roomBySegment(building.rooms);
+	return (building.LwBySegment ?? []).map((_, i) => `segment-${i}`).filter((key, i) => facadeEmission(building, i, rooms[key]) !== null);
+}
+
+/**
+ * roomLwBySegment
+ * LwBySegment del edificio con el Lw de cada lado con sala sustituido por el del modelo interior: el espectro
+ * se desplaza lo mismo y el horario se conserva, pero se quitan los Lw por periodo (la sala fija el nivel;
+ * Lday/Levening/Lnight salen de él con el horario). Los lados sin sala no cambian.
+ */
+export function roomLwBySegment(building: SceneBuilding): LwSide[] {
+	const rooms = roomBySegment(building.rooms);
+	return (building.LwBySegment ?? []).map((side, i) => {
+		const e = facadeEmission(building, i, rooms[`segment-${i}`]);
+		if (!e) return side;
+		const shift = e.Lw - Number(side?.value ?? 0);
+		const { periods, ...rest } = side ?? { value: 0 };
+		return { ...rest, value: e.Lw, ...(Array.isArray(side?.spectrum) ? { spectrum: side.spectrum.map(v => Number(v) + shift) } : {}) };
+	});
+}
+
+export default { sabineAbsorption, roomAbsorption, segmentArea, roomBySegment, facadeEmission, roomSegments, roomLwBySegment };
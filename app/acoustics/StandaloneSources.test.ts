@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { POINT_DIRECTIVITY_DI, polygonArea, sampleSource, sourcePower, StandaloneSource } from "./StandaloneSources";
+import { computeLpFromSource } from "../lib/ISOModel";
+
+const toDb = (E: number) => 10 * Math.log10(E);
+const powerSum = (samples: { Lw: number }[]) => toDb(samples.reduce((acc, s) => acc + Math.pow(10, s.Lw / 10), 0));
+
+describe("sampleSource", () => {
+	it("lineal y superficial: la suma de las muestras es la potencia de la fuente", () => {
+		const line: StandaloneSource = { id: "l", type: "line", points: [[0, 0], [10, 0], [10, 5]], height: 0.5, Lw: { value: 70 } };
+		const area: StandaloneSource = { id: "a", type: "area", points: [[0, 0], [8, 0], [8, 6], [0, 6]], height: 0.5, Lw: { value: 55 } };
+		expect(powerSum(sampleSource(line, 1))).toBeCloseTo(sourcePower(line), 10);
+		expect(powerSum(sampleSource(area, 1))).toBeCloseTo(55 + 10 * Math.log10(polygonArea(area.points)), 10);
+		expect(sampleSource(area, 1).every(s => s.segment === "a")).toBe(true);
+	});
+
+	it("puntual direccional: en la media sobre todas las direcciones radia lo mismo que sin directividad", () => {
+		const omni: StandaloneSource = { id: "p", type: "point", points: [[0, 0]], height: 1.5, Lw: { value: 85 } };
+		const [o] = sampleSource(omni, 1);
+		const [d] = sampleSource({ ...omni, directivity: 90 }, 1);
+		expect(d.Lw - o.Lw).toBeCloseTo(POINT_DIRECTIVITY_DI, 10);
+		expect(d.nz).toBeCloseTo(1, 10);
+		// receptores en un anillo de 20 m: campo libre, Lw radiado (Df_room 0), sin atenuación extra
+		const opts = { RePrime: 0, Lw_isRoom: false, Df_room: 0, dbPerMeter: 0 };
+		const ring = Array.from({ length: 360 }, (_, k) => [20 * Math.cos(k * Math.PI / 180), 20 * Math.sin(k * Math.PI / 180)]);
+		const mean = (s: typeof o) => ring.reduce((acc, [x, z]) => acc + computeLpFromSource(s, x, z, opts).energyLinear, 0) / ring.length;
+		expect(toDb(mean(d)) - toDb(mean(o))).toBeCloseTo(0, 2);
+		// en el eje, POINT_DIRECTIVITY_DI por encima de la omnidireccional
+		expect(toDb(computeLpFromSource(d, 0, 20, opts).energyLinear) - toDb(computeLpFromSource(o, 0, 20, opts).energyLinear)).toBeCloseTo(POINT_DIRECTIVITY_DI, 10);
+	});
+});
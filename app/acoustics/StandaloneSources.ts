@@ -0,0 +1,145 @@
+import type { SourceSimple } from "../lib/ISOModel";
+import type { LwSide } from "../types";
+import { pointInPolygon } from "./GradientFactory";
+import { indicatorLw, NoiseIndicator } from "./TimePeriods";
+
+/**
+ * Fuentes independientes de los edificios (Scene.sources): equipos en cubierta, viales, aparcamientos...
+ * Cada una se descompone en fuentes puntuales (SourceSimple) con la potencia repartida entre ellas y entra
+ * en el mismo cálculo de propagación que las muestras de fachada (A_div, suelo, pantallas, dbPerMeter).
+ *  - point: Lw (dB) en points[0]; directivity opcional: acimut (°, 0 = +x, 90 = +z) de la dirección principal
+ *    (lóbulo cos θ del motor normalizado: la potencia total sigue siendo Lw)
+ *  - line: Lw por metro (dB/m) a lo largo de la polilínea points
+ *  - area: Lw por m² (dB/m²) sobre el polígono points
+ */
+
+export type SourceType = "point" | "line" | "area";
+
+/**
+ * StandaloneSource
+ * - Lw: nivel de emisión (LwSide: admite espectro, periodos y horario como una fachada)
+ * - height: altura de emisión sobre el suelo (m)
+ */
+export type StandaloneSource = {
+	id: string;
+	name?: string;
+	type: SourceType;
+	points: number[][];
+	height: number;
+	Lw: LwSide;
+	directivity?: number;
+};
+
+export const SOURCE_TYPES: SourceType[] = ["point", "line", "area"];
+export const SOURCE_PRESETS: Record<SourceType, { label: string; unit: string; Lw: number; height: number; minPoints: number }> = {
+	point: { label: "Puntual", unit: "dB", Lw: 85, height: 1.5, minPoints: 1 },
+	line: { label: "Lineal", unit: "dB/m", Lw: 70, height: 0.5, minPoints: 2 },
+	area: { label: "Superficial", unit: "dB/m²", Lw: 55, height: 0.5, minPoints: 3 }
+};
+export const SOURCE_COLORS: Record<SourceType, string> = { point: "#e040fb", line: "#ffab40", area: "#40c4ff" };
+
+// máximo de muestras por fuente lineal o superficial (se aumenta la separación si hace falta)
+const MAX_SAMPLES = 400;
+
+// índice de directividad del lóbulo max(0, cos θ) del motor (directivityCut 1, solo depende del acimut):
+// su media sobre todas las direcciones es 1/π, así que en el eje se radia π veces la media (+4.97 dB)
+export const POINT_DIRECTIVITY_DI = 10 * Math.log10(Math.PI);
+
+/**
+ * polylineLength / polygonArea
+ * Longitud (m) de una polilínea y área (m², fórmula del área de Gauss) de un polígono [x,z].
+ */
+export function polylineLength(points: number[][]) {
+	let L = 0;
+	for (let k = 1; k < points.length; k++) L += Math.hypot(points[k][0] - points[k - 1][0], points[k][1] - points[k - 1][1]);
+	return L;
+}
+
+export function polygonArea(points: number[][]) {
+	let A = 0;
+	for (let k = 0, m = points.length - 1; k < points.length; m = k++) A += points[m][0] * points[k][1] - points[k][0] * points[m][1];
+	return Math.abs(A) / 2;
+}
+
+/**
+ * sourcePower
+ * Lw total (dB) de la fuente para un nivel de emisión `level`: Lw, Lw/m + 10·log10(L) o Lw/m² + 10·log10(A).
+ */
+export function sourcePower(source: StandaloneSource, level = Number(source.Lw?.value ?? 0)) {
+	if (source.type === "line") return level + 10 * Math.log10(Math.max(1e-6, polylineLength(source.points)));
+	if (source.type === "area") return level + 10 * Math.log10(Math.max(1e-6, polygonArea(source.points)));
+	return level;
+}
+
+/**
+ * sampleSource
+ * Fuentes puntuales equivalentes (segment = id de la fuente) separadas `spacing` m como máximo:
+ *  - point: una fuente; con directivity lleva normal (nx,nz) y la directividad del motor, con Lw + POINT_DIRECTIVITY_DI;
+ *  - line: muestras en el centro de tramos iguales de cada lado, Lw = Lw/m + 10·log10(longitud del tramo);
+ *  - area: centros de una rejilla dentro del polígono, Lw = Lw/m² + 10·log10(A / muestras).
+ * El nivel es el de `indicator` (indicatorLw) y es el Lw radiado: se calculan sin Df_room.
+ */
+export function sampleSource(source: StandaloneSource, spacing: number, indicator: NoiseIndicator = "steady"): SourceSimple[] {
+	const level = indicatorLw(source.Lw, indicator);
+	const pts = (source.points ?? []).filter(p => Array.isArray(p) && Number.isFinite(p[0]) && Number.isFinite(p[1]));
+	const base = { segment: source.id, height: Math.max(0, Number(source.height) || 0) };
+	if (!Number.isFinite(level) || !pts.length) return [];
+
+	if (source.type === "line" && pts.length >= 2) {
+		const step = Math.max(spacing, polylineLength(pts) / MAX_SAMPLES);
+		const out: SourceSimple[] = [];
+		for (let k = 1; k < pts.length; k++) {
+			const [ax, az] = pts[k - 1], [bx, bz] = pts[k];
+			const len = Math.hypot(bx - ax, bz - az);
+			if (!(len > 0)) continue;
+			const n = Math.max(1, Math.ceil(len / step));
+			for (let s = 0; s < n; s++) {
+				const t = (s + 0.5) / n;
+				out.push({ ...base, x: ax + (bx - ax) * t, z: az + (bz - az) * t, Lw: level + 10 * Math.log10(len / n) });
+			}
+		}
+		return out;
+	}
+
+	if (source.type === "area" && pts.length >= 3) {
+		const A = polygonArea(pts);
+		const step = Math.max(spacing, Math.sqrt(A / MAX_SAMPLES));
+		const xs = pts.map(p => p[0]), zs = pts.map(p => p[1]);
+		const [x0, x1, z0, z1] = [Math.min(...xs), Math.max(...xs), Math.min(...zs), Math.max(...zs)];
+		const cells: number[][] = [];
+		for (let x = x0 + step / 2; x < x1; x += step) for (let z = z0 + step / 2; z < z1; z += step) if (pointInPolygon(x, z, pts)) cells.push([x, z]);
+		// polígono más pequeño que la rejilla: una muestra en el centro de sus vértices
+		if (!cells.length) cells.push([xs.reduce((a, v) => a + v, 0) / xs.length, zs.reduce((a, v) => a + v, 0) / zs.length]);
+		const Lw = level + 10 * Math.log10(Math.max(1e-6, A) / cells.length);
+		return cells.map(([x, z]) => ({ ...base, x, z, Lw }));
+	}
+
+	if (source.type !== "point") return [];
+	const [x, z] = pts[0];
+	const dir = Number(source.directivity);
+	const a = dir * Math.PI / 180;
+	if (!Number.isFinite(dir)) return [{ ...base, x, z, Lw: level }];
+	return [{ ...base, x, z, Lw: level + POINT_DIRECTIVITY_DI, nx: Math.cos(a), nz: Math.sin(a) }];
+}
+
+/**
+ * nextSourceId
+ * Siguiente identificador libre "f<n>".
+ */
+export function nextSourceId(sources: StandaloneSource[]) {
+	let n = sources.length + 1;
+	while (sources.some(s => s.id === `f${n}`)) n++;
+	return `f${n}`;
+}
+
+/**
+ * createSource
+ * Fuente nueva del tipo indicado en `points`, con el Lw y la altura de referencia de su tipo.
+ */
+export function createSource(type: SourceType, points: number[][], sources: StandaloneSource[]): StandaloneSource {
+	const { label, Lw, height } = SOURCE_PRESETS[type];
+	const id = nextSourceId(sources);
+	return { id, name: `${label} ${id.slice(1)}`, type, points, height, Lw: { value: Lw } };
+}
+
+export default { SOURCE_TYPES, SOURCE_PRESETS, POINT_DIRECTIVITY_DI, polylineLength, polygonArea, sourcePower, sampleSource, nextSourceId, createSource };
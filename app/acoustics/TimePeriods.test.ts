@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { hasTimeVariation, indicatorLw, lden, periodLw, sideForIndicator } from "./TimePeriods";
+
+describe("lden (Directiva 2002/49/CE)", () => {
+	it("mismo nivel en los tres periodos: + 6.40 dB por las penalizaciones", () => {
+		// 10·log10((12 + 4·10^0.5 + 8·10) / 24) = 6.395
+		expect(lden(60, 60, 60)).toBeCloseTo(66.395, 3);
+	});
+
+	it("solo de día: Lday - 3.01 dB (12 de 24 horas)", () => {
+		expect(lden(70, -Infinity, -Infinity)).toBeCloseTo(70 + 10 * Math.log10(0.5), 10);
+		expect(lden(-Infinity, -Infinity, 50)).toBeCloseTo(60 + 10 * Math.log10(8 / 24), 10);
+		expect(lden(-Infinity, -Infinity, -Infinity)).toBe(-Infinity);
+	});
+});
+
+describe("periodLw / indicatorLw", () => {
+	const schedule = Array.from({ length: 24 }, (_, h) => (h >= 7 && h < 13 ? 1 : 0));
+
+	it("periods tiene prioridad sobre el horario y el valor constante", () => {
+		const side = { value: 80, periods: { night: 65 }, schedule };
+		expect(periodLw(side, "night")).toBe(65);
+		// día: 6 de 12 horas en marcha -> value - 3.01 dB
+		expect(periodLw(side, "day")).toBeCloseTo(80 + 10 * Math.log10(0.5), 10);
+		// tarde: parada todo el periodo
+		expect(periodLw(side, "evening")).toBe(-Infinity);
+		expect(periodLw({ value: 72 }, "evening")).toBe(72);
+	});
+
+	it("el horario admite fracciones de hora (limitadas a 0..1)", () => {
+		const partial = Array.from({ length: 24 }, (_, h) => (h === 19 ? 2 : h === 20 ? 0.5 : 0));
+		// (1 + 0.5) / 4 horas de tarde
+		expect(periodLw({ value: 70, schedule: partial }, "evening")).toBeCloseTo(70 + 10 * Math.log10(1.5 / 4), 10);
+	});
+
+	it("indicatorLw: periodo del indicador o Lden de los tres periodos", () => {
+		const side = { value: 80, periods: { day: 80, evening: 75, night: 70 } };
+		expect(indicatorLw(side, "steady")).toBe(80);
+		expect(indicatorLw(side, "Levening")).toBe(75);
+		expect(indicatorLw(side, "Lden")).toBeCloseTo(lden(80, 75, 70), 10);
+		// 80 / 75 / 70 con penalizaciones 0 / 5 / 10: los tres periodos pesan 80 dB
+		expect(indicatorLw(side, "Lden")).toBeCloseTo(80, 10);
+	});
+});
+
+describe("sideForIndicator / hasTimeVariation", () => {
+	it("desplaza el espectro lo mismo que el valor y quita periodos y horario", () => {
+		const side = { value: 80, spectrum: [70, 72, 74, 76, 74, 72, 70, 68], periods: { night: 70 } };
+		const night = sideForIndicator(side, "Lnight");
+		expect(night).toEqual({ value: 70, spectrum: [60, 62, 64, 66, 64, 62, 60, 58] });
+		expect(sideForIndicator(side, "steady")).toBe(side);
+	});
+
+	it("hasTimeVariation solo con periods o horario", () => {
+		expect(hasTimeVariation([{ value: 70 }, undefined])).toBe(false);
+		expect(hasTimeVariation([{ value: 70 }, { value: 60, periods: {} }])).toBe(true);
+		expect(hasTimeVariation([{ value: 70, schedule: new Array(24).fill(1) }])).toBe(true);
+	});
+});
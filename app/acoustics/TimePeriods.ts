@@ -0,0 +1,106 @@
+import type { LwSide } from "../types";
+
+/**
+ * Periodos de evaluación de la Directiva 2002/49/CE (ruido ambiental) y cálculo de Lday / Levening /
+ * Lnight / Lden a partir del Lw de cada fachada por periodo o de su horario de funcionamiento.
+ */
+
+export type Period = "day" | "evening" | "night";
+
+/**
+ * NoiseIndicator: nivel que muestra el mapa (params.indicator)
+ * - "steady": Lw constante de cada fachada (LwSide.value), sin periodos
+ * - "Lday" / "Levening" / "Lnight": Lw del periodo; "Lden": día-tarde-noche con penalizaciones
+ */
+export type NoiseIndicator = "steady" | "Lday" | "Levening" | "Lnight" | "Lden";
+
+export const PERIODS: Period[] = ["day", "evening", "night"];
+export const PERIOD_LABELS: Record<Period, string> = { day: "Día", evening: "Tarde", night: "Noche" };
+
+// horas de cada periodo (07–19, 19–23, 23–07), penalización de Lden (dB) y horas a las que se refiere
+export const PERIOD_HOURS: Record<Period, number[]> = {
+	day: [7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18],
+	evening: [19, 20, 21, 22],
+	night: [23, 0, 1, 2, 3, 4, 5, 6]
+};
+export const PERIOD_PENALTY: Record<Period, number> = { day: 0, evening: 5, night: 10 };
+
+export const INDICATOR_PERIOD: Partial<Record<NoiseIndicator, Period>> = { Lday: "day", Levening: "evening", Lnight: "night" };
+export const INDICATOR_LABELS: Record<NoiseIndicator, string> = {
+	steady: "Lw constante",
+	Lday: "Lday (07–19)",
+	Levening: "Levening (19–23)",
+	Lnight: "Lnight (23–07)",
+	Lden: "Lden"
+};
+
+const toEnergy = (L: number) => Number.isFinite(L) ? Math.pow(10, L / 10) : 0;
+const toLevel = (E: number) => E > 0 ? 10 * Math.log10(E) : -Infinity;
+
+/**
+ * lden
+ * Lden = 10·log10[(12·10^(Ld/10) + 4·10^((Le+5)/10) + 8·10^((Ln+10)/10)) / 24]
+ * Vale igual para niveles Lp que para Lw: la propagación es la misma en los tres periodos.
+ * Un periodo sin emisión (-Infinity) no suma energía.
+ */
+export function lden(Lday: number, Levening: number, Lnight: number) {
+	const levels: Record<Period, number> = { day: Lday, evening: Levening, night: Lnight };
+	const E = PERIODS.reduce((acc, p) => acc + PERIOD_HOURS[p].length * toEnergy(levels[p] + PERIOD_PENALTY[p]), 0);
+	return toLevel(E / 24);
+}
+
+/**
+ * periodLw
+ * Lw de una fachada en un periodo:
+ *  - side.periods[period] si está definido;
+ *  - si no, con horario (side.schedule: fracción 0..1 de cada hora 0–23 en funcionamiento),
+ *    value + 10·log10(fracción media de las horas del periodo) (-Infinity si está parada todo el periodo);
+ *  - si no, value (fuente constante).
+ */
+export function periodLw(side: LwSide | undefined, period: Period) {
+	const value = Number(side?.value ?? 0);
+	const own = side?.periods?.[period];
+	if (Number.isFinite(own)) return Number(own);
+	const schedule = side?.schedule;
+	if (Array.isArray(schedule) && schedule.length === 24) {
+		const hours = PERIOD_HOURS[period];
+		const on = hours.reduce((acc, h) => acc + Math.max(0, Math.min(1, Number(schedule[h]) || 0)), 0) / hours.length;
+		return toLevel(on * toEnergy(value));
+	}
+	return value;
+}
+
+/**
+ * indicatorLw
+ * Lw equivalente de una fachada para el indicador: el mapa calculado con él es directamente el mapa del
+ * indicador (para Lden, la suma en energía de los tres periodos penalizados y ponderados por sus horas).
+ */
+export function indicatorLw(side: LwSide | undefined, indicator: NoiseIndicator = "steady") {
+	if (indicator === "Lden") return lden(periodLw(side, "day"), periodLw(side, "evening"), periodLw(side, "night"));
+	const period = INDICATOR_PERIOD[indicator];
+	return period ? periodLw(side, period) : Number(side?.value ?? 0);
+}
+
+/**
+ * sideForIndicator
+ * LwSide con value = indicatorLw (el espectro, si lo hay, se desplaza lo mismo); sin periodos ni horario.
+ */
+export function sideForIndicator(side: LwSide, indicator: NoiseIndicator = "steady"): LwSide {
+	if (indicator === "steady") return side;
+	const value = indicatorLw(side, indicator);
+	const shift = value - Number(side?.value ?? 0);
+	return {
+		value,
+		...(Array.isArray(side?.spectrum) ? { spectrum: side.spectrum.map(v => Number(v) + shift) } : {})
+	};
+}
+
+/**
+ * hasTimeVariation
+ * Alguna fachada tiene Lw por periodo u horario (si no, Lday = Levening = Lnight = Lw constante).
+ */
+export function hasTimeVariation(sides: (LwSide | undefined)[]) {
+	return sides.some(s => !!s?.periods || Array.isArray(s?.schedule));
+}
+
+export default { PERIODS, PERIOD_HOURS, PERIOD_PENALTY, lden, periodLw, indicatorLw, sideForIndicator, hasTimeVariation };
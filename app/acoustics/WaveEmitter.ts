@@ -1,8 +1,21 @@
-export type Source = { x: number; z: number; nx: number; nz: number; Lw: number };
+import type { OctaveSpectrum } from "../lib/ISOModel";
+import type { Reflector } from "./ImageSources";
+import { EmissionPatch, outwardNormal } from "./FacadeUtils";
+
+// reflector: solo en fuentes imagen (ImageSources), fachada donde se produce la reflexión
+// height: altura de emisión propia (elementos de fachada); sin ella se usa la común del edificio
+export type Source = { x: number; z: number; nx: number; nz: number; Lw: number; segment?: string; LwBands?: OctaveSpectrum; reflector?: Reflector; height?: number };
 
 /**
  * WaveEmitter: genera sources muestreadas sobre el perímetro (polyLoop)
  * y asigna Lw por cercanía a los segmentos "main".
+ *
+ * Si se suministra lwSpectrumMap ({ segment-0: [Lw_63, ..., Lw_8k], ... }), cada muestra recibe
+ * LwBands con la potencia de la fachada repartida entre sus muestras (-10·log10(samples)).
+ *
+ * Si se suministra patchMap ({ segment-0: EmissionPatch[], ... }, FacadeUtils.emissionPatches), la fachada
+ * se muestrea por tramos (muro y cada elemento) y cada tramo lleva su fracción de la potencia: el total
+ * del lado no cambia, pero un elemento poco aislante emite desde su posición y su altura.
  */
 export default class WaveEmitter {
   static generateSources(
@@ -10,7 +23,9 @@ export default class WaveEmitter {
     mainSegments: { name: string; p1: number[]; p2: number[] }[],
     sampleSpacing = 0,
     outwardOffset = 0,
-    lwMap?: Record<string, number> // new: { north, south, east, west } OR { segment-0, segment-1, ... }
+    lwMap?: Record<string, number>, // new: { north, south, east, west } OR { segment-0, segment-1, ... }
+    lwSpectrumMap?: Record<string, OctaveSpectrum>,
+    patchMap?: Record<string, EmissionPatch[]>
   ): Source[] {
     if ((!polyLoop || !polyLoop.length) && (!mainSegments || !mainSegments.length)) return [];
 
@@ -77,10 +92,11 @@ export default class WaveEmitter {
         const lenEdge = Math.hypot(vx, vz) || 1;
         const ux = vx / lenEdge, uz = vz / lenEdge;
 
-        // compute outward normal using centroid
+        // compute outward normal: against the polygon when available (concave L/U), else using centroid
         let nx = -uz, nz = ux;
         const mx = (a[0] + b[0]) / 2, mz = (a[1] + b[1]) / 2;
-        if ((mx - center[0]) * nx + (mz - center[1]) * nz < 0) { nx = -nx; nz = -nz; }
+        if (polyLoop && polyLoop.length >= 3) ({ nx, nz } = outwardNormal(a, b, polyLoop));
+        else if ((mx - center[0]) * nx + (mz - center[1]) * nz < 0) { nx = -nx; nz = -nz; }
         const nlen = Math.hypot(nx, nz) || 1;
         nx /= nlen; nz /= nlen;
 
@@ -100,11 +116,40 @@ export default class WaveEmitter {
           }
         }
 
+        // espectro por muestra (potencia de la fachada repartida entre las muestras)
+        const spectrum = lwSpectrumMap?.[segmentName];
+        const LwBands = Array.isArray(spectrum) ? spectrum.map(v => v - 10 * Math.log10(samples)) : undefined;
+
+        const patches = patchMap?.[segmentName];
+        if (patches?.length) {
+          // cada tramo conserva la energía que le corresponde del lado: samples muestras a lwForEdge
+          // (convenio del mapa) o el espectro repartido entre samples (convenio por bandas)
+          for (const patch of patches) {
+            if (!(patch.fraction > 0)) continue;
+            const span = Math.max(0, Math.min(lenEdge, patch.to) - Math.max(0, patch.from));
+            const n = Math.max(1, Math.ceil(span / sampleSpacing));
+            const gain = 10 * Math.log10(patch.fraction * samples / n);
+            for (let sIdx = 0; sIdx < n; sIdx++) {
+              const d = Math.max(0, patch.from) + span * (sIdx + 0.5) / n;
+              sources.push({
+                x: a[0] + ux * d + nx * outwardOffset,
+                z: a[1] + uz * d + nz * outwardOffset,
+                nx, nz,
+                Lw: lwForEdge + gain,
+                segment: segmentName,
+                ...(LwBands ? { LwBands: LwBands.map(v => v + gain) } : {}),
+                ...(Number.isFinite(patch.height) ? { height: patch.height } : {})
+              });
+            }
+          }
+          continue;
+        }
+
         for (let sIdx = 0; sIdx < samples; sIdx++) {
           const t = (sIdx + 0.5) / samples;
           const sx = a[0] + ux * lenEdge * t + nx * outwardOffset;
           const sz = a[1] + uz * lenEdge * t + nz * outwardOffset;
-          sources.push({ x: sx, z: sz, nx, nz, Lw: lwForEdge });
+          sources.push({ x: sx, z: sz, nx, nz, Lw: lwForEdge, segment: segmentName, ...(LwBands ? { LwBands } : {}) });
         }
       }
       return sources;
@@ -142,12 +187,15 @@ export default class WaveEmitter {
         }
       }
 
+      const spectrum = lwSpectrumMap?.[segmentName];
+      const LwBands = Array.isArray(spectrum) ? spectrum.map(v => v - 10 * Math.log10(samples)) : undefined;
+
       for (let sIdx = 0; sIdx < samples; sIdx++) {
         // sample at subsegment center to avoid sampling vertices repeatedly
         const t = (sIdx + 0.5) / samples;
         const sx = a[0] + ux * lenEdge * t + nx * outwardOffset;
         const sz = a[1] + uz * lenEdge * t + nz * outwardOffset;
-        sources.push({ x: sx, z: sz, nx, nz, Lw: lwForEdge });
+        sources.push({ x: sx, z: sz, nx, nz, Lw: lwForEdge, segment: segmentName, ...(LwBands ? { LwBands } : {}) });
       }
     }
     return sources;
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { computeSceneFileHeatmap } from "../../map/SceneFile";
+import { errorResponse, readSceneRequest } from "../sceneRequest";
+
+/**
+ * POST /api/heatmap
+ *
+ * Cuerpo: escena JSON (ver readSceneFile: { scene | buildings, params?, config? }) y engine opcional:
+ *  - "scene" (por defecto): computeSceneHeatmap, el mismo cálculo que useHeatmap en la vista 3D
+ *  - "calculator": MapBuilder.buildSceneHeatmap (AcousticCalculator, por bandas)
+ *
+ * Respuesta 200: HeatmapResult (x, y, z, min, max, hover, bands / contributions según el motor).
+ * Las celdas sin dato (NaN) se serializan como null; warnings: claves desconocidas de la escena (si las hay).
+ * Errores 400 / 422: { error, path? }.
+ */
+export async function POST(req: Request) {
+	try {
+		const { file, engine } = await readSceneRequest(req);
+		const heatmap = computeSceneFileHeatmap(file, engine);
+		return NextResponse.json(file.warnings.length ? { ...heatmap, warnings: file.warnings } : heatmap);
+	} catch (e) {
+		return errorResponse(e);
+	}
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { computeReceiverLevels } from "../../map/Receivers";
+import { ApiError, errorResponse, readSceneRequest } from "../sceneRequest";
+
+/**
+ * POST /api/receivers
+ *
+ * Cuerpo: escena JSON con receptores (scene.receivers o receivers: [{ id?, name?, x, z, height? }]).
+ * Respuesta 200: { receivers: ReceiverResult[] } calculado con computeReceiverLevels, igual que el panel
+ * de receptores; Lp es null si el receptor cae dentro de un edificio (campo inside). warnings: claves
+ * desconocidas de la escena (si las hay).
+ * Errores 400 / 422: { error, path? }.
+ */
+export async function POST(req: Request) {
+	try {
+		const { file } = await readSceneRequest(req);
+		if (!file.scene.receivers?.length) throw new ApiError(422, "receivers: la escena no tiene receptores", "receivers");
+		const receivers = computeReceiverLevels(file.scene, file.params);
+		return NextResponse.json(file.warnings.length ? { receivers, warnings: file.warnings } : { receivers });
+	} catch (e) {
+		return errorResponse(e);
+	}
+}
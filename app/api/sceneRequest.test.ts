@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { ApiError, MAX_API_BUILDINGS, MAX_API_RESOLUTION, MAX_API_SOURCES, readSceneRequest } from "./sceneRequest";
+
+const building = { footprint: [[-5, -5], [5, -5], [5, 5], [-5, 5]], height: 8, LwBySegment: [{ value: 70 }] };
+const request = (body: unknown) => new Request("http://localhost/api/heatmap", { method: "POST", body: JSON.stringify(body) });
+
+// estado y path del ApiError con que se rechaza la petición
+const rejection = (body: unknown) => readSceneRequest(request(body)).then(
+	() => null,
+	(e: ApiError) => ({ status: e.status, path: e.path })
+);
+
+describe("readSceneRequest: límites del servidor", () => {
+	it("acepta una escena dentro de los límites", async () => {
+		const { file, engine } = await readSceneRequest(request({ buildings: [building], config: { resolution: 60 } }));
+		expect(engine).toBe("scene");
+		expect(file.scene.buildings).toHaveLength(1);
+	});
+
+	it("config.resolution por encima del máximo", async () => {
+		expect(await rejection({ buildings: [building], config: { resolution: MAX_API_RESOLUTION + 1 } }))
+			.toEqual({ status: 422, path: "config.resolution" });
+	});
+
+	it("motor calculator: cuenta las celdas que salen de areaSize / cellSize", async () => {
+		const body = { buildings: [building], engine: "calculator", params: { cellSize: 0.2 }, config: { areaSize: 90, resolution: 60 } };
+		expect(await rejection(body)).toEqual({ status: 422, path: "params.cellSize" });
+		// el motor scene no usa cellSize para la grilla
+		expect(await rejection({ ...body, engine: "scene" })).toBeNull();
+	});
+
+	it("demasiados edificios o fuentes", async () => {
+		const buildings = Array.from({ length: MAX_API_BUILDINGS + 1 }, (_, i) => ({ ...building, position: { x: 20 * i, z: 0 } }));
+		expect(await rejection({ buildings })).toEqual({ status: 422, path: "buildings" });
+		expect(await rejection({ scene: { buildings } })).toEqual({ status: 422, path: "scene.buildings" });
+		const sources = Array.from({ length: MAX_API_SOURCES + 1 }, (_, i) => ({ type: "point", points: [[i, 20]], Lw: { value: 80 } }));
+		expect(await rejection({ buildings: [building], sources })).toEqual({ status: 422, path: "sources" });
+	});
+
+	it("separación de muestras demasiado pequeña", async () => {
+		expect(await rejection({ buildings: [building], params: { sourceSpacing: 0.01 } }))
+			.toEqual({ status: 422, path: "params.sourceSpacing" });
+	});
+});
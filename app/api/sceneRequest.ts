@@ -0,0 +1,91 @@
+import { NextResponse } from "next/server";
+import { HeatmapEngine, readSceneFile, SceneFile, SceneFileError, sceneFileGridSize } from "../map/SceneFile";
+
+/**
+ * sceneRequest
+ *
+ * Lectura y errores comunes de las rutas /api/heatmap y /api/receivers:
+ *  - cuerpo JSON con la escena en cualquiera de las formas de readSceneFile (+ engine opcional)
+ *  - 400: el cuerpo no es JSON; 422: escena no válida o fuera de los límites del servidor (celdas por lado
+ *    efectivas, edificios, fuentes, receptores y separación mínima entre muestras)
+ *  - cuerpo de error: { error, path? } (path = campo problemático, p. ej. "scene.buildings[0].footprint")
+ */
+
+// límites del servidor: el coste crece con (celdas por lado)² por fuente, y las fuentes con los edificios,
+// las fuentes independientes y la separación entre muestras de emisión
+export const MAX_API_RESOLUTION = 250;
+export const MAX_API_BUILDINGS = 50;
+export const MAX_API_SOURCES = 100;
+export const MAX_API_RECEIVERS = 500;
+export const MIN_API_SOURCE_SPACING = 0.1;
+
+export class ApiError extends Error {
+	status: number;
+	path?: string;
+	constructor(status: number, message: string, path?: string) {
+		super(message);
+		this.name = "ApiError";
+		this.status = status;
+		this.path = path;
+	}
+}
+
+export type SceneRequest = { file: SceneFile; engine: HeatmapEngine };
+
+export async function readSceneRequest(req: Request): Promise<SceneRequest> {
+	let body: any;
+	try {
+		body = await req.json();
+	} catch (e) {
+		throw new ApiError(400, "El cuerpo de la petición debe ser JSON válido");
+	}
+
+	let file: SceneFile;
+	try {
+		file = readSceneFile(body);
+	} catch (e) {
+		if (e instanceof SceneFileError) throw new ApiError(422, e.message, e.path);
+		throw e;
+	}
+
+	const engine = body.engine ?? "scene";
+	if (engine !== "scene" && engine !== "calculator")
+		throw new ApiError(422, `engine: debe ser "scene" o "calculator" (recibido ${JSON.stringify(engine)})`, "engine");
+	checkLimits(file, engine, body.scene ? "scene." : "");
+	return { file, engine };
+}
+
+// 422 si la escena supera los límites del servidor (path = campo que hay que reducir, con el prefijo
+// "scene." si la escena viene en esa forma, como los errores de readSceneFile)
+function checkLimits(file: SceneFile, engine: HeatmapEngine, base: string) {
+	const { scene, params } = file;
+	const cells = sceneFileGridSize(file, engine);
+	if (!(cells <= MAX_API_RESOLUTION)) {
+		const path = engine === "calculator" && Number(params.cellSize) > 0 ? "params.cellSize" : "config.resolution";
+		throw new ApiError(422, `${path}: como máximo ${MAX_API_RESOLUTION} celdas por lado (resultan ${cells})`, path);
+	}
+	const counts: [string, number, number][] = [
+		[`${base}buildings`, scene.buildings.length, MAX_API_BUILDINGS],
+		[`${base}sources`, scene.sources?.length ?? 0, MAX_API_SOURCES],
+		[`${base}receivers`, scene.receivers?.length ?? 0, MAX_API_RECEIVERS]
+	];
+	for (const [path, n, max] of counts) {
+		if (n > max) throw new ApiError(422, `${path}: como máximo ${max} (recibidos ${n})`, path);
+	}
+	// separación de las muestras de fachada y de fuentes (el motor scene cae en cellSize si falta sourceSpacing)
+	for (const key of ["sourceSpacing", "cellSize"] as const) {
+		const v = params[key];
+		if (v !== undefined && Number(v) < MIN_API_SOURCE_SPACING)
+			throw new ApiError(422, `params.${key}: como mínimo ${MIN_API_SOURCE_SPACING} m`, `params.${key}`);
+	}
+}
+
+/**
+ * errorResponse
+ * ApiError -> su estado y { error, path }; cualquier otro error -> 500 (fallo del cálculo).
+ */
+export function errorResponse(e: unknown) {
+	if (e instanceof ApiError) return NextResponse.json({ error: e.message, ...(e.path ? { path: e.path } : {}) }, { status: e.status });
+	console.error("[api]", e);
+	return NextResponse.json({ error: "Error interno al calcular la escena" }, { status: 500 });
+}
@@ -1,8 +1,28 @@
-export type LwSide = { value: number };
+import { Scene } from "./types";
+import { createSceneBuilding } from "./geometry/scene";
+
+export type LwSide = { value: number; spectrum?: number[] };
 
 export type BuildingType = "L" | "U" | "S";
 
-export function getBuildingConfig(type: BuildingType = "L") {
+/**
+ * BuildingConfig: configuración de la vista (área y resolución de la grilla, altura de medida) y del edificio
+ * inicial; footprintDepth (opcional) es el fondo de la huella rectangular, igual a footprint si falta.
+ */
+export type BuildingConfig = {
+	areaSize: number;
+	resolution: number;
+	measureH: number;
+	footprint: number;
+	footprintDepth?: number;
+	buildingHeight: number;
+	id: number;
+	pos: { x: number; z: number };
+	size: number;
+	LwBySegment: LwSide[];
+};
+
+export function getBuildingConfig(type: BuildingType = "L"): BuildingConfig {
 	const segmentCounts: Record<BuildingType, number> = { L: 6, U: 8, S: 4 };
 	const defaultLw = 30;
 	const count = segmentCounts[type] ?? 6;
@@ -15,12 +35,29 @@ export function getBuildingConfig(type: BuildingType = "L") {
 		id: 1,
 		pos: { x: 0, z: 0 },
 		size: 4,
-		LwBySegment: Array.from({ length: count }, (_, i) => ({ value: defaultLw })) as LwSide[],
+		LwBySegment: Array.from({ length: count }, () => ({ value: defaultLw })),
 	};
 }
 
 export const buildingConfig = getBuildingConfig("L");
 
+/**
+ * getDefaultScene
+ * Escena inicial: un único edificio rectangular con las dimensiones de getBuildingConfig
+ * y un receptor de ejemplo frente a su fachada este.
+ */
+export function getDefaultScene(type: BuildingType = "L"): Scene {
+	const cfg = getBuildingConfig(type);
+	return {
+		buildings: [
+			createSceneBuilding("b1", { height: cfg.buildingHeight, position: { ...cfg.pos } }, cfg.footprint, cfg.footprintDepth ?? cfg.footprint)
+		],
+		receivers: [
+			{ id: "r1", name: "Receptor 1", x: cfg.pos.x + cfg.footprint / 2 + 10, z: cfg.pos.z, height: 4 }
+		]
+	};
+}
+
 export const defaultParams = {
 	// spread: control visual global (no es físico) para escalado de efectos
 	spread: 50, // magnitud usada en visualización (sin unidad)
@@ -96,6 +133,55 @@ export const defaultParams = {
 		yellowMaxDist: 156.0
 	},
 
+	// meteo: condiciones para la absorción atmosférica por banda de octava (ISO 9613-1)
+	meteo: {
+		temperatureC: 15, // °C
+		humidity: 70,     // % humedad relativa
+		pressureKPa: 101.325
+	},
+
+	// ground: factor de suelo G (ISO 9613-2) — 0 duro (asfalto) .. 1 poroso (césped)
+	//  desactivado por defecto (enabled: true para calcular A_gr); defaultG se aplica fuera de las zonas;
+	//  regions: [{ name, polygon: [[x,z],...], G }]
+	ground: {
+		enabled: false,
+		defaultG: 0,
+		regions: [] as { name?: string; polygon: number[][]; G: number }[]
+	},
+
+	// reflections: reflexiones de primer orden en las propias fachadas (fuentes imagen)
+	//  absorption: α (0..1) por segmento ({ "segment-0": 0.2 }); defaultAbsorption para el resto
+	reflections: {
+		enabled: true,
+		defaultAbsorption: 0.1,
+		absorption: {} as Record<string, number>
+	},
+
+	// mapMode: "level" pinta Lp (dB); "dominant" pinta la fachada que más aporta en cada celda;
+	//  "compliance" pinta cumple / cerca / supera respecto al límite de cada zona acústica
+	mapMode: "level",
+
+	// compliance: zonas acústicas con límites por periodo (app/acoustics/Compliance.ts)
+	//  period: "day" | "evening" | "night"; margin: dB bajo el límite que cuentan como "cerca del límite"
+	compliance: {
+		period: "day",
+		margin: 3,
+		zones: [] as { name?: string; type: "residential" | "commercial" | "industrial"; polygon: number[][]; limits: { day: number; evening: number; night: number } }[]
+	},
+
+	// indicator: nivel del mapa y de los receptores — "steady" (Lw constante de cada fachada), "Lday" / "Levening" /
+	//  "Lnight" (Lw del periodo: LwSide.periods o LwSide.schedule) o "Lden" (penalizaciones +5 tarde, +10 noche)
+	indicator: "steady",
+
+	// renderMode: "data" rasteriza el mapa directamente a una DataTexture; "plotly" lo dibuja con Plotly y carga el PNG
+	renderMode: "data",
+
+	// contours: isófonas (marching squares) dibujadas como líneas rotuladas sobre el plano del mapa
+	contours: {
+		enabled: true,
+		levels: [40, 45, 50, 55, 60, 65] as number[] // dB
+	},
+
 	// attenuation: parámetros de atenuación física y estabilidad numérica
 	attenuation: {
 		exponent: 2,    // exponente de caída (2 => inversa cuadrada / campo libre)
@@ -28,3 +28,21 @@ export function createRectangleExtrudeGeometry(width: number, depth: number, bui
 	geom.userData = { type: "rect", perimeter: points, depth: buildingHeight };
 	return geom;
 }
+
+/**
+ * Crea una geometría de extrusión a partir de una huella poligonal simple (cóncava o convexa).
+ * points: vértices [x,z] en orden de recorrido; se conservan en userData.perimeter para PerimeterExtractor.
+ */
+export function createFootprintExtrudeGeometry(points: number[][], buildingHeight: number): THREE.ExtrudeGeometry {
+	const pts = points.map(p => [Number(p[0]) || 0, Number(p[1]) || 0] as [number, number]);
+	const shape = new THREE.Shape();
+	if (pts.length) {
+		shape.moveTo(pts[0][0], pts[0][1]);
+		for (let i = 1; i < pts.length; i++) shape.lineTo(pts[i][0], pts[i][1]);
+		shape.closePath();
+	}
+	const extrudeSettings: THREE.ExtrudeGeometryOptions = { steps: 1, depth: Math.max(0.001, buildingHeight), bevelEnabled: false };
+	const geom = new THREE.ExtrudeGeometry(shape, extrudeSettings);
+	geom.userData = { type: "polygon", perimeter: pts, depth: buildingHeight };
+	return geom;
+}
@@ -0,0 +1,150 @@
+import { LwSide, SceneBuilding } from "../types";
+
+/**
+ * FootprintEdit: operación del editor de vértices sobre la huella (coordenadas locales del edificio)
+ * - move: mueve el vértice `index` a `point`
+ * - insert: inserta `point` en el lado `edge` (entre los vértices edge y edge+1)
+ * - delete: elimina el vértice `index` (sus dos lados se funden en uno)
+ */
+export type FootprintEdit =
+	| { type: "move"; index: number; point: number[] }
+	| { type: "insert"; edge: number; point: number[] }
+	| { type: "delete"; index: number };
+
+/**
+ * polygonArea
+ * Área con signo (fórmula del polígono de Gauss) en el plano x-z.
+ */
+export function polygonArea(poly: number[][]) {
+	let a = 0;
+	for (let i = 0, j = poly.length - 1; i < poly.length; j = i++) a += poly[j][0] * poly[i][1] - poly[i][0] * poly[j][1];
+	return a / 2;
+}
+
+// intersección propia entre los segmentos p1-p2 y p3-p4 (los extremos compartidos no cuentan)
+function segmentsCross(p1: number[], p2: number[], p3: number[], p4: number[]) {
+	const d = (a: number[], b: number[], c: number[]) => (b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]);
+	const d1 = d(p3, p4, p1), d2 = d(p3, p4, p2), d3 = d(p1, p2, p3), d4 = d(p1, p2, p4);
+	return ((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0));
+}
+
+/**
+ * isSimplePolygon
+ * true si la huella tiene al menos 3 vértices, área no nula, sin vértices repetidos ni lados que se crucen.
+ */
+export function isSimplePolygon(poly: number[][]) {
+	const n = poly?.length ?? 0;
+	if (n < 3 || Math.abs(polygonArea(poly)) < 1e-6) return false;
+	for (let i = 0; i < n; i++) {
+		const a = poly[i], b = poly[(i + 1) % n];
+		if (Math.hypot(b[0] - a[0], b[1] - a[1]) < 1e-6) return false;
+		for (let j = i + 1; j < n; j++) {
+			if (j === i || (j + 1) % n === i || (i + 1) % n === j) continue; // lados contiguos
+			if (segmentsCross(a, b, poly[j], poly[(j + 1) % n])) return false;
+		}
+	}
+	return true;
+}
+
+/**
+ * editFootprint
+ * Aplica la operación y devuelve la huella nueva y, para cada lado nuevo, el índice del lado original
+ * del que procede (-1 si es nuevo). null si el resultado no es un polígono simple.
+ *  - move: todos los lados se conservan.
+ *  - insert: el lado partido da dos lados que heredan del original.
+ *  - delete: el lado fundido hereda del más largo de los dos originales.
+ */
+export function editFootprint(poly: number[][], edit: FootprintEdit): { footprint: number[][]; source: number[] } | null {
+	const n = poly.length;
+	const len = (i: number) => Math.hypot(poly[(i + 1) % n][0] - poly[i][0], poly[(i + 1) % n][1] - poly[i][1]);
+	let footprint: number[][];
+	let source: number[];
+	if (edit.type === "move") {
+		if (edit.index < 0 || edit.index >= n) return null;
+		footprint = poly.map((p, i) => i === edit.index ? [edit.point[0], edit.point[1]] : p);
+		source = poly.map((_, i) => i);
+	} else if (edit.type === "insert") {
+		if (edit.edge < 0 || edit.edge >= n) return null;
+		footprint = [...poly.slice(0, edit.edge + 1), [edit.point[0], edit.point[1]], ...poly.slice(edit.edge + 1)];
+		source = [...poly.map((_, i) => i).slice(0, edit.edge + 1), edit.edge, ...poly.map((_, i) => i).slice(edit.edge + 1)];
+	} else {
+		if (n <= 3 || edit.index < 0 || edit.index >= n) return null;
+		const prev = (edit.index - 1 + n) % n;
+		const merged = len(prev) >= len(edit.index) ? prev : edit.index;
+		footprint = poly.filter((_, i) => i !== edit.index);
+		// el lado que empezaba en `prev` pasa a terminar en el vértice siguiente al eliminado
+		source = poly.map((_, i) => i).filter(i => i !== edit.index).map(i => i === prev ? merged : i);
+	}
+	return isSimplePolygon(footprint) ? { footprint, source } : null;
+}
+
+/**
+ * remapSegmentRecord
+ * Reindexa un mapa { "segment-i": valor } según `source` (ver editFootprint); los lados nuevos quedan sin valor.
+ */
+export function remapSegmentRecord<T>(rec: Record<string, T> | undefined, source: number[]): Record<string, T> | undefined {
+	if (!rec) return rec;
+	const out: Record<string, T> = {};
+	source.forEach((from, i) => {
+		const v = from >= 0 ? rec[`segment-${from}`] : undefined;
+		if (v !== undefined) out[`segment-${i}`] = v;
+	});
+	return out;
+}
+
+/**
+ * remapSegmentKeys
+ * Igual que remapSegmentRecord para una lista de lados ("segment-i"): un lado partido sigue en la lista.
+ */
+export function remapSegmentKeys(keys: string[], source: number[]): string[] {
+	const set = new Set(keys);
+	return source.map((from, i) => from >= 0 && set.has(`segment-${from}`) ? `segment-${i}` : null).filter((k): k is string => k !== null);
+}
+
+/**
+ * applyFootprintEdit
+ * Edita la huella de un edificio conservando LwBySegment (y α, composición y salas por fachada) de los lados
+ * que sobreviven.
+ * Si la edición produce un polígono no simple devuelve el edificio sin cambios.
+ */
+export function applyFootprintEdit(b: SceneBuilding, edit: FootprintEdit, defaultLw = 30): SceneBuilding {
+	const res = editFootprint(b.footprint, edit);
+	if (!res) return b;
+	const LwBySegment: LwSide[] = res.source.map(from => (from >= 0 && b.LwBySegment?.[from]) ? { ...b.LwBySegment[from] } : { value: defaultLw });
+	return {
+		...b,
+		footprint: res.footprint,
+		LwBySegment,
+		absorption: remapSegmentRecord(b.absorption, res.source),
+		facades: remapSegmentRecord(b.facades, res.source),
+		rooms: b.rooms?.map(room => ({ ...room, segments: remapSegmentKeys(room.segments, res.source) }))
+	};
+}
+
+/**
+ * presetFootprint
+ * Huellas predefinidas centradas en el origen para los tipos de getBuildingConfig / useSyncSegments
+ * (S: 4 lados, L y HEX: 6, U y T: 8, CROSS: 12). `width` en x, `depth` en z.
+ */
+export function presetFootprint(type: string, width: number, depth: number): number[][] {
+	const hx = Math.max(0.5, width) / 2, hz = Math.max(0.5, depth) / 2;
+	const tx = hx * 2 / 3, tz = hz * 2 / 3; // fracciones de ala / brazo
+	switch (type) {
+		case "L":
+			return [[-hx, -hz], [hx, -hz], [hx, -hz + tz], [-hx + tx, -hz + tz], [-hx + tx, hz], [-hx, hz]];
+		case "U":
+			return [[-hx, -hz], [hx, -hz], [hx, hz], [hx - tx / 2, hz], [hx - tx / 2, -hz + tz], [-hx + tx / 2, -hz + tz], [-hx + tx / 2, hz], [-hx, hz]];
+		case "T":
+			return [[-hx, hz - tz], [-hx, hz], [hx, hz], [hx, hz - tz], [tx / 4, hz - tz], [tx / 4, -hz], [-tx / 4, -hz], [-tx / 4, hz - tz]];
+		case "HEX":
+			return Array.from({ length: 6 }, (_, i) => [hx * Math.cos(i * Math.PI / 3), hz * Math.sin(i * Math.PI / 3)]);
+		case "CROSS": {
+			const ax = hx / 3, az = hz / 3;
+			return [[-ax, -hz], [ax, -hz], [ax, -az], [hx, -az], [hx, az], [ax, az], [ax, hz], [-ax, hz], [-ax, az], [-hx, az], [-hx, -az], [-ax, -az]];
+		}
+		default:
+			return [[-hx, -hz], [hx, -hz], [hx, hz], [-hx, hz]];
+	}
+}
+
+export default { polygonArea, isSimplePolygon, editFootprint, remapSegmentRecord, remapSegmentKeys, applyFootprintEdit, presetFootprint };
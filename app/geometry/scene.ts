@@ -0,0 +1,94 @@
+import * as THREE from "three";
+import { createFootprintExtrudeGeometry } from "./building";
+import { LwSide, Scene, SceneBuilding } from "../types";
+
+/**
+ * rectangleFootprint
+ * Huella rectangular centrada en el origen, mismo orden de vértices que createRectangleExtrudeGeometry
+ * (segment-0 = lado z negativo, luego sentido antihorario).
+ */
+export function rectangleFootprint(width: number, depth: number): number[][] {
+	const hx = Math.max(0.001, width) / 2;
+	const hz = Math.max(0.001, depth) / 2;
+	return [[-hx, -hz], [hx, -hz], [hx, hz], [-hx, hz]];
+}
+
+/**
+ * worldFootprint
+ * Huella del edificio en coordenadas de la escena: giro `rotation` (grados) y traslación a `position`.
+ */
+export function worldFootprint(b: SceneBuilding): number[][] {
+	const a = (Number(b.rotation) || 0) * Math.PI / 180;
+	const c = Math.cos(a), s = Math.sin(a);
+	const px = b.position?.x ?? 0, pz = b.position?.z ?? 0;
+	return (b.footprint ?? []).map(([x, z]) => [px + x * c - z * s, pz + x * s + z * c]);
+}
+
+/**
+ * worldToLocal
+ * Inversa de worldFootprint para un punto: coordenadas de escena -> huella local del edificio.
+ */
+export function worldToLocal(b: SceneBuilding, x: number, z: number): number[] {
+	const a = (Number(b.rotation) || 0) * Math.PI / 180;
+	const c = Math.cos(a), s = Math.sin(a);
+	const dx = x - (b.position?.x ?? 0), dz = z - (b.position?.z ?? 0);
+	return [dx * c + dz * s, -dx * s + dz * c];
+}
+
+/**
+ * buildingGeometry
+ * Geometría extruida del edificio ya colocada en la escena (perímetro en userData para PerimeterExtractor).
+ */
+export function buildingGeometry(b: SceneBuilding): THREE.ExtrudeGeometry {
+	return createFootprintExtrudeGeometry(worldFootprint(b), b.height);
+}
+
+/**
+ * syncLwBySegment
+ * Ajusta LwBySegment al número de lados de la huella conservando los valores existentes.
+ */
+export function syncLwBySegment(b: SceneBuilding, defaultVal = 30): SceneBuilding {
+	const n = b.footprint?.length ?? 0;
+	const cur = Array.isArray(b.LwBySegment) ? b.LwBySegment : [];
+	if (cur.length === n) return b;
+	const LwBySegment: LwSide[] = Array.from({ length: n }, (_, i) => cur[i] ?? { value: defaultVal });
+	return { ...b, LwBySegment };
+}
+
+/**
+ * createSceneBuilding
+ * Edificio rectangular con Lw uniforme por fachada; el resto de campos se puede sobrescribir con `overrides`.
+ */
+export function createSceneBuilding(id: string, overrides: Partial<SceneBuilding> = {}, width = 16, depth = 16, defaultLw = 30): SceneBuilding {
+	const footprint = overrides.footprint ?? rectangleFootprint(width, depth);
+	return syncLwBySegment({
+		id,
+		name: overrides.name ?? `Edificio ${id}`,
+		footprint,
+		height: overrides.height ?? 13,
+		position: overrides.position ?? { x: 0, z: 0 },
+		rotation: overrides.rotation ?? 0,
+		LwBySegment: overrides.LwBySegment ?? footprint.map(() => ({ value: defaultLw })),
+		...(overrides.absorption ? { absorption: overrides.absorption } : {})
+	}, defaultLw);
+}
+
+/**
+ * updateBuilding
+ * Devuelve una escena nueva con el edificio `id` reemplazado por fn(edificio).
+ */
+export function updateBuilding(scene: Scene, id: string, fn: (b: SceneBuilding) => SceneBuilding): Scene {
+	return { ...scene, buildings: scene.buildings.map(b => b.id === id ? fn(b) : b) };
+}
+
+/**
+ * nextBuildingId
+ * Primer identificador libre con la forma "b<n>".
+ */
+export function nextBuildingId(scene: Scene) {
+	let n = scene.buildings.length + 1;
+	while (scene.buildings.some(b => b.id === `b${n}`)) n++;
+	return `b${n}`;
+}
+
+export default { rectangleFootprint, worldFootprint, worldToLocal, buildingGeometry, syncLwBySegment, createSceneBuilding, updateBuilding, nextBuildingId };
@@ -0,0 +1,26 @@
+/**
+ * useContours
+ *
+ * Isolíneas (marching squares) del mapa de calor para los niveles de params.contours.levels.
+ *  - heatmap: resultado de useHeatmap (las celdas NaN, p. ej. dentro de edificios, cortan las líneas)
+ *  - params.contours: { enabled, levels } (por defecto en config.defaultParams)
+ *
+ * Salida: ContourLine[] ({ level, points [x,z][], closed, length, label }) memoizado; vacío si están desactivadas.
+ * Las polilíneas son las mismas que dibuja ContourOverlay, para reutilizarlas en otros módulos.
+ */
+import { useMemo } from "react";
+import { ContourLine, extractContours } from "../map/Contours";
+import { HeatmapResult, Params } from "../types";
+
+export default function useContours(heatmap: HeatmapResult, params: Params): ContourLine[] {
+	const enabled = params?.contours?.enabled !== false;
+	// clave estable: params.contours.levels puede ser un array nuevo con los mismos niveles
+	const key = (params?.contours?.levels ?? []).join(",");
+	return useMemo(() => {
+		const levels = key ? key.split(",").map(Number) : [];
+		if (!enabled || !levels.length) return [];
+		// descartar trazos de menos de una celda
+		const cell = heatmap?.x?.length > 1 ? Math.abs(heatmap.x[1] - heatmap.x[0]) : 0;
+		return extractContours(heatmap, levels, cell);
+	}, [heatmap, enabled, key]);
+}
@@ -0,0 +1,35 @@
+/**
+ * useDataTexture
+ *
+ * Textura del mapa generada directamente en memoria (render por defecto, params.renderMode = "data"):
+ *  - heatmap: resultado de useHeatmap; null = no renderizar (otro modo de render activo)
+ *  - params: colorOverlay (umbrales de la escala), mapMode ("level" / "dominant" / "compliance") y compliance
+ *  - building: objeto con LwBySegment (rango de color si el mapa es degenerado, igual que usePlotlyTexture)
+ *
+ * Salida: THREE.DataTexture RGBA (renderHeatmapRGBA: colorscale de buildThresholdColorscale, interpolación
+ * bilineal entre celdas y celdas sin datos transparentes) o null. Se genera de forma síncrona en unos
+ * milisegundos, sin DOM ni PNG intermedio, así que cada pasada progresiva de useHeatmap se ve al momento.
+ * La textura anterior se libera al sustituirla y al desmontar.
+ */
+import { useEffect, useMemo } from "react";
+import * as THREE from "three";
+import { renderHeatmapRGBA } from "../map/HeatmapTexture";
+import { HeatmapResult, Params } from "../types";
+
+export default function useDataTexture(heatmap: HeatmapResult | null, params: Params, building: any): THREE.DataTexture | null {
+	const texture = useMemo(() => {
+		if (!heatmap?.x?.length) return null;
+		const { data, width, height } = renderHeatmapRGBA(heatmap, params, building);
+		const tex = new THREE.DataTexture(data, width, height, THREE.RGBAFormat);
+		tex.wrapS = tex.wrapT = THREE.ClampToEdgeWrapping;
+		tex.minFilter = THREE.LinearFilter;
+		tex.magFilter = THREE.LinearFilter;
+		tex.flipY = false;
+		tex.needsUpdate = true;
+		return tex;
+	}, [heatmap, params, building]);
+
+	useEffect(() => () => { texture?.dispose(); }, [texture]);
+
+	return texture;
+}
@@ -2,138 +2,131 @@
  * useHeatmap
  *
  * Hook que encapsula la generación del mapa de calor (matriz Z) a partir de:
- *  - config: configuración general (areaSize, resolution, etc.)
- *  - building: objeto con LwBySegment (niveles por segmento)
+ *  - config: configuración general (areaSize, resolution, measureH, etc.)
+ *  - scene: edificios de la escena (huella, altura, posición, rotación y LwBySegment de cada uno)
  *  - params: parámetros visuales y de muestreo (colorOverlay, sampleSpacing, etc.)
- *  - finalLoop: perímetro final extraído de la geometría (array de [x,z])
- *  - lShapeMesh: geometría THREE.ExtrudeGeometry usada para extraer segmentos
  *  - refreshKey: token para forzar recalculo desde la UI
  *
  * Resultado devuelto (forma):
- *  { x: number[], y: number[], z: number[][], min: number, max: number }
- *  - x,y: coordenadas de la grilla (centros de celda)
- *  - z: matriz [rows=y.length][cols=x.length] con niveles en dB o NaN para celdas vacías
- *  - min/max: valores numéricos (NaN si no hay datos)
+ *  { heatmap, progress }
+ *  - heatmap: { x: number[], y: number[], z: number[][], min: number, max: number, hover, contributions }
+ *    - x,y: coordenadas de la grilla (centros de celda)
+ *    - z: matriz [rows=y.length][cols=x.length] con niveles en dB o NaN para celdas vacías
+ *    - min/max: valores numéricos (NaN si no hay datos)
+ *  - progress: fracción calculada del trabajo en curso, todas las pasadas incluidas (1 = mapa final)
  *
  * Notas de comportamiento:
- *  - Internamente extrae segmentos de fachada con PerimeterExtractor.extractFacadesSegments(lShapeMesh).
- *  - Construye gridX/gridY centrados en el área (areaSize/resolution).
- *  - Llama a generateRedHeatmapFromFacade(...) que aplica el modelo físico (rojo estrecho + halo amarillo).
- *  - Calcula min/max ignorando valores no finitos.
+ *  - El cálculo vive en app/map/SceneHeatmap.ts: computeSceneRows (por bloques de filas, la parte costosa)
+ *    y assembleSceneHeatmap (blur, suma de edificios, contribuciones y hover).
+ *  - Cálculo progresivo (progressivePasses): primero resolution/4, luego resolution/2 y por último la
+ *    resolución pedida; cada pasada sustituye a la anterior al terminar (usePlotlyTexture repinta en cada una).
+ *    Las pasadas gruesas cuestan ~1/16 y ~1/4 de la final.
+ *  - Las filas se reparten entre Web Workers (HeatmapWorkerPool) para que la vista 3D siga respondiendo;
+ *    durante la primera pasada se publica un mapa parcial (filas pendientes vacías) como mucho cada
+ *    PARTIAL_INTERVAL_MS, y hasta entonces se mantiene el mapa anterior.
+ *  - Un cambio de config/edificios/params/refreshKey cancela el trabajo en curso (sus bloques se ignoran).
+ *    params.compliance (zonas y límites) solo cambia cómo se pinta el mapa: editarlo no lo recalcula.
+ *  - Sin Web Workers (o si un worker falla) se calcula en el hilo principal con computeSceneHeatmap.
  *
  * Recomendaciones:
  *  - Mantener `resolution` y `sourceSpacing` balanceados: mayor resolución y menor spacing aumentan coste.
  *  - Pasar params.colorOverlay.overlaySmoothSize para controlar blur del halo amarillo.
  *  - Usar refreshKey para invalidar la memoización cuando la UI cambia sliders.
  */
-import { useMemo } from "react";
-import * as THREE from "three";
-import PerimeterExtractor from "../Perimeter";
-import { generateRedHeatmapFromFacade } from "../acoustics/ColorMap";
-import { Segment } from "../acoustics/ColorGradientManager";
-import { Config, Building, Params, HeatmapResult, Segment as TypesSegment } from "../types";
+import { useEffect, useRef, useState } from "react";
+import { assembleSceneHeatmap, computeSceneHeatmap, progressivePasses, sceneGrid, SceneRowsChunk } from "../map/SceneHeatmap";
+import HeatmapWorkerPool from "../map/HeatmapWorkerPool";
+import { Config, Params, HeatmapResult, Scene } from "../types";
+
+// intervalo mínimo entre mapas parciales (cada uno se ensambla en el hilo principal)
+const PARTIAL_INTERVAL_MS = 400;
+
+// claves de params que no intervienen en el cálculo del mapa
+const DISPLAY_ONLY_PARAMS = new Set(["compliance"]);
+const sameForCalculation = (a: Params, b: Params) =>
+	(Object.keys({ ...a, ...b }) as (keyof Params)[]).every(key => DISPLAY_ONLY_PARAMS.has(key) || a[key] === b[key]);
+
+const EMPTY_HEATMAP: HeatmapResult = { x: [], y: [], z: [[]], min: NaN, max: NaN, hover: [[]] };
 
 export default function useHeatmap(
 	config: Config,
-	building: Building,
+	scene: Scene,
 	params: Params,
-	finalLoop: number[][],
-	lShapeMesh: unknown,
 	refreshKey: unknown
-): HeatmapResult {
-	return useMemo(() => {
-		// 1) validación rápida: si no hay perímetro suficiente, devolver estructura vacía
-		if (!finalLoop || finalLoop.length < 3) return { x: [], y: [], z: [[]], min: NaN, max: NaN, hover: [[]] };
+): { heatmap: HeatmapResult; progress: number } {
+	const [heatmap, setHeatmap] = useState<HeatmapResult>(EMPTY_HEATMAP);
+	const [progress, setProgress] = useState(0);
+	const poolRef = useRef<HeatmapWorkerPool | null>(null);
+	const calcParamsRef = useRef(params);
+	if (!sameForCalculation(calcParamsRef.current, params)) calcParamsRef.current = params;
+	const calcParams = calcParamsRef.current;
 
-		// 2) extraer segmentos de fachada (cada segmento = { p1, p2, name? })
-		const segments = PerimeterExtractor.extractFacadesSegments(lShapeMesh as THREE.ExtrudeGeometry) as Segment[];
-
-		// 3) construir mapa Lw por segmento a partir de building.LwBySegment
-		const lwMap: Record<string, number> = {};
-		if (Array.isArray((building as any).LwBySegment)) {
-			const arr = (building as any).LwBySegment;
-			for (let i = 0; i < arr.length; i++) lwMap[`segment-${i}`] = Number(arr[i]?.value ?? 0);
-		}
+	useEffect(() => () => {
+		poolRef.current?.dispose();
+		poolRef.current = null;
+	}, []);
 
-		// 4) construir la grilla (gridX, gridY) centrada en 0 con tamaño areaSize
-		const res = Number(config.resolution ?? 60);
-		const area = Number(config.areaSize ?? 120);
-		const dx = area / Math.max(1, res);
-		const half = area / 2;
-		const gridX = Array.from({ length: res }, (_, idx) => -half + dx * (idx + 0.5));
-		const gridY = Array.from({ length: res }, (_, idx) => -half + dx * (idx + 0.5));
+	// solo los edificios y las fuentes afectan al mapa (editar receptores no lo recalcula)
+	useEffect(() => {
+		const passes = progressivePasses(config, calcParams);
+		// coste relativo de cada pasada (celdas) para un progreso global
+		const cost = passes.map(p => sceneGrid(p.config).res ** 2);
+		const totalCost = cost.reduce((a, b) => a + b, 0) || 1;
+		const costBefore = (k: number) => cost.slice(0, k).reduce((a, b) => a + b, 0);
+		let cancelled = false;
+		let timer: ReturnType<typeof setTimeout> | undefined;
+		setProgress(0);
 
-		// 5) opciones para generateRedHeatmapFromFacade tomadas desde params (con fallback)
-		const overlayCfg = params?.colorOverlay ?? {};
-		const opts = {
-			sampleSpacing: params.sourceSpacing ?? params?.cellSize ?? 1,
-			outwardOffset: 0.02,
-			redMaxDist: overlayCfg?.redMaxDist ?? 2.0,
-			yellowMaxDist: overlayCfg?.yellowMaxDist ?? (overlayCfg?.redMaxDist ?? 2.0) * 3,
-			dbPerMeter:  0.5,
-			redWeight: params.redWeight ?? 1.0,
-			yellowWeight: params.yellowWeight ?? 0.6,
-			applyYellowBlur: overlayCfg?.overlaySmoothSize ?? 2
+		// sin workers: pasadas en el hilo principal, cediendo entre ellas para que se pinte la anterior
+		const computeHere = (k: number) => {
+			if (cancelled) return;
+			const pass = passes[k];
+			setHeatmap(computeSceneHeatmap(pass.config, scene, pass.params));
+			setProgress((costBefore(k) + cost[k]) / totalCost);
+			if (k + 1 < passes.length) timer = setTimeout(() => computeHere(k + 1), 0);
 		};
-
-		// 6) llamar a la función principal que retorna la matriz Z en dB (o NaN)
-		const zmat = generateRedHeatmapFromFacade(gridX, gridY, segments, finalLoop, lwMap, opts);
-
-		// 7) calcular min/max de la matriz ignorando entradas no finitas (NaN/-Infinity)
-		let zmin = Infinity, zmax = -Infinity;
-		for (let j = 0; j < zmat.length; j++) {
-			for (let i = 0; i < zmat[j].length; i++) {
-				const v = zmat[j][i];
-				if (!Number.isFinite(v)) continue;
-				if (v < zmin) zmin = v;
-				if (v > zmax) zmax = v;
-			}
+		if (!HeatmapWorkerPool.isSupported()) {
+			computeHere(0);
+			return () => {
+				cancelled = true;
+				clearTimeout(timer);
+			};
 		}
-		if (zmin === Infinity) { zmin = NaN; zmax = NaN; }
-
-		// --- NUEVO: construir matriz de hover (tooltip) ---
-		// helper: distancia punto->segmento
-		const pointToSegmentDist = (x: number, z: number, x1: number, z1: number, x2: number, z2: number) => {
-			const dxs = x2 - x1, dzs = z2 - z1;
-			if (dxs === 0 && dzs === 0) return Math.hypot(x - x1, z - z1);
-			const t = ((x - x1) * dxs + (z - z1) * dzs) / (dxs * dxs + dzs * dzs);
-			const tc = Math.max(0, Math.min(1, t));
-			const cx = x1 + tc * dxs, cz = z1 + tc * dzs;
-			return Math.hypot(x - cx, z - cz);
-		};
 
-		const hover: string[][] = Array.from({ length: zmat.length }, () => new Array(zmat[0]?.length ?? 0).fill(""));
-
-		for (let j = 0; j < zmat.length; j++) {
-			for (let i = 0; i < zmat[j].length; i++) {
-				const Lp = zmat[j][i];
-				const px = gridX[i], pz = gridY[j];
-
-				// calcular distancia mínima a cualquier segmento (perpendicular mínima)
-				let minD = Infinity;
-				for (const seg of segments) {
-					const d = pointToSegmentDist(px, pz, seg.p1[0], seg.p1[1], seg.p2[0], seg.p2[1]);
-					if (d < minD) minD = d;
+		const pool = (poolRef.current ??= new HeatmapWorkerPool());
+		const runPass = (k: number) => {
+			const pass = passes[k];
+			const chunks: SceneRowsChunk[] = [];
+			let last = performance.now();
+			pool.run({ config: pass.config, scene, params: pass.params }, {
+				onChunk: (chunk, done, total) => {
+					chunks.push(chunk);
+					setProgress((costBefore(k) + cost[k] * done / total) / totalCost);
+					// filas parciales solo en la primera pasada; las siguientes sustituyen a la anterior al terminar
+					const now = performance.now();
+					if (k === 0 && done < total && now - last >= PARTIAL_INTERVAL_MS) {
+						last = now;
+						setHeatmap(assembleSceneHeatmap(pass.config, scene, pass.params, chunks));
+					}
+				},
+				onDone: () => {
+					setHeatmap(assembleSceneHeatmap(pass.config, scene, pass.params, chunks));
+					if (k + 1 < passes.length) runPass(k + 1);
+					else setProgress(1);
+				},
+				onError: (message) => {
+					console.warn("useHeatmap: fallo en el worker, se calcula en el hilo principal", message);
+					computeHere(k);
 				}
+			});
+		};
+		runPass(0);
+		return () => {
+			cancelled = true;
+			clearTimeout(timer);
+			pool.cancel();
+		};
+	}, [config, scene.buildings, scene.sources, calcParams, refreshKey]);
 
-				if (!Number.isFinite(Lp) || !Number.isFinite(minD)) {
-					hover[j][i] = "Sin datos";
-					continue;
-				}
-
-				// potencia/energía estimada en unidades relativas: E ~ 10^(Lp/10)
-				const potenciaRel = Math.pow(10, Lp / 10);
-
-				// Tooltip en español (HTML): distancia a fachada (m), nivel Lp (dB) y potencia estimada (relativa)
-				// Usar <br> para saltos de línea — Plotly muestra HTML en hovertext.
-				hover[j][i] =
-					`Distancia a fachada: ${minD.toFixed(2)} m<br>` +
-					`Nivel (Lp): ${Lp.toFixed(1)} dB<br>` +
-					`Potencia estimada (rel): ${potenciaRel.toExponential(3)}`;
-			}
-		}
-
-		// 8) devolver estructura lista para render (Plotly / textura) incluyendo hover
-		return { x: gridX, y: gridY, z: zmat, min: zmin, max: zmax, hover };
-	}, [config, building, params, finalLoop, lShapeMesh, refreshKey]);
+	return { heatmap, progress };
 }
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { COALESCE_MS, History, HistoryAction, historyReducer, MAX_HISTORY, SAME_ACTION_MS } from "./useHistory";
+
+type State = { a: number; b: string };
+const start: History<State> = { past: [], present: { a: 0, b: "x" }, future: [] };
+
+// cambio registrado en el instante `time` (ms) del gesto `gesture`
+const set = <K extends keyof State>(key: K, value: State[K], time: number, gesture = 0, held = false, record = true): HistoryAction<State> =>
+	({ type: "update", key, action: value, record, mark: { key, time, gesture }, held });
+const run = (h: History<State>, ...actions: HistoryAction<State>[]) => actions.reduce((acc, a) => historyReducer(acc, a), h);
+
+describe("historyReducer", () => {
+	it("deshacer y rehacer recorren los estados completos", () => {
+		const h = run(start, set("a", 1, 0), set("b", "y", 1000), set("a", 2, 2000));
+		expect(h.past).toHaveLength(3);
+		const back = run(h, { type: "undo" }, { type: "undo" });
+		expect(back.present).toEqual({ a: 1, b: "x" });
+		expect(run(back, { type: "redo" }).present).toEqual({ a: 1, b: "y" });
+		// sin nada que deshacer o rehacer no cambia
+		expect(run(start, { type: "undo" })).toBe(start);
+		expect(run(h, { type: "redo" })).toBe(h);
+	});
+
+	it("un cambio nuevo después de deshacer vacía lo que había para rehacer", () => {
+		const h = run(start, set("a", 1, 0), set("a", 2, 1000), { type: "undo" });
+		expect(h.future).toHaveLength(1);
+		const edited = run(h, set("b", "z", 2000));
+		expect(edited.future).toEqual([]);
+		expect(run(edited, { type: "redo" })).toBe(edited);
+	});
+
+	it("el mismo campo a menos de COALESCE_MS se agrupa; más tarde, entrada nueva", () => {
+		const typed = run(start, set("a", 1, 0), set("a", 2, COALESCE_MS - 1));
+		expect(typed.past).toHaveLength(1);
+		expect(run(typed, { type: "undo" }).present.a).toBe(0);
+		expect(run(start, set("a", 1, 0), set("a", 2, COALESCE_MS)).past).toHaveLength(2);
+	});
+
+	it("campos distintos solo se agrupan desde el mismo manejador (SAME_ACTION_MS) o con el puntero pulsado", () => {
+		expect(run(start, set("a", 1, 0), set("b", "y", SAME_ACTION_MS - 1)).past).toHaveLength(1);
+		expect(run(start, set("a", 1, 0), set("b", "y", SAME_ACTION_MS)).past).toHaveLength(2);
+		// arrastre: todo el gesto es una entrada aunque dure más que COALESCE_MS
+		const drag = run(start, set("a", 1, 0, 1, true), set("b", "y", 5000, 1, true), set("a", 3, 9000, 1, true));
+		expect(drag.past).toEqual([start.present]);
+	});
+
+	it("un gesto nuevo abre otra entrada aunque sea inmediato", () => {
+		expect(run(start, set("a", 1, 0, 1, true), set("a", 2, 10, 2, true)).past).toHaveLength(2);
+	});
+
+	it("sin registrar, el mismo valor y el límite de entradas", () => {
+		const silent = run(start, set("a", 5, 0, 0, false, false));
+		expect(silent.present.a).toBe(5);
+		expect(silent.past).toEqual([]);
+		expect(run(start, set("a", 0, 0))).toBe(start);
+		const long = run(start, ...Array.from({ length: MAX_HISTORY + 10 }, (_, k) => set("a", k + 1, k * 1000)));
+		expect(long.past).toHaveLength(MAX_HISTORY);
+		expect(long.past[0].a).toBe(10);
+	});
+
+	it("acción como función del valor anterior; reset vacía el historial", () => {
+		const h = run(start, { type: "update", key: "a", action: prev => Number(prev) + 7, record: true, mark: { key: "a", time: 0, gesture: 0 }, held: false });
+		expect(h.present.a).toBe(7);
+		expect(run(h, { type: "reset", present: { a: 1, b: "r" } })).toEqual({ past: [], present: { a: 1, b: "r" }, future: [] });
+	});
+});
@@ -0,0 +1,120 @@
+/**
+ * useHistory
+ *
+ * Historial de deshacer / rehacer para un estado formado por varios campos (en la página: scene, params, config):
+ *  - initial: estado inicial (o función que lo crea)
+ *  - update(key, action, options?): como un setState del campo `key` (valor o función del valor anterior);
+ *    options.record = false aplica el cambio sin crear entrada (cargas automáticas de datos)
+ *  - undo() / redo(): vuelven al estado anterior / siguiente completo (todos los campos a la vez)
+ *  - reset(state): sustituye el estado y vacía el historial (abrir un proyecto o un enlace)
+ *
+ * Salida: { present, update, undo, redo, reset, canUndo, canRedo }
+ *
+ * Notas de comportamiento:
+ *  - Agrupación: mientras el puntero sigue pulsado (arrastre de un slider, de un vértice) todos los cambios
+ *    forman una sola entrada; sin puntero, los cambios del mismo campo a menos de COALESCE_MS (teclas de
+ *    flecha, escribir un número) también se agrupan, igual que los cambios de varios campos hechos por un
+ *    mismo manejador (SAME_ACTION_MS).
+ *  - Como mucho MAX_HISTORY entradas hacia atrás; un cambio nuevo descarta lo que hubiera para rehacer.
+ *  - Un cambio que devuelve el mismo valor (misma referencia) no crea entrada.
+ */
+import { useCallback, useEffect, useRef, useState } from "react";
+
+export const MAX_HISTORY = 100;
+export const COALESCE_MS = 600;
+// cambios de varios campos desde el mismo manejador (p. ej. "Reset": escena y parámetros) van en una entrada
+export const SAME_ACTION_MS = 50;
+
+// mark: campo, instante y gesto del último cambio registrado (decide si el siguiente se agrupa con él)
+type Mark = { key: PropertyKey; time: number; gesture: number };
+export type History<T> = { past: T[]; present: T; future: T[]; mark?: Mark };
+type Action<V> = V | ((prev: V) => V);
+export type UpdateOptions = { record?: boolean };
+
+/**
+ * HistoryAction
+ * - update: cambio del campo `key`; mark lleva el instante y el gesto, held si el puntero sigue pulsado
+ * - undo / redo / reset: ver useHistory
+ */
+export type HistoryAction<T> =
+	| { type: "update"; key: keyof T; action: Action<T[keyof T]>; record: boolean; mark: Mark; held: boolean }
+	| { type: "undo" }
+	| { type: "redo" }
+	| { type: "reset"; present: T };
+
+/**
+ * historyReducer
+ * Transición pura del historial (la usa useHistory; sin React para poder probarla).
+ */
+export function historyReducer<T extends object>(h: History<T>, a: HistoryAction<T>): History<T> {
+	switch (a.type) {
+		case "update": {
+			const { key, mark } = a;
+			const value = typeof a.action === "function" ? (a.action as (prev: T[keyof T]) => T[keyof T])(h.present[key]) : a.action;
+			if (Object.is(value, h.present[key])) return h;
+			const present = { ...h.present, [key]: value };
+			if (!a.record) return { ...h, present };
+			const m = h.mark;
+			const dt = m ? mark.time - m.time : Infinity;
+			const coalesce = !!m && m.gesture === mark.gesture && (a.held || dt < SAME_ACTION_MS || (m.key === key && dt < COALESCE_MS));
+			if (coalesce) return { past: h.past, present, future: [], mark };
+			return { past: [...h.past, h.present].slice(-MAX_HISTORY), present, future: [], mark };
+		}
+		case "undo":
+			return h.past.length
+				? { past: h.past.slice(0, -1), present: h.past[h.past.length - 1], future: [h.present, ...h.future] }
+				: h;
+		case "redo":
+			return h.future.length
+				? { past: [...h.past, h.present], present: h.future[0], future: h.future.slice(1) }
+				: h;
+		case "reset":
+			return { past: [], present: a.present, future: [] };
+	}
+}
+
+export default function useHistory<T extends object>(initial: T | (() => T)) {
+	const [history, setHistory] = useState<History<T>>(() => ({
+		past: [],
+		present: typeof initial === "function" ? (initial as () => T)() : initial,
+		future: []
+	}));
+	// agrupación: cada pointerdown abre un gesto nuevo; pointerDown indica si sigue pulsado
+	const pointerDown = useRef(false);
+	const gesture = useRef(0);
+
+	useEffect(() => {
+		const down = () => { pointerDown.current = true; gesture.current++; };
+		const up = () => { pointerDown.current = false; };
+		window.addEventListener("pointerdown", down, true);
+		window.addEventListener("pointerup", up, true);
+		window.addEventListener("pointercancel", up, true);
+		return () => {
+			window.removeEventListener("pointerdown", down, true);
+			window.removeEventListener("pointerup", up, true);
+			window.removeEventListener("pointercancel", up, true);
+		};
+	}, []);
+
+	const update = useCallback(<K extends keyof T>(key: K, action: Action<T[K]>, options: UpdateOptions = {}) => {
+		const mark: Mark = { key, time: Date.now(), gesture: gesture.current };
+		const held = pointerDown.current;
+		setHistory(h => historyReducer(h, { type: "update", key, action: action as Action<T[keyof T]>, record: options.record !== false, mark, held }));
+	}, []);
+
+	const undo = useCallback(() => setHistory(h => historyReducer(h, { type: "undo" })), []);
+
+	const redo = useCallback(() => setHistory(h => historyReducer(h, { type: "redo" })), []);
+
+	const reset = useCallback((present: T) => setHistory(h => historyReducer(h, { type: "reset", present })), []);
+
+	return {
+		present: history.present,
+		update,
+		undo,
+		redo,
+		reset,
+		canUndo: history.past.length > 0,
+		canRedo: history.future.length > 0
+	};
+}
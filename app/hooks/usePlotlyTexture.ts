@@ -8,8 +8,10 @@
  *
  * Entradas:
  *  - heatmap: { x: number[], y: number[], z: number[][], min: number, max: number }
- *      Matriz y ejes generados por useHeatmap (o pipeline equivalente).
+ *      Matriz y ejes generados por useHeatmap (o pipeline equivalente). null = no renderizar (la página pasa
+ *      null cuando params.renderMode no es "plotly"; el render por defecto es useDataTexture).
  *  - params: objeto de parámetros (especialmente params.colorOverlay) usado para construir la escala de color.
+ *      Con params.mapMode === "dominant" se pinta heatmap.contributions.dominant (un color por fachada).
  *  - building: objeto que contiene LwBySegment (usado como fallback para zmin/zmax si el heatmap es degenerado).
  *
  * Salida:
@@ -18,9 +20,13 @@
  *
  * Notas:
  *  - El hook sincroniza y limpia recursos: elimina el contenedor oculto y libera la textura al desmontar.
+ *  - Con el cálculo progresivo de useHeatmap el heatmap cambia varias veces por edición: cada render
+ *    descarta el anterior si aún no había terminado y la textura nueva sustituye a la previa, que se libera
+ *    en la limpieza del efecto ligado a la textura (como useDataTexture).
  *  - El tamaño del contenedor oculto es cuadrado y coincide con las dimensiones solicitadas a Plotly (1600x1600)
  *    para evitar deformaciones en la textura.
- *  - buildThresholdColorscale se usa para calcular colorscale basado en umbrales provistos en params.
+ *  - La traza (colorscale por umbrales o fachada dominante) sale de heatmapTrace (app/map/HeatmapChart.ts),
+ *    la misma que usa la exportación del gráfico 2D.
  *
  * Limitaciones / recomendaciones:
  *  - Plotly es cargado dinámicamente (bundle grande). Evitar llamadas frecuentes a este hook sin memoización.
@@ -28,13 +34,15 @@
  */
 import { useEffect, useRef, useState } from "react";
 import * as THREE from "three";
-import { buildThresholdColorscale } from "../acoustics/ColorMap";
+import { heatmapTrace } from "../map/HeatmapChart";
 
 export default function usePlotlyTexture(heatmap: any, params: any, building: any) {
 	const hiddenDivRef = useRef<HTMLDivElement | null>(null);
 	const [texture, setTexture] = useState<THREE.Texture | null>(null);
 
 	useEffect(() => {
+		// otro modo de render activo (params.renderMode): no se llama a Plotly
+		if (!heatmap) return;
 		let mounted = true;
 		let plotly: any = null;
 		let container = hiddenDivRef.current;
@@ -60,37 +68,8 @@ export default function usePlotlyTexture(heatmap: any, params: any, building: an
 				const mod = await import("plotly.js-dist-min");
 				plotly = (mod && (mod as any).default) ? (mod as any).default : mod;
 
-				// Build colorscale from params thresholds
-				const overlayCfg = (params && (params as any).colorOverlay) || undefined;
-				const colorscale = buildThresholdColorscale(heatmap.min, heatmap.max, overlayCfg);
-
-				// Robust z-range: prefer heatmap.min/max, fallback to Lw sliders with padding
-				let Z_MIN = Number.isFinite(heatmap.min) ? Math.floor(heatmap.min) : NaN;
-				let Z_MAX = Number.isFinite(heatmap.max) ? Math.ceil(heatmap.max) : NaN;
-				if (!Number.isFinite(Z_MIN) || !Number.isFinite(Z_MAX) || Z_MIN >= Z_MAX) {
-					const segs = (building as any).LwBySegment || [];
-					const lwVals = Array.isArray(segs) ? segs.map((s: any) => Number(s?.value ?? NaN)).filter(Number.isFinite) : [];
-					const lwMin = lwVals.length ? Math.min(...lwVals) : 0;
-					const lwMax = lwVals.length ? Math.max(...lwVals) : 80;
-					const pad = Math.max(4, Math.ceil((lwMax - lwMin) * 0.25));
-					Z_MIN = Math.floor(Math.min(lwMin, (heatmap.min || lwMin)) - pad);
-					Z_MAX = Math.ceil(Math.max(lwMax, (heatmap.max || lwMax)) + pad);
-				}
-				if (Z_MIN >= Z_MAX) { Z_MIN = (heatmap.min || 0) - 10; Z_MAX = (heatmap.max || 0) + 10; }
-
-				// Plotly trace and layout (transparent background)
-				const trace = {
-					x: heatmap.x,
-					y: heatmap.y,
-					z: heatmap.z,
-					type: "heatmap" as const,
-					colorscale,
-					zmin: Z_MIN,
-					zmax: Z_MAX,
-					zsmooth: "best",
-					showscale: false,
-					hoverinfo: "skip"
-				};
+				// Plotly trace (levels or dominant facade) shared with the 2D chart export
+				const trace = heatmapTrace(heatmap, params, building);
 
 				const layout = {
 					margin: { l: 20, r: 20, t: 20, b: 20 },
@@ -111,6 +90,11 @@ export default function usePlotlyTexture(heatmap: any, params: any, building: an
 				// Load PNG into THREE.Texture asynchronously
 				const loader = new THREE.TextureLoader();
 				loader.load(dataUrl, (tex) => {
+					// una pasada más reciente ya ha lanzado su propio render: descartar esta textura
+					if (!mounted) {
+						tex.dispose();
+						return;
+					}
 					tex.wrapS = tex.wrapT = THREE.ClampToEdgeWrapping;
 					tex.minFilter = THREE.LinearFilter;
 					tex.magFilter = THREE.LinearFilter;
@@ -126,19 +110,19 @@ export default function usePlotlyTexture(heatmap: any, params: any, building: an
 			}
 		})();
 
-		// Cleanup: remove hidden container and dispose texture on unmount
+		// Cleanup: remove hidden container (the current texture stays on screen until the next one arrives)
 		return () => {
 			mounted = false;
 			if (hiddenDivRef.current) {
 				try { hiddenDivRef.current.remove(); } catch(e){ }
 				hiddenDivRef.current = null;
 			}
-			if (texture) {
-				try { texture.dispose(); } catch(e) {}
-			}
 		};
 	}, [heatmap, params, building]);
 
+	// la textura anterior se libera al sustituirla (el mapa se repinta en cada pasada) y la última al desmontar
+	useEffect(() => () => { texture?.dispose(); }, [texture]);
+
 	// Return the generated THREE.Texture (or null while generating)
 	return texture;
 }
@@ -0,0 +1,191 @@
+/**
+ * useProject
+ *
+ * Guardado y apertura de proyectos .amap.json (app/map/ProjectFile.ts) con autoguardado local:
+ *  - state: estado actual (escena, params, config, cámara, edificio seleccionado)
+ *  - apply: callback que sustituye el estado de la aplicación por el de un proyecto abierto o recuperado
+ *
+ * Salida:
+ *  - name / dirty: nombre del proyecto y si hay cambios sin guardar en fichero
+ *  - save(): guarda en el fichero abierto (File System Access API) o lo descarga; saveAs(): pide nombre/destino
+ *  - open(file): lee, migra y valida el proyecto; los avisos y errores quedan en messages
+ *  - share(): pone el mapa actual en el hash de la URL (app/map/ShareLink.ts) y copia el enlace
+ *  - recovery: autoguardado de una sesión anterior pendiente de decidir (recover() / discardRecovery())
+ *
+ * Notas de comportamiento:
+ *  - El estado se autoguarda en localStorage (AUTOSAVE_KEY) AUTOSAVE_DELAY_MS después del último cambio.
+ *  - Al arrancar, un autoguardado con cambios sin guardar se ofrece para recuperar; mientras se decide no se
+ *    sobrescribe. Si la sesión anterior terminó con todo guardado, se restaura directamente.
+ *  - Un enlace compartido (#s=...) tiene prioridad sobre el autoguardado y se quita de la URL al cargarlo;
+ *    un hash desconocido o dañado deja los valores por defecto con un aviso (el autoguardado se ofrece aparte).
+ *  - Sin File System Access API (Firefox, Safari) "Guardar" y "Guardar como" descargan el fichero.
+ */
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { createProject, ProjectFile, projectFileName, ProjectState, PROJECT_EXTENSION, readProject } from "../map/ProjectFile";
+import { formatIssues } from "../lib/schema";
+import { downloadText, readFileText } from "../lib/download";
+import { decodeShareLink, encodeShareLink, isShareLink } from "../map/ShareLink";
+
+export const AUTOSAVE_KEY = "acoustic-map:autosave";
+const AUTOSAVE_DELAY_MS = 800;
+
+type Autosave = { project: ProjectFile; dirty: boolean };
+
+// hay un autoguardado o un enlace compartido que cargar (la carga inicial de datos por defecto no debe pisarlo);
+// cualquier otro hash arranca con los valores por defecto, así que no cuenta
+export const hasStartupState = () => typeof window !== "undefined" && (isShareLink(window.location.hash) || !!window.localStorage.getItem(AUTOSAVE_KEY));
+
+// instantánea comparable del estado (sin cabecera ni fecha)
+const snapshot = (s: ProjectState) => JSON.stringify([s.scene, s.params, s.config, s.camera ?? null, s.selectedId ?? null]);
+
+function readAutosave(): Autosave | null {
+	try {
+		const raw = window.localStorage.getItem(AUTOSAVE_KEY);
+		if (!raw) return null;
+		const saved = JSON.parse(raw);
+		return { project: readProject(saved.project).project, dirty: saved.dirty !== false };
+	} catch (e) {
+		console.warn("Autoguardado no válido, se descarta", e);
+		return null;
+	}
+}
+
+export default function useProject(state: ProjectState, apply: (project: ProjectFile) => void) {
+	const [name, setName] = useState("proyecto");
+	const [savedSnapshot, setSavedSnapshot] = useState<string | null>(null);
+	const [recovery, setRecovery] = useState<ProjectFile | null>(null);
+	const [ready, setReady] = useState(false);
+	const [messages, setMessages] = useState<string[]>([]);
+	const handleRef = useRef<any>(null);
+
+	const current = useMemo(() => snapshot(state), [state]);
+	const dirty = savedSnapshot !== current;
+
+	const load = useCallback((project: ProjectFile, asSaved: boolean) => {
+		apply(project);
+		setName(project.name || "proyecto");
+		setSavedSnapshot(asSaved ? snapshot(project) : null);
+	}, [apply]);
+
+	// el arranque corre una sola vez: lee el estado y load más recientes a través de una referencia
+	const startupRef = useRef({ state, load });
+	startupRef.current = { state, load };
+
+	// arranque: mapa de un enlace compartido (#s=...), o restaurar (sesión cerrada limpia) u ofrecer
+	// recuperación (cambios sin guardar) del autoguardado
+	useEffect(() => {
+		let cancelled = false;
+		(async () => {
+			const hash = window.location.hash;
+			const saved = readAutosave();
+			if (hash) {
+				// el enlace se consume: desde aquí el estado sigue en el autoguardado
+				window.history.replaceState(null, "", window.location.pathname + window.location.search);
+				try {
+					const { scene, params, config, warnings } = await decodeShareLink(hash);
+					if (cancelled) return;
+					const { state, load } = startupRef.current;
+					load(createProject({ ...state, scene, params, config, selectedId: scene.buildings[0].id }, "enlace compartido"), false);
+					setMessages([`Mapa cargado desde un enlace compartido${warnings.length ? ` (con avisos):\n${formatIssues(warnings)}` : ""}`]);
+				} catch (e) {
+					if (cancelled) return;
+					setMessages([`${(e as Error).message}. Se usan los valores por defecto.`]);
+					if (saved) setRecovery(saved.project);
+				}
+			} else if (saved?.dirty) setRecovery(saved.project);
+			else if (saved) startupRef.current.load(saved.project, true);
+			if (!cancelled) setReady(true);
+		})();
+		return () => { cancelled = true; };
+	}, []);
+
+	// autoguardado (en pausa mientras hay una recuperación pendiente)
+	useEffect(() => {
+		if (!ready || recovery) return;
+		const t = setTimeout(() => {
+			try {
+				window.localStorage.setItem(AUTOSAVE_KEY, JSON.stringify({ project: createProject(state, name), dirty }));
+			} catch (e) {
+				console.warn("No se pudo autoguardar el proyecto", e);
+			}
+		}, AUTOSAVE_DELAY_MS);
+		return () => clearTimeout(t);
+	}, [state, name, dirty, ready, recovery]);
+
+	const recover = useCallback(() => {
+		if (recovery) load(recovery, false);
+		setRecovery(null);
+	}, [recovery, load]);
+
+	const discardRecovery = useCallback(() => setRecovery(null), []);
+
+	const write = useCallback(async (project: ProjectFile, handle: any) => {
+		const text = JSON.stringify(project, null, 1);
+		if (handle) {
+			const writable = await handle.createWritable();
+			await writable.write(text);
+			await writable.close();
+		} else {
+			downloadText(projectFileName(project.name), text);
+		}
+		setSavedSnapshot(snapshot(project));
+		setMessages([]);
+	}, []);
+
+	const saveAs = useCallback(async () => {
+		const picker = typeof window !== "undefined" ? (window as any).showSaveFilePicker : undefined;
+		let nextName = name;
+		let handle: any = null;
+		if (picker) {
+			try {
+				handle = await picker({
+					suggestedName: projectFileName(name),
+					types: [{ description: "Proyecto de mapa acústico", accept: { "application/json": [PROJECT_EXTENSION, ".json"] } }]
+				});
+			} catch (e) {
+				return; // cancelado
+			}
+			nextName = String(handle.name ?? name).replace(/\.amap\.json$|\.json$/i, "");
+		} else {
+			const typed = window.prompt("Nombre del proyecto", name);
+			if (typed === null) return;
+			nextName = typed.trim() || name;
+		}
+		handleRef.current = handle;
+		setName(nextName);
+		await write(createProject(state, nextName), handle);
+	}, [name, state, write]);
+
+	const save = useCallback(async () => {
+		if (!handleRef.current && savedSnapshot === null) return saveAs();
+		await write(createProject(state, name), handleRef.current);
+	}, [name, state, savedSnapshot, saveAs, write]);
+
+	// enlace con el mapa actual en el hash: se deja en la barra de direcciones y se copia al portapapeles
+	const share = useCallback(async () => {
+		try {
+			const hash = await encodeShareLink(state);
+			const url = `${window.location.origin}${window.location.pathname}${window.location.search}${hash}`;
+			window.history.replaceState(null, "", url);
+			await navigator.clipboard?.writeText(url);
+			setMessages([`Enlace copiado (${url.length} caracteres)`]);
+		} catch (e) {
+			setMessages([`No se pudo crear el enlace: ${(e as Error).message}`]);
+		}
+	}, [state]);
+
+	const open = useCallback(async (file?: File) => {
+		if (!file) return;
+		try {
+			const { project, warnings } = readProject(await readFileText(file));
+			handleRef.current = null;
+			load({ ...project, name: project.name || file.name.replace(/\.amap\.json$|\.json$/i, "") }, true);
+			setRecovery(null);
+			setMessages(warnings.length ? [`Abierto con avisos:\n${formatIssues(warnings)}`] : []);
+		} catch (e) {
+			setMessages([`No se pudo abrir ${file.name}: ${(e as Error).message}`]);
+		}
+	}, [load]);
+
+	return { name, dirty, save, saveAs, open, share, recovery, recover, discardRecovery, messages };
+}
@@ -0,0 +1,48 @@
+/**
+ * useReceiverLevels
+ *
+ * Niveles en los receptores de la escena (computeReceiverLevels, app/map/Receivers.ts):
+ *  - scene: edificios (fuentes y pantallas) y scene.receivers
+ *  - params: suelo, reflexiones, muestreo de fuentes (mismos valores que el mapa)
+ *
+ * Resultado: ReceiverResult[] ({ receiver, Lp, facades[], inside? }) en el orden de scene.receivers.
+ * El cálculo va a un worker (HeatmapWorkerPool.runReceivers); hasta que termina se mantienen los niveles
+ * anteriores y un cambio de escena o params cancela el trabajo en curso. Sin Web Workers (o si el worker
+ * falla) se calcula en el hilo principal.
+ */
+import { useEffect, useRef, useState } from "react";
+import { computeReceiverLevels, ReceiverResult } from "../map/Receivers";
+import HeatmapWorkerPool from "../map/HeatmapWorkerPool";
+import { Params, Scene } from "../types";
+
+export default function useReceiverLevels(scene: Scene, params: Params): ReceiverResult[] {
+	const [results, setResults] = useState<ReceiverResult[]>([]);
+	const poolRef = useRef<HeatmapWorkerPool | null>(null);
+
+	useEffect(() => () => {
+		poolRef.current?.dispose();
+		poolRef.current = null;
+	}, []);
+
+	useEffect(() => {
+		if (!scene?.receivers?.length) {
+			setResults([]);
+			return;
+		}
+		if (!HeatmapWorkerPool.isSupported()) {
+			setResults(computeReceiverLevels(scene, params));
+			return;
+		}
+		const pool = (poolRef.current ??= new HeatmapWorkerPool(1));
+		pool.runReceivers(scene, params, {
+			onDone: setResults,
+			onError: (message) => {
+				console.warn("useReceiverLevels: fallo en el worker, se calcula en el hilo principal", message);
+				setResults(computeReceiverLevels(scene, params));
+			}
+		});
+		return () => pool.cancel();
+	}, [scene, params]);
+
+	return results;
+}
@@ -0,0 +1,155 @@
+import { describe, expect, it } from "vitest";
+import BuildingScreen from "../acoustics/BuildingScreen";
+import ImageSources from "../acoustics/ImageSources";
+import {
+	A_WEIGHTING, aDiv, aGeo, atmosphericAbsorptionCoefficient, computeFacadeRePrime, computeGridBandsFromSources, computeGridEnergyBySegment,
+	computeGridLpFromSources, computeLpBandsFromSource, computeLpFromSource, computeLwRoomFromLpIn, GridLpOptions,
+	OCTAVE_BANDS, rSpectrumFromSingle, spectrumFromBroadband, sumBandsA
+} from "./ISOModel";
+
+const energySum = (levels: number[]) => 10 * Math.log10(levels.reduce((s, L) => s + Math.pow(10, L / 10), 0));
+
+describe("bandas de octava", () => {
+	it("spectrumFromBroadband conserva el nivel global (plano y con forma)", () => {
+		expect(energySum(spectrumFromBroadband(90))).toBeCloseTo(90, 10);
+		expect(energySum(spectrumFromBroadband(90, [-20, -10, -5, 0, 0, -5, -10, -20]))).toBeCloseTo(90, 10);
+		expect(spectrumFromBroadband(90)[0]).toBeCloseTo(90 - 10 * Math.log10(8), 10);
+	});
+
+	it("sumBandsA aplica la ponderación A de IEC 61672-1", () => {
+		expect(A_WEIGHTING).toEqual([-26.2, -16.1, -8.6, -3.2, 0, 1.2, 1.0, -1.1]);
+		// solo 1 kHz: LA = L
+		expect(sumBandsA(OCTAVE_BANDS.map(f => f === 1000 ? 70 : -Infinity))).toBeCloseTo(70, 10);
+		// espectro plano de 70 dB por banda: 70 + 10·log10 Σ 10^(A_k/10) = 76.99 dB(A)
+		expect(sumBandsA(OCTAVE_BANDS.map(() => 70))).toBeCloseTo(76.99, 2);
+		expect(sumBandsA(OCTAVE_BANDS.map(() => -Infinity))).toBe(-Infinity);
+	});
+
+	it("rSpectrumFromSingle sigue la forma referida a 500 Hz", () => {
+		expect(rSpectrumFromSingle(30)).toEqual([9, 14, 23, 30, 33, 34, 34, 34]);
+	});
+});
+
+describe("absorción atmosférica (ISO 9613-1)", () => {
+	// ISO 9613-2, tabla 2 (dB/km)
+	const table: [number, number, number[]][] = [
+		[10, 70, [0.1, 0.4, 1.0, 1.9, 3.7, 9.7, 32.8, 117]],
+		[20, 70, [0.1, 0.3, 1.1, 2.8, 5.0, 9.0, 22.9, 76.6]],
+		[15, 80, [0.1, 0.3, 1.1, 2.4, 4.1, 8.3, 23.7, 82.8]]
+	];
+	it.each(table)("%i °C, %i %% coincide con la tabla", (temperatureC, humidity, expected) => {
+		OCTAVE_BANDS.forEach((f, k) => {
+			const alpha = 1000 * atmosphericAbsorptionCoefficient(f, { temperatureC, humidity });
+			expect(Math.abs(alpha - expected[k])).toBeLessThanOrEqual(Math.max(0.05, 0.02 * expected[k]));
+		});
+	});
+});
+
+describe("divergencia y fachada", () => {
+	it("aDiv y aGeo", () => {
+		expect(aDiv(1)).toBeCloseTo(11, 10);
+		expect(aDiv(100)).toBeCloseTo(51, 10);
+		expect(aGeo(100)).toBeCloseTo(48, 10);
+	});
+
+	it("computeFacadeRePrime: muro de 90 m² R 50 + ventana de 10 m² R 20 -> 30 dB", () => {
+		// Re' = -10·log10((90·1e-5 + 10·1e-2) / 100) = 29.96
+		expect(computeFacadeRePrime([{ area: 90, R: 50 }, { area: 10, R: 20 }])).toBeCloseTo(29.96, 2);
+		expect(computeFacadeRePrime([{ area: 20, R: 35 }])).toBeCloseTo(35, 10);
+	});
+
+	it("computeLwRoomFromLpIn = Lp_in + 10·log10(A)", () => {
+		expect(computeLwRoomFromLpIn(80, 100)).toBeCloseTo(100, 10);
+	});
+});
+
+describe("computeLpBandsFromSource", () => {
+	it("campo semi-libre sin suelo: Lp_k = Lw_k - (8 + 20·log10 r) - α_k·r", () => {
+		const res = computeLpBandsFromSource({ x: 0, z: 0, Lw: 100 }, 100, 0, { Lw_isRoom: false, Df_room: 0 });
+		const Lwk = 100 - 10 * Math.log10(8);
+		OCTAVE_BANDS.forEach((f, k) => {
+			expect(res.Lp_bands[k]).toBeCloseTo(Lwk - 48 - 100 * atmosphericAbsorptionCoefficient(f), 8);
+		});
+		expect(res.distanceM).toBeCloseTo(100, 10);
+	});
+});
+
+describe("computeGridLpFromSources (índice espacial)", () => {
+	// planta en L con fuentes cada 2 m en sus fachadas, sus imágenes y una segunda huella que apantalla
+	const L = [[0, 0], [20, 0], [20, 10], [10, 10], [10, 20], [0, 20]];
+	const segments = L.map((p1, i) => ({ name: `segment-${i}`, p1, p2: L[(i + 1) % L.length] }));
+	const facade = segments.flatMap(seg => {
+		const ex = seg.p2[0] - seg.p1[0], ez = seg.p2[1] - seg.p1[1], len = Math.hypot(ex, ez);
+		return Array.from({ length: Math.floor(len / 2) }, (_, k) => {
+			const t = (k + 0.5) * 2 / len;
+			return { x: seg.p1[0] + ex * t + 0.02 * ez / len, z: seg.p1[1] + ez * t - 0.02 * ex / len, nx: ez / len, nz: -ex / len, Lw: 70 + k, segment: seg.name };
+		});
+	});
+	const sources = [...facade, ...ImageSources.generateImageSources(facade, segments, L, { defaultAbsorption: 0.2 })];
+	const xs = Array.from({ length: 24 }, (_, i) => -14 + 2.1 * i);
+	const ys = Array.from({ length: 22 }, (_, j) => -12 + 2.3 * j);
+	const path = {
+		ground: { enabled: true, defaultG: 0, regions: [{ polygon: [[-20, -20], [0, -20], [0, 40], [-20, 40]], G: 1 }] },
+		sourceHeight: 4,
+		receiverHeight: 2,
+		screens: [new BuildingScreen(L, 8), new BuildingScreen([[26, 4], [30, 4], [30, 12], [26, 12]], 12)]
+	};
+
+	// referencia: todas las fuentes a menos de maxDist, en orden, con computeLpFromSource
+	const bruteForce = (options: GridLpOptions) => ys.map(rz => xs.map(rx => {
+		let E = 0;
+		for (const s of sources) {
+			if (Math.hypot(rx - s.x, rz - s.z) > (options.maxDist ?? 50)) continue;
+			const e = computeLpFromSource(s, rx, rz, { RePrime: 0, ...options }).energyLinear;
+			if (Number.isFinite(e) && e > 0) E += e;
+		}
+		return E > 0 ? 10 * Math.log10(E) : -Infinity;
+	}));
+
+	it.each([
+		["sin suelo ni pantallas", { maxDist: 50, dbPerMeter: 0.5 }],
+		["con suelo, pantallas y reflexiones", { maxDist: 50, dbPerMeter: 0.5, ...path }],
+		["alcance corto", { maxDist: 6, dbPerMeter: 0, directivityCut: 2, ...path }],
+		["Lw radiado (Df_room 0, Df_out 1)", { maxDist: 50, dbPerMeter: 0.5, Lw_isRoom: false, Df_room: 0, Df_out: 1, ...path }]
+	] as [string, GridLpOptions][])("%s: idéntico bit a bit al recorrido de todas las fuentes", (_, options) => {
+		expect(computeGridLpFromSources(sources, xs, ys, options)).toEqual(bruteForce(options));
+	});
+
+	it("Df_room por defecto 6 dB: con Df_room 0 el mapa sube 6 dB", () => {
+		const facadeLp = computeGridLpFromSources(sources, xs, ys, { maxDist: 50, ...path });
+		const radiated = computeGridLpFromSources(sources, xs, ys, { maxDist: 50, Df_room: 0, ...path });
+		ys.forEach((_, j) => xs.forEach((_, i) => expect(radiated[j][i] - facadeLp[j][i]).toBeCloseTo(6, 10)));
+	});
+
+	it("computeGridBandsFromSources: idéntico bit a bit al recorrido de todas las fuentes", () => {
+		const banded = sources.map(s => ({ ...s, LwBands: spectrumFromBroadband(s.Lw) }));
+		const options = { maxDist: 12, ...path };
+		const { bands } = computeGridBandsFromSources(banded, xs, ys, options);
+		const reference = OCTAVE_BANDS.map((_, k) => ys.map(rz => xs.map(rx => {
+			let E = 0;
+			for (const s of banded) {
+				if (Math.hypot(rx - s.x, rz - s.z) > options.maxDist) continue;
+				const e = computeLpBandsFromSource(s, rx, rz, options).energyBands[k];
+				if (Number.isFinite(e) && e > 0) E += e;
+			}
+			return E > 0 ? 10 * Math.log10(E) : -Infinity;
+		})));
+		expect(bands).toEqual(reference);
+	});
+
+	it("fuentes con espectro: la grilla suma sus bandas sin ponderación A", () => {
+		const source = { ...sources[0], LwBands: [60, 62, 64, 66, 64, 62, 60, 58] };
+		const [[Lp]] = computeGridLpFromSources([source], [sources[0].x + 5], [sources[0].z - 5], { maxDist: 50 });
+		const { Lp_bands } = computeLpBandsFromSource(source, sources[0].x + 5, sources[0].z - 5, { Df_room: 6 });
+		expect(Lp).toBeCloseTo(energySum(Lp_bands), 10);
+	});
+
+	it("computeGridEnergyBySegment: la suma por fachada es el total", () => {
+		const { energy, bySegment } = computeGridEnergyBySegment(sources, xs, ys, { maxDist: 50, ...path });
+		expect(Object.keys(bySegment).sort()).toEqual(segments.map(s => s.name).sort());
+		ys.forEach((_, j) => xs.forEach((_, i) => {
+			const sum = Object.values(bySegment).reduce((acc, g) => acc + g[j][i], 0);
+			expect(sum / energy[j][i]).toBeCloseTo(1, 12);
+		}));
+	});
+});
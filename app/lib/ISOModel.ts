@@ -1,6 +1,62 @@
 import WaveEmitter from "../acoustics/WaveEmitter";
+import { GroundConfig, pathGroundFactorsInto } from "../acoustics/GroundRegions";
+import type BuildingScreen from "../acoustics/BuildingScreen";
+import type { ScreenPaths } from "../acoustics/BuildingScreen";
 
-export type FacadeElement = { area: number; R: number }; // area (m2), R (dB)
+/**
+ * Bandas de octava (Hz) del motor por bandas: 63 Hz – 8 kHz
+ */
+export const OCTAVE_BANDS = [63, 125, 250, 500, 1000, 2000, 4000, 8000] as const;
+
+/**
+ * Corrección de ponderación A por banda de octava (dB, IEC 61672-1)
+ */
+export const A_WEIGHTING = [-26.2, -16.1, -8.6, -3.2, 0, 1.2, 1.0, -1.1] as const;
+
+/**
+ * Forma relativa de R por banda respecto al valor único (referido a 500 Hz).
+ * Curva de referencia ISO 717-1 en octavas (125–2000 Hz), extrapolada en 63 Hz y 4–8 kHz.
+ */
+export const R_SPECTRUM_SHAPE = [-21, -16, -7, 0, 3, 4, 4, 4] as const;
+
+/**
+ * OctaveSpectrum: un nivel (dB) por cada entrada de OCTAVE_BANDS
+ */
+export type OctaveSpectrum = number[];
+
+/**
+ * Meteo: condiciones para la absorción atmosférica (ISO 9613-1)
+ * - temperatureC: temperatura del aire (°C)
+ * - humidity: humedad relativa (%)
+ * - pressureKPa: presión atmosférica (kPa)
+ */
+export type Meteo = { temperatureC?: number; humidity?: number; pressureKPa?: number };
+
+export const DEFAULT_METEO: Required<Meteo> = { temperatureC: 15, humidity: 70, pressureKPa: 101.325 };
+
+/**
+ * Términos de directividad de fachada por defecto (dB) para el Lw de un lado (fachadas y salas):
+ * Df_room = 6 (campo difuso interior -> fachada) y Df_out = 0. Las fuentes que ya dan su Lw radiado usan 0 y 0.
+ */
+export const DEFAULT_DF_ROOM = 6;
+export const DEFAULT_DF_OUT = 0;
+
+export type FacadeElement = { area: number; R: number; RBands?: OctaveSpectrum }; // area (m2), R (dB), R por banda opcional
+
+/**
+ * PathOptions: términos de propagación opcionales comunes a las funciones por fuente y por grilla
+ * - meteo: condiciones para A_atm por banda
+ * - ground: zonas de suelo; si se indica se calcula A_gr (ISO 9613-2) y A_geo pasa a divergencia esférica
+ * - sourceHeight / receiverHeight: alturas sobre el suelo (m); source.height tiene prioridad
+ * - screens: edificios que apantallan (A_bar por difracción sobre cubierta y esquinas)
+ */
+export type PathOptions = {
+	meteo?: Meteo;
+	ground?: GroundConfig;
+	sourceHeight?: number;
+	receiverHeight?: number;
+	screens?: BuildingScreen[];
+};
 
 /**
  * computeFacadeRePrime
@@ -28,12 +84,176 @@ export function aGeo(distanceM: number) {
 	return 8 + 20 * Math.log10(r);
 }
 
+/**
+ * aDiv
+ * Divergencia geométrica de una fuente puntual en campo libre (ISO 9613-2, ec. 7)
+ * A_div = 20·log10(d) + 11 — el efecto del suelo se añade aparte con aGround.
+ */
+export function aDiv(distanceM: number) {
+	const d = Math.max(0.01, distanceM);
+	return 20 * Math.log10(d) + 11;
+}
+
+/**
+ * aGround
+ * Atenuación por suelo A_gr = A_s + A_r + A_m por banda de octava (ISO 9613-2, 7.3.1, tabla 3).
+ * - dp: distancia fuente-receptor proyectada en planta (m)
+ * - hs, hr: alturas de fuente y receptor (m)
+ * - Gs, Gm, Gr: factor de suelo medio en las regiones de fuente, intermedia y receptor
+ */
+export function aGround(dp: number, hs: number, hr: number, G: { Gs: number; Gm: number; Gr: number }): OctaveSpectrum {
+	return OCTAVE_BANDS.map((_, k) => aGroundBand(dp, hs, hr, G.Gs, G.Gm, G.Gr, k));
+}
+
+/**
+ * aGroundBand
+ * A_gr de la banda k (índice en OCTAVE_BANDS) con argumentos posicionales (bucles de grilla).
+ */
+export function aGroundBand(dp: number, hs: number, hr: number, Gs: number, Gm: number, Gr: number, k: number) {
+	const d = Math.max(0, dp);
+	const fd = 1 - Math.exp(-d / 50);
+	const As = groundEndTerm(Math.max(0, hs), Gs, k, d, fd);
+	const Ar = groundEndTerm(Math.max(0, hr), Gr, k, d, fd);
+
+	// A_m: solo si la región intermedia existe (q > 0)
+	const lim = 30 * (Math.max(0, hs) + Math.max(0, hr));
+	const q = d <= lim ? 0 : 1 - lim / d;
+	return As + Ar + (k === 0 ? -3 * q : -3 * q * (1 - Gm));
+}
+
+// A_s / A_r de la banda k (misma expresión con la altura y G de cada extremo); fd = 1 - e^(-d/50)
+function groundEndTerm(h: number, Gx: number, k: number, d: number, fd: number) {
+	switch (k) {
+		case 0: return -1.5;
+		case 1: return -1.5 + Gx * (1.5 + 3.0 * Math.exp(-0.12 * (h - 5) * (h - 5)) * fd + 5.7 * Math.exp(-0.09 * h * h) * (1 - Math.exp(-2.8e-6 * d * d)));
+		case 2: return -1.5 + Gx * (1.5 + 8.6 * Math.exp(-0.09 * h * h) * fd);
+		case 3: return -1.5 + Gx * (1.5 + 14.0 * Math.exp(-0.46 * h * h) * fd);
+		case 4: return -1.5 + Gx * (1.5 + 5.0 * Math.exp(-0.9 * h * h) * fd);
+		default: return -1.5 * (1 - Gx);
+	}
+}
+
+/**
+ * barrierDz
+ * Atenuación por difracción D_z (ISO 9613-2, ec. 14):
+ *   D_z = 10·log10( 3 + (C2/λ)·C3·z·Kmet ),  C2 = 20
+ *   C3 = 1 (arista simple) o [1 + (5λ/e)²] / [1/3 + (5λ/e)²] (doble arista separada e metros)
+ * Limitada a 20 dB (simple) / 25 dB (doble).
+ */
+export function barrierDz(z: number, freqHz: number, e: number = 0, Kmet: number = 1) {
+	const lambda = 340 / Math.max(1, freqHz);
+	const r = e > 0 ? (5 * lambda / e) * (5 * lambda / e) : 0;
+	const C3 = e > 0 ? (1 + r) / (1 / 3 + r) : 1;
+	const Dz = 10 * Math.log10(3 + (20 / lambda) * C3 * Math.max(0, z) * Kmet);
+	return Math.min(e > 0 ? 25 : 20, Dz);
+}
+
+/**
+ * aBarrier
+ * A_bar por banda para un trayecto bloqueado por un edificio:
+ *  - cubierta: D_z con doble arista y Kmet; como en ISO 9613-2 (ec. 12) se descuenta A_gr (A_bar = D_z - A_gr ≥ 0)
+ *  - laterales: D_z por cada rodeo de esquinas (Kmet = 1)
+ * Los recorridos se combinan energéticamente: A_bar = -10·log10 Σ 10^(-A_i/10).
+ */
+export function aBarrier(paths: ScreenPaths, Agr?: OctaveSpectrum): OctaveSpectrum {
+	return OCTAVE_BANDS.map((_, k) => aBarrierBand(paths, k, Agr?.[k]));
+}
+
+/**
+ * aBarrierBand
+ * A_bar de la banda k (índice en OCTAVE_BANDS) con el A_gr de esa banda (bucles de grilla).
+ */
+export function aBarrierBand(paths: ScreenPaths, k: number, Agr?: number) {
+	const { top, lateral, direct } = paths;
+	const f = OCTAVE_BANDS[k];
+	const Kmet = top.z > 0 ? Math.exp(-(1 / 2000) * Math.sqrt(top.dss * top.dsr * direct / (2 * top.z))) : 1;
+	let E = Math.pow(10, -Math.max(0, barrierDz(top.z, f, top.e, Kmet) - Math.max(0, Agr ?? 0)) / 10);
+	for (let l = 0; l < lateral.length; l++) E += Math.pow(10, -barrierDz(lateral[l].z, f, lateral[l].e) / 10);
+	return -10 * Math.log10(E);
+}
+
+/**
+ * atmosphericAbsorptionCoefficient
+ * Coeficiente de absorción atmosférica α (dB/m) según ISO 9613-1 (ec. 3–5)
+ * a partir de frecuencia, temperatura, humedad relativa y presión.
+ */
+export function atmosphericAbsorptionCoefficient(freqHz: number, meteo?: Meteo) {
+	const T = (meteo?.temperatureC ?? DEFAULT_METEO.temperatureC) + 273.15;
+	const hr = Math.max(0, Math.min(100, meteo?.humidity ?? DEFAULT_METEO.humidity));
+	const pa = Math.max(1, meteo?.pressureKPa ?? DEFAULT_METEO.pressureKPa);
+	const pr = 101.325, T0 = 293.15, T01 = 273.16;
+	const f = Math.max(1, freqHz);
+
+	// concentración molar de vapor de agua h (%)
+	const C = -6.8346 * Math.pow(T01 / T, 1.261) + 4.6151;
+	const h = hr * Math.pow(10, C) * (pr / pa);
+
+	// frecuencias de relajación del oxígeno y del nitrógeno
+	const frO = (pa / pr) * (24 + 4.04e4 * h * (0.02 + h) / (0.391 + h));
+	const frN = (pa / pr) * Math.pow(T / T0, -0.5) * (9 + 280 * h * Math.exp(-4.170 * (Math.pow(T / T0, -1 / 3) - 1)));
+
+	return 8.686 * f * f * (
+		1.84e-11 * (pr / pa) * Math.pow(T / T0, 0.5) +
+		Math.pow(T / T0, -2.5) * (
+			0.01275 * Math.exp(-2239.1 / T) / (frO + f * f / frO) +
+			0.1068 * Math.exp(-3352.0 / T) / (frN + f * f / frN)
+		)
+	);
+}
+
 /**
  * aAtmospheric
- * Placeholder para absorción atmosférica (frecuencias cortas ≈ 0)
+ * Absorción atmosférica A_atm = α(f)·d (ISO 9613-2, ec. 8)
+ * Sin frecuencia explícita se evalúa en 500 Hz (banda representativa para valores globales).
  */
-export function aAtmospheric(distanceM: number, _freqHz?: number) {
-	return 0;
+export function aAtmospheric(distanceM: number, freqHz: number = 500, meteo?: Meteo) {
+	return atmosphericAbsorptionCoefficient(freqHz, meteo) * Math.max(0, distanceM);
+}
+
+/**
+ * spectrumFromBroadband
+ * Reparte un nivel global (dB) en bandas de octava según una forma relativa (por defecto plana),
+ * de modo que la suma energética de las bandas (sin ponderar) iguale al nivel global.
+ */
+export function spectrumFromBroadband(level: number, shape: readonly number[] = OCTAVE_BANDS.map(() => 0)): OctaveSpectrum {
+	const shapeSum = 10 * Math.log10(shape.reduce((s, v) => s + Math.pow(10, v / 10), 0));
+	return OCTAVE_BANDS.map((_, k) => level + (shape[k] ?? 0) - shapeSum);
+}
+
+/**
+ * rSpectrumFromSingle
+ * Deriva R por banda a partir de un valor único usando R_SPECTRUM_SHAPE.
+ */
+export function rSpectrumFromSingle(R: number): OctaveSpectrum {
+	return R_SPECTRUM_SHAPE.map(d => R + d);
+}
+
+/**
+ * sumBandsA
+ * Suma energética de niveles por banda aplicando la ponderación A -> LAeq (dB(A)).
+ * Bandas no finitas se ignoran; sin energía devuelve -Infinity.
+ */
+export function sumBandsA(levels: OctaveSpectrum) {
+	let E = 0;
+	for (let k = 0; k < OCTAVE_BANDS.length; k++) {
+		const L = levels[k];
+		if (Number.isFinite(L)) E += Math.pow(10, (L + A_WEIGHTING[k]) / 10);
+	}
+	return E > 0 ? 10 * Math.log10(E) : -Infinity;
+}
+
+/**
+ * computeFacadeRePrimeBands
+ * Re' por banda de octava: misma fórmula que computeFacadeRePrime aplicada a cada banda.
+ * Elementos sin RBands usan rSpectrumFromSingle(R).
+ */
+export function computeFacadeRePrimeBands(elements: FacadeElement[]): OctaveSpectrum {
+	return OCTAVE_BANDS.map((_, k) => computeFacadeRePrime(elements.map(e => {
+		const bands = Array.isArray(e.RBands) && e.RBands.length === OCTAVE_BANDS.length
+			? e.RBands
+			: rSpectrumFromSingle(Number.isFinite(e.R) ? e.R : 30);
+		return { area: e.area, R: bands[k] };
+	})));
 }
 
 /**
@@ -48,7 +268,7 @@ export function computeLwRoomFromLpIn(Lp_in: number, Aeq: number) {
 
 /**
  * computeLpOutAtPoint
- * Lp_out = Lw_room - Re' - Df_room - Df_out - A_geo - A_atm
+ * Lp_out = Lw_room - Re' - Df_room - Df_out - A_geo - A_atm - A_bar
  */
 export function computeLpOutAtPoint(opts: {
 	Lw_room: number;
@@ -57,12 +277,18 @@ export function computeLpOutAtPoint(opts: {
 	Df_out?: number;
 	distanceM: number;
 	atmospheric?: number;
+	freqHz?: number; // si se indica (y atmospheric no), A_atm se calcula con ISO 9613-1
+	meteo?: Meteo;
+	Agr?: number; // si se indica, A_geo = A_div (esférica) + A_gr en lugar de la aproximación hemisférica
+	Abar?: number; // apantallamiento (dB)
 }) {
-	const Df_room = opts.Df_room ?? 6;
-	const Df_out = opts.Df_out ?? 0;
-	const A_geo = aGeo(opts.distanceM);
-	const A_atm = Number.isFinite(opts.atmospheric ?? 0) ? (opts.atmospheric ?? 0) : aAtmospheric(opts.distanceM);
-	return opts.Lw_room - opts.RePrime - Df_room - Df_out - A_geo - A_atm;
+	const Df_room = opts.Df_room ?? DEFAULT_DF_ROOM;
+	const Df_out = opts.Df_out ?? DEFAULT_DF_OUT;
+	const A_geo = Number.isFinite(opts.Agr) ? aDiv(opts.distanceM) + (opts.Agr as number) : aGeo(opts.distanceM);
+	let A_atm = Number.isFinite(opts.atmospheric ?? 0) ? (opts.atmospheric ?? 0) : aAtmospheric(opts.distanceM);
+	if (opts.atmospheric === undefined && Number.isFinite(opts.freqHz)) A_atm = aAtmospheric(opts.distanceM, opts.freqHz, opts.meteo);
+	const A_bar = Number.isFinite(opts.Abar) ? (opts.Abar as number) : 0;
+	return opts.Lw_room - opts.RePrime - Df_room - Df_out - A_geo - A_atm - A_bar;
 }
 
 /**
@@ -71,7 +297,191 @@ export function computeLpOutAtPoint(opts: {
  * - Lw: nivel de potencia sonora de la fuente (dB) — puede ser Lw_room o Lw_out según uso
  * - nx,nz: normal unitaria apuntando hacia fuera (opcional, se usa para directividad simple)
  */
-export type SourceSimple = { x: number; z: number; Lw: number; nx?: number; nz?: number };
+export type SourceSimple = {
+	x: number;
+	z: number;
+	Lw: number;
+	nx?: number;
+	nz?: number;
+	LwBands?: OctaveSpectrum;
+	segment?: string;
+	height?: number;
+	reflector?: { p1: number[]; p2: number[] }; // fuente imagen: fachada donde se refleja
+};
+
+/**
+ * reflectionPoint
+ * Punto de reflexión especular de una fuente imagen: intersección del tramo imagen-receptor con el
+ * segmento reflector. null si no cae dentro del segmento (la reflexión no existe para ese receptor).
+ */
+export function reflectionPoint(source: SourceSimple, receptorX: number, receptorZ: number) {
+	const t = reflectionParam(source, receptorX, receptorZ);
+	if (Number.isNaN(t)) return null;
+	return { x: source.x + (receptorX - source.x) * t, z: source.z + (receptorZ - source.z) * t };
+}
+
+// parámetro t del punto de reflexión sobre el tramo imagen-receptor (NaN si no existe)
+function reflectionParam(source: SourceSimple, receptorX: number, receptorZ: number) {
+	const r = source.reflector;
+	if (!r) return NaN;
+	const dx = receptorX - source.x, dz = receptorZ - source.z;
+	const ex = r.p2[0] - r.p1[0], ez = r.p2[1] - r.p1[1];
+	const denom = dx * ez - dz * ex;
+	if (Math.abs(denom) < 1e-12) return NaN;
+	const wx = r.p1[0] - source.x, wz = r.p1[1] - source.z;
+	const t = (wx * ez - wz * ex) / denom;
+	const u = (wx * dz - wz * dx) / denom;
+	if (t <= 0 || t >= 1 || u < 0 || u > 1) return NaN;
+	return t;
+}
+
+/**
+ * PathTrace: geometría del último trayecto trazado (traceReflection / tracePath); se reutiliza entre
+ * llamadas para que los bucles de grilla no creen objetos.
+ */
+const trace = { dp: 0, distance: 0, hs: 0, hr: 0, ground: false, G: new Float64Array(3), screens: true };
+
+/**
+ * tracePath
+ * Parte común de pathGeometry y broadbandEnergy: distancia en planta, alturas, G por región si hay suelo
+ * (distancia 3D) y si se evalúan pantallas (no en fuentes imagen, ya comprobadas en traceReflection).
+ * Devuelve false si el trayecto no existe (reflexión sin punto o tramo sin visión directa).
+ */
+function tracePath(source: SourceSimple, receptorX: number, receptorZ: number, opts?: PathOptions) {
+	trace.dp = Math.hypot(receptorX - source.x, receptorZ - source.z);
+	trace.distance = trace.dp;
+	trace.screens = !source.reflector;
+	if (source.reflector && !traceReflection(source, receptorX, receptorZ, opts?.screens)) return false;
+	trace.hs = Number.isFinite(source.height) ? (source.height as number) : (opts?.sourceHeight ?? 0);
+	trace.hr = opts?.receiverHeight ?? 0;
+	trace.ground = !!opts?.ground;
+	if (opts?.ground) {
+		pathGroundFactorsInto(trace.G, source.x, source.z, trace.hs, receptorX, receptorZ, trace.hr, opts.ground);
+		trace.distance = Math.hypot(trace.dp, trace.hs - trace.hr);
+	}
+	return true;
+}
+
+// fuente imagen: existe el punto de reflexión y ambos tramos (fuente real -> fachada -> receptor) se ven
+function traceReflection(source: SourceSimple, receptorX: number, receptorZ: number, screens?: BuildingScreen[]) {
+	const r = source.reflector!;
+	const t = reflectionParam(source, receptorX, receptorZ);
+	if (Number.isNaN(t)) return false;
+	const Px = source.x + (receptorX - source.x) * t, Pz = source.z + (receptorZ - source.z) * t;
+	// fuente real = simétrica de la imagen respecto al reflector
+	const ex = r.p2[0] - r.p1[0], ez = r.p2[1] - r.p1[1];
+	const el = Math.hypot(ex, ez) || 1;
+	const nx = -ez / el, nz = ex / el;
+	const d = (source.x - r.p1[0]) * nx + (source.z - r.p1[1]) * nz;
+	const sx = source.x - 2 * d * nx, sz = source.z - 2 * d * nz;
+	// se separa ligeramente P de la fachada hacia cada extremo para no cortar el propio reflector
+	for (let k = 0; k < (screens?.length ?? 0); k++) {
+		const screen = screens![k];
+		if (screen.isBlocked(sx, sz, Px + (sx - Px) * 1e-4, Pz + (sz - Pz) * 1e-4) ||
+			screen.isBlocked(Px + (receptorX - Px) * 1e-4, Pz + (receptorZ - Pz) * 1e-4, receptorX, receptorZ)) return false;
+	}
+	return true;
+}
+
+/**
+ * pathGeometry
+ * Distancias del trayecto fuente-receptor, A_gr por banda si hay configuración de suelo
+ * y A_bar por banda si algún edificio de `screens` bloquea la visión.
+ * Con suelo la distancia es 3D (alturas de fuente y receptor); sin suelo se mantiene la planta.
+ * Varios edificios en el mismo trayecto suman su A_bar (limitado a 25 dB por banda).
+ * Fuentes imagen (`reflector`): la distancia es la del recorrido reflejado; `valid` es false si no hay
+ * punto de reflexión o si algún tramo (fuente real -> fachada -> receptor) no tiene visión directa.
+ */
+function pathGeometry(source: SourceSimple, receptorX: number, receptorZ: number, opts?: PathOptions) {
+	if (!tracePath(source, receptorX, receptorZ, opts)) return { dp: trace.dp, distance: trace.dp, Agr: undefined, Abar: undefined, valid: false };
+	const { dp, distance, hs, hr, G } = trace;
+	const Agr: OctaveSpectrum | undefined = trace.ground ? aGround(dp, hs, hr, { Gs: G[0], Gm: G[1], Gr: G[2] }) : undefined;
+	let Abar: OctaveSpectrum | undefined;
+	for (const screen of (trace.screens ? opts?.screens : undefined) ?? []) {
+		const paths = screen.diffractionPaths(source.x, source.z, hs, receptorX, receptorZ, hr);
+		if (!paths) continue;
+		const A = aBarrier(paths, Agr);
+		Abar = Abar ? Abar.map((v, k) => Math.min(25, v + A[k])) : A;
+	}
+	return { dp, distance, Agr, Abar, valid: true };
+}
+
+/**
+ * directivityWeight
+ * Peso de directividad simple: max(0, cos θ)^cut entre la normal de la fuente y la dirección al receptor.
+ * Fuentes sin normal son omnidireccionales (peso 1).
+ */
+function directivityWeight(source: SourceSimple, vx: number, vz: number, directivityCut: number) {
+	if (typeof source.nx !== "number" || typeof source.nz !== "number") return 1.0;
+	const nlen = Math.hypot(source.nx, source.nz) || 1;
+	const nx = source.nx / nlen, nz = source.nz / nlen;
+	const rlen = Math.hypot(vx, vz) || 1;
+	const rx = vx / rlen, rz = vz / rlen;
+	// cos(theta) entre la normal y la dirección al receptor, mantenido en [0,1]
+	const dot = Math.max(0, Math.min(1, nx * rx + nz * rz));
+	// evitar cero absoluto (muy direccional) — mínimo pequeño
+	return Math.max(1e-4, Math.pow(dot, Math.max(1, directivityCut)));
+}
+
+/**
+ * computeLpBandsFromSource
+ * - Cálculo por bandas de octava (63 Hz – 8 kHz) desde una fuente puntual:
+ *     Lp_k = Lw_k - Re'_k - Df_room - Df_out - A_geo - A_atm,k
+ * - Lw_k: source.LwBands o, si falta, spectrumFromBroadband(source.Lw).
+ * - RePrimeBands: Re' por banda (solo si Lw_isRoom); A_atm,k según ISO 9613-1 con `meteo`.
+ * - Con `ground` se añade A_gr,k (ISO 9613-2) y A_geo pasa a divergencia esférica sobre la distancia 3D.
+ * - Con `screens` se añade A_bar,k en los trayectos sin visión directa (difracción cubierta + esquinas).
+ * - Fuentes imagen (source.reflector): energía nula si la reflexión no existe para el receptor.
+ * - Devuelve niveles por banda y LAeq (suma con ponderación A).
+ */
+export function computeLpBandsFromSource(
+	source: SourceSimple,
+	receptorX: number,
+	receptorZ: number,
+	opts?: {
+		RePrimeBands?: OctaveSpectrum;
+		Lw_isRoom?: boolean;
+		directivityCut?: number;
+		Df_room?: number;
+		Df_out?: number;
+	} & PathOptions
+) {
+	const Lw_isRoom = opts?.Lw_isRoom ?? true;
+	const directivityCut = Number.isFinite(opts?.directivityCut) ? (opts!.directivityCut as number) : 1.0;
+	const LwBands = Array.isArray(source.LwBands) && source.LwBands.length === OCTAVE_BANDS.length
+		? source.LwBands
+		: spectrumFromBroadband(source.Lw);
+
+	const vx = receptorX - source.x;
+	const vz = receptorZ - source.z;
+	const { dp: dist, distance, Agr, Abar, valid } = pathGeometry(source, receptorX, receptorZ, opts);
+	if (!valid) {
+		const none = OCTAVE_BANDS.map(() => -Infinity);
+		return { Lp_bands: none, energyBands: OCTAVE_BANDS.map(() => 0), Lp_db: -Infinity, energyLinear: 0, distanceM: dist };
+	}
+	const w = directivityWeight(source, vx, vz, directivityCut);
+
+	const Lp_bands: OctaveSpectrum = new Array(OCTAVE_BANDS.length);
+	const energyBands: number[] = new Array(OCTAVE_BANDS.length);
+	for (let k = 0; k < OCTAVE_BANDS.length; k++) {
+		const RePrime = Lw_isRoom ? (opts?.RePrimeBands?.[k] ?? 0) : 0;
+		const lp = computeLpOutAtPoint({
+			Lw_room: LwBands[k],
+			RePrime,
+			Df_room: opts?.Df_room,
+			Df_out: opts?.Df_out,
+			distanceM: Math.max(0.01, distance),
+			freqHz: OCTAVE_BANDS[k],
+			meteo: opts?.meteo,
+			Agr: Agr?.[k],
+			Abar: Abar?.[k]
+		});
+		energyBands[k] = Math.pow(10, lp / 10) * w;
+		Lp_bands[k] = 10 * Math.log10(energyBands[k]);
+	}
+	const LAeq = sumBandsA(Lp_bands);
+	return { Lp_bands, energyBands, Lp_db: LAeq, energyLinear: Math.pow(10, LAeq / 10), distanceM: dist };
+}
 
 /**
  * computeLpFromSource
@@ -82,6 +492,8 @@ export type SourceSimple = { x: number; z: number; Lw: number; nx?: number; nz?:
  *    Lw_isRoom: si true trata Lw como Lw_room y aplica RePrime; si false Lw ya es Lw_out
  *    dbPerMeter: atenuación adicional por metro (dB/m)
  *    directivityCosineCut: si se suministra, multiplica energía por max(0, dot)^cut (cut >=1)
+ *    ground / sourceHeight / receiverHeight: A_gr de ISO 9613-2 (banda de 500 Hz como valor global)
+ *    screens: edificios que apantallan; A_bar en la banda de 500 Hz
  */
 export function computeLpFromSource(
 	source: SourceSimple,
@@ -95,8 +507,15 @@ export function computeLpFromSource(
 		Df_room?: number;
 		Df_out?: number;
 		atmospheric?: number;
-	}
+		RePrimeBands?: OctaveSpectrum;
+	} & PathOptions
 ) {
+	// fuentes con espectro: cálculo por bandas (la absorción ISO 9613-1 sustituye a dbPerMeter)
+	if (Array.isArray(source.LwBands)) {
+		const bands = computeLpBandsFromSource(source, receptorX, receptorZ, opts);
+		return { Lp_db: bands.Lp_db, energyLinear: bands.energyLinear, distanceM: bands.distanceM, Lp_bands: bands.Lp_bands };
+	}
+
 	const RePrime = opts?.RePrime ?? 0;
 	const Lw_isRoom = opts?.Lw_isRoom ?? true;
 	const dbPerMeter = Number.isFinite(opts?.dbPerMeter) ? (opts!.dbPerMeter as number) : 0.5;
@@ -104,11 +523,8 @@ export function computeLpFromSource(
 
 	const vx = receptorX - source.x;
 	const vz = receptorZ - source.z;
-	const dist = Math.hypot(vx, vz);
-	if (dist < 1e-6) {
-		// receptor prácticamente en la fuente: usar distancia mínima 0.01 m
-		// y considerar máxima contribución
-	}
+	const { dp: dist, distance, Agr, Abar, valid } = pathGeometry(source, receptorX, receptorZ, opts);
+	if (!valid) return { Lp_db: -Infinity, energyLinear: 0, distanceM: dist };
 
 	// Lw_room -> Lw_out si corresponde
 	const Lw_out_db = Lw_isRoom ? (source.Lw - RePrime) : source.Lw;
@@ -119,8 +535,10 @@ export function computeLpFromSource(
 		RePrime: 0, // ya restado si Lw_isRoom
 		Df_room: opts?.Df_room,
 		Df_out: opts?.Df_out,
-		distanceM: Math.max(0.01, dist),
-		atmospheric: opts?.atmospheric
+		distanceM: Math.max(0.01, distance),
+		atmospheric: opts?.atmospheric,
+		Agr: Agr?.[3], // 500 Hz
+		Abar: Abar?.[3]
 	});
 
 	// aplicar atenuación adicional proporcional a la distancia (dB/m)
@@ -128,97 +546,360 @@ export function computeLpFromSource(
 	const lp_after_atm = lp_base - atmosExtra;
 
 	// directividad simple: si fuente define normal, penalizar según ángulo receptor-normal
-	let directivityWeight = 1.0;
-	if (typeof source.nx === "number" && typeof source.nz === "number") {
-		const nlen = Math.hypot(source.nx, source.nz) || 1;
-		const nx = source.nx / nlen, nz = source.nz / nlen;
-		const rlen = Math.hypot(vx, vz) || 1;
-		const rx = vx / rlen, rz = vz / rlen;
-		let dot = nx * rx + nz * rz; // cos(theta) between normal and direction to receptor
-		// mantener en [0,1]
-		dot = Math.max(0, Math.min(1, dot));
-		// elevar a exponente para hacer directividad más marcada
-		directivityWeight = Math.pow(dot, Math.max(1, directivityCut));
-		// evitar cero absoluto (muy direccional) — mínimo pequeño
-		directivityWeight = Math.max(1e-4, directivityWeight);
-	}
+	const dirWeight = directivityWeight(source, vx, vz, directivityCut);
 
-	// convertir lp_after_atm a energía lineal y multiplicar por directivityWeight
-	const E = Math.pow(10, lp_after_atm / 10) * directivityWeight;
+	// convertir lp_after_atm a energía lineal y multiplicar por el peso de directividad
+	const E = Math.pow(10, lp_after_atm / 10) * dirWeight;
 	// devolver como objeto para quien quiera combinar energías
 	return { Lp_db: 10 * Math.log10(E), energyLinear: E, distanceM: dist };
 }
 
+/**
+ * GridLpOptions: opciones de computeGridLpFromSources / computeGridEnergyBySegment
+ */
+export type GridLpOptions = {
+	ReMap?: Record<string, number>; // no usado por defecto, incluye si haces mapping fuera
+	maxDist?: number;
+	dbPerMeter?: number;
+	directivityCut?: number;
+	Lw_isRoom?: boolean;
+	Df_room?: number; // por defecto DEFAULT_DF_ROOM (6 dB, fachadas); 0 para fuentes que ya dan su Lw radiado
+	Df_out?: number;
+} & PathOptions;
+
+/**
+ * SourceIndex
+ * Rejilla uniforme sobre las fuentes (celdas de lado ≥ maxDist): un receptor solo puede recibir de las
+ * fuentes de su celda y de las 8 vecinas. Para cada celda de receptor se guarda la lista de candidatas
+ * ordenada por índice de fuente, de modo que la suma de energías se hace en el mismo orden que
+ * recorriendo todas las fuentes (resultado idéntico bit a bit).
+ */
+type SourceIndex = { candidates: (rx: number, rz: number) => Int32Array };
+
+// máximo de celdas de la rejilla de fuentes (con maxDist muy pequeño se agranda la celda)
+const SOURCE_INDEX_MAX_CELLS = 1 << 16;
+
+function buildSourceIndex(sx: Float64Array, sz: Float64Array, xs: number[], ys: number[], maxDist: number): SourceIndex {
+	const n = sx.length;
+	const all = new Int32Array(n);
+	for (let k = 0; k < n; k++) all[k] = k;
+	if (!(maxDist > 0) || !Number.isFinite(maxDist) || !xs.length || !ys.length) return { candidates: () => all };
+
+	// extensión común de fuentes y receptores
+	let minX = Infinity, minZ = Infinity, maxX = -Infinity, maxZ = -Infinity;
+	const extend = (x: number, z: number) => {
+		if (x < minX) minX = x;
+		if (x > maxX) maxX = x;
+		if (z < minZ) minZ = z;
+		if (z > maxZ) maxZ = z;
+	};
+	for (let k = 0; k < n; k++) if (Number.isFinite(sx[k]) && Number.isFinite(sz[k])) extend(sx[k], sz[k]);
+	extend(Math.min(...xs), Math.min(...ys));
+	extend(Math.max(...xs), Math.max(...ys));
+	if (!Number.isFinite(minX) || !Number.isFinite(minZ)) return { candidates: () => all };
+
+	// margen relativo para que el redondeo de floor() nunca deje fuera una fuente a distancia <= maxDist
+	let cell = maxDist * (1 + 1e-6) + 1e-9;
+	const span = Math.max(maxX - minX, maxZ - minZ);
+	cell = Math.max(cell, span / Math.sqrt(SOURCE_INDEX_MAX_CELLS));
+	const nbx = Math.floor((maxX - minX) / cell) + 1;
+	const nbz = Math.floor((maxZ - minZ) / cell) + 1;
+	const bucketOf = (x: number, z: number) => {
+		const bx = Math.floor((x - minX) / cell), bz = Math.floor((z - minZ) / cell);
+		if (!(bx >= 0 && bx < nbx && bz >= 0 && bz < nbz)) return -1;
+		return bz * nbx + bx;
+	};
+
+	// fuentes por celda (ordenación por recuento: dentro de cada celda quedan en orden de índice)
+	const start = new Int32Array(nbx * nbz + 1);
+	const bucket = new Int32Array(n);
+	for (let k = 0; k < n; k++) {
+		bucket[k] = bucketOf(sx[k], sz[k]);
+		if (bucket[k] >= 0) start[bucket[k] + 1]++;
+	}
+	for (let b = 0; b < nbx * nbz; b++) start[b + 1] += start[b];
+	const items = new Int32Array(start[nbx * nbz]);
+	const fill = start.slice(0, nbx * nbz);
+	for (let k = 0; k < n; k++) if (bucket[k] >= 0) items[fill[bucket[k]]++] = k;
+
+	// candidatas por celda de receptor (3x3 celdas), calculadas una vez y reutilizadas
+	const cache: (Int32Array | undefined)[] = new Array(nbx * nbz);
+	const none = new Int32Array(0);
+	return {
+		candidates: (rx: number, rz: number) => {
+			const b = bucketOf(rx, rz);
+			if (b < 0) return none;
+			const hit = cache[b];
+			if (hit) return hit;
+			const bx = b % nbx, bz = (b - bx) / nbx;
+			const list: number[] = [];
+			for (let cz = Math.max(0, bz - 1); cz <= Math.min(nbz - 1, bz + 1); cz++) {
+				for (let cx = Math.max(0, bx - 1); cx <= Math.min(nbx - 1, bx + 1); cx++) {
+					const c = cz * nbx + cx;
+					for (let t = start[c]; t < start[c + 1]; t++) list.push(items[t]);
+				}
+			}
+			const sorted = Int32Array.from(list).sort();
+			cache[b] = sorted;
+			return sorted;
+		}
+	};
+}
+
+/**
+ * broadbandEnergy
+ * Energía lineal de una fuente sin espectro en el receptor: mismo cálculo que computeLpFromSource
+ * (Re' = 0, sin A_atm) con argumentos posicionales. No crea objetos: el trayecto
+ * sale de tracePath y A_gr / A_bar se calculan solo en 500 Hz (aGroundBand, findDiffractionPaths, aBarrierBand).
+ */
+function broadbandEnergy(
+	s: SourceSimple,
+	rx: number,
+	rz: number,
+	dbPerMeter: number,
+	directivityCut: number,
+	Df_room: number,
+	Df_out: number,
+	path: PathOptions
+) {
+	if (!tracePath(s, rx, rz, path)) return 0;
+	const { dp: dist, distance, hs, hr, G } = trace;
+	const Agr = trace.ground ? aGroundBand(dist, hs, hr, G[0], G[1], G[2], 3) : undefined; // 500 Hz
+	let Abar: number | undefined;
+	const screens = trace.screens ? path.screens : undefined;
+	for (let k = 0; k < (screens?.length ?? 0); k++) {
+		const paths = screens![k].findDiffractionPaths(s.x, s.z, hs, rx, rz, hr);
+		if (!paths) continue;
+		const A = aBarrierBand(paths, 3, Agr);
+		Abar = Abar === undefined ? A : Math.min(25, Abar + A);
+	}
+	const distanceM = Math.max(0.01, distance);
+	const A_geo = Agr !== undefined && Number.isFinite(Agr) ? aDiv(distanceM) + Agr : aGeo(distanceM);
+	const A_bar = Abar !== undefined && Number.isFinite(Abar) ? Abar : 0;
+	const lp_base = s.Lw - Df_room - Df_out - A_geo - A_bar;
+	const lp_after_atm = lp_base - dbPerMeter * Math.max(0, dist);
+	return Math.pow(10, lp_after_atm / 10) * directivityWeight(s, rx - s.x, rz - s.z, directivityCut);
+}
+
+/**
+ * accumulateGridEnergy
+ * Energía lineal por celda (Float64Array fila a fila, h·w) sumando las fuentes a menos de maxDist;
+ * con `withSegments` acumula además por source.segment (solo las fachadas que llegan a aportar).
+ * Las fuentes sin espectro no crean objetos en el bucle interior (broadbandEnergy); las que tienen espectro
+ * pasan por el cálculo por bandas completo (computeLpBandsFromSource).
+ * Ponderación: la grilla es energía sin ponderar, como el Lw global de las fuentes sin espectro; las que
+ * tienen espectro aportan la suma de sus bandas sin ponderación A (no su LAeq), para no mezclar dB y dB(A).
+ */
+function accumulateGridEnergy(sources: SourceSimple[], xs: number[], ys: number[], options: GridLpOptions | undefined, withSegments: boolean) {
+	const h = ys.length;
+	const w = xs.length;
+	const n = sources.length;
+	const maxDist = options?.maxDist ?? 50;
+	const dbPerMeter = Number.isFinite(options?.dbPerMeter) ? (options!.dbPerMeter as number) : 0.5;
+	const directivityCut = Number.isFinite(options?.directivityCut) ? (options!.directivityCut as number) : 1.0;
+	const Df_room = options?.Df_room ?? DEFAULT_DF_ROOM;
+	const Df_out = options?.Df_out ?? DEFAULT_DF_OUT;
+	const path: PathOptions = {
+		meteo: options?.meteo,
+		ground: options?.ground,
+		sourceHeight: options?.sourceHeight,
+		receiverHeight: options?.receiverHeight,
+		screens: options?.screens
+	};
+	// fuentes con espectro: cálculo por bandas completo (computeLpBandsFromSource)
+	const bandOpts = { Df_room, Df_out, directivityCut, ...path };
+
+	const sx = new Float64Array(n), sz = new Float64Array(n);
+	const segOf = new Int32Array(n);
+	const segNames: string[] = [];
+	for (let k = 0; k < n; k++) {
+		sx[k] = sources[k].x;
+		sz[k] = sources[k].z;
+		const name = sources[k].segment ?? "";
+		let idx = segNames.indexOf(name);
+		if (idx < 0) idx = segNames.push(name) - 1;
+		segOf[k] = idx;
+	}
+	const index = buildSourceIndex(sx, sz, xs, ys, maxDist);
+
+	const energy = new Float64Array(h * w);
+	const segEnergy: (Float64Array | undefined)[] = new Array(segNames.length);
+	const segOrder: number[] = [];
+
+	for (let j = 0; j < h; j++) {
+		const rz = ys[j];
+		for (let i = 0; i < w; i++) {
+			const rx = xs[i];
+			const candidates = index.candidates(rx, rz);
+			let totalE = 0;
+			for (let c = 0; c < candidates.length; c++) {
+				const k = candidates[c];
+				const dist = Math.hypot(rx - sx[k], rz - sz[k]);
+				if (dist > maxDist) continue;
+
+				const s = sources[k];
+				const E = Array.isArray(s.LwBands)
+					? computeLpBandsFromSource(s, rx, rz, bandOpts).energyBands.reduce((acc, e) => acc + e, 0)
+					: broadbandEnergy(s, rx, rz, dbPerMeter, directivityCut, Df_room, Df_out, path);
+				if (!Number.isFinite(E) || E <= 0) continue;
+				totalE += E;
+				if (withSegments) {
+					let seg = segEnergy[segOf[k]];
+					if (!seg) {
+						seg = segEnergy[segOf[k]] = new Float64Array(h * w);
+						segOrder.push(segOf[k]);
+					}
+					seg[j * w + i] += E;
+				}
+			}
+			energy[j * w + i] = totalE;
+		}
+	}
+
+	const bySegment: Record<string, Float64Array> = {};
+	for (const idx of segOrder) bySegment[segNames[idx]] = segEnergy[idx]!;
+	return { energy, bySegment, w, h };
+}
+
+// Float64Array fila a fila (h·w) -> matriz [h][w]
+const toRows = (grid: Float64Array, w: number, h: number, fn: (v: number) => number = v => v) =>
+	Array.from({ length: h }, (_, j) => Array.from(grid.subarray(j * w, (j + 1) * w), fn));
+
 /**
  * computeGridLpFromSources
  * - sources: array de SourceSimple (x,z,Lw[,nx,nz])
  * - xs, ys: arrays de coordenadas (xs length = w, ys length = h)
  * - options:
- *    Lw_isRoom: si true trata Lw como Lw_room y aplica ReMap[segment] cuando se suministre (no implementa matching por nombre aquí)
+ *    Lw_isRoom: sin efecto aquí (la grilla no resta Re'; el Lw de las fuentes ya es el radiado)
  *    ReMap: opcional map de pérdidas por fuente (si no, se usa 0)
  *    maxDist: distancia máxima en metros para considerar contribución (default 20)
  *    dbPerMeter: atenuación adicional por metro
  *    directivityCut: exponente de directividad
+ *    Df_room / Df_out: términos de fachada (por defecto DEFAULT_DF_ROOM / DEFAULT_DF_OUT, 6 y 0 dB; 0 y 0 para fuentes con su Lw radiado)
+ *    meteo / ground / sourceHeight / receiverHeight / screens: ver PathOptions
  *    perSourceMask?: optional same-size boolean mask to allow sources only in some cells (not implemented here)
+ * - Cada celda solo recorre las fuentes de las celdas vecinas de un índice espacial (SourceIndex) y acumula
+ *   en Float64Array; la suma sigue el orden de `sources`, así que el resultado no depende del índice.
  *
  * Returns: matrix [h][w] de Lp (dB). Celdas sin contribución -> -Infinity.
  */
 export function computeGridLpFromSources(
+	sources: SourceSimple[],
+	xs: number[],
+	ys: number[],
+	options?: GridLpOptions
+) {
+	const { energy, w, h } = accumulateGridEnergy(sources, xs, ys, options, false);
+	return toRows(energy, w, h, totalE => totalE > 0 ? 10 * Math.log10(totalE) : -Infinity);
+}
+
+/**
+ * computeGridEnergyBySegment
+ * - Igual que computeGridLpFromSources pero devuelve energía lineal: total por celda y, por separado,
+ *   la de cada fachada (clave source.segment; las fuentes imagen cuentan para la fachada que emite).
+ * - La suma de bySegment es el total (mismo recorrido por fuentes).
+ *
+ * Returns: { energy: [h][w], bySegment: { "segment-i": [h][w] } }
+ */
+export function computeGridEnergyBySegment(
+	sources: SourceSimple[],
+	xs: number[],
+	ys: number[],
+	options?: GridLpOptions
+) {
+	const grids = accumulateGridEnergy(sources, xs, ys, options, true);
+	const bySegment: Record<string, number[][]> = {};
+	for (const name of Object.keys(grids.bySegment)) bySegment[name] = toRows(grids.bySegment[name], grids.w, grids.h);
+	return { energy: toRows(grids.energy, grids.w, grids.h), bySegment };
+}
+
+/**
+ * computeGridBandsFromSources
+ * - Versión por bandas de octava de computeGridLpFromSources.
+ * - RePrimeBandsMap: Re' por banda indexado por source.segment (si Lw_isRoom).
+ * - Celdas fuera de `mask` (false) se omiten; sin contribución -> -Infinity.
+ * - Mismo índice espacial que computeGridLpFromSources (con maxDist finito); las bandas no se ponderan y
+ *   LAeq es su suma con ponderación A.
+ *
+ * Returns: { bands: [banda][h][w] Lp (dB), LAeq: [h][w] dB(A) }
+ */
+export function computeGridBandsFromSources(
 	sources: SourceSimple[],
 	xs: number[],
 	ys: number[],
 	options?: {
-		ReMap?: Record<string, number>; // no usado por defecto, incluye si haces mapping fuera
+		RePrimeBandsMap?: Record<string, OctaveSpectrum>;
 		maxDist?: number;
-		dbPerMeter?: number;
 		directivityCut?: number;
 		Lw_isRoom?: boolean;
-	}
+		Df_room?: number;
+		Df_out?: number;
+		mask?: boolean[][];
+	} & PathOptions
 ) {
 	const h = ys.length;
 	const w = xs.length;
-	const out: number[][] = Array.from({ length: h }, () => new Array(w).fill(-Infinity));
-	const maxDist = options?.maxDist ?? 50;
-	const dbPerMeter = Number.isFinite(options?.dbPerMeter ?? 0.5) ? (options!.dbPerMeter as number) : 0.5;
-	const directivityCut = options?.directivityCut ?? 1.0;
-	const Lw_isRoom = options?.Lw_isRoom ?? true;
-
-	// accumulate linear energy per cell
-	const energyGrid: number[][] = Array.from({ length: h }, () => new Array(w).fill(0));
+	const nb = OCTAVE_BANDS.length;
+	const maxDist = options?.maxDist ?? Infinity;
+	const bandE: number[][][] = Array.from({ length: nb }, () => Array.from({ length: h }, () => new Array(w).fill(0)));
+	const sx = Float64Array.from(sources, s => s.x), sz = Float64Array.from(sources, s => s.z);
+	const index = buildSourceIndex(sx, sz, xs, ys, maxDist);
 
 	for (let j = 0; j < h; j++) {
 		for (let i = 0; i < w; i++) {
+			if (options?.mask && !options.mask[j]?.[i]) continue;
 			const rx = xs[i], rz = ys[j];
-			let totalE = 0;
-			for (const s of sources) {
-				const vx = rx - s.x, vz = rz - s.z;
-				const dist = Math.hypot(vx, vz);
-				if (dist > maxDist) continue;
-
-				const res = computeLpFromSource(s, rx, rz, {
-					RePrime: 0,
-					Lw_isRoom: Lw_isRoom,
-					dbPerMeter,
-					directivityCut
+			const candidates = index.candidates(rx, rz);
+			for (let c = 0; c < candidates.length; c++) {
+				const s = sources[candidates[c]];
+				if (Math.hypot(rx - s.x, rz - s.z) > maxDist) continue;
+				const res = computeLpBandsFromSource(s, rx, rz, {
+					RePrimeBands: s.segment ? options?.RePrimeBandsMap?.[s.segment] : undefined,
+					Lw_isRoom: options?.Lw_isRoom,
+					directivityCut: options?.directivityCut,
+					Df_room: options?.Df_room,
+					Df_out: options?.Df_out,
+					meteo: options?.meteo,
+					ground: options?.ground,
+					sourceHeight: options?.sourceHeight,
+					receiverHeight: options?.receiverHeight,
+					screens: options?.screens
 				});
-				if (!Number.isFinite(res.energyLinear) || res.energyLinear <= 0) continue;
-				totalE += res.energyLinear;
-			}
-			if (totalE > 0) {
-				out[j][i] = 10 * Math.log10(totalE);
+				for (let k = 0; k < nb; k++) {
+					const e = res.energyBands[k];
+					if (Number.isFinite(e) && e > 0) bandE[k][j][i] += e;
+				}
 			}
 		}
 	}
-	return out;
+
+	const bands = bandE.map(grid => grid.map(row => row.map(e => e > 0 ? 10 * Math.log10(e) : -Infinity)));
+	const LAeq: number[][] = Array.from({ length: h }, (_, j) => Array.from({ length: w }, (_, i) => sumBandsA(bands.map(b => b[j][i]))));
+	return { bands, LAeq };
 }
 
 // Agrupar como export por defecto para preservar la interfaz previa
 export default {
 	computeFacadeRePrime,
+	computeFacadeRePrimeBands,
 	aGeo,
+	aDiv,
+	aGround,
+	aGroundBand,
+	barrierDz,
+	aBarrier,
+	aBarrierBand,
+	reflectionPoint,
 	aAtmospheric,
+	atmosphericAbsorptionCoefficient,
+	spectrumFromBroadband,
+	rSpectrumFromSingle,
+	sumBandsA,
 	computeLwRoomFromLpIn,
 	computeLpOutAtPoint,
 	computeLpFromSource,
-	computeGridLpFromSources
+	computeLpBandsFromSource,
+	computeGridLpFromSources,
+	computeGridEnergyBySegment,
+	computeGridBandsFromSources
 };
@@ -0,0 +1,29 @@
+/**
+ * downloadText
+ * Descarga `text` como archivo `filename` desde el navegador (Blob + enlace temporal).
+ */
+export function downloadText(filename: string, text: string, mime = "application/json") {
+	const url = URL.createObjectURL(new Blob([text], { type: mime }));
+	const a = document.createElement("a");
+	a.href = url;
+	a.download = filename;
+	document.body.appendChild(a);
+	a.click();
+	a.remove();
+	setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * readFileText
+ * Contenido de un File (input type="file") como texto.
+ */
+export function readFileText(file: File): Promise<string> {
+	return new Promise((resolve, reject) => {
+		const reader = new FileReader();
+		reader.onload = () => resolve(String(reader.result ?? ""));
+		reader.onerror = () => reject(reader.error);
+		reader.readAsText(file);
+	});
+}
+
+export default { downloadText, readFileText };
@@ -0,0 +1,109 @@
+/**
+ * png
+ *
+ * Codificador PNG en JavaScript puro (RGBA 8 bits, sin dependencias nativas ni canvas), para escribir el
+ * mapa rasterizado desde Node (CLI) o el navegador:
+ *  - encodePNG(rgba, width, height, deflate?): bytes del fichero PNG
+ *  - deflate: compresor zlib opcional (p. ej. zlib.deflateSync en Node); sin él se usan bloques "stored"
+ *    (zlib válido sin compresión, ficheros más grandes pero idénticos píxel a píxel)
+ */
+
+const CRC_TABLE = (() => {
+	const table = new Uint32Array(256);
+	for (let n = 0; n < 256; n++) {
+		let c = n;
+		for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+		table[n] = c >>> 0;
+	}
+	return table;
+})();
+
+export function crc32(bytes: Uint8Array, crc = 0xffffffff) {
+	for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+	return crc;
+}
+
+function adler32(bytes: Uint8Array) {
+	let a = 1, b = 0;
+	for (let i = 0; i < bytes.length; i++) {
+		a = (a + bytes[i]) % 65521;
+		b = (b + a) % 65521;
+	}
+	return ((b << 16) | a) >>> 0;
+}
+
+/**
+ * zlibStored
+ * Flujo zlib con bloques deflate sin compresión (máx. 65535 bytes por bloque).
+ */
+export function zlibStored(data: Uint8Array) {
+	const blocks = Math.max(1, Math.ceil(data.length / 65535));
+	const out = new Uint8Array(2 + blocks * 5 + data.length + 4);
+	out[0] = 0x78;
+	out[1] = 0x01;
+	let o = 2;
+	for (let b = 0; b < blocks; b++) {
+		const start = b * 65535;
+		const len = Math.min(65535, data.length - start);
+		out[o++] = b === blocks - 1 ? 1 : 0;
+		out[o++] = len & 0xff;
+		out[o++] = len >>> 8;
+		out[o++] = ~len & 0xff;
+		out[o++] = (~len >>> 8) & 0xff;
+		out.set(data.subarray(start, start + len), o);
+		o += len;
+	}
+	const adler = adler32(data);
+	out[o++] = adler >>> 24;
+	out[o++] = (adler >>> 16) & 0xff;
+	out[o++] = (adler >>> 8) & 0xff;
+	out[o++] = adler & 0xff;
+	return out;
+}
+
+function chunk(type: string, data: Uint8Array) {
+	const out = new Uint8Array(12 + data.length);
+	const view = new DataView(out.buffer);
+	view.setUint32(0, data.length);
+	for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+	out.set(data, 8);
+	view.setUint32(8 + data.length, (crc32(out.subarray(4, 8 + data.length)) ^ 0xffffffff) >>> 0);
+	return out;
+}
+
+/**
+ * encodePNG
+ * rgba: width·height·4 bytes, fila 0 arriba. Cada fila va con filtro 0 (None).
+ */
+export function encodePNG(rgba: Uint8Array, width: number, height: number, deflate: (data: Uint8Array) => Uint8Array = zlibStored) {
+	if (rgba.length !== width * height * 4) throw new Error(`encodePNG: se esperaban ${width * height * 4} bytes RGBA y hay ${rgba.length}`);
+	const header = new Uint8Array(13);
+	const hv = new DataView(header.buffer);
+	hv.setUint32(0, width);
+	hv.setUint32(4, height);
+	header[8] = 8; // bits por canal
+	header[9] = 6; // RGBA
+	header[10] = 0; // compresión deflate
+	header[11] = 0; // filtrado adaptativo estándar
+	header[12] = 0; // sin entrelazado
+
+	const stride = width * 4;
+	const raw = new Uint8Array((stride + 1) * height);
+	for (let r = 0; r < height; r++) raw.set(rgba.subarray(r * stride, (r + 1) * stride), r * (stride + 1) + 1);
+
+	const parts = [
+		new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+		chunk("IHDR", header),
+		chunk("IDAT", deflate(raw)),
+		chunk("IEND", new Uint8Array(0))
+	];
+	const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+	let o = 0;
+	for (const p of parts) {
+		out.set(p, o);
+		o += p.length;
+	}
+	return out;
+}
+
+export default { crc32, zlibStored, encodePNG };
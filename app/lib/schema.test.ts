@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { arrayOf, formatIssues, num, object, oneOf, record, validate } from "./schema";
+
+describe("validate", () => {
+	const schema = object({
+		level: num({ min: 0, max: 140, unit: "dB" }),
+		spacing: num({ min: 0, exclusiveMin: true, unit: "m" }),
+		mode: oneOf(["Lw", "Lp"], true),
+		regions: arrayOf(object({ G: num({ min: 0, max: 1 }) }, ["G"]), { minLength: 1 }),
+		absorption: record(num({ min: 0, max: 1 }))
+	}, ["level"]);
+
+	it("valores dentro de rango (límites incluidos) sin errores ni avisos", () => {
+		expect(validate(schema, { level: 0, spacing: 0.1, mode: "lp", regions: [{ G: 1 }], absorption: { "segment-0": 0 } })).toEqual({ errors: [], warnings: [] });
+		expect(validate(schema, { level: 140 }).errors).toEqual([]);
+	});
+
+	it("fuera de rango: 0–140 dB inclusivo y separación estrictamente positiva", () => {
+		const { errors } = validate(schema, { level: 140.5, spacing: 0 }, "params");
+		expect(errors).toEqual([
+			{ path: "params.level", message: "debe estar entre 0 y 140 dB, recibido 140.5" },
+			{ path: "params.spacing", message: "debe ser mayor que 0 m, recibido 0" }
+		]);
+		expect(validate(schema, { level: -1 }).errors[0].message).toBe("debe estar entre 0 y 140 dB, recibido -1");
+	});
+
+	it("rutas de error en listas y registros; campo obligatorio ausente", () => {
+		const { errors } = validate(schema, { regions: [{ G: 0.5 }, { G: 2 }, {}], absorption: { "segment-1": "alto" } }, "params");
+		expect(errors.map(e => e.path)).toEqual(["params.level", "params.regions[1].G", "params.regions[2].G", "params.absorption.segment-1"]);
+		expect(errors[0].message).toBe("campo obligatorio");
+		expect(formatIssues(errors.slice(1, 2))).toBe("params.regions[1].G: debe estar entre 0 y 1, recibido 2");
+	});
+
+	it("clave desconocida: aviso con la clave conocida más parecida", () => {
+		const colorOverlay = object({ yellowMaxDist: num(), redMaxDist: num() });
+		const { errors, warnings } = validate(colorOverlay, { yelowMaxDist: 6, zzz: 1 }, "params.colorOverlay");
+		expect(errors).toEqual([]);
+		expect(warnings).toEqual([
+			{ path: "params.colorOverlay.yelowMaxDist", message: "clave desconocida (se ignora); ¿quizá \"yellowMaxDist\"?" },
+			{ path: "params.colorOverlay.zzz", message: "clave desconocida (se ignora)" }
+		]);
+	});
+
+	it("tipos incorrectos y raíz sin ruta", () => {
+		expect(validate(schema, [1, 2]).errors).toEqual([{ path: "", message: "se esperaba un objeto, recibido una lista" }]);
+		expect(formatIssues(validate(schema, null).errors)).toBe("(raíz): se esperaba un objeto, recibido null");
+		expect(validate(schema, { level: "70" }).errors[0].message).toBe("se esperaba un número (dB), recibido \"70\"");
+	});
+});
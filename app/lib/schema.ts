@@ -0,0 +1,154 @@
+/**
+ * schema
+ *
+ * Validación en tiempo de ejecución de objetos JSON (Params, Config, escenas, sourceLevels.json):
+ *  - Schema: descripción declarativa (número con rango y unidad, enum, booleano, texto, lista, objeto, registro)
+ *  - validate(schema, value, path): errores (valor de tipo o rango incorrecto, campo obligatorio ausente) y
+ *    avisos (claves desconocidas, con la clave conocida más parecida: "yelowMaxDist" -> "yellowMaxDist")
+ *  - las rutas de los problemas siguen la forma "colorOverlay.redThreshold" / "ground.regions[0].G"
+ *
+ * No corrige ni convierte valores: quien valida decide si descarta el objeto (errores) o solo avisa.
+ */
+
+export type SchemaIssue = { path: string; message: string };
+export type ValidationResult = { errors: SchemaIssue[]; warnings: SchemaIssue[] };
+
+/**
+ * Schema
+ * - number: min / max inclusivos, exclusiveMin (> min), integer, unit (solo para el mensaje)
+ * - object: fields conocidos (required = obligatorios); las claves que no están en fields generan aviso
+ * - record: claves libres con el mismo esquema de valor (p. ej. absorción por segmento)
+ * - any: se acepta sin comprobar (campos internos o de depuración)
+ */
+export type Schema =
+	| { kind: "number"; min?: number; max?: number; exclusiveMin?: boolean; integer?: boolean; unit?: string }
+	| { kind: "string" }
+	| { kind: "enum"; values: readonly string[]; ignoreCase?: boolean }
+	| { kind: "boolean" }
+	| { kind: "array"; item: Schema; minLength?: number; maxLength?: number }
+	| { kind: "object"; fields: Record<string, Schema>; required?: readonly string[] }
+	| { kind: "record"; values: Schema }
+	| { kind: "any" };
+
+type NumberOptions = { min?: number; max?: number; exclusiveMin?: boolean; integer?: boolean; unit?: string };
+
+export const num = (opts: NumberOptions = {}): Schema => ({ kind: "number", ...opts });
+export const str = (): Schema => ({ kind: "string" });
+export const oneOf = (values: readonly string[], ignoreCase = false): Schema => ({ kind: "enum", values, ignoreCase });
+export const bool = (): Schema => ({ kind: "boolean" });
+export const arrayOf = (item: Schema, opts: { minLength?: number; maxLength?: number } = {}): Schema => ({ kind: "array", item, ...opts });
+export const object = (fields: Record<string, Schema>, required: readonly string[] = []): Schema => ({ kind: "object", fields, required });
+export const record = (values: Schema): Schema => ({ kind: "record", values });
+export const any = (): Schema => ({ kind: "any" });
+
+const isPlainObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === "object" && !Array.isArray(v);
+const join = (path: string, key: string) => (path ? `${path}.${key}` : key);
+const describe = (v: unknown) => (v === null ? "null" : Array.isArray(v) ? "una lista" : typeof v === "string" ? JSON.stringify(v) : typeof v === "object" ? "un objeto" : String(v));
+
+function levenshtein(a: string, b: string) {
+	const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+	for (let i = 1; i <= a.length; i++) {
+		let prev = row[0];
+		row[0] = i;
+		for (let j = 1; j <= b.length; j++) {
+			const tmp = row[j];
+			row[j] = Math.min(row[j] + 1, row[j - 1] + 1, prev + (a[i - 1].toLowerCase() === b[j - 1].toLowerCase() ? 0 : 1));
+			prev = tmp;
+		}
+	}
+	return row[b.length];
+}
+
+// clave conocida más parecida (como mucho un tercio de caracteres distintos), para sugerir en el aviso
+function closestKey(key: string, known: string[]) {
+	let best: string | undefined, bestD = Infinity;
+	for (const k of known) {
+		const d = levenshtein(key, k);
+		if (d < bestD) { bestD = d; best = k; }
+	}
+	return best !== undefined && bestD <= Math.max(1, Math.floor(key.length / 3)) ? best : undefined;
+}
+
+function rangeText(s: NumberOptions) {
+	const unit = s.unit ? ` ${s.unit}` : "";
+	if (s.min !== undefined && s.max !== undefined) return `estar entre ${s.min} y ${s.max}${unit}`;
+	if (s.min !== undefined) return `ser ${s.exclusiveMin ? "mayor que" : "al menos"} ${s.min}${unit}`;
+	return `ser como máximo ${s.max}${unit}`;
+}
+
+function check(schema: Schema, value: unknown, path: string, out: ValidationResult) {
+	const error = (message: string) => out.errors.push({ path, message });
+	switch (schema.kind) {
+		case "any":
+			return;
+		case "number": {
+			if (typeof value !== "number" || !Number.isFinite(value)) return error(`se esperaba un número${schema.unit ? ` (${schema.unit})` : ""}, recibido ${describe(value)}`);
+			if (schema.integer && !Number.isInteger(value)) return error(`debe ser un entero, recibido ${value}`);
+			const low = schema.min !== undefined && (schema.exclusiveMin ? value <= schema.min : value < schema.min);
+			const high = schema.max !== undefined && value > schema.max;
+			if (low || high) error(`debe ${rangeText(schema)}, recibido ${value}`);
+			return;
+		}
+		case "string":
+			if (typeof value !== "string") error(`se esperaba un texto, recibido ${describe(value)}`);
+			return;
+		case "boolean":
+			if (typeof value !== "boolean") error(`se esperaba true o false, recibido ${describe(value)}`);
+			return;
+		case "enum": {
+			const ok = typeof value === "string" && schema.values.some(v => (schema.ignoreCase ? v.toLowerCase() === value.toLowerCase() : v === value));
+			if (!ok) error(`debe ser uno de ${schema.values.map(v => JSON.stringify(v)).join(", ")}, recibido ${describe(value)}`);
+			return;
+		}
+		case "array": {
+			if (!Array.isArray(value)) return error(`se esperaba una lista, recibido ${describe(value)}`);
+			if (schema.minLength !== undefined && value.length < schema.minLength) error(`debe tener al menos ${schema.minLength} elementos, tiene ${value.length}`);
+			if (schema.maxLength !== undefined && value.length > schema.maxLength) error(`debe tener como máximo ${schema.maxLength} elementos, tiene ${value.length}`);
+			value.forEach((item, i) => check(schema.item, item, `${path}[${i}]`, out));
+			return;
+		}
+		case "record": {
+			if (!isPlainObject(value)) return error(`se esperaba un objeto, recibido ${describe(value)}`);
+			for (const [key, v] of Object.entries(value)) check(schema.values, v, join(path, key), out);
+			return;
+		}
+		case "object": {
+			if (!isPlainObject(value)) return error(`se esperaba un objeto, recibido ${describe(value)}`);
+			const known = Object.keys(schema.fields);
+			for (const key of schema.required ?? []) {
+				if (value[key] === undefined) out.errors.push({ path: join(path, key), message: "campo obligatorio" });
+			}
+			for (const [key, v] of Object.entries(value)) {
+				const field = schema.fields[key];
+				if (field) {
+					if (v !== undefined) check(field, v, join(path, key), out);
+					continue;
+				}
+				const hint = closestKey(key, known);
+				out.warnings.push({ path: join(path, key), message: `clave desconocida (se ignora)${hint ? `; ¿quizá "${hint}"?` : ""}` });
+			}
+			return;
+		}
+	}
+}
+
+/**
+ * validate
+ * Recorre value con schema y devuelve todos los errores y avisos (no se detiene en el primero).
+ * path: prefijo de las rutas (p. ej. "params").
+ */
+export function validate(schema: Schema, value: unknown, path = ""): ValidationResult {
+	const out: ValidationResult = { errors: [], warnings: [] };
+	check(schema, value, path, out);
+	return out;
+}
+
+/**
+ * formatIssues
+ * Una línea por problema: "ruta: mensaje".
+ */
+export function formatIssues(issues: SchemaIssue[]) {
+	return issues.map(i => `${i.path || "(raíz)"}: ${i.message}`).join("\n");
+}
+
+export default { validate, formatIssues, num, str, oneOf, bool, arrayOf, object, record, any };
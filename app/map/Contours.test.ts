@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { contourLevels, extractContours, isoBands, isoLines, isoRings, ringsToPolygons } from "./Contours";
+
+const range = (n: number, from = 0) => Array.from({ length: n }, (_, k) => from + k);
+
+// rampa z = x sobre 5 x 5 nodos (0..4 m)
+const ramp = { x: range(5), y: range(5), z: range(5).map(() => range(5)) };
+// cono z = 10 - r sobre 11 x 11 nodos (-5..5 m): isolínea de nivel L ≈ circunferencia de radio 10 - L
+const coneAxis = range(11, -5);
+const cone = { x: coneAxis, y: coneAxis, z: coneAxis.map(zc => coneAxis.map(xc => 10 - Math.hypot(xc, zc))) };
+
+const ringArea = (r: number[][]) => {
+	let s = 0;
+	for (let a = 0, b = r.length - 1; a < r.length; b = a++) s += r[b][0] * r[a][1] - r[a][0] * r[b][1];
+	return Math.abs(s / 2);
+};
+
+describe("isoLines", () => {
+	it("rampa lineal: una línea abierta recta en x = nivel, de borde a borde", () => {
+		const lines = isoLines(ramp, 2.5);
+		expect(lines).toHaveLength(1);
+		expect(lines[0]).toHaveLength(5);
+		for (const [x] of lines[0]) expect(x).toBeCloseTo(2.5, 10);
+		expect(lines[0].map(p => p[1]).sort((a, b) => a - b)).toEqual([0, 1, 2, 3, 4]);
+	});
+
+	it("nivel fuera del rango de la grilla: sin líneas", () => {
+		expect(isoLines(ramp, 10)).toEqual([]);
+		expect(isoLines(ramp, -1)).toEqual([]);
+	});
+
+	it("las celdas NaN / null cortan la línea", () => {
+		const z = ramp.z.map((row, j) => row.map((v, i) => (j === 2 && i === 2 ? null : v)));
+		const lines = isoLines({ ...ramp, z }, 2.5);
+		// las celdas i = 2, j = 1..2 tocan el nodo nulo y no aportan segmentos: quedan z ∈ [0, 1] y [3, 4]
+		expect(lines).toHaveLength(2);
+		expect(lines.flat().every(([x, zc]) => x === 2.5 && (zc <= 1 || zc >= 3))).toBe(true);
+	});
+});
+
+describe("isoRings / ringsToPolygons / isoBands", () => {
+	it("cono: un anillo cerrado de radio ≈ 10 - nivel", () => {
+		const rings = isoRings(cone, 7);
+		expect(rings).toHaveLength(1);
+		const ring = rings[0];
+		expect(ring[0]).toEqual(ring[ring.length - 1]);
+		for (const [x, z] of ring) expect(Math.abs(Math.hypot(x, z) - 3)).toBeLessThan(0.15);
+		// interpolación lineal por aristas: área dentro de un 5 % del círculo π·3²
+		expect(ringArea(ring) / (Math.PI * 9)).toBeCloseTo(1, 1);
+	});
+
+	it("la región que toca el borde se cierra con el marco exterior", () => {
+		const rings = isoRings(ramp, 2.5);
+		expect(rings).toHaveLength(1);
+		// rectángulo x ∈ [2.5, 4 + media celda del marco] x z ∈ [-media celda, 4 + media celda]
+		const xs = rings[0].map(p => p[0]), zs = rings[0].map(p => p[1]);
+		expect(Math.min(...xs)).toBeCloseTo(2.5, 10);
+		expect(Math.max(...xs)).toBeGreaterThan(4);
+		expect(Math.min(...zs)).toBeLessThan(0);
+		expect(Math.max(...zs)).toBeGreaterThan(4);
+	});
+
+	it("ringsToPolygons: anillo interior = hueco del exterior", () => {
+		const outer = [[0, 0], [10, 0], [10, 10], [0, 10], [0, 0]];
+		const inner = [[4, 4], [6, 4], [6, 6], [4, 6], [4, 4]];
+		const island = [[20, 0], [22, 0], [22, 2], [20, 2], [20, 0]];
+		const polygons = ringsToPolygons([inner, outer, island]);
+		expect(polygons).toHaveLength(2);
+		expect(polygons.find(p => p[0] === outer)).toEqual([outer, inner]);
+		expect(polygons.find(p => p[0] === island)).toEqual([island]);
+	});
+
+	it("isoBands del cono: corona [5, 8) con hueco y disco [8, ∞) sin hueco", () => {
+		const bands = isoBands(cone, [8, 5]);
+		expect(bands.map(b => [b.min, b.max])).toEqual([[5, 8], [8, Infinity]]);
+		expect(bands[0].polygons).toHaveLength(1);
+		expect(bands[0].polygons[0]).toHaveLength(2);
+		expect(bands[1].polygons).toEqual([[isoRings(cone, 8)[0]]]);
+		// área de la corona ≈ π·(5² - 2²)
+		const [outer, hole] = bands[0].polygons[0];
+		expect((ringArea(outer) - ringArea(hole)) / (Math.PI * 21)).toBeCloseTo(1, 1);
+	});
+});
+
+describe("extractContours / contourLevels", () => {
+	it("longitud, cierre y rótulo a mitad de recorrido", () => {
+		const [line] = extractContours(ramp, [2.5]);
+		expect(line.level).toBe(2.5);
+		expect(line.closed).toBe(false);
+		expect(line.length).toBeCloseTo(4, 10);
+		expect(line.label[0]).toBeCloseTo(2.5, 10);
+		expect(line.label[1]).toBeCloseTo(2, 10);
+		expect(extractContours(cone, [7])[0].closed).toBe(true);
+	});
+
+	it("descarta líneas cortas, niveles repetidos y no finitos", () => {
+		expect(extractContours(ramp, [2.5], 5)).toEqual([]);
+		expect(extractContours(ramp, [3, 1, 3, NaN]).map(l => l.level)).toEqual([1, 3]);
+		expect(extractContours({ x: [], y: [], z: [] }, [1])).toEqual([]);
+	});
+
+	it("contourLevels: múltiplos de step dentro de [min, max]", () => {
+		expect(contourLevels(42.3, 61, 5)).toEqual([45, 50, 55, 60]);
+		expect(contourLevels(40, 50, 5)).toEqual([40, 45, 50]);
+		expect(contourLevels(NaN, 50)).toEqual([]);
+	});
+});
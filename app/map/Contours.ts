@@ -0,0 +1,223 @@
+/**
+ * Contours
+ *
+ * Isolíneas e isobandas sobre una grilla regular (HeatmapResult: x = columnas, y = filas, z[fila][columna])
+ * mediante marching squares con interpolación lineal sobre las aristas de cada celda.
+ *  - isoLines: polilíneas abiertas o cerradas de un nivel (las celdas NaN/no finitas cortan la línea).
+ *  - isoRings: anillos cerrados del contorno de la región z >= nivel (la grilla se rodea de un marco
+ *    por debajo de todos los niveles, así que todas las líneas cierran; NaN cuenta como "por debajo").
+ *  - isoBands: polígonos GeoJSON-like ([anillo exterior, ...huecos]) de cada banda [min, max).
+ *  - extractContours: isolíneas de varios niveles con un punto de rótulo por línea (overlay 3D, informes).
+ * Coordenadas devueltas como [x, z] en metros (mismo sistema que la grilla).
+ */
+
+type Grid = { x: number[]; y: number[]; z: (number | null)[][] };
+
+export type IsoBand = { min: number; max: number; polygons: number[][][][] };
+
+/**
+ * ContourLine: isolínea de un nivel
+ * - points: polilínea [x,z]; closed si el primer y último punto coinciden
+ * - length: longitud (m); label: punto [x,z] a mitad de recorrido para el rótulo
+ */
+export type ContourLine = { level: number; points: number[][]; closed: boolean; length: number; label: number[] };
+
+// aristas de la celda: 0 = inferior (j, i..i+1), 1 = derecha, 2 = superior (j+1), 3 = izquierda
+// tabla de casos (bits: esquina 00=1, 10=2, 11=4, 01=8) -> pares de aristas
+const CASES: Record<number, number[][]> = {
+	1: [[3, 0]], 2: [[0, 1]], 3: [[3, 1]], 4: [[1, 2]], 6: [[0, 2]], 7: [[3, 2]],
+	8: [[2, 3]], 9: [[2, 0]], 11: [[2, 1]], 12: [[1, 3]], 13: [[1, 0]], 14: [[0, 3]]
+};
+
+function marchingSegments(xs: number[], ys: number[], v: (i: number, j: number) => number, level: number) {
+	const segs: number[][][] = [];
+	const w = xs.length, h = ys.length;
+	const lerp = (a: number, b: number, va: number, vb: number) => a + (b - a) * ((level - va) / ((vb - va) || 1e-12));
+	for (let j = 0; j < h - 1; j++) {
+		for (let i = 0; i < w - 1; i++) {
+			const v00 = v(i, j), v10 = v(i + 1, j), v11 = v(i + 1, j + 1), v01 = v(i, j + 1);
+			if (![v00, v10, v11, v01].every(Number.isFinite)) continue;
+			const c = (v00 >= level ? 1 : 0) | (v10 >= level ? 2 : 0) | (v11 >= level ? 4 : 0) | (v01 >= level ? 8 : 0);
+			if (c === 0 || c === 15) continue;
+			const point = (edge: number) => {
+				switch (edge) {
+					case 0: return [lerp(xs[i], xs[i + 1], v00, v10), ys[j]];
+					case 1: return [xs[i + 1], lerp(ys[j], ys[j + 1], v10, v11)];
+					case 2: return [lerp(xs[i], xs[i + 1], v01, v11), ys[j + 1]];
+					default: return [xs[i], lerp(ys[j], ys[j + 1], v00, v01)];
+				}
+			};
+			let pairs = CASES[c];
+			if (c === 5 || c === 10) {
+				// punto de silla: se decide con la media de la celda
+				const center = (v00 + v10 + v11 + v01) / 4 >= level;
+				pairs = c === 5
+					? (center ? [[3, 2], [1, 0]] : [[3, 0], [1, 2]])
+					: (center ? [[0, 3], [2, 1]] : [[0, 1], [2, 3]]);
+			}
+			for (const [a, b] of pairs) segs.push([point(a), point(b)]);
+		}
+	}
+	return segs;
+}
+
+// une segmentos por extremos comunes en polilíneas (cerradas si el primer y último punto coinciden)
+function linkSegments(segs: number[][][]) {
+	const key = (p: number[]) => `${p[0].toFixed(6)}|${p[1].toFixed(6)}`;
+	const byStart = new Map<string, number[]>();
+	const byEnd = new Map<string, number[]>();
+	segs.forEach((s, k) => {
+		(byStart.get(key(s[0])) ?? byStart.set(key(s[0]), []).get(key(s[0]))!).push(k);
+		(byEnd.get(key(s[1])) ?? byEnd.set(key(s[1]), []).get(key(s[1]))!).push(k);
+	});
+	const used = new Array(segs.length).fill(false);
+	const take = (list: number[] | undefined) => {
+		if (!list) return -1;
+		while (list.length) { const k = list.pop()!; if (!used[k]) return k; }
+		return -1;
+	};
+	const lines: number[][][] = [];
+	for (let k0 = 0; k0 < segs.length; k0++) {
+		if (used[k0]) continue;
+		used[k0] = true;
+		const line = [segs[k0][0], segs[k0][1]];
+		// avanzar desde el final
+		for (let k = take(byStart.get(key(line[line.length - 1]))); k >= 0; k = take(byStart.get(key(line[line.length - 1])))) {
+			used[k] = true;
+			line.push(segs[k][1]);
+		}
+		// retroceder desde el inicio (líneas abiertas)
+		for (let k = take(byEnd.get(key(line[0]))); k >= 0; k = take(byEnd.get(key(line[0])))) {
+			used[k] = true;
+			line.unshift(segs[k][0]);
+		}
+		lines.push(line);
+	}
+	return lines;
+}
+
+const finiteOrNaN = (v: number | null | undefined) => (v !== null && v !== undefined && Number.isFinite(v) ? v : NaN);
+
+/**
+ * isoLines
+ * Polilíneas del nivel indicado ([x,z][]); una línea está cerrada si su primer y último punto coinciden.
+ */
+export function isoLines(grid: Grid, level: number) {
+	const segs = marchingSegments(grid.x, grid.y, (i, j) => finiteOrNaN(grid.z[j]?.[i]), level);
+	return linkSegments(segs);
+}
+
+/**
+ * isoRings
+ * Anillos cerrados (primer punto repetido al final) que delimitan la región z >= nivel.
+ */
+export function isoRings(grid: Grid, level: number) {
+	const { x, y } = grid;
+	if (x.length < 1 || y.length < 1) return [];
+	// marco exterior una celda más allá de la grilla con valor por debajo de cualquier nivel;
+	// NaN se sustituye por ese mismo valor (interpolación distinta para cada nivel, sin vértices compartidos)
+	let zmin = Infinity;
+	for (const row of grid.z) for (const v of row) if (v !== null && Number.isFinite(v) && v < zmin) zmin = v;
+	const low = (Number.isFinite(zmin) ? Math.min(zmin, level) : level) - 1000;
+	const dx = x.length > 1 ? x[1] - x[0] : 1, dy = y.length > 1 ? y[1] - y[0] : 1;
+	const xs = [x[0] - dx, ...x, x[x.length - 1] + dx];
+	const ys = [y[0] - dy, ...y, y[y.length - 1] + dy];
+	const v = (i: number, j: number) => {
+		if (i === 0 || j === 0 || i === xs.length - 1 || j === ys.length - 1) return low;
+		const val = finiteOrNaN(grid.z[j - 1]?.[i - 1]);
+		return Number.isFinite(val) ? val : low;
+	};
+	return linkSegments(marchingSegments(xs, ys, v, level)).filter(l => l.length >= 4);
+}
+
+// test par-impar de punto en anillo
+function pointInRing(px: number, pz: number, ring: number[][]) {
+	let inside = false;
+	for (let a = 0, b = ring.length - 1; a < ring.length; b = a++) {
+		const xa = ring[a][0], za = ring[a][1], xb = ring[b][0], zb = ring[b][1];
+		if ((za > pz) !== (zb > pz) && px < (xb - xa) * (pz - za) / ((zb - za) || 1e-12) + xa) inside = !inside;
+	}
+	return inside;
+}
+
+/**
+ * ringsToPolygons
+ * Agrupa anillos anidados (sin cruces) en polígonos por la regla par-impar:
+ * profundidad par = exterior, impar = hueco del exterior inmediato que lo contiene.
+ */
+export function ringsToPolygons(rings: number[][][]): number[][][][] {
+	const depth = rings.map((r, k) => rings.reduce((acc, other, m) => acc + (m !== k && pointInRing(r[0][0], r[0][1], other) ? 1 : 0), 0));
+	const area = (r: number[][]) => {
+		let s = 0;
+		for (let a = 0, b = r.length - 1; a < r.length; b = a++) s += r[b][0] * r[a][1] - r[a][0] * r[b][1];
+		return Math.abs(s / 2);
+	};
+	const polygons: number[][][][] = [];
+	const outerIdx: number[] = [];
+	rings.forEach((r, k) => { if (depth[k] % 2 === 0) { polygons.push([r]); outerIdx.push(k); } });
+	rings.forEach((r, k) => {
+		if (depth[k] % 2 === 0) return;
+		// exterior que lo contiene con profundidad depth-1 (el más pequeño)
+		let best = -1;
+		outerIdx.forEach((o, p) => {
+			if (depth[o] !== depth[k] - 1 || !pointInRing(r[0][0], r[0][1], rings[o])) return;
+			if (best < 0 || area(rings[o]) < area(rings[outerIdx[best]])) best = p;
+		});
+		if (best >= 0) polygons[best].push(r);
+	});
+	return polygons;
+}
+
+/**
+ * isoBands
+ * Polígonos de cada banda [levels[k], levels[k+1]) (la última banda queda abierta por arriba: max = Infinity).
+ * La banda es la diferencia entre las regiones z >= min y z >= max (regla par-impar sobre ambos anillos).
+ */
+export function isoBands(grid: Grid, levels: number[]): IsoBand[] {
+	const sorted = [...levels].filter(Number.isFinite).sort((a, b) => a - b);
+	const ringsByLevel = sorted.map(l => isoRings(grid, l));
+	return sorted.map((min, k) => {
+		const rings = k + 1 < sorted.length ? [...ringsByLevel[k], ...ringsByLevel[k + 1]] : ringsByLevel[k];
+		return { min, max: k + 1 < sorted.length ? sorted[k + 1] : Infinity, polygons: ringsToPolygons(rings) };
+	}).filter(b => b.polygons.length);
+}
+
+/**
+ * extractContours
+ * Isolíneas de cada nivel sobre el HeatmapResult (las celdas NaN/null se saltan). Se descartan las
+ * líneas más cortas que `minLength` metros (ruido de una celda).
+ */
+export function extractContours(grid: Grid, levels: number[], minLength = 0): ContourLine[] {
+	const out: ContourLine[] = [];
+	if (!grid?.x?.length || !grid?.y?.length) return out;
+	const sorted = [...new Set(levels.filter(Number.isFinite))].sort((a, b) => a - b);
+	for (const level of sorted) {
+		for (const points of isoLines(grid, level)) {
+			if (points.length < 2) continue;
+			const steps = points.slice(1).map((p, k) => Math.hypot(p[0] - points[k][0], p[1] - points[k][1]));
+			const length = steps.reduce((a, b) => a + b, 0);
+			if (length < minLength) continue;
+			// rótulo a mitad de longitud
+			let acc = 0, k = 0;
+			while (k < steps.length - 1 && acc + steps[k] < length / 2) acc += steps[k++];
+			const t = steps[k] > 0 ? (length / 2 - acc) / steps[k] : 0;
+			const label = [points[k][0] + (points[k + 1][0] - points[k][0]) * t, points[k][1] + (points[k + 1][1] - points[k][1]) * t];
+			const first = points[0], last = points[points.length - 1];
+			out.push({ level, points, closed: points.length > 2 && first[0] === last[0] && first[1] === last[1], length, label });
+		}
+	}
+	return out;
+}
+
+/**
+ * contourLevels
+ * Niveles redondos cada `step` dB que cubren [min, max].
+ */
+export function contourLevels(min: number, max: number, step = 5) {
+	if (!Number.isFinite(min) || !Number.isFinite(max) || step <= 0) return [];
+	const out: number[] = [];
+	for (let l = Math.ceil(min / step) * step; l <= max; l += step) out.push(l);
+	return out;
+}
+
+export default { isoLines, isoRings, ringsToPolygons, isoBands, extractContours, contourLevels };
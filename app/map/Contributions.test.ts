@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { cellContributions, summarizeContributions } from "./Contributions";
+import { computeSceneHeatmap } from "./SceneHeatmap";
+import { defaultParams, getBuildingConfig } from "../config";
+import type { Config, Params, Scene } from "../types";
+
+const toDb = (e: number) => 10 * Math.log10(e);
+
+describe("summarizeContributions", () => {
+	// dos fachadas en una grilla de 1 × 3: domina la primera, solo llega la segunda, no llega ninguna
+	const energy = [[[100, 0, 0]], [[10, 50, 0]]];
+
+	it("fachada dominante y margen en dB sobre la segunda", () => {
+		const grid = summarizeContributions(["a", "b"], ["A", "B"], energy);
+		expect(grid.dominant[0]).toEqual([0, 1, -1]);
+		expect(grid.margin[0][0]).toBeCloseTo(10, 10);
+		expect(grid.margin[0][1]).toBe(Infinity);
+		expect(grid.margin[0][2]).toBeNaN();
+	});
+
+	it("las celdas fuera de la máscara quedan sin fachada", () => {
+		const grid = summarizeContributions(["a", "b"], ["A", "B"], energy, (_, i) => i !== 0);
+		expect(grid.dominant[0][0]).toBe(-1);
+		expect(grid.margin[0][0]).toBeNaN();
+	});
+});
+
+describe("aportes en un punto del mapa de la escena", () => {
+	const scene: Scene = {
+		buildings: [{
+			id: "a",
+			position: { x: 0, z: 0 },
+			rotation: 0,
+			footprint: [[-5, -5], [5, -5], [5, 5], [-5, 5]],
+			height: 8,
+			LwBySegment: [{ value: 80 }, { value: 70 }, { value: 60 }, { value: 0 }]
+		}],
+		sources: [{ id: "p", type: "point", points: [[15, 15]], height: 1.5, Lw: { value: 85 } }]
+	};
+	const config = { ...getBuildingConfig(), areaSize: 60, resolution: 30 } as Config;
+	const heatmap = computeSceneHeatmap(config, scene, defaultParams as Params);
+	const grid = heatmap.contributions!;
+
+	it("la suma energética de los aportes es el nivel total de cada celda", () => {
+		expect(grid.keys).toContain("sources/p");
+		let cells = 0;
+		heatmap.z.forEach((row, j) => row.forEach((v, i) => {
+			if (!Number.isFinite(v)) return;
+			expect(toDb(grid.energy.reduce((acc, e) => acc + e[j][i], 0))).toBeCloseTo(v, 9);
+			cells++;
+		}));
+		expect(cells).toBeGreaterThan(0);
+	});
+
+	it("cellContributions: las fracciones suman 1 y la primera es la fachada dominante", () => {
+		// receptor a 10 m delante del lado 0 (z = -5)
+		const j = heatmap.y.findIndex(y => y >= -15);
+		const i = heatmap.x.findIndex(x => x >= 0);
+		const parts = cellContributions(grid, j, i);
+		expect(parts.reduce((acc, c) => acc + c.share, 0)).toBeCloseTo(1, 12);
+		expect(toDb(parts.reduce((acc, c) => acc + Math.pow(10, c.Lp / 10), 0))).toBeCloseTo(heatmap.z[j][i], 9);
+		expect(parts[0].index).toBe(grid.dominant[j][i]);
+		expect(parts[0].key).toBe("a/segment-0");
+	});
+});
@@ -0,0 +1,56 @@
+import { FacadeContributionGrid } from "../types";
+
+/**
+ * Paleta categórica para el modo "fachada dominante" (se repite a partir de 12 fachadas).
+ */
+export const FACADE_PALETTE = [
+	"#e6194b", "#3cb44b", "#ffe119", "#4363d8", "#f58231", "#911eb4",
+	"#46f0f0", "#f032e6", "#bcf60c", "#fabebe", "#008080", "#9a6324"
+];
+
+export function facadeColor(index: number) {
+	return index >= 0 ? FACADE_PALETTE[index % FACADE_PALETTE.length] : "rgba(0,0,0,0)";
+}
+
+/**
+ * summarizeContributions
+ * Construye FacadeContributionGrid a partir de la energía por fachada: fachada dominante por celda
+ * y margen en dB sobre la segunda (Infinity si es la única que llega). Celdas con mask = false -> -1.
+ */
+export function summarizeContributions(keys: string[], labels: string[], energy: number[][][], mask?: (j: number, i: number) => boolean): FacadeContributionGrid {
+	const h = energy[0]?.length ?? 0;
+	const w = energy[0]?.[0]?.length ?? 0;
+	const dominant: number[][] = Array.from({ length: h }, () => new Array(w).fill(-1));
+	const margin: number[][] = Array.from({ length: h }, () => new Array(w).fill(NaN));
+	for (let j = 0; j < h; j++) {
+		for (let i = 0; i < w; i++) {
+			if (mask && !mask(j, i)) continue;
+			let best = -1, e1 = 0, e2 = 0;
+			for (let k = 0; k < energy.length; k++) {
+				const e = energy[k][j][i];
+				if (e > e1) { e2 = e1; e1 = e; best = k; }
+				else if (e > e2) e2 = e;
+			}
+			if (best < 0) continue;
+			dominant[j][i] = best;
+			margin[j][i] = e2 > 0 ? 10 * Math.log10(e1 / e2) : Infinity;
+		}
+	}
+	return { keys, labels, energy, dominant, margin };
+}
+
+/**
+ * cellContributions
+ * Aporte de cada fachada en la celda (fila j, columna i): nivel (dB) y fracción de la energía total,
+ * ordenado de mayor a menor y sin las fachadas que no llegan.
+ */
+export function cellContributions(grid: FacadeContributionGrid, j: number, i: number) {
+	const total = grid.energy.reduce((acc, e) => acc + (e[j]?.[i] ?? 0), 0);
+	return grid.energy
+		.map((e, k) => ({ key: grid.keys[k], label: grid.labels[k], index: k, energy: e[j]?.[i] ?? 0 }))
+		.filter(c => c.energy > 0)
+		.map(c => ({ ...c, Lp: 10 * Math.log10(c.energy), share: c.energy / total }))
+		.sort((a, b) => b.energy - a.energy);
+}
+
+export default { FACADE_PALETTE, facadeColor, summarizeContributions, cellContributions };
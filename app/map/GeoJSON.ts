@@ -0,0 +1,231 @@
+import PerimeterExtractor from "../Perimeter";
+import { Segment } from "../acoustics/ColorGradientManager";
+import { buildingGeometry, worldFootprint } from "../geometry/scene";
+import { isSimplePolygon } from "../geometry/footprint";
+import { contourLevels, isoBands } from "./Contours";
+import { HeatmapResult, LwSide, Scene, SceneBuilding } from "../types";
+
+/**
+ * GeoOrigin: desplazamiento de las coordenadas locales (metros) a EPSG:3857
+ * - x, y: coordenadas Web Mercator del origen local (0,0) de la escena
+ * - lat: latitud del origen (grados); si se indica, los metros locales se escalan por 1/cos(lat)
+ *   (factor de escala de Mercator) para que las distancias sobre el terreno se conserven
+ */
+export type GeoOrigin = { x: number; y: number; lat?: number };
+
+/**
+ * GeoJSONOptions
+ * - origin: si se omite, las coordenadas se exportan/importan en metros locales (sin CRS)
+ * - defaultHeight / defaultLw: valores para features sin `height` o sin Lw por lado
+ */
+export type GeoJSONOptions = { origin?: GeoOrigin; defaultHeight?: number; defaultLw?: number };
+
+/**
+ * ImportedFootprint: huella importada con las mismas estructuras que PerimeterExtractor
+ * (finalLoop en coordenadas de escena y segmentos segment-i del vértice i al i+1).
+ */
+export type ImportedFootprint = {
+	id: string;
+	name?: string;
+	height: number;
+	finalLoop: number[][];
+	segments: Segment[];
+	LwBySegment: LwSide[];
+};
+
+type Feature = { type: "Feature"; geometry: any; properties: Record<string, any> | null; id?: string | number };
+export type FeatureCollection = { type: "FeatureCollection"; features: Feature[]; crs?: any };
+
+const CRS_3857 = { type: "name", properties: { name: "urn:ogc:def:crs:EPSG::3857" } };
+const R_EARTH = 6378137;
+
+/**
+ * lonLatToWebMercator
+ * Coordenadas geográficas (WGS84, grados) -> EPSG:3857 (metros); útil para calcular GeoOrigin.
+ */
+export function lonLatToWebMercator(lon: number, lat: number): GeoOrigin {
+	const phi = Math.max(-85.05112878, Math.min(85.05112878, lat)) * Math.PI / 180;
+	return { x: R_EARTH * lon * Math.PI / 180, y: R_EARTH * Math.log(Math.tan(Math.PI / 4 + phi / 2)), lat };
+}
+
+// escala metros locales -> unidades EPSG:3857 en la latitud del origen
+const mercatorScale = (origin?: GeoOrigin) => origin?.lat !== undefined ? 1 / Math.cos(origin.lat * Math.PI / 180) : 1;
+
+/**
+ * toGeo / fromGeo
+ * Escena [x, z] <-> GeoJSON [este, norte]. El norte es -z (vista cenital de three.js sin espejo).
+ */
+export function toGeo(p: number[], origin?: GeoOrigin): number[] {
+	const k = mercatorScale(origin);
+	const e = p[0] * k + (origin?.x ?? 0);
+	const n = -p[1] * k + (origin?.y ?? 0);
+	return [Math.round(e * 1000) / 1000, Math.round(n * 1000) / 1000];
+}
+
+export function fromGeo(c: number[], origin?: GeoOrigin): number[] {
+	const k = mercatorScale(origin);
+	return [(Number(c[0]) - (origin?.x ?? 0)) / k, -(Number(c[1]) - (origin?.y ?? 0)) / k];
+}
+
+// anillo GeoJSON cerrado (primer punto repetido al final)
+function closeRing(ring: number[][]) {
+	if (!ring.length) return ring;
+	const a = ring[0], b = ring[ring.length - 1];
+	return a[0] === b[0] && a[1] === b[1] ? ring : [...ring, a];
+}
+
+// área con signo en coordenadas GeoJSON (positiva = antihoraria)
+function ringArea(ring: number[][]) {
+	let s = 0;
+	for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) s += ring[j][0] * ring[i][1] - ring[i][0] * ring[j][1];
+	return s / 2;
+}
+
+// Lw por lado desde las propiedades: `Lw` / `LwBySegment` / `lw` (número para todos los lados o lista por lado)
+function readLw(props: Record<string, any>, n: number, defaultLw: number): LwSide[] {
+	const raw = props.LwBySegment ?? props.Lw ?? props.lw;
+	const list: any[] = Array.isArray(raw) ? raw : (typeof raw === "string" ? raw.split(/[;,]/) : []);
+	const uniform = Number.isFinite(Number(raw)) && !Array.isArray(raw) && raw !== "" && raw !== null && raw !== undefined ? Number(raw) : defaultLw;
+	return Array.from({ length: n }, (_, i) => {
+		const v = list[i] !== undefined ? Number(typeof list[i] === "object" ? list[i]?.value : list[i]) : uniform;
+		return { value: Number.isFinite(v) ? v : defaultLw };
+	});
+}
+
+/**
+ * importFootprints
+ * Lee un FeatureCollection / Feature / geometría con Polygon o MultiPolygon (solo el anillo exterior de cada polígono).
+ * Propiedades por feature: `height` (m), `Lw` / `LwBySegment` (uno por lado, en el orden de los vértices), `name`, `id`.
+ * Devuelve las huellas válidas y avisos legibles para las que se descartan o se completan.
+ */
+export function importFootprints(geojson: any, options: GeoJSONOptions = {}): { footprints: ImportedFootprint[]; warnings: string[] } {
+	const defaultHeight = options.defaultHeight ?? 10;
+	const defaultLw = options.defaultLw ?? 30;
+	const warnings: string[] = [];
+	const features: Feature[] =
+		geojson?.type === "FeatureCollection" ? (geojson.features ?? []) :
+		geojson?.type === "Feature" ? [geojson] :
+		geojson?.type ? [{ type: "Feature", geometry: geojson, properties: {} }] : [];
+	if (!features.length) warnings.push("El GeoJSON no contiene features");
+
+	const footprints: ImportedFootprint[] = [];
+	features.forEach((f, fi) => {
+		const props = f?.properties ?? {};
+		const geom = f?.geometry;
+		const polygons: number[][][][] =
+			geom?.type === "Polygon" ? [geom.coordinates] :
+			geom?.type === "MultiPolygon" ? geom.coordinates : [];
+		if (!polygons.length) {
+			warnings.push(`features[${fi}]: geometría ${geom?.type ?? "vacía"} ignorada (se esperaba Polygon)`);
+			return;
+		}
+		polygons.forEach((rings, pi) => {
+			const label = polygons.length > 1 ? `features[${fi}].coordinates[${pi}]` : `features[${fi}]`;
+			const outer = (rings?.[0] ?? []).map(c => fromGeo(c, options.origin));
+			// quitar el vértice de cierre repetido
+			if (outer.length > 1 && Math.hypot(outer[0][0] - outer[outer.length - 1][0], outer[0][1] - outer[outer.length - 1][1]) < 1e-9) outer.pop();
+			if (!isSimplePolygon(outer)) {
+				warnings.push(`${label}: la huella no es un polígono simple`);
+				return;
+			}
+			if ((rings?.length ?? 0) > 1) warnings.push(`${label}: se ignoran ${rings.length - 1} huecos (patios interiores)`);
+			const height = Number(props.height ?? props.altura);
+			if (!(height > 0)) warnings.push(`${label}: sin "height" válido, se usa ${defaultHeight} m`);
+			const rawLw = props.LwBySegment ?? props.Lw ?? props.lw;
+			if (Array.isArray(rawLw) && rawLw.length !== outer.length) warnings.push(`${label}: ${rawLw.length} valores de Lw para ${outer.length} lados`);
+
+			const id = String(props.id ?? f.id ?? `b${footprints.length + 1}`) + (polygons.length > 1 ? `-${pi}` : "");
+			const b: SceneBuilding = { id, footprint: outer, height: height > 0 ? height : defaultHeight, position: { x: 0, z: 0 }, rotation: 0, LwBySegment: [] };
+			const geometry = buildingGeometry(b);
+			footprints.push({
+				id,
+				...(props.name !== undefined ? { name: String(props.name) } : {}),
+				height: b.height,
+				finalLoop: PerimeterExtractor.extractBasePerimeter(geometry),
+				segments: PerimeterExtractor.extractFacadesSegments(geometry) as Segment[],
+				LwBySegment: readLw(props, outer.length, defaultLw)
+			});
+		});
+	});
+	return { footprints, warnings };
+}
+
+/**
+ * footprintsToScene
+ * Convierte las huellas importadas en edificios de la escena (posición = centroide de vértices, sin giro).
+ */
+export function footprintsToScene(footprints: ImportedFootprint[]): Scene {
+	const used = new Set<string>();
+	return {
+		buildings: footprints.map(fp => {
+			const cx = fp.finalLoop.reduce((s, p) => s + p[0], 0) / fp.finalLoop.length;
+			const cz = fp.finalLoop.reduce((s, p) => s + p[1], 0) / fp.finalLoop.length;
+			let id = fp.id;
+			for (let n = 2; used.has(id); n++) id = `${fp.id}-${n}`;
+			used.add(id);
+			return {
+				id,
+				name: fp.name ?? `Edificio ${id}`,
+				footprint: fp.finalLoop.map(([x, z]) => [x - cx, z - cz]),
+				height: fp.height,
+				position: { x: cx, z: cz },
+				rotation: 0,
+				LwBySegment: fp.LwBySegment.map(lw => ({ ...lw }))
+			};
+		})
+	};
+}
+
+/**
+ * sceneToGeoJSON
+ * Huellas de la escena como Polygon (vértices en el orden de los segmentos, `Lw` por lado) para ida y vuelta.
+ */
+export function sceneToGeoJSON(scene: Scene, options: GeoJSONOptions = {}): FeatureCollection {
+	return {
+		type: "FeatureCollection",
+		...(options.origin ? { crs: CRS_3857 } : {}),
+		features: (scene?.buildings ?? []).map(b => ({
+			type: "Feature",
+			properties: {
+				id: b.id,
+				name: b.name ?? b.id,
+				height: b.height,
+				Lw: (b.LwBySegment ?? []).map(lw => Number(lw?.value ?? 0))
+			},
+			geometry: { type: "Polygon", coordinates: [closeRing(worldFootprint(b).map(p => toGeo(p, options.origin)))] }
+		}))
+	};
+}
+
+/**
+ * heatmapToGeoJSON
+ * Isófonas del HeatmapResult como polígonos (MultiPolygon por banda [min, max) dB), listas para simbolizar en QGIS:
+ * propiedades `level_min`, `level_max` (null en la banda superior) y `label`. Anillos exteriores antihorarios
+ * y huecos horarios (RFC 7946). `levels` explícitos o cada `step` dB (5 por defecto) entre min y max.
+ */
+export function heatmapToGeoJSON(heatmap: HeatmapResult, options: GeoJSONOptions & { levels?: number[]; step?: number } = {}): FeatureCollection {
+	const levels = options.levels ?? contourLevels(heatmap.min, heatmap.max, options.step ?? 5);
+	const bands = heatmap?.x?.length ? isoBands(heatmap, levels) : [];
+	return {
+		type: "FeatureCollection",
+		...(options.origin ? { crs: CRS_3857 } : {}),
+		features: bands.map(band => ({
+			type: "Feature",
+			properties: {
+				level_min: band.min,
+				level_max: Number.isFinite(band.max) ? band.max : null,
+				label: Number.isFinite(band.max) ? `${band.min} - ${band.max} dB` : `>= ${band.min} dB`
+			},
+			geometry: {
+				type: "MultiPolygon",
+				coordinates: band.polygons.map(rings => rings.map((ring, k) => {
+					const geo = closeRing(ring.map(p => toGeo(p, options.origin)));
+					// k = 0 exterior (antihorario), resto huecos (horario)
+					return (ringArea(geo) > 0) === (k === 0) ? geo : [...geo].reverse();
+				}))
+			}
+		}))
+	};
+}
+
+export default { lonLatToWebMercator, toGeo, fromGeo, importFootprints, footprintsToScene, sceneToGeoJSON, heatmapToGeoJSON };
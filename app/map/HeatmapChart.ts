@@ -0,0 +1,95 @@
+import { buildThresholdColorscale } from "../acoustics/ColorMap";
+import { facadeColor } from "./Contributions";
+import { classifyCompliance, COMPLIANCE_CLASSES, COMPLIANCE_COLORS } from "../acoustics/Compliance";
+import { heatmapZRange } from "./HeatmapTexture";
+import { HeatmapResult, Params } from "../types";
+
+/**
+ * heatmapTrace
+ * Traza Plotly del mapa: niveles con buildThresholdColorscale sobre heatmapZRange o, con
+ * params.mapMode === "dominant", índice de la fachada principal con paleta categórica y sin suavizado
+ * (igual con "compliance": clase cumple / cerca / supera de cada celda dentro de las zonas acústicas).
+ */
+export function heatmapTrace(heatmap: HeatmapResult, params: Params | undefined, building?: { LwBySegment?: { value?: number }[] }) {
+	const colorscale = buildThresholdColorscale(heatmap.min, heatmap.max, params?.colorOverlay);
+	const { zmin, zmax } = heatmapZRange(heatmap, building);
+	const trace: Record<string, any> = {
+		x: heatmap.x,
+		y: heatmap.y,
+		z: heatmap.z,
+		type: "heatmap" as const,
+		colorscale,
+		zmin,
+		zmax,
+		zsmooth: "best",
+		showscale: false,
+		hoverinfo: "skip"
+	};
+
+	const contributions = heatmap.contributions;
+	if (params?.mapMode === "dominant" && contributions?.keys?.length) {
+		const n = contributions.keys.length;
+		Object.assign(trace, {
+			z: contributions.dominant.map((row: number[]) => row.map(k => k >= 0 ? k : NaN)),
+			colorscale: contributions.keys.flatMap((_: string, k: number) => [[k / n, facadeColor(k)], [(k + 1) / n, facadeColor(k)]]),
+			zmin: -0.5,
+			zmax: n - 0.5,
+			zsmooth: false
+		});
+	}
+	if (params?.mapMode === "compliance") {
+		const n = COMPLIANCE_CLASSES.length;
+		Object.assign(trace, {
+			z: classifyCompliance(heatmap, params.compliance).classes.map(row => row.map(k => k >= 0 ? k : NaN)),
+			colorscale: COMPLIANCE_COLORS.flatMap((c, k) => [[k / n, c], [(k + 1) / n, c]]),
+			zmin: -0.5,
+			zmax: n - 0.5,
+			zsmooth: false
+		});
+	}
+	return trace;
+}
+
+/**
+ * exportHeatmapChart
+ * Gráfico 2D del mapa con ejes (m), barra de color (dB) y tooltip de cada celda, descargado como PNG.
+ * Plotly se carga solo aquí (y en el render "plotly" de la textura): el visor 3D no lo necesita.
+ */
+export async function exportHeatmapChart(heatmap: HeatmapResult, params: Params | undefined, building?: { LwBySegment?: { value?: number }[] }, filename = "mapa") {
+	const mod = await import("plotly.js-dist-min");
+	const plotly: any = (mod as any)?.default ?? mod;
+	const dominant = params?.mapMode === "dominant" && !!heatmap.contributions?.keys?.length;
+	const compliance = params?.mapMode === "compliance";
+	const trace = {
+		...heatmapTrace(heatmap, params, building),
+		showscale: !dominant,
+		colorbar: compliance
+			? { title: { text: "Límite" }, tickvals: COMPLIANCE_CLASSES.map((_, k) => k), ticktext: [...COMPLIANCE_CLASSES] }
+			: { title: { text: "Lp (dB)" } },
+		text: heatmap.hover,
+		hoverinfo: "text"
+	};
+	const layout = {
+		width: 1000,
+		height: 900,
+		title: { text: dominant ? "Fachada dominante" : compliance ? "Cumplimiento de límites por zona" : "Nivel de presión sonora Lp (dB)" },
+		xaxis: { title: { text: "x (m)" }, scaleanchor: "y" },
+		yaxis: { title: { text: "z (m)" } },
+		paper_bgcolor: "#ffffff",
+		plot_bgcolor: "#ffffff"
+	};
+
+	const container = document.createElement("div");
+	container.style.position = "absolute";
+	container.style.left = "-20000px";
+	document.body.appendChild(container);
+	try {
+		await plotly.newPlot(container, [trace], layout, { staticPlot: true });
+		await plotly.downloadImage(container, { format: "png", width: layout.width, height: layout.height, filename });
+	} finally {
+		try { plotly.purge(container); } catch (e) {}
+		container.remove();
+	}
+}
+
+export default { heatmapTrace, exportHeatmapChart };
@@ -0,0 +1,147 @@
+import { buildThresholdColorscale } from "../acoustics/ColorMap";
+import { FACADE_PALETTE } from "./Contributions";
+import { classifyCompliance, COMPLIANCE_COLORS } from "../acoustics/Compliance";
+import { HeatmapResult, Params } from "../types";
+
+/**
+ * heatmapZRange
+ * Rango de color [zmin, zmax] (dB) del mapa: min/max del heatmap redondeados hacia fuera o, si el mapa es
+ * degenerado (vacío o plano), el rango de los Lw por segmento con margen (mismo criterio en todos los renders).
+ */
+export function heatmapZRange(heatmap: HeatmapResult, building?: { LwBySegment?: { value?: number }[] }) {
+	let zmin = Number.isFinite(heatmap.min) ? Math.floor(heatmap.min) : NaN;
+	let zmax = Number.isFinite(heatmap.max) ? Math.ceil(heatmap.max) : NaN;
+	if (!Number.isFinite(zmin) || !Number.isFinite(zmax) || zmin >= zmax) {
+		const segs = building?.LwBySegment || [];
+		const lwVals = Array.isArray(segs) ? segs.map(s => Number(s?.value ?? NaN)).filter(Number.isFinite) : [];
+		const lwMin = lwVals.length ? Math.min(...lwVals) : 0;
+		const lwMax = lwVals.length ? Math.max(...lwVals) : 80;
+		const pad = Math.max(4, Math.ceil((lwMax - lwMin) * 0.25));
+		zmin = Math.floor(Math.min(lwMin, (heatmap.min || lwMin)) - pad);
+		zmax = Math.ceil(Math.max(lwMax, (heatmap.max || lwMax)) + pad);
+	}
+	if (zmin >= zmax) { zmin = (heatmap.min || 0) - 10; zmax = (heatmap.max || 0) + 10; }
+	return { zmin, zmax };
+}
+
+const hexToRgb = (hex: string) => {
+	const n = parseInt(hex.replace("#", ""), 16);
+	return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+};
+
+/**
+ * colorLUT
+ * Tabla RGB de `size` entradas que reproduce un colorscale [pos, "#rrggbb"][] con interpolación lineal
+ * entre paradas (como Plotly).
+ */
+export function colorLUT(colorscale: [number, string][], size = 1024) {
+	const stops = colorscale.map(([p, c]) => ({ p: Number(p), rgb: hexToRgb(c) })).sort((a, b) => a.p - b.p);
+	const lut = new Uint8Array(size * 3);
+	let k = 0;
+	for (let n = 0; n < size; n++) {
+		const t = n / (size - 1);
+		while (k < stops.length - 2 && t > stops[k + 1].p) k++;
+		const a = stops[k], b = stops[Math.min(k + 1, stops.length - 1)];
+		const f = b.p > a.p ? Math.max(0, Math.min(1, (t - a.p) / (b.p - a.p))) : 0;
+		for (let c = 0; c < 3; c++) lut[n * 3 + c] = Math.round(a.rgb[c] + (b.rgb[c] - a.rgb[c]) * f);
+	}
+	return lut;
+}
+
+/**
+ * textureSize
+ * Lado de la textura: ~8 texels por celda (la GPU suaviza el resto), entre 256 y 2048.
+ */
+export function textureSize(cells: number) {
+	return Math.max(256, Math.min(2048, Math.ceil(cells * 8)));
+}
+
+/**
+ * renderHeatmapRGBA
+ *
+ * Rasteriza HeatmapResult.z directamente a RGBA (Uint8Array, fila 0 = y máxima, como la imagen de Plotly
+ * sobre el plano del mapa) sin pasar por Plotly:
+ *  - el nivel de cada texel se interpola bilinealmente entre los centros de celda (solo con vecinos finitos)
+ *    y se colorea con buildThresholdColorscale sobre heatmapZRange;
+ *  - las celdas sin datos (NaN: huellas, fuera de alcance) quedan transparentes según la celda más cercana;
+ *  - con params.mapMode === "dominant" cada texel toma el color de la fachada dominante de su celda (sin
+ *    interpolar, como zsmooth = false);
+ *  - con params.mapMode === "compliance" toma el color de la clase de su celda (cumple / cerca / supera,
+ *    classifyCompliance); fuera de las zonas acústicas queda transparente.
+ */
+export function renderHeatmapRGBA(
+	heatmap: HeatmapResult,
+	params: Params | undefined,
+	building?: { LwBySegment?: { value?: number }[] },
+	size?: number
+): { data: Uint8Array<ArrayBuffer>; width: number; height: number } {
+	const nx = heatmap?.x?.length ?? 0;
+	const ny = heatmap?.y?.length ?? 0;
+	const width = size ?? textureSize(Math.max(nx, ny));
+	const height = width;
+	const data = new Uint8Array(width * height * 4);
+	if (!nx || !ny || !heatmap.z?.length) return { data, width, height };
+
+	const { x, y, z } = heatmap;
+	const dx = nx > 1 ? x[1] - x[0] : 1;
+	const dy = ny > 1 ? y[1] - y[0] : 1;
+	// extensión de la grilla (bordes de celda)
+	const left = x[0] - dx / 2, right = x[nx - 1] + dx / 2;
+	const bottom = y[0] - dy / 2, top = y[ny - 1] + dy / 2;
+
+	const dominant = params?.mapMode === "dominant" && heatmap.contributions?.keys?.length ? heatmap.contributions.dominant : null;
+	const palette = FACADE_PALETTE.map(hexToRgb);
+	const compliance = params?.mapMode === "compliance" ? classifyCompliance(heatmap, params.compliance).classes : null;
+	const classColors = COMPLIANCE_COLORS.map(hexToRgb);
+	const { zmin, zmax } = heatmapZRange(heatmap, building);
+	const LUT_SIZE = 1024;
+	const lut = colorLUT(buildThresholdColorscale(heatmap.min, heatmap.max, params?.colorOverlay) as [number, string][], LUT_SIZE);
+	const clampIndex = (v: number, n: number) => Math.max(0, Math.min(n - 1, v));
+
+	for (let r = 0; r < height; r++) {
+		const wy = top - ((r + 0.5) / height) * (top - bottom);
+		const fj = (wy - y[0]) / dy;
+		const nj = clampIndex(Math.round(fj), ny);
+		const j0 = clampIndex(Math.floor(fj), ny), j1 = clampIndex(j0 + 1, ny);
+		const ty = Math.max(0, Math.min(1, fj - j0));
+		for (let c = 0; c < width; c++) {
+			const wx = left + ((c + 0.5) / width) * (right - left);
+			const fi = (wx - x[0]) / dx;
+			const ni = clampIndex(Math.round(fi), nx);
+			const o = (r * width + c) * 4;
+			if (!Number.isFinite(z[nj]?.[ni])) continue;
+
+			if (dominant) {
+				const k = dominant[nj]?.[ni] ?? -1;
+				if (k < 0) continue;
+				const rgb = palette[k % palette.length];
+				data[o] = rgb[0]; data[o + 1] = rgb[1]; data[o + 2] = rgb[2]; data[o + 3] = 255;
+				continue;
+			}
+			if (compliance) {
+				const k = compliance[nj]?.[ni] ?? -1;
+				if (k < 0) continue;
+				const rgb = classColors[k];
+				data[o] = rgb[0]; data[o + 1] = rgb[1]; data[o + 2] = rgb[2]; data[o + 3] = 255;
+				continue;
+			}
+
+			const i0 = clampIndex(Math.floor(fi), nx), i1 = clampIndex(i0 + 1, nx);
+			const tx = Math.max(0, Math.min(1, fi - i0));
+			// bilineal con los vecinos finitos (el borde de una huella no arrastra NaN hacia fuera)
+			let acc = 0, wsum = 0;
+			for (let q = 0; q < 4; q++) {
+				const v = z[q < 2 ? j0 : j1][q % 2 ? i1 : i0];
+				const wgt = (q % 2 ? tx : 1 - tx) * (q < 2 ? 1 - ty : ty);
+				if (wgt > 0 && Number.isFinite(v)) { acc += v * wgt; wsum += wgt; }
+			}
+			const v = wsum > 0 ? acc / wsum : z[nj][ni];
+			const t = Math.max(0, Math.min(1, (v - zmin) / (zmax - zmin)));
+			const n = Math.round(t * (LUT_SIZE - 1)) * 3;
+			data[o] = lut[n]; data[o + 1] = lut[n + 1]; data[o + 2] = lut[n + 2]; data[o + 3] = 255;
+		}
+	}
+	return { data, width, height };
+}
+
+export default { heatmapZRange, colorLUT, textureSize, renderHeatmapRGBA };
@@ -0,0 +1,211 @@
+import { sceneGrid, SceneRowsChunk } from "./SceneHeatmap";
+import type { ReceiverResult } from "./Receivers";
+import { Config, Params, Scene } from "../types";
+
+/**
+ * HeatmapJob: entrada de computeSceneRows (escena completa; cada worker la recibe una vez por trabajo)
+ */
+export type HeatmapJob = { config: Config; scene: Scene; params: Params };
+
+// mensajes hilo principal <-> heatmap.worker
+export type HeatmapRowsRequest = { jobId: number; j0: number; j1: number; job?: HeatmapJob };
+export type HeatmapRowsResponse =
+	| { jobId: number; chunk: SceneRowsChunk }
+	| { jobId: number; j0: number; j1: number; error: string };
+export type ReceiversRequest = { jobId: number; receivers: { scene: Scene; params: Params } };
+export type ReceiversResponse =
+	| { jobId: number; results: ReceiverResult[] }
+	| { jobId: number; error: string };
+export type HeatmapWorkerRequest = HeatmapRowsRequest | ReceiversRequest;
+export type HeatmapWorkerResponse = HeatmapRowsResponse | ReceiversResponse;
+
+/**
+ * HeatmapJobCallbacks
+ * - onChunk: bloque de filas terminado (done/total: filas calculadas / filas del mapa)
+ * - onDone: todas las filas del trabajo han llegado
+ * - onError: fallo en un worker (el trabajo se cancela)
+ */
+export type HeatmapJobCallbacks = {
+	onChunk: (chunk: SceneRowsChunk, done: number, total: number) => void;
+	onDone: () => void;
+	onError?: (message: string) => void;
+};
+
+/**
+ * ReceiversJobCallbacks
+ * - onDone: niveles de todos los receptores (computeReceiverLevels)
+ * - onError: fallo en el worker
+ */
+export type ReceiversJobCallbacks = {
+	onDone: (results: ReceiverResult[]) => void;
+	onError?: (message: string) => void;
+};
+
+type PoolWorker = { worker: Worker; busy: boolean; jobId: number };
+
+/**
+ * HeatmapWorkerPool
+ *
+ * Reparte las filas del mapa de la escena entre varios Web Workers (heatmap.worker.ts):
+ *  - las filas se piden en bloques pequeños a medida que cada worker queda libre (cola dinámica),
+ *    así los workers terminan a la vez aunque unas filas cuesten más que otras;
+ *  - run() con un trabajo nuevo cancela el anterior: se vacía la cola y se ignoran los bloques que
+ *    lleguen con un jobId antiguo (un worker ocupado solo termina el bloque que tiene entre manos);
+ *  - los bloques se devuelven en orden de llegada; el hook los une con assembleSceneHeatmap;
+ *  - runReceivers() calcula los niveles en los receptores en un solo worker, con la misma cancelación.
+ */
+export default class HeatmapWorkerPool {
+	private workers: PoolWorker[] = [];
+	private jobId = 0;
+	private job: HeatmapJob | null = null;
+	private callbacks: HeatmapJobCallbacks | null = null;
+	private receiversCallbacks: ReceiversJobCallbacks | null = null;
+	private queue: [number, number][] = [];
+	private done = 0;
+	private total = 0;
+
+	/**
+	 * isSupported
+	 * false en el servidor (render de Next) o en navegadores sin Web Workers.
+	 */
+	static isSupported() {
+		return typeof window !== "undefined" && typeof Worker !== "undefined";
+	}
+
+	/**
+	 * defaultSize
+	 * Núcleos disponibles menos uno (el hilo de la vista 3D), entre 1 y 4.
+	 */
+	static defaultSize() {
+		const cores = typeof navigator !== "undefined" ? navigator.hardwareConcurrency ?? 2 : 2;
+		return Math.max(1, Math.min(4, cores - 1));
+	}
+
+	constructor(private size = HeatmapWorkerPool.defaultSize()) {}
+
+	/**
+	 * run
+	 * Lanza un trabajo (cancela el que estuviera en curso) y devuelve su jobId.
+	 */
+	run(job: HeatmapJob, callbacks: HeatmapJobCallbacks): number {
+		this.cancel();
+		const { res } = sceneGrid(job.config);
+		// bloques de ~2 % del mapa: progreso fino y poco trabajo perdido al cancelar
+		const rows = Math.max(1, Math.ceil(res / 50));
+		for (let j = 0; j < res; j += rows) this.queue.push([j, Math.min(res, j + rows)]);
+		this.job = job;
+		this.callbacks = callbacks;
+		this.done = 0;
+		this.total = res;
+		if (!res) {
+			this.finish();
+			return this.jobId;
+		}
+		this.ensureWorkers();
+		this.pump();
+		return this.jobId;
+	}
+
+	/**
+	 * runReceivers
+	 * Niveles en los receptores de la escena en un worker (cancela el trabajo en curso) y devuelve su jobId.
+	 * Si todos los workers están ocupados, el mensaje espera en la cola del primero.
+	 */
+	runReceivers(scene: Scene, params: Params, callbacks: ReceiversJobCallbacks): number {
+		this.cancel();
+		this.receiversCallbacks = callbacks;
+		this.ensureWorkers();
+		const w = this.workers.find(w => !w.busy) ?? this.workers[0];
+		// el siguiente trabajo de filas vuelve a enviar la escena a este worker
+		w.jobId = -1;
+		w.busy = true;
+		const msg: ReceiversRequest = { jobId: this.jobId, receivers: { scene, params } };
+		w.worker.postMessage(msg);
+		return this.jobId;
+	}
+
+	/**
+	 * cancel
+	 * Descarta el trabajo en curso: no se piden más filas y los bloques pendientes se ignoran.
+	 */
+	cancel() {
+		this.jobId++;
+		this.job = null;
+		this.callbacks = null;
+		this.receiversCallbacks = null;
+		this.queue = [];
+	}
+
+	/**
+	 * dispose
+	 * Cancela y termina todos los workers.
+	 */
+	dispose() {
+		this.cancel();
+		for (const w of this.workers) w.worker.terminate();
+		this.workers = [];
+	}
+
+	private ensureWorkers() {
+		while (this.workers.length < this.size) {
+			const worker = new Worker(new URL("./heatmap.worker.ts", import.meta.url));
+			const entry: PoolWorker = { worker, busy: false, jobId: -1 };
+			worker.onmessage = (e: MessageEvent<HeatmapWorkerResponse>) => this.onMessage(entry, e.data);
+			worker.onerror = (e: ErrorEvent) => {
+				e.preventDefault();
+				entry.busy = false;
+				this.fail(e.message || "Error en el worker del mapa");
+			};
+			this.workers.push(entry);
+		}
+	}
+
+	private pump() {
+		if (!this.job) return;
+		for (const w of this.workers) {
+			if (w.busy || !this.queue.length) continue;
+			const [j0, j1] = this.queue.shift()!;
+			const msg: HeatmapRowsRequest = { jobId: this.jobId, j0, j1 };
+			// la escena viaja solo en el primer bloque de cada worker para este trabajo
+			if (w.jobId !== this.jobId) msg.job = this.job;
+			w.jobId = this.jobId;
+			w.busy = true;
+			w.worker.postMessage(msg);
+		}
+	}
+
+	private onMessage(w: PoolWorker, msg: HeatmapWorkerResponse) {
+		w.busy = false;
+		if (msg.jobId !== this.jobId || !(this.callbacks || this.receiversCallbacks)) {
+			this.pump();
+			return;
+		}
+		if ("error" in msg) {
+			this.fail(msg.error);
+			return;
+		}
+		if ("results" in msg) {
+			const callbacks = this.receiversCallbacks;
+			this.cancel();
+			callbacks?.onDone(msg.results);
+			return;
+		}
+		if (!this.callbacks) return;
+		this.done += msg.chunk.j1 - msg.chunk.j0;
+		this.callbacks.onChunk(msg.chunk, this.done, this.total);
+		if (this.done >= this.total) this.finish();
+		else this.pump();
+	}
+
+	private finish() {
+		const callbacks = this.callbacks;
+		this.cancel();
+		callbacks?.onDone();
+	}
+
+	private fail(message: string) {
+		const callbacks = this.callbacks ?? this.receiversCallbacks;
+		this.cancel();
+		callbacks?.onError?.(message);
+	}
+}
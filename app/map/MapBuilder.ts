@@ -1,67 +1,141 @@
 import WaveEmitter from "../acoustics/WaveEmitter";
 import AcousticCalculator from "../acoustics/AcousticCalculator";
+import { EmissionPatch, emissionPatches } from "../acoustics/FacadeUtils";
+import ISOModel, { SourceSimple, spectrumFromBroadband } from "../lib/ISOModel";
+import BuildingScreen from "../acoustics/BuildingScreen";
+import { sampleSource } from "../acoustics/StandaloneSources";
 import { getBuildingConfig } from "../config";
+import { footprintMask, prepareSceneBuildings, sceneLevels } from "./SceneHeatmap";
+import { Scene } from "../types";
+import { activeGround } from "../acoustics/GroundRegions";
 
 /**
  * buildHeatmap
  * Parámetros:
  *  - finalLoop: array de puntos del perímetro ([[x,z],...])
  *  - config: building config (areaSize, resolution, footprint, ...)
- *  - building: objeto con LwBySegment (valores por segmento)
+ *  - building: objeto con LwBySegment (valores por segmento) y facades (muro y elementos de cada fachada)
  *  - params: parámetros visuales / cálculos
+ * Convenio de Re' (el mismo que el mapa de la escena): el Lw de LwBySegment es el Lw radiado por el lado
+ * (Lw_out). En modo Lw la composición de la fachada solo reparte esa potencia entre muro y elementos
+ * (emissionPatches) y en modo Lp roomLwBySegment ya ha restado el Re' de la sala, así que el calculador
+ * no resta Re' en ningún lado (outSegments = todos).
  *  - refreshKey: cualquier token para forzar recálculo (no usado internamente, pero pasado por compatibilidad)
+ *  - obstacles: otros edificios ({ poly, height }) que apantallan y se excluyen del mapa
  *
- * Devuelve: resultado de AcousticCalculator.compute ({ x,y,z,min,max,poly })
+ * Devuelve: resultado de AcousticCalculator.compute ({ x,y,z,min,max,poly,bands }); z es el LAeq de `bands`
  */
-export function buildHeatmap(finalLoop: number[][], config: any, building: any, params: any, refreshKey?: any) {
+export function buildHeatmap(finalLoop: number[][], config: any, building: any, params: any, refreshKey?: any, obstacles?: { poly: number[][]; height: number }[]) {
 	const main = (finalLoop || []).map((point: number[], i: number) => ({
 		name: `segment-${i}`,
 		p1: point,
 		p2: finalLoop[(i + 1) % finalLoop.length]
 	}));
 
-	// construir objeto Lw por segmento
+	// construir objeto Lw por segmento (y espectro por octavas cuando el segmento lo define)
 	const LwObj: Record<string, number> = {};
+	const LwSpectrum: Record<string, number[]> = {};
 	const segments = (building as any).LwBySegment || [];
 	segments.forEach((lw: any, idx: number) => {
 		// Use 0 dB as default (no emission) to avoid a uniform background source.
 		LwObj[`segment-${idx}`] = Number.isFinite(Number(lw?.value)) ? Number(lw.value) : 0;
+		if (Array.isArray(lw?.spectrum)) LwSpectrum[`segment-${idx}`] = lw.spectrum.map(Number);
 	});
 
-	// Si exactamente una fachada tiene Lw>0, aplicar presets visuales (como antes)
-	const nonZeroIndices = segments
-		.map((s: any, i: number) => ({ idx: i, v: Number(s?.value || 0) }))
-		.filter((p: { v: number; idx: number }) => Number.isFinite(p.v) && p.v > 0)
-		.map((p: { idx: number; v: number }) => p.idx);
-	let paramsForCalc = params;
-	if (nonZeroIndices.length === 1) {
-		paramsForCalc = {
-			...(params || {}),
-			colorOverlay: {
-				...(params && (params as any).colorOverlay),
-				overlaySmoothSize: 0,
-				overlaySmoothSigma: 3.6,
-				lateralSpreadFactor: 1.5,
-				colorSpread: { ...(params && (params as any).colorOverlay?.colorSpread), yellow: 3.4, green: 5.0, blue: 8.0 },
-				redMaxDist: 2.0,
-				yellowMaxDist: 6.0
-			}
-		};
+	const sampleSpacing = params?.sourceSpacing ?? Math.max(0.25, Math.min(1.0, (config?.footprint ?? 16) / 12));
+	// fachadas con elementos: cada elemento emite desde su posición. Las muestras llevan ya su espectro
+	// (el calculador solo reparte por igual las que no lo traen)
+	const patches: Record<string, EmissionPatch[]> = {};
+	for (const seg of main) {
+		const layout = emissionPatches(building?.facades?.[seg.name], Math.hypot(seg.p2[0] - seg.p1[0], seg.p2[1] - seg.p1[1]), Number(config?.buildingHeight ?? 10));
+		if (layout) patches[seg.name] = layout;
 	}
-
-	const sampleSpacing = paramsForCalc?.sourceSpacing ?? Math.max(0.25, Math.min(1.0, (config?.footprint ?? 16) / 12));
-	const perimeterSources = WaveEmitter.generateSources(finalLoop, main, sampleSpacing, 0.05, LwObj);
+	const spectra = Object.keys(patches).length
+		? Object.fromEntries(main.map(seg => [seg.name, LwSpectrum[seg.name] ?? spectrumFromBroadband(LwObj[seg.name] ?? 0)]))
+		: undefined;
+	const perimeterSources = WaveEmitter.generateSources(finalLoop, main, sampleSpacing, 0.05, LwObj, spectra, patches);
 
 	return AcousticCalculator.compute({
 		areaSize: config.areaSize,
 		resolution: config.resolution,
 		footprint: config.footprint,
+		buildingHeight: config.buildingHeight,
+		facades: building?.facades,
+		outSegments: main.map(seg => seg.name),
+		measureH: config.measureH,
 		poly: finalLoop,
 		main,
 		sources: perimeterSources,
 		Lw: LwObj as any,
-		params: paramsForCalc
+		LwSpectrum,
+		obstacles,
+		params
+	});
+}
+
+/**
+ * buildSceneHeatmap
+ * Versión multi-edificio de buildHeatmap: calcula cada edificio con los demás como obstáculos
+ * y suma las energías de `z` y de cada banda de octava. Las huellas quedan a null.
+ * Las fuentes independientes (scene.sources) se calculan por bandas sobre la misma grilla, con su Lw
+ * radiado tal cual (sin Df_room / Df_out) y los edificios como pantallas.
+ */
+export function buildSceneHeatmap(scene: Scene, config: any, params: any) {
+	const prepared = prepareSceneBuildings(scene, params);
+	const results = prepared.map(p => buildHeatmap(
+		p.loop,
+		{ ...config, buildingHeight: p.building.height },
+		p.building,
+		params,
+		undefined,
+		prepared.filter(o => o !== p).map(o => ({ poly: o.loop, height: o.building.height }))
+	));
+	if (!results.length) return null;
+
+	const { x, y } = results[0];
+	const inside = footprintMask(prepared, x, y);
+	// misma suma que el mapa de la escena (sceneLevels); este motor deja a null las celdas sin nivel
+	const toE = (v: number | null) => (v !== null && Number.isFinite(v) ? Math.pow(10, v / 10) : 0);
+	const sumGrids = (grids: (number | null)[][][]) => {
+		const levels = sceneLevels(grids[0].map((row, j) => row.map((_, i) => grids.reduce((acc, g) => acc + toE(g[j][i]), 0))), inside);
+		return { ...levels, z: levels.z.map(row => row.map(v => (Number.isFinite(v) ? v : null))) };
+	};
+
+	const standalone = standaloneBands(scene, config, params, x, y, inside, prepared.map(p => new BuildingScreen(p.loop, Number(p.building.height ?? 10))));
+	const total = sumGrids([...results.map(r => r.z), ...(standalone ? [standalone.LAeq] : [])]);
+	const bands = results[0].bands.map((b, k) => ({ freq: b.freq, z: sumGrids([...results.map(r => r.bands[k].z), ...(standalone ? [standalone.bands[k]] : [])]).z }));
+	return {
+		x,
+		y,
+		z: total.z,
+		min: Number.isFinite(total.min) ? total.min : 0,
+		max: Number.isFinite(total.max) ? total.max : 0,
+		polys: prepared.map(p => p.loop),
+		bands
+	};
+}
+
+// bandas y LAeq de las fuentes independientes en las celdas fuera de las huellas; null si la escena no tiene
+function standaloneBands(scene: Scene, config: any, params: any, xs: number[], ys: number[], inside: boolean[][], screens: BuildingScreen[]) {
+	const indicator = params?.indicator ?? "steady";
+	const spacing = params?.sourceSpacing ?? Math.max(0.25, Math.min(1.0, (config?.footprint ?? 16) / 12));
+	const sources: SourceSimple[] = (scene?.sources ?? []).flatMap(source => {
+		const value = Number(source.Lw?.value ?? 0);
+		const spectrum = Array.isArray(source.Lw?.spectrum) ? source.Lw.spectrum.map(Number) : null;
+		// el espectro (referido a Lw.value) se desplaza hasta el nivel de cada muestra
+		return sampleSource(source, spacing, indicator).map(s => spectrum ? { ...s, LwBands: spectrum.map(v => v + s.Lw - value) } : s);
+	});
+	if (!sources.length) return null;
+	return ISOModel.computeGridBandsFromSources(sources, xs, ys, {
+		Lw_isRoom: false,
+		Df_room: 0,
+		Df_out: 0,
+		meteo: params?.meteo,
+		ground: activeGround(params?.ground),
+		receiverHeight: config?.measureH ?? 2,
+		screens: screens.length ? screens : undefined,
+		mask: inside.map(row => row.map(v => !v))
 	});
 }
 
-export default { buildHeatmap };
+export default { buildHeatmap, buildSceneHeatmap };
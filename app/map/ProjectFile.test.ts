@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { createProject, migrateProject, PROJECT_FORMAT, PROJECT_VERSION, projectFileName, readProject } from "./ProjectFile";
+import { readSceneFile } from "./SceneFile";
+
+// escena sin versión (formato de la CLI / API)
+const legacy = {
+	buildings: [{ id: "a", footprint: [[-5, -5], [5, -5], [5, 5], [-5, 5]], height: 8, LwBySegment: [{ value: 80 }, { value: 70 }, { value: 70 }, { value: 70 }] }],
+	receivers: [{ id: "r1", name: "Vecino", x: 0, z: -20, height: 4 }],
+	params: { cellSize: 2 },
+	config: { areaSize: 40, resolution: 20 }
+};
+
+describe("migrateProject", () => {
+	it("0 -> 1: la escena suelta pasa a { scene, params, config } con cabecera y sin cámara", () => {
+		const migrated = migrateProject(legacy);
+		const { scene, params, config } = readSceneFile(legacy);
+		expect(migrated).toEqual({ format: PROJECT_FORMAT, version: 1, name: "", savedAt: "", scene, params, config, camera: null });
+	});
+
+	it("un proyecto de la versión actual no cambia", () => {
+		const project = createProject(readSceneFile(legacy));
+		expect(migrateProject(project)).toBe(project);
+	});
+});
+
+describe("readProject", () => {
+	it("versión posterior a la de la aplicación: error", () => {
+		const project = { ...createProject(readSceneFile(legacy)), version: PROJECT_VERSION + 1 };
+		expect(() => readProject(project)).toThrow(`El proyecto es de la versión ${PROJECT_VERSION + 1} y esta aplicación solo abre hasta la ${PROJECT_VERSION}`);
+	});
+
+	it("entradas no válidas: errores con la ruta del problema", () => {
+		expect(() => readProject("{no es json")).toThrow("El fichero de proyecto no es JSON válido");
+		expect(() => readProject("[1, 2]")).toThrow("El proyecto debe ser un objeto JSON");
+		expect(() => readProject({ ...legacy, format: "otro" })).toThrow(`format: se esperaba "${PROJECT_FORMAT}"`);
+		const project = createProject(readSceneFile(legacy));
+		expect(() => readProject({ ...project, camera: { position: [0, 1], target: [0, 0, 0] } })).toThrow("camera.position: debe tener al menos 3 elementos, tiene 2");
+		expect(() => readProject({ ...project, name: 3 })).toThrow("name: se esperaba un texto, recibido 3");
+	});
+
+	it("una escena sin versión se abre migrada; selectedId desconocido pasa al primer edificio", () => {
+		const { project, warnings } = readProject({ ...legacy, selectedId: "zzz" });
+		expect(project.version).toBe(PROJECT_VERSION);
+		expect(project.selectedId).toBe("a");
+		expect(project.scene.receivers).toHaveLength(1);
+		expect(warnings).toEqual([]);
+	});
+
+	it("guardar y abrir: el estado vuelve igual", () => {
+		const { scene, params, config } = readSceneFile(legacy);
+		const state = { scene, params, config, camera: { position: [30, 40, 30], target: [0, 0, 0], fov: 50 }, selectedId: "a" };
+		const saved = createProject(state, "estudio");
+		const { project, warnings } = readProject(JSON.stringify(saved, null, 1));
+		expect(warnings).toEqual([]);
+		expect(project).toEqual(saved);
+	});
+});
+
+describe("projectFileName", () => {
+	it("quita la extensión repetida y los caracteres no válidos", () => {
+		expect(projectFileName("estudio.amap.json")).toBe("estudio.amap.json");
+		expect(projectFileName("a/b:c")).toBe("a_b_c.amap.json");
+		expect(projectFileName("")).toBe("proyecto.amap.json");
+	});
+});
@@ -0,0 +1,151 @@
+import { readSceneFile } from "./SceneFile";
+import { any, arrayOf, num, object, SchemaIssue, str, validate } from "../lib/schema";
+import { Config, Params, Scene } from "../types";
+
+/**
+ * ProjectFile
+ *
+ * Fichero de proyecto .amap.json: todo lo necesario para reabrir un estudio tal como se dejó.
+ *  - format / version: identificación y versión del esquema (PROJECT_VERSION)
+ *  - scene: edificios (huella, altura, posición, giro, LwBySegment, absorción) y receptores
+ *  - params / config: parámetros de cálculo y grilla completos (no solo lo distinto de los valores por defecto)
+ *  - camera: vista 3D (posición, punto mirado, fov); selectedId: edificio seleccionado
+ *
+ * Versiones (cada migración convierte la versión n en la n + 1, MIGRATIONS[n]):
+ *  - 0: escena sin versión (formato de readSceneFile: CLI / API), sin cámara
+ *  - 1: formato actual
+ */
+export const PROJECT_FORMAT = "acoustic-map-project";
+export const PROJECT_VERSION = 1;
+export const PROJECT_EXTENSION = ".amap.json";
+
+export type CameraState = { position: number[]; target: number[]; fov?: number };
+
+export type ProjectState = {
+	scene: Scene;
+	params: Params;
+	config: Config;
+	camera?: CameraState | null;
+	selectedId?: string;
+};
+
+export type ProjectFile = ProjectState & {
+	format: typeof PROJECT_FORMAT;
+	version: number;
+	name: string;
+	savedAt: string;
+};
+
+const MIGRATIONS: Record<number, (json: any) => any> = {
+	// 0 -> 1: la escena suelta (readSceneFile) pasa a { scene, params, config } con cabecera de proyecto
+	0: json => {
+		const { scene, params, config } = readSceneFile(json);
+		return { format: PROJECT_FORMAT, version: 1, name: json.name ?? "", savedAt: json.savedAt ?? "", scene, params, config, camera: null };
+	}
+};
+
+const vector3 = () => arrayOf(num(), { minLength: 3, maxLength: 3 });
+
+const cameraSchema = object({ position: vector3(), target: vector3(), fov: num({ min: 1, max: 179, exclusiveMin: true, unit: "°" }) }, ["position", "target"]);
+
+// cabecera del proyecto; scene / params / config se validan con readSceneFile
+const projectSchema = object({
+	format: str(),
+	version: num({ min: 0, integer: true }),
+	name: str(),
+	savedAt: str(),
+	scene: any(),
+	params: any(),
+	config: any(),
+	camera: any(),
+	selectedId: str()
+}, ["scene"]);
+
+/**
+ * migrateProject
+ * Lleva un JSON de cualquier versión conocida a PROJECT_VERSION aplicando las migraciones en orden.
+ * Sin "version" se trata como versión 0; una versión posterior a la de la aplicación es un error.
+ */
+export function migrateProject(json: any) {
+	let version = Number.isInteger(json?.version) ? json.version : 0;
+	if (version > PROJECT_VERSION) throw new Error(`El proyecto es de la versión ${version} y esta aplicación solo abre hasta la ${PROJECT_VERSION}`);
+	let out = json;
+	while (version < PROJECT_VERSION) {
+		const migrate = MIGRATIONS[version];
+		if (!migrate) throw new Error(`No hay migración desde la versión ${version} del proyecto`);
+		out = migrate(out);
+		version = out.version;
+	}
+	return out;
+}
+
+/**
+ * createProject
+ * Fichero de proyecto (versión actual) a partir del estado de la aplicación.
+ */
+export function createProject(state: ProjectState, name = "proyecto"): ProjectFile {
+	return {
+		format: PROJECT_FORMAT,
+		version: PROJECT_VERSION,
+		name,
+		savedAt: new Date().toISOString(),
+		scene: state.scene,
+		params: state.params,
+		config: state.config,
+		camera: state.camera ?? null,
+		...(state.selectedId ? { selectedId: state.selectedId } : {})
+	};
+}
+
+/**
+ * readProject
+ * Interpreta un proyecto (texto o JSON ya leído): migra a la versión actual y valida cabecera, cámara
+ * y escena (readSceneFile). Lanza Error con la ruta del problema; las claves desconocidas van a warnings.
+ * selectedId se conserva si el edificio existe (si no, el primero).
+ */
+export function readProject(input: string | unknown): { project: ProjectFile; warnings: SchemaIssue[] } {
+	let json: any = input;
+	if (typeof input === "string") {
+		try {
+			json = JSON.parse(input);
+		} catch (e) {
+			throw new Error("El fichero de proyecto no es JSON válido");
+		}
+	}
+	if (!json || typeof json !== "object" || Array.isArray(json)) throw new Error("El proyecto debe ser un objeto JSON");
+	if (json.format !== undefined && json.format !== PROJECT_FORMAT) throw new Error(`format: se esperaba "${PROJECT_FORMAT}"`);
+
+	const migrated = migrateProject(json);
+	const header = validate(projectSchema, migrated);
+	const camera = migrated.camera ? validate(cameraSchema, migrated.camera, "camera") : { errors: [], warnings: [] };
+	const errors = [...header.errors, ...camera.errors];
+	if (errors.length) throw new Error(`${errors[0].path}: ${errors[0].message}`);
+
+	const { scene, params, config, warnings } = readSceneFile({ scene: migrated.scene, params: migrated.params, config: migrated.config });
+	const ids = new Set(scene.buildings.map(b => b.id));
+	return {
+		project: {
+			format: PROJECT_FORMAT,
+			version: PROJECT_VERSION,
+			name: migrated.name ?? "",
+			savedAt: migrated.savedAt ?? "",
+			scene,
+			params,
+			config,
+			camera: migrated.camera ?? null,
+			selectedId: ids.has(migrated.selectedId) ? migrated.selectedId : scene.buildings[0].id
+		},
+		warnings: [...header.warnings, ...camera.warnings, ...warnings]
+	};
+}
+
+/**
+ * projectFileName
+ * Nombre de fichero para guardar: "<nombre>.amap.json" sin caracteres problemáticos.
+ */
+export function projectFileName(name: string) {
+	const base = (name || "proyecto").replace(/\.amap\.json$|\.json$/i, "").replace(/[\\/:*?"<>|]+/g, "_").trim() || "proyecto";
+	return `${base}${PROJECT_EXTENSION}`;
+}
+
+export default { PROJECT_FORMAT, PROJECT_VERSION, PROJECT_EXTENSION, migrateProject, createProject, readProject, projectFileName };
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { computeReceiverLevels, receiversToCSV } from "./Receivers";
+import { defaultParams } from "../config";
+import type { Params, Scene } from "../types";
+
+const params = defaultParams as Params;
+const scene: Scene = {
+	buildings: [{
+		id: "nave",
+		name: "Nave 1",
+		position: { x: 0, z: 0 },
+		rotation: 0,
+		footprint: [[-5, -5], [5, -5], [5, 5], [-5, 5]],
+		height: 8,
+		LwBySegment: [{ value: 80 }, { value: 70 }, { value: 0 }, { value: 0 }]
+	}],
+	sources: [{ id: "bomba", type: "point", points: [[20, 20]], height: 1.5, Lw: { value: 85 } }],
+	receivers: [
+		{ id: "r1", name: "Vecino, \"ventana\" 1", x: 0, z: -20, height: 4 },
+		{ id: "r2", name: "Dentro", x: 1, z: 1, height: 1.5 }
+	]
+};
+const toDb = (e: number) => 10 * Math.log10(e);
+
+describe("computeReceiverLevels", () => {
+	const [outside, inside] = computeReceiverLevels(scene, params);
+
+	it("un receptor dentro de una huella no tiene nivel ni desglose", () => {
+		expect(inside.inside).toBe("Nave 1");
+		expect(inside.Lp).toBeNaN();
+		expect(inside.facades).toEqual([]);
+	});
+
+	it("el total es la suma energética de las fachadas y fuentes, ordenadas de mayor a menor", () => {
+		expect(outside.inside).toBeUndefined();
+		expect(outside.facades.length).toBeGreaterThan(1);
+		expect(outside.facades.some(f => f.buildingId === "bomba")).toBe(true);
+		const sum = toDb(outside.facades.reduce((acc, f) => acc + Math.pow(10, f.Lp / 10), 0));
+		expect(outside.Lp).toBeCloseTo(sum, 9);
+		const levels = outside.facades.map(f => f.Lp);
+		expect(levels).toEqual([...levels].sort((a, b) => b - a));
+		// sin niveles por periodo no hay indicadores
+		expect(outside.indicators).toBeUndefined();
+	});
+});
+
+describe("receiversToCSV", () => {
+	const csv = receiversToCSV(computeReceiverLevels(scene, params));
+	const lines = csv.trimEnd().split("\n");
+
+	it("cabecera y una fila total por receptor más una por fachada", () => {
+		expect(lines[0]).toBe("receptor,x,z,altura,edificio,fachada,Lp_dB,Lp_directo_dB,Lp_reflejado_dB");
+		expect(csv.endsWith("\n")).toBe(true);
+		expect(lines.filter(l => l.includes(",total,"))).toHaveLength(2);
+	});
+
+	it("escapa comas y comillas en los nombres", () => {
+		expect(lines[1].startsWith("\"Vecino, \"\"ventana\"\" 1\",0.00,-20.00,4.00,,total,")).toBe(true);
+	});
+
+	it("el receptor dentro de un edificio lleva su nombre y el nivel vacío", () => {
+		expect(lines).toContain("Dentro,1.00,1.00,1.50,Nave 1,total,,,");
+	});
+});
@@ -0,0 +1,162 @@
+import WaveEmitter from "../acoustics/WaveEmitter";
+import ImageSources from "../acoustics/ImageSources";
+import BuildingScreen from "../acoustics/BuildingScreen";
+import { pointInPolygon } from "../acoustics/GradientFactory";
+import { activeGround } from "../acoustics/GroundRegions";
+import ISOModel, { SourceSimple } from "../lib/ISOModel";
+import { hasTimeVariation, lden } from "../acoustics/TimePeriods";
+import { SOURCE_PRESETS } from "../acoustics/StandaloneSources";
+import { buildingReflections, buildingSourceHeight, emitterOptions, prepareSceneBuildings, standaloneEmitters } from "./SceneHeatmap";
+import { Params, Receiver, Scene } from "../types";
+
+/**
+ * FacadeContribution: aporte de una fachada (segment-i de un edificio) en un receptor
+ * - Lp: nivel total de la fachada (directo + reflejado), direct / reflected: cada parte por separado
+ * Las fuentes independientes (scene.sources) aparecen con buildingId = id de la fuente y su tipo en segment.
+ */
+export type FacadeContribution = {
+	buildingId: string;
+	buildingName: string;
+	segment: string;
+	Lp: number;
+	direct: number;
+	reflected: number;
+};
+
+/**
+ * ReceiverResult: nivel en un receptor y su desglose por fachada (ordenado de mayor a menor)
+ * - inside: el receptor cae dentro de una huella (Lp = NaN, sin desglose)
+ * - indicators: Lday / Levening / Lnight / Lden (dB), solo si alguna fachada tiene Lw por periodo u horario
+ */
+export type ReceiverResult = {
+	receiver: Receiver;
+	Lp: number;
+	facades: FacadeContribution[];
+	inside?: string;
+	indicators?: { Lday: number; Levening: number; Lnight: number; Lden: number };
+};
+
+const toDb = (e: number) => e > 0 ? 10 * Math.log10(e) : -Infinity;
+
+/**
+ * computeReceiverLevels
+ *
+ * Nivel exacto en cada receptor de la escena con el mismo trayecto que ISOModel.computeLpFromSource
+ * (mismas fuentes de fachada, fuentes imagen, suelo, pantallas y alturas que computeSceneHeatmap),
+ * pero sin el recorte de alcance (maxDist) ni la mezcla rojo/amarillo del mapa: la energía de todas
+ * las fuentes se suma sin ponderar. El desglose agrupa por fachada emisora (la reflexión de una fuente
+ * cuenta para la fachada que la emite); las fuentes independientes de la escena suman como una entrada más.
+ * Lp y el desglose corresponden a params.indicator; con niveles por periodo se añaden además los cuatro
+ * indicadores (una pasada por periodo; Lden se combina a partir de ellos).
+ */
+export function computeReceiverLevels(scene: Scene, params: Params, receivers: Receiver[] = scene?.receivers ?? []): ReceiverResult[] {
+	const results = receiverLevels(scene, params, receivers);
+	const sides = [...(scene?.buildings ?? []).flatMap(b => b.LwBySegment ?? []), ...(scene?.sources ?? []).map(s => s.Lw)];
+	if (!receivers.length || !hasTimeVariation(sides)) return results;
+	const [Lday, Levening, Lnight] = (["Lday", "Levening", "Lnight"] as const).map(indicator => receiverLevels(scene, { ...params, indicator }, receivers));
+	return results.map((r, k) => r.inside ? r : {
+		...r,
+		indicators: { Lday: Lday[k].Lp, Levening: Levening[k].Lp, Lnight: Lnight[k].Lp, Lden: lden(Lday[k].Lp, Levening[k].Lp, Lnight[k].Lp) }
+	});
+}
+
+function receiverLevels(scene: Scene, params: Params, receivers: Receiver[]): ReceiverResult[] {
+	const prepared = prepareSceneBuildings(scene, params);
+	const screens = prepared.map(p => new BuildingScreen(p.loop, Number(p.building.height ?? 10)));
+	const { sampleSpacing, outwardOffset, dbPerMeter } = emitterOptions(params);
+
+	// fuentes (directas + imagen) por edificio, calculadas una sola vez para todos los receptores
+	const emitters = prepared.map(p => {
+		const direct = WaveEmitter.generateSources(p.loop, p.segments, sampleSpacing, outwardOffset, p.lwMap, undefined, p.patches);
+		const reflections = buildingReflections(p.building, params);
+		const images = reflections ? ImageSources.generateImageSources(direct, p.segments, p.loop, reflections) : [];
+		const sources = [...direct, ...images]
+			.map(s => ({ x: s.x, z: s.z, Lw: s.Lw, nx: s.nx, nz: s.nz, segment: s.segment, reflector: s.reflector, height: s.height })) as SourceSimple[];
+		return { p, sources, sourceHeight: buildingSourceHeight(p.building, params) };
+	});
+	const standalone = standaloneEmitters(scene, params);
+
+	return receivers.map(receiver => {
+		const host = prepared.find(p => pointInPolygon(receiver.x, receiver.z, p.loop));
+		if (host) return { receiver, Lp: NaN, facades: [], inside: host.building.name ?? host.building.id };
+
+		const byFacade = new Map<string, { buildingId: string; buildingName: string; segment: string; direct: number; reflected: number }>();
+		for (const { p, sources, sourceHeight } of emitters) {
+			for (const s of sources) {
+				const res = ISOModel.computeLpFromSource(s, receiver.x, receiver.z, {
+					RePrime: 0,
+					Lw_isRoom: true,
+					dbPerMeter,
+					directivityCut: 1.0,
+					meteo: params.meteo,
+					ground: activeGround(params.ground),
+					sourceHeight,
+					receiverHeight: receiver.height,
+					screens
+				});
+				if (!Number.isFinite(res.energyLinear) || res.energyLinear <= 0) continue;
+				const key = `${p.building.id}/${s.segment}`;
+				let acc = byFacade.get(key);
+				if (!acc) {
+					acc = { buildingId: p.building.id, buildingName: p.building.name ?? p.building.id, segment: String(s.segment), direct: 0, reflected: 0 };
+					byFacade.set(key, acc);
+				}
+				if (s.reflector) acc.reflected += res.energyLinear;
+				else acc.direct += res.energyLinear;
+			}
+		}
+		for (const s of standalone) {
+			const res = ISOModel.computeLpFromSource(s, receiver.x, receiver.z, {
+				RePrime: 0,
+				Lw_isRoom: false,
+				Df_room: 0,
+				dbPerMeter,
+				directivityCut: 1.0,
+				meteo: params.meteo,
+				ground: activeGround(params.ground),
+				receiverHeight: receiver.height,
+				screens
+			});
+			if (!Number.isFinite(res.energyLinear) || res.energyLinear <= 0) continue;
+			const key = `sources/${s.segment}`;
+			let acc = byFacade.get(key);
+			if (!acc) {
+				const source = scene.sources!.find(f => f.id === s.segment)!;
+				acc = { buildingId: source.id, buildingName: source.name || source.id, segment: `fuente ${SOURCE_PRESETS[source.type].label.toLowerCase()}`, direct: 0, reflected: 0 };
+				byFacade.set(key, acc);
+			}
+			acc.direct += res.energyLinear;
+		}
+
+		const facades = [...byFacade.values()]
+			.map(f => ({ ...f, Lp: toDb(f.direct + f.reflected), direct: toDb(f.direct), reflected: toDb(f.reflected) }))
+			.sort((a, b) => b.Lp - a.Lp);
+		const total = [...byFacade.values()].reduce((acc, f) => acc + f.direct + f.reflected, 0);
+		return { receiver, Lp: total > 0 ? toDb(total) : NaN, facades };
+	});
+}
+
+const fmt = (v: number) => Number.isFinite(v) ? v.toFixed(1) : "";
+const csvField = (v: string) => /[",\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v;
+
+/**
+ * receiversToCSV
+ * Tabla de niveles en formato largo: una fila por receptor y fachada (más una fila "total" por receptor).
+ * Separador coma y punto decimal; niveles en dB con un decimal (vacío si no hay aporte).
+ * Con niveles por periodo, la fila "total" lleva también Lday / Levening / Lnight / Lden.
+ */
+export function receiversToCSV(results: ReceiverResult[]) {
+	const periods = results.some(r => r.indicators);
+	const rows = [["receptor", "x", "z", "altura", "edificio", "fachada", "Lp_dB", "Lp_directo_dB", "Lp_reflejado_dB",
+		...(periods ? ["Lday_dB", "Levening_dB", "Lnight_dB", "Lden_dB"] : [])]];
+	const blank = periods ? ["", "", "", ""] : [];
+	for (const r of results) {
+		const base = [r.receiver.name, r.receiver.x.toFixed(2), r.receiver.z.toFixed(2), r.receiver.height.toFixed(2)];
+		const ind = r.indicators ? [fmt(r.indicators.Lday), fmt(r.indicators.Levening), fmt(r.indicators.Lnight), fmt(r.indicators.Lden)] : blank;
+		rows.push([...base, r.inside ?? "", "total", fmt(r.Lp), "", "", ...ind]);
+		for (const f of r.facades) rows.push([...base, f.buildingName, f.segment, fmt(f.Lp), fmt(f.direct), fmt(f.reflected), ...blank]);
+	}
+	return rows.map(row => row.map(csvField).join(",")).join("\n") + "\n";
+}
+
+export default { computeReceiverLevels, receiversToCSV };
@@ -0,0 +1,102 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { computeSceneFileHeatmap, heatmapToCSV, heatmapToJSON, readSceneFile } from "./SceneFile";
+import { sumBandsA } from "../lib/ISOModel";
+
+const building = { footprint: [[-5, -5], [5, -5], [5, 5], [-5, 5]], height: 8, LwBySegment: [{ value: 80 }, { value: 80 }, { value: 80 }, { value: 80 }] };
+
+describe("grilla de la escena", () => {
+	// los motores registran su depuración con console.log (como en la CLI, fuera de --verbose se silencia)
+	beforeAll(() => { vi.spyOn(console, "log").mockImplementation(() => {}); });
+	afterAll(() => { vi.restoreAllMocks(); });
+
+	it("el motor calculator sigue config.resolution si la escena no fija params.cellSize", () => {
+		const file = readSceneFile({ buildings: [building], config: { areaSize: 40, resolution: 12 } });
+		expect(file.params.cellSize).toBeUndefined();
+		const heatmap = computeSceneFileHeatmap(file, "calculator");
+		expect(heatmap.x).toHaveLength(12);
+		expect(heatmap.y).toHaveLength(12);
+		expect(heatmapToJSON(heatmap, file, "calculator").resolution).toBe(12);
+	});
+
+	it("con params.cellSize el motor deriva la grilla y el JSON informa de la real", () => {
+		const file = readSceneFile({ buildings: [building], params: { cellSize: 5 }, config: { areaSize: 40, resolution: 12 } });
+		const heatmap = computeSceneFileHeatmap(file, "calculator");
+		// 40 m / 5 m + 1 muestras por eje
+		expect(heatmap.x).toHaveLength(9);
+		expect(heatmapToJSON(heatmap, file, "calculator").resolution).toBe(9);
+	});
+
+	it("el motor scene usa config.resolution", () => {
+		const file = readSceneFile({ buildings: [building], config: { areaSize: 40, resolution: 10 } });
+		const heatmap = computeSceneFileHeatmap(file, "scene");
+		expect(heatmap.x).toHaveLength(10);
+		expect(heatmapToJSON(heatmap, file, "scene").resolution).toBe(10);
+	});
+});
+
+describe("Re' en los dos motores", () => {
+	beforeAll(() => { vi.spyOn(console, "log").mockImplementation(() => {}); });
+	afterAll(() => { vi.restoreAllMocks(); });
+
+	// lado z = -5 con muro R 50 y una ventana R 30 (Re' ≈ 43 dB): en modo Lp sala de Lp 100 dB, en modo Lw 50 dB; el resto no emite
+	const lpBuilding = {
+		...building,
+		LwBySegment: [{ value: 50 }, { value: 0 }, { value: 0 }, { value: 0 }],
+		rooms: [{ id: "s1", Lp_in: 100, absorption: 50, segments: ["segment-0"] }],
+		facades: { "segment-0": { wallR: 50, openings: [{ type: "window", along: 5, width: 2, height: 1.5, sill: 1, R: 30, area: 3 }] } }
+	};
+	const engines = (params: object) => ({
+		scene: computeSceneFileHeatmap(readSceneFile({ buildings: [lpBuilding], params, config: { areaSize: 40, resolution: 20 } }), "scene"),
+		calculator: computeSceneFileHeatmap(readSceneFile({ buildings: [lpBuilding], params, config: { areaSize: 40, resolution: 21 } }), "calculator")
+	});
+	// los dos motores usan Df_room / Df_out por defecto (DEFAULT_DF_ROOM / DEFAULT_DF_OUT), pero el de escena suma
+	// los halos rojo y amarillo sin ponderar y el calculator da el LAeq: quedan a unos 3–6 dB. Un Re' restado dos
+	// veces (≈ 43 dB) queda muy fuera de la tolerancia
+	const TOLERANCE_DB = 6;
+	const nearest = (axis: number[], v: number) => axis.reduce((best, c, k) => (Math.abs(c - v) < Math.abs(axis[best] - v) ? k : best), 0);
+	const levelAt = (heatmap: { x: number[]; y: number[]; z: (number | null)[][] }, x: number, z: number) => Number(heatmap.z[nearest(heatmap.y, z)][nearest(heatmap.x, x)]);
+
+	it("modo Lp: el Re' de la sala se resta una sola vez y delante de su fachada los motores coinciden en ±6 dB", () => {
+		const { scene, calculator } = engines({ inputMode: "Lp" });
+		for (const [x, z] of [[0, -10], [0, -15], [0, -19], [-6, -14], [6, -12]]) {
+			expect(Math.abs(levelAt(calculator, x, z) - levelAt(scene, x, z))).toBeLessThan(TOLERANCE_DB);
+		}
+	});
+
+	it("modo Lw: el Lw es el radiado y ningún motor resta Re'", () => {
+		const { scene, calculator } = engines({ inputMode: "Lw" });
+		for (const [x, z] of [[0, -10], [0, -15], [0, -19], [-6, -14], [6, -12]]) {
+			expect(Math.abs(levelAt(calculator, x, z) - levelAt(scene, x, z))).toBeLessThan(TOLERANCE_DB);
+		}
+		// la composición solo reparte la potencia: sin ella el nivel lejano apenas cambia
+		const bare = computeSceneFileHeatmap(readSceneFile({ buildings: [{ ...lpBuilding, facades: undefined }], params: { inputMode: "Lw" }, config: { areaSize: 40, resolution: 20 } }), "scene");
+		expect(Math.abs(levelAt(bare, 0, -19) - levelAt(scene, 0, -19))).toBeLessThan(3);
+	});
+});
+
+describe("exportación del motor calculator", () => {
+	beforeAll(() => { vi.spyOn(console, "log").mockImplementation(() => {}); });
+	afterAll(() => { vi.restoreAllMocks(); });
+
+	// escena pequeña con un lado dominante: las franjas del antiguo overlay (filas y columnas en la
+	// prolongación de las fachadas) cambiarían la grilla
+	const file = readSceneFile({
+		buildings: [{ footprint: [[-4, -3], [4, -3], [4, 3], [-4, 3]], height: 6, LwBySegment: [{ value: 80 }, { value: 70 }, { value: 70 }, { value: 70 }] }],
+		config: { areaSize: 24, resolution: 9 }
+	});
+	const heatmap = computeSceneFileHeatmap(file, "calculator");
+
+	it("JSON y CSV llevan el LAeq (suma ponderada A de las bandas) y las bandas", () => {
+		const json = heatmapToJSON(heatmap, file, "calculator");
+		expect(json.bands?.map(b => b.freq)).toEqual([63, 125, 250, 500, 1000, 2000, 4000, 8000]);
+		json.z.forEach((row, j) => row.forEach((v, i) => {
+			if (v === null) return;
+			expect(v).toBeCloseTo(sumBandsA(json.bands!.map(b => b.z[j][i] ?? NaN)), 9);
+		}));
+		expect(heatmapToCSV(heatmap).split("\n")[0]).toBe("x,z,Lp_dB,Lp_63Hz_dB,Lp_125Hz_dB,Lp_250Hz_dB,Lp_500Hz_dB,Lp_1000Hz_dB,Lp_2000Hz_dB,Lp_4000Hz_dB,Lp_8000Hz_dB");
+	});
+
+	it("grilla de referencia (CSV)", () => {
+		expect(heatmapToCSV(heatmap)).toMatchSnapshot();
+	});
+});
@@ -0,0 +1,214 @@
+import { defaultParams, getBuildingConfig } from "../config";
+import { syncLwBySegment } from "../geometry/scene";
+import { FacadeBuildUp, openingArea } from "../acoustics/FacadeUtils";
+import { buildSceneHeatmap } from "./MapBuilder";
+import { computeSceneHeatmap, sceneGrid } from "./SceneHeatmap";
+import { Schema, SchemaIssue, validate } from "../lib/schema";
+import { buildingSchema, configSchema, lwSideSchema, paramsSchema, receiverSchema, standaloneSourceSchema } from "../schemas";
+import { SOURCE_PRESETS, StandaloneSource } from "../acoustics/StandaloneSources";
+import { Config, HeatmapResult, LwSide, Params, Receiver, Scene, SceneBuilding } from "../types";
+
+/**
+ * SceneFile: escena lista para calcular fuera de la UI (CLI, API)
+ * - scene: edificios (+ receptores); params: defaultParams con lo indicado en el fichero; config: grilla
+ * - warnings: avisos de validación (claves desconocidas, p. ej. una errata en un parámetro)
+ */
+export type SceneFile = { scene: Scene; params: Params; config: Config; warnings: SchemaIssue[] };
+
+/**
+ * HeatmapEngine
+ * - "calculator": MapBuilder.buildSceneHeatmap (AcousticCalculator, por bandas de octava)
+ * - "scene": computeSceneHeatmap (el mismo mapa que la vista 3D)
+ */
+export type HeatmapEngine = "calculator" | "scene";
+
+/**
+ * SceneFileError: escena no válida
+ * - path: ruta del campo problemático (p. ej. "scene.buildings[1].footprint"), para errores legibles en CLI y API
+ */
+export class SceneFileError extends Error {
+	path: string;
+	constructor(path: string, message: string) {
+		super(`${path}: ${message}`);
+		this.name = "SceneFileError";
+		this.path = path;
+	}
+}
+
+const isObject = (v: any) => !!v && typeof v === "object" && !Array.isArray(v);
+
+// errores del esquema -> SceneFileError (el primero, con su ruta); avisos -> se acumulan en warnings
+function checkSchema(schema: Schema, value: unknown, path: string, warnings: SchemaIssue[]) {
+	const { errors, warnings: found } = validate(schema, value, path);
+	if (errors.length) throw new SceneFileError(errors[0].path || "(raíz)", errors[0].message);
+	warnings.push(...found);
+}
+
+function toLwSide(v: any, path: string, warnings: SchemaIssue[]): LwSide {
+	if (typeof v === "number") return { value: v };
+	if (!isObject(v)) throw new SceneFileError(path, "se esperaba un nivel Lw (número o { value, spectrum?, periods?, schedule? })");
+	checkSchema(lwSideSchema, v, path, warnings);
+	return { ...v };
+}
+
+// el área de los elementos con tamaño es width · height
+function readFacades(raw: Record<string, FacadeBuildUp>): Record<string, FacadeBuildUp> {
+	return Object.fromEntries(Object.entries(raw).map(([key, f]) => [key, {
+		...f,
+		...(f.openings ? { openings: f.openings.map(o => ({ ...o, area: openingArea(o) })) } : {})
+	}]));
+}
+
+function readBuilding(raw: any, path: string, index: number, config: Config, warnings: SchemaIssue[]): SceneBuilding {
+	checkSchema(buildingSchema, raw, path, warnings);
+	(raw.rooms ?? []).forEach((room: any, k: number) => {
+		if (!(room.absorption > 0) && !(room.volume > 0 && room.rt60 > 0)) throw new SceneFileError(`${path}.rooms[${k}]`, "indica absorption (m²) o volume (m³) y rt60 (s)");
+	});
+	Object.entries(raw.facades ?? {}).forEach(([key, facade]: [string, any]) => (facade.openings ?? []).forEach((o: any, k: number) => {
+		if (!(o.area >= 0) && !(o.width > 0 && o.height > 0)) throw new SceneFileError(`${path}.facades.${key}.openings[${k}]`, "indica area (m²) o width y height (m)");
+	}));
+	return syncLwBySegment({
+		id: String(raw.id ?? `b${index + 1}`),
+		name: raw.name,
+		footprint: raw.footprint.map((p: number[]) => [p[0], p[1]]),
+		height: raw.height ?? Number(config.buildingHeight ?? 10),
+		position: { x: raw.position?.x ?? 0, z: raw.position?.z ?? 0 },
+		rotation: raw.rotation ?? 0,
+		LwBySegment: (raw.LwBySegment ?? []).map((v: any, i: number) => toLwSide(v, `${path}.LwBySegment[${i}]`, warnings)),
+		...(raw.absorption ? { absorption: raw.absorption } : {}),
+		...(raw.rooms ? { rooms: raw.rooms.map((room: any, k: number) => ({ ...room, id: String(room.id ?? `s${k + 1}`) })) } : {}),
+		...(raw.facades ? { facades: readFacades(raw.facades) } : {})
+	});
+}
+
+function readSource(raw: any, path: string, index: number, warnings: SchemaIssue[]): StandaloneSource {
+	checkSchema(standaloneSourceSchema, raw, path, warnings);
+	const preset = SOURCE_PRESETS[raw.type as StandaloneSource["type"]];
+	if (raw.points.length < preset.minPoints) throw new SceneFileError(`${path}.points`, `una fuente ${preset.label.toLowerCase()} necesita al menos ${preset.minPoints} puntos`);
+	return {
+		id: String(raw.id ?? `f${index + 1}`),
+		name: raw.name,
+		type: raw.type,
+		points: raw.points.map((p: number[]) => [p[0], p[1]]),
+		height: raw.height ?? preset.height,
+		Lw: toLwSide(raw.Lw, `${path}.Lw`, warnings),
+		...(Number.isFinite(raw.directivity) ? { directivity: raw.directivity } : {})
+	};
+}
+
+/**
+ * readSceneFile
+ * Interpreta un fichero de escena JSON en cualquiera de estas formas:
+ *  - { scene: { buildings, sources?, receivers? }, params?, config? }
+ *  - { buildings, sources?, receivers?, params?, config? }
+ *  - un único edificio: { footprint, height?, LwBySegment?, position?, rotation?, params?, config? }
+ * params se mezcla sobre defaultParams (colorOverlay campo a campo) y config sobre getBuildingConfig("L");
+ * params.cellSize solo se conserva si el fichero lo indica (si no, ambos motores usan config.resolution).
+ * params, config, edificios, fuentes y receptores se validan con app/schemas.ts: lanza SceneFileError con la ruta
+ * del primer error; las claves desconocidas quedan en warnings.
+ */
+export function readSceneFile(json: any): SceneFile {
+	if (!isObject(json)) throw new SceneFileError("(raíz)", "la escena debe ser un objeto JSON");
+	const warnings: SchemaIssue[] = [];
+	if (json.params !== undefined) checkSchema(paramsSchema, json.params, "params", warnings);
+	if (json.config !== undefined) checkSchema(configSchema, json.config, "config", warnings);
+	const config: Config = { ...getBuildingConfig("L"), ...(json.config ?? {}) };
+	const params: Params = {
+		...defaultParams,
+		...(json.params ?? {}),
+		colorOverlay: { ...defaultParams.colorOverlay, ...(json.params?.colorOverlay ?? {}) }
+	};
+	// la grilla del motor calculator sale de config.resolution salvo que el fichero fije params.cellSize
+	if (json.params?.cellSize === undefined) delete params.cellSize;
+
+	if (json.scene !== undefined && !isObject(json.scene)) throw new SceneFileError("scene", "debe ser un objeto");
+	const source = json.scene ?? json;
+	const base = json.scene ? "scene." : "";
+	if (source.buildings !== undefined && !Array.isArray(source.buildings)) throw new SceneFileError(`${base}buildings`, "debe ser una lista");
+	const rawBuildings: any[] = Array.isArray(source.buildings) ? source.buildings : source.footprint ? [source] : [];
+	if (!rawBuildings.length) throw new SceneFileError(`${base}buildings`, 'la escena no tiene edificios ("buildings" o "footprint")');
+	const buildings = source.buildings
+		? rawBuildings.map((b, i) => readBuilding(b, `${base}buildings[${i}]`, i, config, warnings))
+		// edificio suelto en la raíz: junto a él pueden ir params / config
+		: [readBuilding((({ params, config, receivers, sources, ...b }) => b)(source), "", 0, config, warnings)];
+
+	if (source.sources !== undefined && !Array.isArray(source.sources)) throw new SceneFileError(`${base}sources`, "debe ser una lista");
+	const sources: StandaloneSource[] = (source.sources ?? []).map((s: any, i: number) => readSource(s, `${base}sources[${i}]`, i, warnings));
+
+	if (source.receivers !== undefined && !Array.isArray(source.receivers)) throw new SceneFileError(`${base}receivers`, "debe ser una lista");
+	const receivers: Receiver[] = (source.receivers ?? []).map((r: any, i: number) => {
+		checkSchema(receiverSchema, r, `${base}receivers[${i}]`, warnings);
+		return {
+			id: String(r.id ?? `r${i + 1}`),
+			name: String(r.name ?? `Receptor ${i + 1}`),
+			x: r.x,
+			z: r.z,
+			height: r.height ?? 4
+		};
+	});
+	return { scene: { buildings, ...(sources.length ? { sources } : {}), receivers }, params, config, warnings };
+}
+
+/**
+ * computeSceneFileHeatmap
+ * Mapa de la escena con el motor elegido, en la forma HeatmapResult (celdas sin dato -> NaN).
+ */
+export function computeSceneFileHeatmap({ scene, params, config }: SceneFile, engine: HeatmapEngine = "calculator"): HeatmapResult {
+	if (engine === "scene") return computeSceneHeatmap(config, scene, params);
+	const res = buildSceneHeatmap(scene, config, params);
+	if (!res) return { x: [], y: [], z: [[]], min: NaN, max: NaN };
+	const z = res.z.map(row => row.map(v => (v === null ? NaN : v)));
+	const bands = res.bands.map(b => ({ freq: b.freq, z: b.z }));
+	return { x: res.x, y: res.y, z, min: res.min, max: res.max, bands };
+}
+
+/**
+ * sceneFileGridSize
+ * Celdas por lado del mapa que calculará el motor: config.resolution o, con el motor calculator y
+ * params.cellSize, las muestras que salen de areaSize / cellSize (como en AcousticCalculator.compute).
+ */
+export function sceneFileGridSize({ params, config }: SceneFile, engine: HeatmapEngine = "calculator") {
+	if (engine === "scene") return sceneGrid(config).res;
+	const cellSize = Number(params.cellSize);
+	if (cellSize > 0) return Math.max(3, Math.floor(Number(config.areaSize) / cellSize) + 1);
+	return Math.max(3, Math.floor(Number(config.resolution)));
+}
+
+/**
+ * heatmapToCSV
+ * Grilla en formato largo: una fila por celda "x,z,Lp_dB" (vacío en celdas sin dato). Con el motor calculator
+ * Lp_dB es el LAeq y se añade una columna por banda de octava (Lp_63Hz_dB … Lp_8000Hz_dB).
+ */
+export function heatmapToCSV(heatmap: HeatmapResult) {
+	const bands = heatmap.bands ?? [];
+	const cell = (v: number | null | undefined) => (typeof v === "number" && Number.isFinite(v) ? v.toFixed(2) : "");
+	const lines = [["x", "z", "Lp_dB", ...bands.map(b => `Lp_${b.freq}Hz_dB`)].join(",")];
+	heatmap.y.forEach((zc, j) => heatmap.x.forEach((xc, i) => {
+		lines.push([xc, zc, cell(heatmap.z[j]?.[i]), ...bands.map(b => cell(b.z[j]?.[i]))].join(","));
+	}));
+	return lines.join("\n") + "\n";
+}
+
+/**
+ * heatmapToJSON
+ * Resultado serializable: ejes, matriz z (null en celdas sin dato), min/max y la grilla usada
+ * (resolution = celdas por lado del resultado, también cuando el motor la deriva de params.cellSize).
+ * Con el motor calculator z es el LAeq y bands lleva el Lp de cada banda de octava ([{ freq, z }]).
+ */
+export function heatmapToJSON(heatmap: HeatmapResult, file: SceneFile, engine: HeatmapEngine) {
+	const num = (v: number | null | undefined) => (typeof v === "number" && Number.isFinite(v) ? v : null);
+	return {
+		engine,
+		areaSize: Number(file.config.areaSize),
+		resolution: heatmap.x.length,
+		measureH: Number(file.config.measureH),
+		min: num(heatmap.min),
+		max: num(heatmap.max),
+		x: heatmap.x,
+		y: heatmap.y,
+		z: heatmap.z.map(row => row.map(num)),
+		...(heatmap.bands?.length ? { bands: heatmap.bands.map(b => ({ freq: b.freq, z: b.z.map(row => row.map(num)) })) } : {})
+	};
+}
+
+export default { readSceneFile, computeSceneFileHeatmap, sceneFileGridSize, heatmapToCSV, heatmapToJSON };
@@ -0,0 +1,342 @@
+import * as THREE from "three";
+import PerimeterExtractor from "../Perimeter";
+import { computeFacadeRowLayers, FacadeHeatmapOptions, FacadeRowLayers, finishFacadeHeatmap, mergeFacadeRowLayers } from "../acoustics/ColorMap";
+import BuildingScreen from "../acoustics/BuildingScreen";
+import { Segment } from "../acoustics/ColorGradientManager";
+import { pointInPolygon } from "../acoustics/GradientFactory";
+import { activeGround } from "../acoustics/GroundRegions";
+import type { ReflectionOptions } from "../acoustics/ImageSources";
+import { sideForIndicator } from "../acoustics/TimePeriods";
+import { roomLwBySegment } from "../acoustics/RoomModel";
+import { EmissionPatch, emissionPatches } from "../acoustics/FacadeUtils";
+import { sampleSource, SOURCE_PRESETS } from "../acoustics/StandaloneSources";
+import ISOModel, { SourceSimple } from "../lib/ISOModel";
+import { buildingGeometry } from "../geometry/scene";
+import { summarizeContributions } from "./Contributions";
+import { Config, Params, HeatmapResult, Scene, SceneBuilding } from "../types";
+
+/**
+ * PreparedBuilding: datos derivados de un edificio de la escena listos para el cálculo
+ * - building: el edificio con LwBySegment ya resuelto (sourceLwBySegment: modelo interior e indicador)
+ * - loop: perímetro en coordenadas de escena (PerimeterExtractor.extractBasePerimeter)
+ * - segments: fachadas (segment-i) y lwMap: Lw por fachada desde LwBySegment
+ * - patches: reparto de cada fachada con elementos entre muro y elementos (emissionPatches)
+ */
+export type PreparedBuilding = {
+	building: SceneBuilding;
+	geometry: THREE.ExtrudeGeometry;
+	loop: number[][];
+	segments: Segment[];
+	lwMap: Record<string, number>;
+	patches: Record<string, EmissionPatch[]>;
+};
+
+/**
+ * sourceLwBySegment
+ * Lw de cada fachada que usa el cálculo:
+ *  - params.inputMode === "Lp": lados con sala -> modelo interior (roomLwBySegment: Lp_in, A y Re');
+ *  - params.indicator: Lw del periodo o equivalente de Lden en lugar del Lw constante (sideForIndicator).
+ * Es el Lw radiado por el lado (Lw_out): la composición de la fachada solo lo reparte (patches) y no se resta
+ * Re' en la propagación; buildHeatmap sigue el mismo convenio.
+ */
+export function sourceLwBySegment(building: SceneBuilding, params?: Params) {
+	const base = params?.inputMode === "Lp" ? roomLwBySegment(building) : (building.LwBySegment ?? []);
+	const indicator = params?.indicator ?? "steady";
+	return indicator === "steady" ? base : base.map(lw => sideForIndicator(lw, indicator));
+}
+
+/**
+ * prepareSceneBuildings
+ * Genera geometría, perímetro y segmentos de cada edificio (se omiten huellas con menos de 3 vértices);
+ * con params, el LwBySegment de cada edificio se resuelve con sourceLwBySegment.
+ */
+export function prepareSceneBuildings(scene: Scene, params?: Params): PreparedBuilding[] {
+	const out: PreparedBuilding[] = [];
+	for (const source of scene?.buildings ?? []) {
+		if (!source.footprint || source.footprint.length < 3) continue;
+		const building = params ? { ...source, LwBySegment: sourceLwBySegment(source, params) } : source;
+		const geometry = buildingGeometry(building);
+		const loop = PerimeterExtractor.extractBasePerimeter(geometry);
+		if (!loop || loop.length < 3) continue;
+		const segments = PerimeterExtractor.extractFacadesSegments(geometry) as Segment[];
+		const lwMap: Record<string, number> = {};
+		(building.LwBySegment ?? []).forEach((lw, i) => { lwMap[`segment-${i}`] = Number(lw?.value ?? 0); });
+		const patches: Record<string, EmissionPatch[]> = {};
+		for (const seg of segments) {
+			const layout = emissionPatches(building.facades?.[seg.name], Math.hypot(seg.p2[0] - seg.p1[0], seg.p2[1] - seg.p1[1]), Number(building.height ?? 10));
+			if (layout) patches[seg.name] = layout;
+		}
+		out.push({ building, geometry, loop, segments, lwMap, patches });
+	}
+	return out;
+}
+
+/**
+ * emitterOptions
+ * Muestreo de fuentes en fachada y atenuación extra comunes al mapa y a los receptores.
+ */
+export function emitterOptions(params: Params) {
+	return { sampleSpacing: params.sourceSpacing ?? params?.cellSize ?? 1, outwardOffset: 0.02, dbPerMeter: 0.5 };
+}
+
+/**
+ * standaloneEmitters
+ * Muestras de las fuentes independientes de la escena (sampleSource, nivel de params.indicator) con la misma
+ * separación que las de fachada. Su Lw es el radiado: se calculan con Df_room = 0 (sourceGridOptions, receptores).
+ */
+export function standaloneEmitters(scene: Scene, params: Params): SourceSimple[] {
+	const { sampleSpacing } = emitterOptions(params);
+	return (scene?.sources ?? []).flatMap(s => sampleSource(s, sampleSpacing, params?.indicator ?? "steady"));
+}
+
+/**
+ * buildingSourceHeight / buildingReflections
+ * Altura de emisión (media fachada salvo params.sourceHeight) y opciones de reflexión de un edificio
+ * (α global de params con los valores propios del edificio por encima); undefined si están desactivadas.
+ */
+export function buildingSourceHeight(b: SceneBuilding, params: Params) {
+	return params.sourceHeight ?? Number(b.height ?? 10) / 2;
+}
+
+export function buildingReflections(b: SceneBuilding, params: Params): ReflectionOptions | undefined {
+	if (params.reflections?.enabled === false) return undefined;
+	return { ...params.reflections, absorption: { ...(params.reflections?.absorption ?? {}), ...(b.absorption ?? {}) } };
+}
+
+/**
+ * sceneGrid
+ * Grilla (gridX, gridY) centrada en 0 con tamaño areaSize y `resolution` celdas por lado.
+ */
+export function sceneGrid(config: Config) {
+	const res = Number(config.resolution ?? 60);
+	const area = Number(config.areaSize ?? 120);
+	const dx = area / Math.max(1, res);
+	const half = area / 2;
+	const gridX = Array.from({ length: res }, (_, idx) => -half + dx * (idx + 0.5));
+	const gridY = Array.from({ length: res }, (_, idx) => -half + dx * (idx + 0.5));
+	return { res, gridX, gridY };
+}
+
+// resolución mínima de una pasada gruesa (por debajo no aporta forma reconocible)
+const PROGRESSIVE_MIN_RES = 12;
+
+/**
+ * progressivePasses
+ * Pasadas de refinado para la UI: resolution/4, resolution/2 y resolution (sin repetir y de al menos
+ * PROGRESSIVE_MIN_RES celdas). El blur del halo se mide en celdas, así que en las pasadas gruesas se escala
+ * con la resolución para que el halo tenga la misma extensión en metros; la última usa config/params tal cual.
+ */
+export function progressivePasses(config: Config, params: Params): { config: Config; params: Params }[] {
+	const { res } = sceneGrid(config);
+	const blur = params?.colorOverlay?.overlaySmoothSize ?? 2;
+	const coarse = [Math.ceil(res / 4), Math.ceil(res / 2)].filter((r, k, all) => r >= PROGRESSIVE_MIN_RES && r < res && all.indexOf(r) === k);
+	return [
+		...coarse.map(r => ({
+			config: { ...config, resolution: r },
+			params: { ...params, colorOverlay: { ...params?.colorOverlay, overlaySmoothSize: blur * r / res } }
+		})),
+		{ config, params }
+	];
+}
+
+// opciones comunes para generateRedHeatmapFromFacade tomadas desde params (con fallback)
+function facadeOptions(config: Config, params: Params, prepared: PreparedBuilding[], p: PreparedBuilding): FacadeHeatmapOptions {
+	const overlayCfg = params?.colorOverlay ?? {};
+	return {
+		...emitterOptions(params),
+		redMaxDist: overlayCfg?.redMaxDist ?? 2.0,
+		yellowMaxDist: overlayCfg?.yellowMaxDist ?? (overlayCfg?.redMaxDist ?? 2.0) * 3,
+		redWeight: params.redWeight ?? 1.0,
+		yellowWeight: params.yellowWeight ?? 0.6,
+		applyYellowBlur: overlayCfg?.overlaySmoothSize ?? 2,
+		ground: activeGround(params.ground),
+		receiverHeight: Number(config.measureH ?? 2),
+		// todos los edificios apantallan a todos (incluido el propio: sombra tras su huella)
+		screens: prepared.map(q => new BuildingScreen(q.loop, Number(q.building.height ?? 10))),
+		sourceHeight: buildingSourceHeight(p.building, params),
+		reflections: buildingReflections(p.building, params),
+		patches: p.patches
+	};
+}
+
+/**
+ * SceneRowsChunk: capas lineales de las filas [j0, j1) de cada edificio (mismo orden que prepareSceneBuildings)
+ * y energía de las fuentes independientes (total y por id de fuente), si la escena tiene
+ */
+export type SceneRowsChunk = {
+	j0: number;
+	j1: number;
+	buildings: FacadeRowLayers[];
+	sources?: { energy: number[][]; bySegment: Record<string, number[][]> };
+};
+
+/**
+ * computeSceneRows
+ * Fase por filas del mapa de la escena (la parte costosa): se puede repartir entre workers por bloques
+ * de filas y unir después con assembleSceneHeatmap.
+ */
+export function computeSceneRows(config: Config, scene: Scene, params: Params, j0: number, j1: number): SceneRowsChunk {
+	const prepared = prepareSceneBuildings(scene, params);
+	const { gridX, gridY } = sceneGrid(config);
+	const emitters = standaloneEmitters(scene, params);
+	return {
+		j0,
+		j1,
+		buildings: prepared.map(p => computeFacadeRowLayers(gridX, gridY, j0, j1, p.segments, p.loop, p.lwMap, facadeOptions(config, params, prepared, p), true)),
+		...(emitters.length ? { sources: ISOModel.computeGridEnergyBySegment(emitters, gridX, gridY.slice(j0, j1), sourceGridOptions(config, params, prepared)) } : {})
+	};
+}
+
+// fuentes independientes: sin alcance máximo ni mezcla rojo/amarillo (como los receptores), con su Lw
+// radiado tal cual (sin Df_room) y los edificios como pantallas
+function sourceGridOptions(config: Config, params: Params, prepared: PreparedBuilding[]) {
+	return {
+		maxDist: Infinity,
+		dbPerMeter: emitterOptions(params).dbPerMeter,
+		directivityCut: 1.0,
+		Lw_isRoom: false,
+		Df_room: 0,
+		ground: activeGround(params.ground),
+		receiverHeight: Number(config.measureH ?? 2),
+		screens: prepared.map(q => new BuildingScreen(q.loop, Number(q.building.height ?? 10)))
+	};
+}
+
+/**
+ * footprintMask / sceneLevels
+ * Parte común de los dos motores al sumar una escena: máscara de celdas dentro de cualquier huella y paso
+ * de la energía sumada a dB (NaN en huellas y celdas sin energía), con min/max de las celdas con nivel
+ * (NaN si no hay ninguna).
+ */
+export function footprintMask(prepared: PreparedBuilding[], gridX: number[], gridY: number[]): boolean[][] {
+	return gridY.map(z => gridX.map(x => prepared.some(p => pointInPolygon(x, z, p.loop))));
+}
+
+export function sceneLevels(energy: number[][], inside: boolean[][]) {
+	let min = Infinity, max = -Infinity;
+	const z: number[][] = energy.map((row, j) => row.map((e, i) => {
+		if (!(e > 0) || inside[j]?.[i]) return NaN;
+		const v = 10 * Math.log10(e);
+		if (v < min) min = v;
+		if (v > max) max = v;
+		return v;
+	}));
+	if (min === Infinity) { min = NaN; max = NaN; }
+	return { z, min, max };
+}
+
+/**
+ * computeSceneHeatmap
+ *
+ * Mapa de calor (matriz Z en dB) de una escena con N edificios:
+ *  - cada edificio se calcula con generateRedHeatmapFromFacade (rojo estrecho + halo amarillo),
+ *    con todos los edificios de la escena como pantallas (BuildingScreen) y sus propias reflexiones;
+ *  - las fuentes independientes (scene.sources) se suman sin recorte de alcance, con los edificios como pantallas;
+ *  - las contribuciones se suman en energía; las celdas dentro de cualquier huella quedan a NaN;
+ *  - se conserva la energía de cada fachada por celda (contributions: dominante y margen en dB).
+ *
+ * Resultado: { x, y, z, min, max, hover, contributions } (ver HeatmapResult).
+ */
+export function computeSceneHeatmap(config: Config, scene: Scene, params: Params): HeatmapResult {
+	const { res } = sceneGrid(config);
+	return assembleSceneHeatmap(config, scene, params, [computeSceneRows(config, scene, params, 0, res)]);
+}
+
+/**
+ * assembleSceneHeatmap
+ * Une los bloques de filas (pueden faltar: filas sin datos) y termina el mapa: blur del halo y pesos por
+ * edificio, suma de energías, máscara de huellas, contribuciones por fachada, min/max y hover.
+ */
+export function assembleSceneHeatmap(config: Config, scene: Scene, params: Params, chunks: SceneRowsChunk[]): HeatmapResult {
+	const prepared = prepareSceneBuildings(scene, params);
+	if (!prepared.length && !scene?.sources?.length) return { x: [], y: [], z: [[]], min: NaN, max: NaN, hover: [[]] };
+	const { res, gridX, gridY } = sceneGrid(config);
+
+	// suma de energía de todos los edificios (y energía por fachada, clave "<edificio>/segment-i")
+	const energy: number[][] = Array.from({ length: res }, () => new Array(res).fill(0));
+	const keys: string[] = [];
+	const labels: string[] = [];
+	const facadeEnergy: number[][][] = [];
+	prepared.forEach((p, b) => {
+		const layers = mergeFacadeRowLayers(chunks.filter(c => c.buildings[b]).map(c => ({ j0: c.j0, layers: c.buildings[b] })), res, res);
+		const { z: zb, bySegment = {} } = finishFacadeHeatmap(layers, res, facadeOptions(config, params, prepared, p));
+		for (let j = 0; j < res; j++) for (let i = 0; i < res; i++) {
+			const v = zb[j][i];
+			if (Number.isFinite(v)) energy[j][i] += Math.pow(10, v / 10);
+		}
+		for (const seg of p.segments) {
+			if (!bySegment[seg.name]) continue;
+			keys.push(`${p.building.id}/${seg.name}`);
+			labels.push(`${p.building.name ?? p.building.id} · ${seg.name}`);
+			facadeEnergy.push(bySegment[seg.name]);
+		}
+	});
+	// fuentes independientes: sus filas se copian en la grilla completa (clave "sources/<id>")
+	for (const source of scene?.sources ?? []) {
+		const grid: number[][] = Array.from({ length: res }, () => new Array(res).fill(0));
+		let any = false;
+		for (const c of chunks) {
+			const rows = c.sources?.bySegment[source.id];
+			if (!rows) continue;
+			rows.forEach((row, dj) => row.forEach((e, i) => { grid[c.j0 + dj][i] = e; energy[c.j0 + dj][i] += e; }));
+			any = true;
+		}
+		if (!any) continue;
+		keys.push(`sources/${source.id}`);
+		labels.push(`${source.name || source.id} · fuente ${SOURCE_PRESETS[source.type].label.toLowerCase()}`);
+		facadeEnergy.push(grid);
+	}
+
+	const { z: zmat, min: zmin, max: zmax } = sceneLevels(energy, footprintMask(prepared, gridX, gridY));
+	const contributions = summarizeContributions(keys, labels, facadeEnergy, (j, i) => Number.isFinite(zmat[j][i]));
+
+	// matriz de hover (tooltip): fachada más cercana de cualquier edificio
+	const pointToSegmentDist = (x: number, z: number, x1: number, z1: number, x2: number, z2: number) => {
+		const dxs = x2 - x1, dzs = z2 - z1;
+		if (dxs === 0 && dzs === 0) return Math.hypot(x - x1, z - z1);
+		const t = ((x - x1) * dxs + (z - z1) * dzs) / (dxs * dxs + dzs * dzs);
+		const tc = Math.max(0, Math.min(1, t));
+		const cx = x1 + tc * dxs, cz = z1 + tc * dzs;
+		return Math.hypot(x - cx, z - cz);
+	};
+
+	const hover: string[][] = Array.from({ length: zmat.length }, () => new Array(zmat[0]?.length ?? 0).fill(""));
+	for (let j = 0; j < zmat.length; j++) {
+		for (let i = 0; i < zmat[j].length; i++) {
+			const Lp = zmat[j][i];
+			const px = gridX[i], pz = gridY[j];
+
+			let minD = Infinity;
+			let nearest = "";
+			for (const p of prepared) {
+				for (const seg of p.segments) {
+					const d = pointToSegmentDist(px, pz, seg.p1[0], seg.p1[1], seg.p2[0], seg.p2[1]);
+					if (d < minD) { minD = d; nearest = p.building.name ?? p.building.id; }
+				}
+			}
+
+			if (!Number.isFinite(Lp) || !Number.isFinite(minD)) {
+				hover[j][i] = "Sin datos";
+				continue;
+			}
+
+			// potencia/energía estimada en unidades relativas: E ~ 10^(Lp/10)
+			const potenciaRel = Math.pow(10, Lp / 10);
+			// fachada dominante y ventaja sobre la segunda
+			const k = contributions.dominant[j][i];
+			const m = contributions.margin[j][i];
+			const dominantText = k >= 0
+				? `Fachada dominante: ${labels[k]} (${Number.isFinite(m) ? `+${m.toFixed(1)} dB sobre la siguiente` : "única"})<br>`
+				: "";
+			hover[j][i] =
+				`Distancia a fachada: ${minD.toFixed(2)} m (${nearest})<br>` +
+				`Nivel (Lp): ${Lp.toFixed(1)} dB<br>` +
+				dominantText +
+				`Potencia estimada (rel): ${potenciaRel.toExponential(3)}`;
+		}
+	}
+
+	return { x: gridX, y: gridY, z: zmat, min: zmin, max: zmax, hover, contributions };
+}
+
+export default { sourceLwBySegment, prepareSceneBuildings, emitterOptions, standaloneEmitters, buildingSourceHeight, buildingReflections, sceneGrid, progressivePasses, computeSceneRows, footprintMask, sceneLevels, computeSceneHeatmap, assembleSceneHeatmap };
@@ -0,0 +1,59 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { decodeShareLink, encodeShareLink, isShareLink, SHARE_PREFIX } from "./ShareLink";
+import { readSceneFile } from "./SceneFile";
+import { defaultParams, getBuildingConfig } from "../config";
+import type { Config, Params } from "../types";
+
+const { scene } = readSceneFile({
+	buildings: [{ id: "a", footprint: [[-5, -5], [5, -5], [5, 5], [-5, 5]], height: 8, LwBySegment: [{ value: 80 }, { value: 70 }, { value: 70 }, { value: 70 }] }],
+	receivers: [{ id: "r1", name: "Vecino", x: 0, z: -20, height: 4 }]
+});
+
+// params con un valor cambiado, una clave nueva y dos claves por defecto borradas (una anidada)
+const { colorOverlay, ...rest } = defaultParams as Params;
+const { yellowSpread, ...overlay } = colorOverlay!;
+const { spread, ...kept } = rest;
+const params: Params = { ...kept, cellSize: 2, dbPerMeter: 0.2, colorOverlay: { ...overlay, redThreshold: 70 } };
+const { size, ...config } = { ...getBuildingConfig("L"), areaSize: 60 } as Config;
+
+describe("encodeShareLink / decodeShareLink", () => {
+	afterEach(() => { vi.unstubAllGlobals(); });
+
+	it("ida y vuelta: escena, params y config iguales, también con claves borradas", async () => {
+		const hash = await encodeShareLink({ scene, params, config });
+		expect(isShareLink(hash)).toBe(true);
+		const decoded = await decodeShareLink(hash);
+		expect(decoded.scene).toEqual(scene);
+		expect(decoded.params).toEqual(params);
+		expect(decoded.params).not.toHaveProperty("spread");
+		expect(decoded.params.colorOverlay).not.toHaveProperty("yellowSpread");
+		expect(decoded.config).toEqual(config);
+		expect(decoded.config).not.toHaveProperty("size");
+		expect(decoded.warnings).toEqual([]);
+		expect(yellowSpread).toBeDefined();
+		expect(spread).toBeDefined();
+		expect(size).toBeDefined();
+	});
+
+	it("sin CompressionStream el enlace va sin comprimir (1j.) y se decodifica igual", async () => {
+		vi.stubGlobal("CompressionStream", undefined);
+		const hash = await encodeShareLink({ scene, params, config });
+		expect(hash.startsWith(`${SHARE_PREFIX}1j.`)).toBe(true);
+		expect((await decodeShareLink(hash)).params).toEqual(params);
+	});
+
+	it("con los valores por defecto solo viaja la escena", async () => {
+		vi.stubGlobal("CompressionStream", undefined);
+		const hash = await encodeShareLink({ scene, params: defaultParams as Params, config: getBuildingConfig("L") });
+		const json = JSON.parse(Buffer.from(hash.slice(`${SHARE_PREFIX}1j.`.length), "base64url").toString());
+		expect(json.params).toEqual({});
+		expect(json.config).toEqual({});
+	});
+
+	it("enlaces ajenos, de otra versión o dañados: error legible", async () => {
+		await expect(decodeShareLink("#x=1")).rejects.toThrow("El enlace no contiene un mapa compartido");
+		await expect(decodeShareLink(`${SHARE_PREFIX}2j.e30`)).rejects.toThrow("Versión de enlace desconocida (2)");
+		await expect(decodeShareLink(`${SHARE_PREFIX}1j.e30!`)).rejects.toThrow("El enlace compartido está incompleto o dañado");
+		await expect(decodeShareLink(`${SHARE_PREFIX}1z.AAAA`)).rejects.toThrow("El enlace compartido está incompleto o dañado");
+	});
+});
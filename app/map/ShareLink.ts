@@ -0,0 +1,112 @@
+import { defaultParams, getBuildingConfig } from "../config";
+import { readSceneFile } from "./SceneFile";
+import { SchemaIssue } from "../lib/schema";
+import { Config, Params, Scene } from "../types";
+
+/**
+ * ShareLink
+ *
+ * Estado del mapa (escena, params, config) codificado en el hash de la URL para compartirlo por enlace:
+ *   #s=1z.<base64url(deflate-raw(JSON))>   (1j.<base64url(JSON)> si el navegador no tiene CompressionStream)
+ *  - params y config se guardan como diferencia con defaultParams / getBuildingConfig("L"), así el enlace
+ *    solo crece con lo que se ha tocado; al decodificar se vuelven a completar con los valores por defecto.
+ *    Una clave por defecto que el estado ya no tiene va como null y se borra al decodificar
+ *  - la decodificación valida la escena con readSceneFile (mismos errores y avisos que CLI, API y proyectos)
+ */
+export const SHARE_PREFIX = "#s=";
+const SHARE_VERSION = 1;
+
+export type ShareState = { scene: Scene; params: Params; config: Config };
+
+export const isShareLink = (hash: string) => hash.startsWith(SHARE_PREFIX);
+
+const isObject = (v: any) => !!v && typeof v === "object" && !Array.isArray(v);
+
+// claves de value que difieren de base (objetos campo a campo; listas y valores sueltos enteros);
+// las claves de base que faltan en value quedan como null
+function diffFrom(base: any, value: any): any {
+	if (!isObject(base) || !isObject(value)) return JSON.stringify(base) === JSON.stringify(value) ? undefined : value;
+	const out: Record<string, any> = {};
+	for (const key of Object.keys(base)) if (value[key] === undefined) out[key] = null;
+	for (const key of Object.keys(value)) {
+		if (value[key] === undefined) continue;
+		const d = diffFrom(base[key], value[key]);
+		if (d !== undefined) out[key] = d;
+	}
+	return Object.keys(out).length ? out : undefined;
+}
+
+function mergeOnto(base: any, patch: any): any {
+	if (!isObject(base) || !isObject(patch)) return patch === undefined ? base : patch;
+	const out: Record<string, any> = { ...base };
+	for (const key of Object.keys(patch)) {
+		if (patch[key] === null) delete out[key];
+		else out[key] = mergeOnto(base[key], patch[key]);
+	}
+	return out;
+}
+
+function toBase64Url(bytes: Uint8Array) {
+	let binary = "";
+	for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+	return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string) {
+	const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+	return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
+
+async function pipe(bytes: Uint8Array, stream: CompressionStream | DecompressionStream) {
+	const out = new Blob([bytes as Uint8Array<ArrayBuffer>]).stream().pipeThrough(stream);
+	return new Uint8Array(await new Response(out).arrayBuffer());
+}
+
+/**
+ * encodeShareLink
+ * Hash "#s=..." con el estado del mapa (sin cámara ni nombre de proyecto).
+ */
+export async function encodeShareLink({ scene, params, config }: ShareState) {
+	const json = JSON.stringify({
+		scene,
+		params: diffFrom(defaultParams, params) ?? {},
+		config: diffFrom(getBuildingConfig("L"), config) ?? {}
+	});
+	const bytes = new TextEncoder().encode(json);
+	if (typeof CompressionStream === "undefined") return `${SHARE_PREFIX}${SHARE_VERSION}j.${toBase64Url(bytes)}`;
+	return `${SHARE_PREFIX}${SHARE_VERSION}z.${toBase64Url(await pipe(bytes, new CompressionStream("deflate-raw")))}`;
+}
+
+/**
+ * decodeShareLink
+ * Estado del mapa a partir del hash; lanza Error legible si el enlace no es de esta aplicación, es de una
+ * versión desconocida, está truncado o contiene una escena no válida.
+ */
+export async function decodeShareLink(hash: string): Promise<ShareState & { warnings: SchemaIssue[] }> {
+	if (!isShareLink(hash)) throw new Error("El enlace no contiene un mapa compartido");
+	const match = /^(\d+)([zj])\.([A-Za-z0-9_-]+)$/.exec(hash.slice(SHARE_PREFIX.length));
+	if (!match) throw new Error("El enlace compartido está incompleto o dañado");
+	if (Number(match[1]) !== SHARE_VERSION) throw new Error(`Versión de enlace desconocida (${match[1]})`);
+
+	let json: any;
+	try {
+		let bytes = fromBase64Url(match[3]);
+		if (match[2] === "z") {
+			if (typeof DecompressionStream === "undefined") throw new Error("este navegador no puede descomprimir el enlace");
+			bytes = await pipe(bytes, new DecompressionStream("deflate-raw"));
+		}
+		json = JSON.parse(new TextDecoder().decode(bytes));
+	} catch (e) {
+		throw new Error(`El enlace compartido está incompleto o dañado (${(e as Error).message})`);
+	}
+	if (!isObject(json)) throw new Error("El enlace compartido está incompleto o dañado");
+	const file = readSceneFile({
+		scene: json.scene,
+		params: mergeOnto(defaultParams, json.params ?? {}),
+		config: mergeOnto(getBuildingConfig("L"), json.config ?? {})
+	});
+	// readSceneFile vuelve a completar con los valores por defecto: las claves borradas (null) se quitan de nuevo
+	return { ...file, params: mergeOnto(file.params, json.params ?? {}), config: mergeOnto(file.config, json.config ?? {}) };
+}
+
+export default { SHARE_PREFIX, isShareLink, encodeShareLink, decodeShareLink };
@@ -0,0 +1,39 @@
+import { computeSceneRows } from "./SceneHeatmap";
+import { computeReceiverLevels } from "./Receivers";
+import type { HeatmapRowsResponse, HeatmapWorkerRequest, ReceiversResponse } from "./HeatmapWorkerPool";
+import { Config, Params, Scene } from "../types";
+
+/**
+ * heatmap.worker
+ *
+ * Worker de HeatmapWorkerPool: calcula bloques de filas del mapa (computeSceneRows) fuera del hilo principal.
+ * La escena y los parámetros llegan una sola vez por trabajo (campo `job`); los bloques siguientes del mismo
+ * jobId solo traen el rango de filas. Los trabajos de receptores (campo `receivers`) se calculan de una vez
+ * con computeReceiverLevels.
+ */
+const ctx = self as unknown as Worker;
+let current: { jobId: number; config: Config; scene: Scene; params: Params } | null = null;
+
+ctx.onmessage = (e: MessageEvent<HeatmapWorkerRequest>) => {
+	if ("receivers" in e.data) {
+		const { jobId, receivers } = e.data;
+		let msg: ReceiversResponse;
+		try {
+			msg = { jobId, results: computeReceiverLevels(receivers.scene, receivers.params) };
+		} catch (err) {
+			msg = { jobId, error: String((err as Error)?.message ?? err) };
+		}
+		ctx.postMessage(msg);
+		return;
+	}
+	const { jobId, j0, j1, job } = e.data;
+	if (job) current = { jobId, ...job };
+	if (!current || current.jobId !== jobId) return;
+	let msg: HeatmapRowsResponse;
+	try {
+		msg = { jobId, chunk: computeSceneRows(current.config, current.scene, current.params, j0, j1) };
+	} catch (err) {
+		msg = { jobId, j0, j1, error: String((err as Error)?.message ?? err) };
+	}
+	ctx.postMessage(msg);
+};
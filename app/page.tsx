@@ -1,111 +1,214 @@
 "use client";
 
-import React, { useEffect, useMemo, useRef, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
 import { Canvas } from "@react-three/fiber";
-import { OrbitControls } from "@react-three/drei";
+import { Line, OrbitControls } from "@react-three/drei";
 import * as THREE from "three";
-import { createRectangleExtrudeGeometry } from "./geometry/building";
 import ControlsPanel from "./ControlsPanel";
-import PerimeterExtractor from "./Perimeter";
-import { defaultParams, getBuildingConfig } from "./config";
+import FootprintEditor from "./FootprintEditor";
+import FacadeOpenings from "./FacadeOpenings";
+import ContourOverlay from "./ContourOverlay";
+import HeatmapPlane from "./HeatmapPlane";
+import ReceiverPanel from "./ReceiverPanel";
+import ReceiverMarkers from "./ReceiverMarkers";
+import CompliancePanel, { ZoneDraft } from "./CompliancePanel";
+import ZoneDrawer from "./ZoneDrawer";
+import SourceMarkers from "./SourceMarkers";
+import { SourceDraft } from "./SourcePanel";
+import { ZONE_COLORS } from "./acoustics/Compliance";
+import { createSource, SOURCE_COLORS } from "./acoustics/StandaloneSources";
+import { BuildingConfig, defaultParams, getBuildingConfig, getDefaultScene } from "./config";
+import { buildingGeometry, syncLwBySegment, updateBuilding } from "./geometry/scene";
+import { applyFootprintEdit, FootprintEdit } from "./geometry/footprint";
 import useHeatmap from "./hooks/useHeatmap";
+import useContours from "./hooks/useContours";
+import useReceiverLevels from "./hooks/useReceiverLevels";
 import usePlotlyTexture from "./hooks/usePlotlyTexture";
-import { Building, Params } from "./types";
+import useDataTexture from "./hooks/useDataTexture";
+import useProject, { hasStartupState } from "./hooks/useProject";
+import useHistory, { UpdateOptions } from "./hooks/useHistory";
+import ProjectBar from "./ProjectBar";
+import CameraSync from "./CameraSync";
+import { CameraState, ProjectFile } from "./map/ProjectFile";
+import { formatIssues } from "./lib/schema";
+import { readSourceLevels, validateParams } from "./schemas";
+import { Config, Params, Scene, SceneBuilding } from "./types";
 
 export default function Home() {
-	const [config, setConfig] = useState(getBuildingConfig("L"));
-	const [building, setBuilding] = useState<Building>(getBuildingConfig("L"));
-	const [params, setParams] = useState<Params>(defaultParams);
+	// escena, parámetros y grilla con historial de deshacer / rehacer (Ctrl+Z / Ctrl+Mayús+Z)
+	const history = useHistory(() => ({ scene: getDefaultScene("L"), params: defaultParams as Params, config: getBuildingConfig("L") }));
+	const { present: { scene, params, config }, update, reset } = history;
+	const setScene = useCallback((action: React.SetStateAction<Scene>, options?: UpdateOptions) => update("scene", action, options), [update]);
+	const setParams = useCallback((action: React.SetStateAction<Params>) => update("params", action), [update]);
+	const setConfig = useCallback((action: React.SetStateAction<Config>) => update("config", action as React.SetStateAction<BuildingConfig>), [update]);
+	const [selectedId, setSelectedId] = useState<string>(() => getDefaultScene("L").buildings[0].id);
 	const [refreshKey, setRefreshKey] = useState(0);
 	const [texture, setTexture] = useState<THREE.Texture | null>(null);
+	const [editMode, setEditMode] = useState(false);
+	const [camera, setCamera] = useState<CameraState | null>(null);
+	const [zoneDraft, setZoneDraft] = useState<ZoneDraft | null>(null);
+	const [sourceDraft, setSourceDraft] = useState<SourceDraft | null>(null);
 
-	// rectangle geometry: width = footprint (short side), depth = footprintDepth (long side)
-	const rectMesh = useMemo(() => createRectangleExtrudeGeometry(config.footprint, (config as any).footprintDepth ?? config.footprint, config.buildingHeight), [config.footprint, (config as any).footprintDepth, config.buildingHeight]);
+	// edificio seleccionado: los controles de Lw por segmento editan este edificio
+	const building = useMemo(() => scene.buildings.find(b => b.id === selectedId) ?? scene.buildings[0], [scene, selectedId]);
+	const setBuilding = useCallback<React.Dispatch<React.SetStateAction<SceneBuilding>>>((action) => {
+		setScene(sc => {
+			const id = sc.buildings.some(b => b.id === selectedId) ? selectedId : sc.buildings[0]?.id;
+			return updateBuilding(sc, id, b => syncLwBySegment(typeof action === "function" ? action(b) : { ...b, ...action }));
+		});
+	}, [selectedId, setScene]);
 
-	// extract perimeter from rectangle
-	const baseLoop = useMemo(() => PerimeterExtractor.extractBasePerimeter(rectMesh), [rectMesh]);
+	// editor de vértices: regenera huella/segmentos conservando el Lw de los lados que sobreviven
+	const onFootprintEdit = useCallback((edit: FootprintEdit) => {
+		if (!building) return;
+		setScene(sc => updateBuilding(sc, building.id, b => applyFootprintEdit(b, edit)));
+		setRefreshKey(k => k + 1);
+	}, [building, setScene]);
 
-	const finalLoop = useMemo(() => baseLoop && baseLoop.length >= 3 ? baseLoop : [], [baseLoop]);
+	// fuente en colocación: un clic crea la puntual; las lineales y superficiales acumulan vértices hasta "Terminar"
+	const onSourcePoint = useCallback((point: number[]) => {
+		if (sourceDraft?.type !== "point") return setSourceDraft(d => d && { ...d, points: [...d.points, point] });
+		setScene(sc => ({ ...sc, sources: [...(sc.sources ?? []), createSource("point", [point], sc.sources ?? [])] }));
+		setSourceDraft(null);
+	}, [sourceDraft, setScene]);
 
-	// ensure building.LwBySegment length matches rectangle (4)
-	useEffect(() => {
-		const n = finalLoop ? finalLoop.length : 0;
-		if (!n) return;
-		setBuilding(prev => {
-			const cur = (prev as any).LwBySegment || [];
-			if (Array.isArray(cur) && cur.length === n) return prev;
-			const defaultVal = 30;
-			const newArr = new Array(n).fill(0).map((_, i) => ({ value: Array.isArray(cur) && cur[i] ? cur[i].value : defaultVal }));
-			return { ...prev, LwBySegment: newArr };
-		});
-	}, [finalLoop]);
+	// geometría extruida por edificio (huella ya girada y trasladada)
+	const geometries = useMemo(() => scene.buildings.map(b => ({ id: b.id, height: b.height, geometry: buildingGeometry(b) })), [scene]);
 
-	// load external JSON once and populate building.LwBySegment (if present)
+	// load external JSON once and populate the first building's LwBySegment (if present)
+	// (not when a previous session or a shared link is about to be loaded: its levels win)
+	// in "Lp" mode the levels come from the room model of that building (sides and facades of the initial scene)
 	useEffect(() => {
+		if (hasStartupState()) return;
 		(async () => {
 			try {
 				const res = await fetch("/data/sourceLevels.json");
 				if (!res.ok) return;
-				const j = await res.json();
-				if (Array.isArray(j?.segments)) {
-					// Determine conversion mode: 'Lw' => use values directly; 'Lp' => convert Lp->Lw
-					const mode = (j.mode || "Lw").toString().toLowerCase();
-					// constant 10*log10(4π) for geometric compensation at 1 m
-					const FOUR_PI_CONST = 10 * Math.log10(4 * Math.PI);
-					const dbPerMeter = (params as any)?.dbPerMeter ?? 0.5;
-
-					// map segments to Lw values depending on mode
-					const segs = j.segments.map((s: any) => {
-						const v = Number(s?.value ?? 0);
-						if (mode === "lp") {
-							// approximate Lw that would produce Lp ≈ v at 1 m:
-							// Lw ≈ Lp + 10*log10(4π) + dbPerMeter * 1
-							const lw = v + FOUR_PI_CONST + dbPerMeter * 1.0;
-							return { value: Number(lw) };
-						}
-						// default: treat as Lw
-						return { value: Number(v) };
-					});
-					// ensure exactly 4 segments for rectangle building
-					while (segs.length < 4) segs.push({ value: 0 });
-					setBuilding((b: any) => ({ ...b, LwBySegment: segs.slice(0, 4) }));
+				const { levels, errors, warnings } = readSourceLevels(await res.json(), scene.buildings[0]);
+				if (warnings.length) console.warn(`data/sourceLevels.json:\n${formatIssues(warnings)}`);
+				if (!levels) {
+					console.warn(`data/sourceLevels.json no válido, se ignora:\n${formatIssues(errors)}`);
+					return;
 				}
+				// one entry per side of the first building's footprint
+				setScene(sc => {
+					const first = sc.buildings[0];
+					if (!first) return sc;
+					const n = first.footprint.length;
+					const segs = [...levels];
+					while (segs.length < n) segs.push({ value: 0 });
+					return updateBuilding(sc, first.id, b => ({ ...b, LwBySegment: segs.slice(0, n) }));
+				}, { record: false });
 			} catch (e) {
 				console.warn("No se pudo cargar data/sourceLevels.json", e);
 			}
 		})();
 	}, []);
 
-	// heatmap + texture hooks (unchanged)
-	const heatmap = useHeatmap(config, building, params, finalLoop, rectMesh, refreshKey);
-	const textureFromHook = usePlotlyTexture(heatmap, params, building);
+	// proyecto .amap.json: guardar / abrir / autoguardado con todo lo necesario para reabrir el estudio
+	const projectState = useMemo(() => ({ scene, params, config, camera, selectedId: building?.id }), [scene, params, config, camera, building?.id]);
+	const applyProject = useCallback((p: ProjectFile) => {
+		reset({ scene: p.scene, params: p.params, config: p.config as BuildingConfig });
+		setSelectedId(p.selectedId ?? p.scene.buildings[0].id);
+		setCamera(p.camera ?? null);
+		setRefreshKey(k => k + 1);
+	}, [reset]);
+	const project = useProject(projectState, applyProject);
+
+	// parámetros fuera de rango o con claves desconocidas (erratas): se avisan en la barra del proyecto, el cálculo sigue
+	const paramIssues = useMemo(() => {
+		const { errors, warnings } = validateParams(params);
+		return [
+			...(errors.length ? [`Parámetros no válidos:\n${formatIssues(errors)}`] : []),
+			...(warnings.length ? [`Parámetros desconocidos:\n${formatIssues(warnings)}`] : [])
+		];
+	}, [params]);
+
+	// heatmap + texture hooks: energía combinada de todos los edificios (calculada por filas en workers)
+	const { heatmap, progress } = useHeatmap(config, scene, params, refreshKey);
+	const allLevels = useMemo(() => ({ LwBySegment: scene.buildings.flatMap(b => b.LwBySegment) }), [scene]);
+	const renderMode = params.renderMode ?? "data";
+	const dataTexture = useDataTexture(renderMode === "data" ? heatmap : null, params, allLevels);
+	const plotlyTexture = usePlotlyTexture(renderMode === "plotly" ? heatmap : null, params, allLevels);
+	const textureFromHook = renderMode === "plotly" ? plotlyTexture : dataTexture;
 	useEffect(() => { setTexture(textureFromHook); }, [textureFromHook]);
 
+	// isolíneas (niveles de params.contours) sobre el plano del mapa
+	const contours = useContours(heatmap, params);
+
+	// receptores: nivel exacto y desglose por fachada
+	const receiverLevels = useReceiverLevels(scene, params);
+
 	// render
 	return (
 		<div style={{ width: "100vw", height: "100vh", margin: 0, padding: 0, background: "#222", overflow: "hidden" }}>
-			<ControlsPanel building={building} setBuilding={setBuilding} params={params} setParams={setParams} setRefreshKey={setRefreshKey} setConfig={setConfig} />
+			<ControlsPanel building={building} setBuilding={setBuilding} params={params} setParams={setParams} setRefreshKey={setRefreshKey} setConfig={setConfig}
+				scene={scene} setScene={setScene} selectedId={building?.id} setSelectedId={setSelectedId}
+				editMode={editMode} setEditMode={setEditMode} heatmap={heatmap} sourceDraft={sourceDraft} setSourceDraft={setSourceDraft} />
+			<ReceiverPanel scene={scene} setScene={setScene} results={receiverLevels} />
+			<ProjectBar project={project} history={history} issues={paramIssues} />
+			<CompliancePanel params={params} setParams={setParams} heatmap={heatmap} draft={zoneDraft} setDraft={setZoneDraft} />
+			{progress < 1 && (
+				<div style={{ position: "absolute", left: "50%", bottom: 16, transform: "translateX(-50%)", background: "rgba(0,0,0,0.75)", padding: "6px 10px", borderRadius: 6, color: "#fff", fontFamily: "sans-serif", fontSize: 12, zIndex: 1100, width: 220 }}>
+					<div style={{ marginBottom: 4 }}>Calculando mapa… {Math.round(progress * 100)} %</div>
+					<div style={{ height: 4, background: "#444", borderRadius: 2 }}>
+						<div style={{ width: `${progress * 100}%`, height: "100%", background: "#4fc3f7", borderRadius: 2 }} />
+					</div>
+				</div>
+			)}
 
 			<Canvas camera={{ position: [30, 20, 30], fov: 45 }} style={{ width: "100%", height: "100%" }}>
 				<hemisphereLight groundColor={0x444444} intensity={0.6} />
 				<directionalLight position={[50, 50, 50]} intensity={0.8} />
 
-				{/* heatmap plane */}
-				<mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, 0, 0]}>
-					<planeGeometry args={[config.areaSize, config.areaSize, 1, 1]} />
-					{texture ? <meshBasicMaterial map={texture} toneMapped={false} transparent={true} opacity={0.98} /> : <meshStandardMaterial color={0x222222} />}
-				</mesh>
-
-				{/* rectangle building */}
-				{rectMesh && (
-					<group position={[0, config.buildingHeight / 2, 0]} rotation={[Math.PI / 2, 0, 0]} renderOrder={1000}>
-						<mesh geometry={rectMesh} castShadow receiveShadow renderOrder={1000}>
-							<meshStandardMaterial color={0x999999} metalness={0.1} roughness={0.6} transparent={false} />
+				{/* heatmap plane (hover: level and dominant facade of the cell) */}
+				<HeatmapPlane heatmap={heatmap} texture={texture} areaSize={config.areaSize} />
+
+				{/* iso-dB contour lines with level labels */}
+				<ContourOverlay contours={contours} />
+
+				{/* named receiver points */}
+				<ReceiverMarkers results={receiverLevels} />
+
+				{/* ground regions (G): outline tinted grey (hard) -> green (porous) */}
+				{(params.ground?.regions ?? []).map((region, idx) => region.polygon.length >= 3 && (
+					<Line key={idx} points={[...region.polygon, region.polygon[0]].map(([x, z]) => [x, 0.05, z] as [number, number, number])}
+						color={new THREE.Color(0x888888).lerp(new THREE.Color(0x33cc33), region.G)} lineWidth={2} />
+				))}
+
+				{/* compliance zones: outline coloured by zone type */}
+				{(params.compliance?.zones ?? []).map((zone, idx) => zone.polygon.length >= 3 && (
+					<Line key={idx} points={[...zone.polygon, zone.polygon[0]].map(([x, z]) => [x, 0.08, z] as [number, number, number])}
+						color={ZONE_COLORS[zone.type]} lineWidth={3} />
+				))}
+
+				{/* zone being drawn: each click on the ground adds a vertex */}
+				{zoneDraft && <ZoneDrawer color={ZONE_COLORS[zoneDraft.type]} points={zoneDraft.points} areaSize={config.areaSize}
+					onAddPoint={(point) => setZoneDraft(d => d && { ...d, points: [...d.points, point] })} />}
+
+				{/* standalone sources (point, line, area) and the one being placed */}
+				<SourceMarkers sources={scene.sources ?? []} />
+				{sourceDraft && <ZoneDrawer color={SOURCE_COLORS[sourceDraft.type]} closed={sourceDraft.type === "area"} points={sourceDraft.points} areaSize={config.areaSize}
+					onAddPoint={onSourcePoint} />}
+
+				{/* buildings: the extrusion grows towards -Y after the X rotation, so lift each one by its height */}
+				{geometries.map(({ id, height, geometry }) => (
+					<group key={id} position={[0, height, 0]} rotation={[Math.PI / 2, 0, 0]} renderOrder={1000}>
+						<mesh geometry={geometry} castShadow receiveShadow renderOrder={1000}
+							onClick={(e) => { e.stopPropagation(); setSelectedId(id); }}>
+							<meshStandardMaterial color={id === building?.id ? 0xb0b8c8 : 0x999999} metalness={0.1} roughness={0.6} transparent={false} />
 						</mesh>
 					</group>
-				)}
+				))}
+
+				{/* facade elements (windows, doors, vents) drawn on the outer face of their side */}
+				<FacadeOpenings buildings={scene.buildings} />
+
+				{/* in-canvas footprint editor for the selected building */}
+				{editMode && building && <FootprintEditor building={building} onEdit={onFootprintEdit} />}
 
-				<OrbitControls />
+				<OrbitControls makeDefault />
+				<CameraSync camera={camera} onChange={setCamera} />
 			</Canvas>
 		</div>
 	);
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { readSourceLevels, validateConfig, validateParams } from "./schemas";
+import { facadeEmission } from "./acoustics/RoomModel";
+import type { SceneBuilding } from "./types";
+import { defaultParams, getBuildingConfig } from "./config";
+
+describe("paramsSchema / configSchema", () => {
+	it("defaultParams y getBuildingConfig son válidos", () => {
+		expect(validateParams(defaultParams)).toEqual({ errors: [], warnings: [] });
+		expect(validateConfig(getBuildingConfig("U"))).toEqual({ errors: [], warnings: [] });
+	});
+
+	it("umbrales de color en 0–140 dB y cellSize / sourceSpacing > 0", () => {
+		const { errors } = validateParams({ colorOverlay: { redThreshold: 141, yellowThreshold: 0 }, cellSize: 0, sourceSpacing: -1 });
+		expect(errors.map(e => e.path)).toEqual(["params.colorOverlay.redThreshold", "params.cellSize", "params.sourceSpacing"]);
+		expect(errors[0].message).toBe("debe estar entre 0 y 140 dB, recibido 141");
+	});
+
+	it("errata en una clave: aviso con la sugerencia", () => {
+		const { errors, warnings } = validateParams({ colorOverlay: { yelowMaxDist: 6 } });
+		expect(errors).toEqual([]);
+		expect(warnings).toEqual([{ path: "params.colorOverlay.yelowMaxDist", message: "clave desconocida (se ignora); ¿quizá \"yellowMaxDist\"?" }]);
+	});
+
+	it("resolution entera entre 2 y 1000", () => {
+		expect(validateConfig({ resolution: 1.5 }).errors).toEqual([{ path: "config.resolution", message: "debe ser un entero, recibido 1.5" }]);
+		expect(validateConfig({ resolution: 1001 }).errors[0].message).toBe("debe estar entre 2 y 1000 celdas, recibido 1001");
+	});
+});
+
+describe("readSourceLevels", () => {
+	it("modo Lw: valores directos", () => {
+		const { levels, errors } = readSourceLevels({ mode: "Lw", segments: [{ name: "a", value: 80 }, { value: 75 }] });
+		expect(errors).toEqual([]);
+		expect(levels).toEqual([{ value: 80 }, { value: 75 }]);
+	});
+
+	// cuadrado de 10 m y 8 m de alto (S = 80 m² por lado); segment-0 con muro de R = 40 dB
+	const building: SceneBuilding = {
+		id: "b",
+		position: { x: 0, z: 0 },
+		rotation: 0,
+		footprint: [[-5, -5], [5, -5], [5, 5], [-5, 5]],
+		height: 8,
+		LwBySegment: [{ value: 0 }, { value: 0 }, { value: 0 }, { value: 0 }],
+		facades: { "segment-0": { wallR: 40 } }
+	};
+
+	it("modo Lp: Lw del modelo interior con el lado y la fachada del edificio", () => {
+		const { levels, errors } = readSourceLevels({ mode: "Lp", segments: [{ value: 80, absorption: 50 }, { value: 70, volume: 200, rt60: 0.8 }] }, building);
+		expect(errors).toEqual([]);
+		expect(levels![0].value).toBeCloseTo(80 + 10 * Math.log10(80) - 40, 10);
+		const room = { id: "r", Lp_in: 70, volume: 200, rt60: 0.8, segments: ["segment-1"] };
+		expect(levels![1].value).toBeCloseTo(facadeEmission(building, 1, room)!.Lw, 10);
+	});
+
+	it("modo Lp sin datos de sala, sin lado o sin edificio: se rechaza", () => {
+		const noRoom = readSourceLevels({ mode: "Lp", segments: [{ value: 80, absorption: 50 }, { value: 70 }] }, building);
+		expect(noRoom.levels).toBeNull();
+		expect(noRoom.errors).toEqual([{ path: "sourceLevels.segments[1]", message: "modo Lp: indica absorption (m²) o volume (m³) y rt60 (s) de la sala" }]);
+		const extra = readSourceLevels({ mode: "Lp", segments: Array.from({ length: 5 }, () => ({ value: 80, absorption: 50 })) }, building);
+		expect(extra).toMatchObject({ levels: null, errors: [{ path: "sourceLevels.segments[4]" }] });
+		expect(readSourceLevels({ mode: "Lp", segments: [{ value: 80, absorption: 50 }] })).toMatchObject({ levels: null, errors: [{ path: "sourceLevels.mode" }] });
+	});
+
+	it("entrada no válida: errores con ruta y sin niveles", () => {
+		expect(readSourceLevels(null)).toMatchObject({ levels: null, errors: [{ path: "sourceLevels", message: "se esperaba un objeto, recibido null" }] });
+		const bad = readSourceLevels({ mode: "dBA", segments: [{ value: 250 }, {}] });
+		expect(bad.levels).toBeNull();
+		expect(bad.errors.map(e => e.path)).toEqual(["sourceLevels.mode", "sourceLevels.segments[0].value", "sourceLevels.segments[1].value"]);
+		expect(readSourceLevels({ mode: "Lw" })).toMatchObject({ levels: null, errors: [{ path: "sourceLevels.segments", message: "campo obligatorio" }] });
+	});
+});
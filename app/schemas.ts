@@ -0,0 +1,246 @@
+import { any, arrayOf, bool, num, object, oneOf, record, Schema, SchemaIssue, str, validate, ValidationResult } from "./lib/schema";
+import { facadeEmission, roomAbsorption, Room } from "./acoustics/RoomModel";
+import { LwSide, SceneBuilding } from "./types";
+
+/**
+ * schemas
+ *
+ * Esquemas de validación (app/lib/schema.ts) para los objetos que llegan de fuera de la UI:
+ *  - paramsSchema: Params (defaultParams y lo que añaden la UI, la CLI y la API)
+ *  - configSchema: Config (getBuildingConfig: área, resolución, alturas)
+ *  - buildingSchema / receiverSchema: edificios y receptores de una escena (readSceneFile); roomSchema /
+ *    facadeBuildUpSchema: salas del modelo interior y composición de fachada (muro y elementos);
+ *    standaloneSourceSchema: fuentes puntuales, lineales y superficiales de la escena
+ *  - sourceLevelsSchema: data/sourceLevels.json (niveles por segmento en Lw, o Lp interior con los datos de la sala)
+ * Unidades: m, dB; umbrales de color en 0–140 dB, niveles de fuente (Lw) en 0–200 dB.
+ */
+
+const dB = () => num({ min: 0, max: 140, unit: "dB" });
+const lwDb = () => num({ min: 0, max: 200, unit: "dB" });
+const meters = () => num({ min: 0, unit: "m" });
+const positiveMeters = () => num({ min: 0, exclusiveMin: true, unit: "m" });
+const cells = () => num({ min: 0, integer: true, unit: "celdas" });
+const sigma = () => num({ min: 0, exclusiveMin: true });
+const factor = () => num({ min: 0 });
+const fraction = () => num({ min: 0, max: 1 });
+const point = () => arrayOf(num(), { minLength: 2, maxLength: 2 });
+const bandFactors = () => record(factor());
+
+export const lwSideSchema: Schema = object({
+	value: lwDb(),
+	spectrum: arrayOf(lwDb(), { minLength: 8, maxLength: 8 }),
+	periods: object({ day: lwDb(), evening: lwDb(), night: lwDb() }),
+	schedule: arrayOf(fraction(), { minLength: 24, maxLength: 24 })
+}, ["value"]);
+
+const colorOverlaySchema = object({
+	redThreshold: dB(),
+	yellowThreshold: dB(),
+	greenThreshold: dB(),
+	blueThreshold: dB(),
+	yellowSpread: num({ min: 0, max: 140, unit: "dB" }),
+	overlaySmoothSize: cells(),
+	overlaySmoothSigma: sigma(),
+	redRadius: meters(),
+	redDecay: factor(),
+	lateralSpreadFactor: factor(),
+	lateralTaper: num(),
+	colorSpread: bandFactors(),
+	propagation: object({
+		bandDecay: bandFactors(),
+		bandMaxDist: record(meters()),
+		lateralMultiplier: bandFactors()
+	}),
+	normalize: oneOf(["per_meter", "per_sample", "none"]),
+	redSampleSpacing: positiveMeters(),
+	dotThreshold: num({ min: -1, max: 1 }),
+	redFalloffScale: factor(),
+	redMaxDist: meters(),
+	yellowMaxDist: meters(),
+	__emitPoints: any()
+});
+
+export const paramsSchema: Schema = object({
+	spread: factor(),
+	maxRedDist: meters(),
+	powerFactor: factor(),
+	weakSpotSpread: factor(),
+	weakSpotRadius: meters(),
+	weakSpotBoost: num({ unit: "dB" }),
+	weakSpotDirX: num({ min: -1, max: 1 }),
+	weakSpotDirZ: num({ min: -1, max: 1 }),
+	preSmoothSize: cells(),
+	preSmoothSigma: sigma(),
+	finalSmoothSize: cells(),
+	finalSmoothSigma: sigma(),
+	cellSize: positiveMeters(),
+	sourceSpacing: positiveMeters(),
+	redWeight: factor(),
+	yellowWeight: factor(),
+	dbPerMeter: num({ min: 0, unit: "dB/m" }),
+	inputMode: oneOf(["Lw", "Lp"]),
+	sourceHeight: meters(),
+	dotThreshold: num({ min: -1, max: 1 }),
+	colorOverlay: colorOverlaySchema,
+	meteo: object({
+		temperatureC: num({ min: -50, max: 60, unit: "°C" }),
+		humidity: num({ min: 0, max: 100, unit: "%" }),
+		pressureKPa: num({ min: 50, max: 120, unit: "kPa" })
+	}),
+	ground: object({
+		enabled: bool(),
+		defaultG: fraction(),
+		regions: arrayOf(object({ name: str(), polygon: arrayOf(point(), { minLength: 3 }), G: fraction() }, ["polygon", "G"]))
+	}),
+	reflections: object({
+		enabled: bool(),
+		defaultAbsorption: fraction(),
+		absorption: record(fraction())
+	}),
+	mapMode: oneOf(["level", "dominant", "compliance"]),
+	indicator: oneOf(["steady", "Lday", "Levening", "Lnight", "Lden"]),
+	compliance: object({
+		period: oneOf(["day", "evening", "night"]),
+		margin: num({ min: 0, max: 20, unit: "dB" }),
+		zones: arrayOf(object({
+			name: str(),
+			type: oneOf(["residential", "commercial", "industrial"]),
+			polygon: arrayOf(point(), { minLength: 3 }),
+			limits: object({ day: dB(), evening: dB(), night: dB() }, ["day", "evening", "night"])
+		}, ["type", "polygon", "limits"]))
+	}),
+	renderMode: oneOf(["data", "plotly"]),
+	contours: object({ enabled: bool(), levels: arrayOf(dB()) }),
+	attenuation: object({
+		exponent: factor(),
+		minDist: positiveMeters(),
+		epsilon: sigma(),
+		dirPower: factor(),
+		applyDirectional: bool()
+	}),
+	Df_room: num({ unit: "dB" }),
+	Df_out: num({ unit: "dB" }),
+	Rmap: record(num({ min: 0, max: 100, unit: "dB" })),
+	Lp_in_map: record(dB()),
+	invertNormals: bool()
+});
+
+export const configSchema: Schema = object({
+	areaSize: positiveMeters(),
+	resolution: num({ min: 2, max: 1000, integer: true, unit: "celdas" }),
+	measureH: meters(),
+	footprint: positiveMeters(),
+	footprintDepth: positiveMeters(),
+	buildingHeight: positiveMeters(),
+	id: any(),
+	pos: object({ x: num({ unit: "m" }), z: num({ unit: "m" }) }),
+	size: positiveMeters(),
+	LwBySegment: arrayOf(lwSideSchema)
+});
+
+const insulation = () => num({ min: 0, max: 100, unit: "dB" });
+
+// modelo interior (inputMode "Lp"): salas emisoras; composición de fachada por lado (elementos con
+// posición a lo largo del lado, tamaño y R)
+export const roomSchema: Schema = object({
+	id: any(),
+	name: str(),
+	Lp_in: dB(),
+	absorption: num({ min: 0, exclusiveMin: true, unit: "m²" }),
+	volume: num({ min: 0, exclusiveMin: true, unit: "m³" }),
+	rt60: num({ min: 0, exclusiveMin: true, max: 20, unit: "s" }),
+	segments: arrayOf(str())
+}, ["Lp_in", "segments"]);
+
+export const facadeBuildUpSchema: Schema = object({
+	wallR: insulation(),
+	openings: arrayOf(object({
+		type: oneOf(["window", "door", "vent"]),
+		name: str(),
+		area: num({ min: 0, unit: "m²" }),
+		R: insulation(),
+		along: meters(),
+		width: positiveMeters(),
+		height: positiveMeters(),
+		sill: meters()
+	}, ["type", "R"]))
+});
+
+export const buildingSchema: Schema = object({
+	id: any(),
+	name: str(),
+	footprint: arrayOf(point(), { minLength: 3 }),
+	height: positiveMeters(),
+	position: object({ x: num({ unit: "m" }), z: num({ unit: "m" }) }),
+	rotation: num({ unit: "°" }),
+	LwBySegment: arrayOf(any()),
+	absorption: record(fraction()),
+	rooms: arrayOf(roomSchema),
+	facades: record(facadeBuildUpSchema)
+}, ["footprint"]);
+
+export const receiverSchema: Schema = object({
+	id: any(),
+	name: str(),
+	x: num({ unit: "m" }),
+	z: num({ unit: "m" }),
+	height: meters()
+}, ["x", "z"]);
+
+// fuentes independientes (Scene.sources): Lw es un número o un LwSide, como en LwBySegment
+export const standaloneSourceSchema: Schema = object({
+	id: any(),
+	name: str(),
+	type: oneOf(["point", "line", "area"]),
+	points: arrayOf(point(), { minLength: 1 }),
+	height: meters(),
+	Lw: any(),
+	directivity: num({ unit: "°" })
+}, ["type", "points", "Lw"]);
+
+export const sourceLevelsSchema: Schema = object({
+	mode: oneOf(["Lw", "Lp"], true),
+	segments: arrayOf(object({
+		name: str(),
+		value: lwDb(),
+		absorption: num({ min: 0, exclusiveMin: true, unit: "m²" }),
+		volume: num({ min: 0, exclusiveMin: true, unit: "m³" }),
+		rt60: num({ min: 0, exclusiveMin: true, max: 20, unit: "s" })
+	}, ["value"]))
+}, ["segments"]);
+
+export const validateParams = (params: unknown, path = "params") => validate(paramsSchema, params, path);
+export const validateConfig = (config: unknown, path = "config") => validate(configSchema, config, path);
+
+type SourceLevelsEntry = { value: number; absorption?: number; volume?: number; rt60?: number };
+
+/**
+ * readSourceLevels
+ * Valida data/sourceLevels.json y convierte sus niveles a Lw por segmento (entrada i -> "segment-i" de building):
+ *  - mode "Lw" (por defecto): valores directos
+ *  - mode "Lp": value es el Lp interior de una sala con absorption (m²) o volume (m³) + rt60 (s); el Lw sale del
+ *    modelo interior (facadeEmission: Lp_in + 10·log10(S) − Re' con el área del lado y la fachada de building)
+ * Con errores (también en modo Lp sin datos de sala o sin edificio) devuelve levels = null (el fichero no se aplica).
+ */
+export function readSourceLevels(json: unknown, building?: SceneBuilding): ValidationResult & { levels: LwSide[] | null } {
+	const result = validate(sourceLevelsSchema, json, "sourceLevels");
+	if (result.errors.length) return { ...result, levels: null };
+	const j = json as { mode?: string; segments: SourceLevelsEntry[] };
+	if ((j.mode ?? "Lw").toLowerCase() !== "lp") return { ...result, levels: j.segments.map(s => ({ value: s.value })) };
+	if (!building) return { ...result, errors: [{ path: "sourceLevels.mode", message: "modo Lp: falta el edificio al que se aplican los niveles" }], levels: null };
+	const errors: SchemaIssue[] = [];
+	const levels = j.segments.map((s, i) => {
+		const room: Room = { id: `sourceLevels-${i}`, Lp_in: s.value, absorption: s.absorption, volume: s.volume, rt60: s.rt60, segments: [`segment-${i}`] };
+		const path = `sourceLevels.segments[${i}]`;
+		if (!(roomAbsorption(room) > 0)) {
+			errors.push({ path, message: "modo Lp: indica absorption (m²) o volume (m³) y rt60 (s) de la sala" });
+			return { value: 0 };
+		}
+		const emission = facadeEmission(building, i, room);
+		if (!emission) errors.push({ path, message: `modo Lp: el edificio no tiene un lado segment-${i} con área` });
+		return { value: emission?.Lw ?? 0 };
+	});
+	return errors.length ? { ...result, errors, levels: null } : { ...result, levels };
+}
+
+export default { paramsSchema, configSchema, buildingSchema, roomSchema, facadeBuildUpSchema, receiverSchema, standaloneSourceSchema, sourceLevelsSchema, lwSideSchema, validateParams, validateConfig, readSourceLevels };
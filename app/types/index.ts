@@ -1,24 +1,102 @@
-export type LwSide = { value: number };
+import type { Meteo } from "../lib/ISOModel";
+import type { GroundConfig } from "../acoustics/GroundRegions";
+import type { ReflectionOptions } from "../acoustics/ImageSources";
+import type { ComplianceConfig } from "../acoustics/Compliance";
+import type { NoiseIndicator, Period } from "../acoustics/TimePeriods";
+import type { Room } from "../acoustics/RoomModel";
+import type { FacadeBuildUp } from "../acoustics/FacadeUtils";
+import type { AttenuationOptions } from "../acoustics/Attenuation";
+import type { StandaloneSource } from "../acoustics/StandaloneSources";
+
+// value: Lw global (dB); spectrum: Lw por banda de octava 63 Hz – 8 kHz (opcional)
+// periods: Lw por periodo día / tarde / noche; schedule: fracción en funcionamiento de cada hora 0–23 (opcionales)
+export type LwSide = { value: number; spectrum?: number[]; periods?: Partial<Record<Period, number>>; schedule?: number[] };
 
 export interface Building {
 	LwBySegment?: LwSide[];
-	// otros campos del building si los hay
-	[id: string]: any;
 }
 
+/**
+ * SceneBuilding: edificio de una escena
+ * - footprint: huella en planta ([x,z], m) relativa a `position`, en orden de recorrido (segment-i = vértice i -> i+1)
+ * - rotation: giro en grados alrededor del eje vertical (sentido x -> z)
+ * - absorption: α por segmento para las reflexiones en sus fachadas (opcional)
+ * - rooms: salas emisoras del modelo interior (inputMode "Lp")
+ * - facades: composición de cada fachada (muro y elementos con posición, tamaño y R): Re' del lado y punto
+ *   de emisión de cada elemento
+ */
+export interface SceneBuilding {
+	id: string;
+	name?: string;
+	footprint: number[][];
+	height: number;
+	position: { x: number; z: number };
+	rotation: number;
+	LwBySegment: LwSide[];
+	absorption?: Record<string, number>;
+	rooms?: Room[];
+	facades?: Record<string, FacadeBuildUp>;
+}
+
+/**
+ * Receiver: punto receptor con nombre (ventana de un vecino, límite de parcela...)
+ * - x, z: posición en planta (m, coordenadas de escena); height: altura sobre el suelo (m)
+ */
+export interface Receiver {
+	id: string;
+	name: string;
+	x: number;
+	z: number;
+	height: number;
+}
+
+// Scene: conjunto de edificios que emiten y se apantallan entre sí, fuentes independientes (puntuales,
+// lineales y superficiales) y receptores donde se evalúa el nivel
+export interface Scene {
+	buildings: SceneBuilding[];
+	sources?: StandaloneSource[];
+	receivers?: Receiver[];
+}
+
+// campos de colorOverlaySchema (app/schemas.ts); colorSpread y propagation van por banda (red|yellow|green|blue)
 export interface ColorOverlayParams {
 	overlaySmoothSize?: number;
+	overlaySmoothSigma?: number;
 	redMaxDist?: number;
 	yellowMaxDist?: number;
 	redThreshold?: number;
 	yellowThreshold?: number;
 	greenThreshold?: number;
 	blueThreshold?: number;
-	// permitir extras
-	[key: string]: any;
+	yellowSpread?: number;
+	redRadius?: number;
+	redDecay?: number;
+	lateralSpreadFactor?: number;
+	lateralTaper?: number;
+	colorSpread?: Record<string, number>;
+	propagation?: { bandDecay?: Record<string, number>; bandMaxDist?: Record<string, number>; lateralMultiplier?: Record<string, number> };
+	normalize?: "per_meter" | "per_sample" | "none";
+	redSampleSpacing?: number;
+	dotThreshold?: number;
+	redFalloffScale?: number;
+	__emitPoints?: unknown;
 }
 
+// campos de paramsSchema (app/schemas.ts)
 export interface Params {
+	spread?: number;
+	maxRedDist?: number;
+	powerFactor?: number;
+	weakSpotSpread?: number;
+	weakSpotRadius?: number;
+	weakSpotBoost?: number;
+	weakSpotDirX?: number;
+	weakSpotDirZ?: number;
+	preSmoothSize?: number;
+	preSmoothSigma?: number;
+	finalSmoothSize?: number;
+	finalSmoothSigma?: number;
+	dotThreshold?: number;
 	sourceSpacing?: number;
 	cellSize?: number;
 	redWeight?: number;
@@ -26,15 +104,35 @@ export interface Params {
 	dbPerMeter?: number;
 	inputMode?: "Lw" | "Lp";
 	colorOverlay?: ColorOverlayParams;
-	// permitir campos adicionales
-	[key: string]: any;
+	meteo?: Meteo;
+	ground?: GroundConfig;
+	sourceHeight?: number;
+	reflections?: ReflectionOptions & { enabled?: boolean };
+	contours?: { enabled?: boolean; levels?: number[] };
+	mapMode?: "level" | "dominant" | "compliance";
+	compliance?: ComplianceConfig;
+	indicator?: NoiseIndicator;
+	renderMode?: "data" | "plotly";
+	attenuation?: AttenuationOptions;
+	Df_room?: number;
+	Df_out?: number;
+	Rmap?: Record<string, number>;
+	Lp_in_map?: Record<string, number>;
+	invertNormals?: boolean;
 }
 
+// campos de configSchema (app/schemas.ts); ver BuildingConfig en app/config.ts
 export interface Config {
 	areaSize?: number;
 	resolution?: number;
-	// permitir extras
-	[key: string]: any;
+	measureH?: number;
+	footprint?: number;
+	footprintDepth?: number;
+	buildingHeight?: number;
+	id?: number | string;
+	pos?: { x: number; z: number };
+	size?: number;
+	LwBySegment?: LwSide[];
 }
 
 // nuevo: tipo Segment básico usado por extractor de perímetro / gradientes
@@ -44,6 +142,12 @@ export interface Segment {
 	p2: [number, number];
 }
 
+// Niveles Lp (dB) de una banda de octava sobre la misma grilla que HeatmapResult
+export interface OctaveBandGrid {
+	freq: number;
+	z: (number | null)[][];
+}
+
 // HeatmapResult ahora incluye hover (matriz de texto para tooltip por celda)
 export interface HeatmapResult {
 	x: number[];
@@ -52,4 +156,20 @@ export interface HeatmapResult {
 	min: number;
 	max: number;
 	hover?: string[][];
+	bands?: OctaveBandGrid[];
+	contributions?: FacadeContributionGrid;
+}
+
+/**
+ * FacadeContributionGrid: energía de cada fachada por celda (misma grilla que HeatmapResult)
+ * - keys: "<id edificio>/segment-i"; labels: texto para la UI
+ * - energy[k][fila][columna]: energía lineal de la fachada k (la suma sobre k es 10^(z/10))
+ * - dominant: índice en keys de la fachada dominante (-1 sin datos); margin: dB sobre la segunda
+ */
+export interface FacadeContributionGrid {
+	keys: string[];
+	labels: string[];
+	energy: number[][][];
+	dominant: number[][];
+	margin: number[][];
 }
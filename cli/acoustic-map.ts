@@ -0,0 +1,162 @@
+#!/usr/bin/env node
+/**
+ * acoustic-map
+ *
+ * CLI para generar mapas sin abrir el navegador (snapshots de regresión en CI, barridos de parámetros):
+ *
+ *   acoustic-map render escena.json [--out resultado.json] [--png mapa.png] [--csv grilla.csv]
+ *                [--engine calculator|scene] [--resolution N] [--area m] [--png-size px]
+ *                [--set clave.ruta=valor ...] [--verbose]
+ *
+ *  - escena.json: ver readSceneFile (app/map/SceneFile.ts): edificios con footprint, height, LwBySegment,
+ *    y opcionalmente params / config.
+ *  - --engine: "calculator" (por defecto, MapBuilder / AcousticCalculator) o "scene" (mapa de la vista 3D).
+ *  - --resolution / --area: celdas por lado y lado del área (m); --resolution sustituye a un params.cellSize de la escena.
+ *  - --set: sobrescribe un parámetro de params (valor JSON o texto), p. ej. --set colorOverlay.redMaxDist=3;
+ *    se valida con el resto de la escena y las claves desconocidas se avisan por stderr
+ *  - --verbose: deja pasar los registros de depuración de los motores (por defecto se silencian).
+ *  - --out: JSON con x, y, z, min y max; --csv: grilla en formato largo; --png: mapa rasterizado
+ *    (renderHeatmapRGBA + encodePNG, sin dependencias nativas). Con el motor calculator z (y el PNG) es el
+ *    LAeq de las bandas de octava, que van también al JSON (bands) y al CSV (una columna por banda).
+ *
+ * Códigos de salida: 0 correcto, 1 error al leer o calcular, 2 uso incorrecto.
+ * Compilar con `npm run cli:build`; ejecutar con `npm run cli -- render ...` o el binario acoustic-map.
+ */
+import * as fs from "fs";
+import * as zlib from "zlib";
+import { computeSceneFileHeatmap, HeatmapEngine, heatmapToCSV, heatmapToJSON, readSceneFile } from "../app/map/SceneFile";
+import { renderHeatmapRGBA } from "../app/map/HeatmapTexture";
+import { encodePNG } from "../app/lib/png";
+import { formatIssues } from "../app/lib/schema";
+import { HeatmapResult } from "../app/types";
+
+const USAGE = `Uso: acoustic-map render <escena.json> [--out resultado.json] [--png mapa.png] [--csv grilla.csv]
+       [--engine calculator|scene] [--resolution N] [--area m] [--png-size px] [--set clave=valor ...] [--verbose]`;
+
+class UsageError extends Error {}
+
+type CliOptions = {
+	scenePath: string;
+	out?: string;
+	png?: string;
+	csv?: string;
+	engine: HeatmapEngine;
+	resolution?: number;
+	area?: number;
+	pngSize?: number;
+	sets: [string, unknown][];
+	verbose: boolean;
+};
+
+const positiveNumber = (flag: string, v: string | undefined) => {
+	const n = Number(v);
+	if (!(n > 0)) throw new UsageError(`${flag} necesita un número positivo (recibido "${v ?? ""}")`);
+	return n;
+};
+
+function parseArgs(argv: string[]): CliOptions {
+	const [command, scenePath, ...rest] = argv;
+	if (command !== "render" || !scenePath || scenePath.startsWith("--")) throw new UsageError(USAGE);
+	const opts: CliOptions = { scenePath, engine: "calculator", sets: [], verbose: false };
+	for (let k = 0; k < rest.length; k++) {
+		const flag = rest[k];
+		const value = rest[k + 1];
+		const take = () => {
+			if (value === undefined || value.startsWith("--")) throw new UsageError(`${flag} necesita un valor`);
+			k++;
+			return value;
+		};
+		switch (flag) {
+			case "--verbose": opts.verbose = true; break;
+			case "--out": opts.out = take(); break;
+			case "--png": opts.png = take(); break;
+			case "--csv": opts.csv = take(); break;
+			case "--engine": {
+				const engine = take();
+				if (engine !== "calculator" && engine !== "scene") throw new UsageError(`--engine debe ser "calculator" o "scene" (recibido "${engine}")`);
+				opts.engine = engine;
+				break;
+			}
+			case "--resolution": opts.resolution = Math.round(positiveNumber(flag, take())); break;
+			case "--area": opts.area = positiveNumber(flag, take()); break;
+			case "--png-size": opts.pngSize = Math.round(positiveNumber(flag, take())); break;
+			case "--set": {
+				const assignment = take();
+				const eq = assignment.indexOf("=");
+				if (eq <= 0) throw new UsageError(`--set espera clave=valor (recibido "${assignment}")`);
+				const raw = assignment.slice(eq + 1);
+				let parsed: unknown = raw;
+				try { parsed = JSON.parse(raw); } catch (e) {}
+				opts.sets.push([assignment.slice(0, eq), parsed]);
+				break;
+			}
+			default: throw new UsageError(`Opción desconocida: ${flag}\n${USAGE}`);
+		}
+	}
+	return opts;
+}
+
+// asigna value en obj siguiendo "a.b.c" (crea los objetos intermedios)
+function setPath(obj: Record<string, any>, path: string, value: unknown) {
+	const keys = path.split(".");
+	let cur = obj;
+	keys.slice(0, -1).forEach(key => {
+		cur[key] = cur[key] && typeof cur[key] === "object" ? { ...cur[key] } : {};
+		cur = cur[key];
+	});
+	cur[keys[keys.length - 1]] = value;
+}
+
+function render(opts: CliOptions) {
+	const json = JSON.parse(fs.readFileSync(opts.scenePath, "utf8"));
+	// --set se aplica sobre los params del fichero, antes de validar la escena
+	if (opts.sets.length && json && typeof json === "object" && !Array.isArray(json)) {
+		json.params = { ...(json.params ?? {}) };
+		for (const [path, value] of opts.sets) setPath(json.params, path, value);
+	}
+	const file = readSceneFile(json);
+	// --resolution manda sobre un params.cellSize del fichero (el motor calculator lo antepone a la resolución)
+	if (opts.resolution) {
+		file.config.resolution = opts.resolution;
+		delete file.params.cellSize;
+	}
+	if (opts.area) file.config.areaSize = opts.area;
+	for (const w of file.warnings) process.stderr.write(`aviso: ${formatIssues([w])}\n`);
+
+	// los motores registran su depuración con console.log: fuera de --verbose no se mezcla con la salida
+	const log = console.log;
+	if (!opts.verbose) console.log = () => {};
+	const t0 = Date.now();
+	let heatmap: HeatmapResult;
+	try {
+		heatmap = computeSceneFileHeatmap(file, opts.engine);
+	} finally {
+		console.log = log;
+	}
+	const ms = Date.now() - t0;
+
+	if (opts.out) fs.writeFileSync(opts.out, JSON.stringify(heatmapToJSON(heatmap, file, opts.engine)));
+	if (opts.csv) fs.writeFileSync(opts.csv, heatmapToCSV(heatmap));
+	if (opts.png) {
+		const building = { LwBySegment: file.scene.buildings.flatMap(b => b.LwBySegment) };
+		const { data, width, height } = renderHeatmapRGBA(heatmap, file.params, building, opts.pngSize);
+		fs.writeFileSync(opts.png, encodePNG(data, width, height, bytes => zlib.deflateSync(bytes)));
+	}
+
+	const fmt = (v: number) => (Number.isFinite(v) ? v.toFixed(1) : "—");
+	process.stderr.write(`${opts.scenePath}: ${file.scene.buildings.length} edificio(s), ${heatmap.x.length}×${heatmap.y.length} celdas, ` +
+		`${opts.engine === "calculator" ? "LAeq" : "Lp"} ${fmt(heatmap.min)} – ${fmt(heatmap.max)} dB (${opts.engine}, ${ms} ms)\n`);
+}
+
+function main(argv: string[]) {
+	try {
+		render(parseArgs(argv));
+		return 0;
+	} catch (e) {
+		const message = e instanceof Error ? e.message : String(e);
+		process.stderr.write(`acoustic-map: ${message}\n`);
+		return e instanceof UsageError ? 2 : 1;
+	}
+}
+
+process.exitCode = main(process.argv.slice(2));
@@ -1,13 +1,17 @@
+import { fixupConfigRules } from "@eslint/compat";
+import { FlatCompat } from "@eslint/eslintrc";
 import { defineConfig, globalIgnores } from "eslint/config";
-import nextVitals from "eslint-config-next/core-web-vitals";
-import nextTs from "eslint-config-next/typescript";
+
+// eslint-config-next 14 solo publica configuración eslintrc: se carga con FlatCompat (sus plugins se
+// resuelven desde el propio paquete) y fixupConfigRules adapta las reglas a la API de ESLint 9.
+const compat = new FlatCompat({
+  baseDirectory: import.meta.dirname,
+  resolvePluginsRelativeTo: `${import.meta.dirname}/node_modules/eslint-config-next`,
+});
 
 const eslintConfig = defineConfig([
-  ...nextVitals,
-  ...nextTs,
-  // Override default ignores of eslint-config-next.
+  ...fixupConfigRules(compat.extends("next/core-web-vitals")),
   globalIgnores([
-    // Default ignores of eslint-config-next:
     ".next/**",
     "out/**",
     "build/**",